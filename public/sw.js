@@ -9,11 +9,14 @@
  * - Cache images with Stale While Revalidate strategy
  * - Active meal caching: Only cache live data for the currently cooking meal
  * - Recipe image caching for active meal
+ * - Page precaching on demand (e.g., a shopping list saved for offline use)
+ * - Recipe pages fall back to /recipes/offline, which reads the IndexedDB mirror
  *
  * The app sends SET_ACTIVE_MEAL when cooking starts, enabling targeted caching.
+ * Shopping list data lives in IndexedDB; only its page shell is cached here.
  */
 
-const CACHE_NAME = "sunday-dinner-v2";
+const CACHE_NAME = "sunday-dinner-v3";
 const MEAL_CACHE_NAME = "sunday-dinner-meal";
 
 // Track active meal ID (persisted via IndexedDB in main thread)
@@ -24,6 +27,7 @@ const PRECACHE_ASSETS = [
   "/",
   "/manifest.json",
   "/live", // Live meal selection page
+  "/recipes/offline", // Recipe box fallback, rendered from IndexedDB
   // Note: Next.js generates hashed filenames for CSS/JS
   // These will be cached on first fetch instead of precache
 ];
@@ -34,6 +38,7 @@ const CACHE_STRATEGIES = {
   document: "network-first",
   image: "stale-while-revalidate",
   api: "network-only",
+  recipe: "network-first-then-offline-page",
   "active-meal": "network-first-then-cache", // Special strategy for active meal
 };
 
@@ -107,6 +112,9 @@ self.addEventListener("fetch", (event) => {
     case "active-meal":
       event.respondWith(activeMealStrategy(request, url));
       break;
+    case "network-first-then-offline-page":
+      event.respondWith(recipePageStrategy(request, url));
+      break;
     case "network-only":
     default:
       // Let the browser handle it normally
@@ -156,6 +164,11 @@ function getStrategy(request, url) {
     return CACHE_STRATEGIES.image;
   }
 
+  // Recipe box and recipe pages - fall back to the offline recipe page
+  if (isDocument(request) && getRecipePageId(pathname) !== undefined) {
+    return CACHE_STRATEGIES.recipe;
+  }
+
   // HTML documents - network first
   if (
     destination === "document" ||
@@ -168,6 +181,30 @@ function getStrategy(request, url) {
   return CACHE_STRATEGIES.api;
 }
 
+/**
+ * Whether a request is for an HTML page
+ */
+function isDocument(request) {
+  return (
+    request.destination === "document" ||
+    request.headers.get("accept")?.includes("text/html")
+  );
+}
+
+/**
+ * Match the recipe box (/recipes) or a recipe (/recipes/<id>)
+ *
+ * @returns null for the recipe box, the recipe ID for a recipe page, or
+ *   undefined for any other path (new, edit, the offline page itself)
+ */
+function getRecipePageId(pathname) {
+  if (pathname === "/recipes" || pathname === "/recipes/") {
+    return null;
+  }
+  const match = pathname.match(/^\/recipes\/([0-9a-f-]{36})\/?$/i);
+  return match ? match[1] : undefined;
+}
+
 /**
  * Cache First: Return cached response, fetch only if not cached
  */
@@ -228,6 +265,35 @@ async function staleWhileRevalidate(request, cacheName) {
   return cached || fetchPromise || new Response("Offline", { status: 503 });
 }
 
+/**
+ * Recipe Page Strategy: Network first, then cache, then the offline page
+ *
+ * Recipe pages are server-rendered, so a page never visited can't be cached.
+ * Rather than the app shell, redirect to /recipes/offline, which renders the
+ * same recipe from the IndexedDB mirror.
+ */
+async function recipePageStrategy(request, url) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) {
+      return cached;
+    }
+
+    const recipeId = getRecipePageId(url.pathname);
+    const target = recipeId
+      ? `/recipes/offline?id=${encodeURIComponent(recipeId)}`
+      : "/recipes/offline";
+    return Response.redirect(new URL(target, self.location.origin).href, 302);
+  }
+}
+
 /**
  * Active Meal Strategy: Cache only for the current cooking meal
  *
@@ -389,6 +455,26 @@ self.addEventListener("message", (event) => {
       }
       break;
 
+    case "PRECACHE_PAGES":
+      // Cache page shells so they open without a connection
+      if (payload?.urls) {
+        caches
+          .open(CACHE_NAME)
+          .then((cache) =>
+            Promise.all(
+              payload.urls.map((url) =>
+                cache.add(url).catch(() => {
+                  // Ignore precache failures
+                })
+              )
+            )
+          )
+          .then(() => {
+            event.ports[0]?.postMessage({ success: true });
+          });
+      }
+      break;
+
     default:
       // Unknown message type
       break;
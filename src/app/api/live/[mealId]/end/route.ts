@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { recordExecutionEvents } from "@/lib/services/timeline/execution-log";
+import { z } from "zod";
+
+const EndRequestSchema = z.object({
+  endedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * POST /api/live/[mealId]/end
+ * End cooking - stop the live session and mark the meal complete
+ *
+ * Request body: { endedAt?: ISO datetime }
+ *
+ * endedAt lets an "end cooking" queued offline keep the moment it was
+ * pressed, so the session length and execution log stay right. Ending a session that has already ended succeeds without changes, so a
+ * replayed offline "end cooking" is harmless.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ mealId: string }> }
+) {
+  const { mealId } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = EndRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { data: timeline, error: timelineError } = await supabase
+      .from("timelines")
+      .select("id, is_running, started_at")
+      .eq("meal_id", mealId)
+      .single();
+
+    if (timelineError || !timeline) {
+      return NextResponse.json(
+        { error: "Timeline not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!timeline.is_running) {
+      if (!timeline.started_at) {
+        return NextResponse.json(
+          { error: "Cooking session not started" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ success: true, alreadyEnded: true });
+    }
+
+    // Never in the future or before the session started, whatever the client's clock says
+    const now = Date.now();
+    const requested = parsed.data.endedAt ? new Date(parsed.data.endedAt).getTime() : now;
+    const startedAt = timeline.started_at ? new Date(timeline.started_at as string).getTime() : 0;
+    const endedAt = new Date(Math.max(Math.min(requested, now), startedAt)).toISOString();
+
+    const { error: updateError } = await supabase
+      .from("timelines")
+      .update({
+        is_running: false,
+        current_task_id: null,
+        paused_at: null,
+        updated_at: new Date(now).toISOString(),
+      })
+      .eq("id", timeline.id);
+
+    if (updateError) {
+      console.error("Error ending cooking:", updateError);
+      return NextResponse.json(
+        { error: "Failed to end cooking session" },
+        { status: 500 }
+      );
+    }
+
+    await supabase.from("meals").update({ status: "complete" }).eq("id", mealId);
+    await recordExecutionEvents(supabase, mealId, [{ type: "session_ended", occurredAt: endedAt }]);
+
+    return NextResponse.json({
+      success: true,
+      alreadyEnded: false,
+      endedAt,
+    });
+  } catch (error) {
+    console.error("Error ending cooking:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
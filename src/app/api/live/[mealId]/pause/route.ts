@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { recordExecutionEvents } from "@/lib/services/timeline/execution-log";
+import { z } from "zod";
+
+const PauseRequestSchema = z.object({
+  pausedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * POST /api/live/[mealId]/pause
+ * Pause the live timeline (doorbell, power blip)
+ *
+ * Request body: { pausedAt?: ISO datetime }
+ *
+ * pausedAt lets a pause queued offline keep the moment it was pressed.
+ * Pausing an already paused or ended session succeeds without changes, so
+ * a replayed pause is harmless.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ mealId: string }> }
+) {
+  const { mealId } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = PauseRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { data: timeline, error: timelineError } = await supabase
+      .from("timelines")
+      .select("id, is_running, started_at, paused_at")
+      .eq("meal_id", mealId)
+      .single();
+
+    if (timelineError || !timeline) {
+      return NextResponse.json(
+        { error: "Timeline not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!timeline.started_at) {
+      return NextResponse.json(
+        { error: "Cooking session not started" },
+        { status: 400 }
+      );
+    }
+
+    if (!timeline.is_running) {
+      return NextResponse.json({ success: true, notRunning: true });
+    }
+
+    if (timeline.paused_at) {
+      return NextResponse.json({
+        success: true,
+        alreadyPaused: true,
+        pausedAt: timeline.paused_at,
+      });
+    }
+
+    // Never in the future, whatever the client's clock says
+    const now = Date.now();
+    const requested = parsed.data.pausedAt ? new Date(parsed.data.pausedAt).getTime() : now;
+    const pausedAt = new Date(Math.min(requested, now)).toISOString();
+
+    const { error: updateError } = await supabase
+      .from("timelines")
+      .update({ paused_at: pausedAt })
+      .eq("id", timeline.id);
+
+    if (updateError) {
+      console.error("Error pausing cooking:", updateError);
+      return NextResponse.json(
+        { error: "Failed to pause cooking session" },
+        { status: 500 }
+      );
+    }
+
+    await recordExecutionEvents(supabase, mealId, [{ type: "session_paused", occurredAt: pausedAt }]);
+
+    return NextResponse.json({
+      success: true,
+      alreadyPaused: false,
+      pausedAt,
+    });
+  } catch (error) {
+    console.error("Error pausing cooking:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
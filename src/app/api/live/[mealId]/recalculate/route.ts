@@ -1,18 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
 import { createAIService } from "@/lib/services/ai";
-import type { Timeline } from "@/types";
+import { createMealService } from "@/lib/services/meal";
+import {
+  getBehindMinutes,
+  getMinutesFromServe,
+  getRecalculationOptions,
+} from "@/lib/services/timeline";
+import type { RecalculationPlan, RecalculationSuggestion, Timeline } from "@/types";
 
 interface RecalculateRequest {
   timeline: Timeline;
   currentTime: string;
   context?: string;
+  /** Ask Claude too (slower); leave off for the local options alone */
+  includeAiSuggestion?: boolean;
 }
 
+/** How long to wait for Claude before ranking without its suggestion */
+const AI_SUGGESTION_TIMEOUT_MS = 10_000;
+
 /**
  * POST /api/live/[mealId]/recalculate
  *
- * Request a recalculation suggestion from Claude when running behind schedule.
- * Returns a single suggestion for how to adjust the timeline.
+ * Build ranked ways to catch up when running behind schedule.
+ * Returns a RecalculationPlan: two or three options, each with a preview
+ * of the new task times and a validator pass.
+ *
+ * By default only the deterministic options are built, so the cook sees
+ * them at once. With includeAiSuggestion the client asks again in the
+ * background: Claude's suggestion is ranked with the deterministic
+ * options when it arrives within AI_SUGGESTION_TIMEOUT_MS and does at
+ * least as well as the local engine; otherwise the same deterministic
+ * options come back.
  */
 export async function POST(
   request: NextRequest,
@@ -37,32 +57,73 @@ export async function POST(
       );
     }
 
-    // Call Claude for recalculation suggestion
     const aiService = createAIService();
-    const suggestion = await aiService.suggestRecalculation(
-      body.timeline,
-      body.currentTime,
-      body.context
-    );
+    const meal = await createMealService(supabase, aiService).get(mealId);
+    if (!meal) {
+      return NextResponse.json(
+        { error: "Meal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Claude's suggestion is one option among several, so its failure isn't fatal
+    let aiSuggestion: RecalculationSuggestion | undefined;
+    if (body.includeAiSuggestion) {
+      try {
+        aiSuggestion = await withTimeout(
+          aiService.suggestRecalculation(body.timeline, body.currentTime, body.context),
+          AI_SUGGESTION_TIMEOUT_MS
+        );
+      } catch (err) {
+        console.warn("AI recalculation unavailable, using local options:", err);
+      }
+    }
 
-    return NextResponse.json(suggestion);
+    const { tasks } = body.timeline;
+    const nowMinutes = getMinutesFromServe(body.currentTime, meal.serveTime);
+    const behindMinutes = getBehindMinutes(tasks, nowMinutes);
+
+    const plan: RecalculationPlan = {
+      behindMinutes,
+      options: getRecalculationOptions({
+        tasks,
+        nowMinutes,
+        behindMinutes,
+        serveTime: meal.serveTime,
+        recipes: meal.recipes
+          .filter(({ recipe }) => recipe.id)
+          .map(({ recipe }) => ({ id: recipe.id!, name: recipe.name, category: recipe.category })),
+        profile: meal.kitchenProfile,
+        helpers: meal.helpers,
+        aiSuggestion,
+      }),
+    };
+
+    return NextResponse.json(plan);
   } catch (err) {
     console.error("Recalculation error:", err);
 
-    // Handle specific error types
     if (err instanceof Error) {
-      if (err.message.includes("API")) {
-        return NextResponse.json(
-          { error: "AI service temporarily unavailable" },
-          { status: 503 }
-        );
-      }
       return NextResponse.json({ error: err.message }, { status: 500 });
     }
 
     return NextResponse.json(
-      { error: "Failed to generate recalculation suggestion" },
+      { error: "Failed to generate recalculation options" },
       { status: 500 }
     );
   }
 }
+
+/**
+ * Reject if the promise hasn't settled within the given time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
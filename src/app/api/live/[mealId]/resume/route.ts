@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { getPausedMinutes, getPauseShifts } from "@/lib/services/timeline/pause";
+import { recordExecutionEvents } from "@/lib/services/timeline/execution-log";
+import type { TaskStatus } from "@/types";
+import { z } from "zod";
+
+const ResumeRequestSchema = z.object({
+  resumedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * POST /api/live/[mealId]/resume
+ * Resume a paused timeline, moving pending tasks later by the paused time
+ *
+ * Request body: { resumedAt?: ISO datetime }
+ *
+ * The shift is measured from the stored pausedAt, so it's applied once:
+ * resuming a session that isn't paused succeeds without changes, and a
+ * replayed resume can't push tasks twice.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ mealId: string }> }
+) {
+  const { mealId } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = ResumeRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { data: timeline, error: timelineError } = await supabase
+      .from("timelines")
+      .select("id, paused_at")
+      .eq("meal_id", mealId)
+      .single();
+
+    if (timelineError || !timeline) {
+      return NextResponse.json(
+        { error: "Timeline not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!timeline.paused_at) {
+      return NextResponse.json({ success: true, alreadyResumed: true, tasks: [] });
+    }
+
+    const now = Date.now();
+    const requested = parsed.data.resumedAt ? new Date(parsed.data.resumedAt).getTime() : now;
+    const resumedAt = new Date(Math.min(requested, now));
+    const pausedMinutes = getPausedMinutes(timeline.paused_at as string, resumedAt);
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from("tasks")
+      .select("id, status, start_time_minutes, end_time_minutes")
+      .eq("timeline_id", timeline.id)
+      .eq("status", "pending");
+
+    if (tasksError) {
+      return NextResponse.json(
+        { error: "Failed to load tasks" },
+        { status: 500 }
+      );
+    }
+
+    const shifts = getPauseShifts(
+      (tasks || []).map((t) => ({
+        id: t.id as string,
+        status: t.status as TaskStatus,
+        startTimeMinutes: t.start_time_minutes as number,
+        endTimeMinutes: t.end_time_minutes as number,
+      })),
+      pausedMinutes
+    );
+
+    // Clear the pause first, matching the pausedAt just read, so two
+    // devices resuming at once can't both shift the tasks
+    const { data: claimed, error: updateError } = await supabase
+      .from("timelines")
+      .update({ paused_at: null })
+      .eq("id", timeline.id)
+      .eq("paused_at", timeline.paused_at)
+      .select("id");
+
+    if (updateError) {
+      console.error("Error resuming cooking:", updateError);
+      return NextResponse.json(
+        { error: "Failed to resume cooking session" },
+        { status: 500 }
+      );
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json({ success: true, alreadyResumed: true, tasks: [] });
+    }
+
+    for (const shift of shifts) {
+      const { error: shiftError } = await supabase
+        .from("tasks")
+        .update({
+          start_time_minutes: shift.startTimeMinutes,
+          end_time_minutes: shift.endTimeMinutes,
+        })
+        .eq("id", shift.id);
+
+      if (shiftError) {
+        console.error("Error shifting task on resume:", shiftError);
+        return NextResponse.json(
+          { error: "Failed to update task times" },
+          { status: 500 }
+        );
+      }
+    }
+
+    await recordExecutionEvents(supabase, mealId, [
+      {
+        type: "session_resumed",
+        occurredAt: resumedAt.toISOString(),
+        data: {
+          pausedMinutes,
+          tasks: shifts.map((shift) => ({
+            taskId: shift.id,
+            startTimeMinutes: shift.startTimeMinutes,
+            endTimeMinutes: shift.endTimeMinutes,
+          })),
+        },
+      },
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      alreadyResumed: false,
+      resumedAt: resumedAt.toISOString(),
+      pausedMinutes,
+      tasks: shifts,
+    });
+  } catch (error) {
+    console.error("Error resuming cooking:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase/client";
+import { DEFAULT_AUTO_TIMER_MODE } from "@/lib/timers/auto-timers";
 
 /**
  * GET /api/live/[mealId]
@@ -89,16 +90,22 @@ export async function GET(
           endTimeMinutes: t.end_time_minutes,
           requiresOven: t.requires_oven,
           ovenTemp: t.oven_temp,
+          attention: t.attention ?? undefined,
+          assigneeId: t.assignee_id ?? undefined,
           dependsOn: t.depends_on,
+          prepDaysBefore: t.prep_days_before || undefined,
           status: t.status,
           completedAt: t.completed_at,
           notes: t.notes,
+          updatedAt: t.updated_at,
         })),
         hasConflicts: timeline.has_conflicts || false,
         conflicts: timeline.conflicts || [],
         isRunning: timeline.is_running || false,
         startedAt: timeline.started_at,
         currentTaskId: timeline.current_task_id,
+        pausedAt: timeline.paused_at ?? undefined,
+        timers: timeline.timers ?? [],
         createdAt: timeline.created_at,
         updatedAt: timeline.updated_at,
       },
@@ -107,6 +114,9 @@ export async function GET(
         name: meal.name,
         serveTime: meal.serve_time,
         guestCount: meal.guest_count,
+        status: meal.status,
+        helpers: meal.helpers ?? [],
+        autoTimerMode: meal.auto_timer_mode ?? DEFAULT_AUTO_TIMER_MODE,
       },
       recipeNames,
     };
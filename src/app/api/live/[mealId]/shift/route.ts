@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { recordExecutionEvents } from "@/lib/services/timeline/execution-log";
+import { RescheduleReasonSchema } from "@/types";
+import { z } from "zod";
+
+const ShiftRequestSchema = z.object({
+  tasks: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        startTimeMinutes: z.number().int(),
+        endTimeMinutes: z.number().int(),
+        durationMinutes: z.number().int().positive().optional(),
+      })
+    )
+    .min(1),
+  reason: RescheduleReasonSchema.optional(),
+});
+
+/**
+ * POST /api/live/[mealId]/shift
+ * Apply a schedule change ("I'm behind" shift, accepted suggestion, undo)
+ *
+ * Request body: { tasks: [{ id, startTimeMinutes, endTimeMinutes, durationMinutes? }], reason? }
+ *
+ * Times are absolute, so a replayed shift lands the tasks in the same
+ * place instead of shifting them twice. The last shift to arrive wins.
+ * The reason (default "shift") is kept in the execution log.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ mealId: string }> }
+) {
+  const { mealId } = await params;
+
+  try {
+    const body = await request.json();
+    const parsed = ShiftRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { data: timeline, error: timelineError } = await supabase
+      .from("timelines")
+      .select("id")
+      .eq("meal_id", mealId)
+      .single();
+
+    if (timelineError || !timeline) {
+      return NextResponse.json(
+        { error: "Timeline not found" },
+        { status: 404 }
+      );
+    }
+
+    // Every task must belong to this meal's timeline
+    const taskIds = parsed.data.tasks.map((t) => t.id);
+    const { data: ownTasks, error: tasksError } = await supabase
+      .from("tasks")
+      .select("id")
+      .eq("timeline_id", timeline.id)
+      .in("id", taskIds);
+
+    if (tasksError) {
+      return NextResponse.json(
+        { error: "Failed to load tasks" },
+        { status: 500 }
+      );
+    }
+
+    if ((ownTasks || []).length !== new Set(taskIds).size) {
+      return NextResponse.json(
+        { error: "Task does not belong to this meal" },
+        { status: 403 }
+      );
+    }
+
+    for (const task of parsed.data.tasks) {
+      const { error: updateError } = await supabase
+        .from("tasks")
+        .update({
+          start_time_minutes: task.startTimeMinutes,
+          end_time_minutes: task.endTimeMinutes,
+          ...(task.durationMinutes !== undefined && { duration_minutes: task.durationMinutes }),
+        })
+        .eq("id", task.id);
+
+      if (updateError) {
+        console.error("Error shifting task:", updateError);
+        return NextResponse.json(
+          { error: "Failed to update task times" },
+          { status: 500 }
+        );
+      }
+    }
+
+    await recordExecutionEvents(supabase, mealId, [
+      {
+        type: "tasks_rescheduled",
+        data: {
+          reason: parsed.data.reason ?? "shift",
+          tasks: parsed.data.tasks.map((t) => ({
+            taskId: t.id,
+            startTimeMinutes: t.startTimeMinutes,
+            endTimeMinutes: t.endTimeMinutes,
+          })),
+        },
+      },
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      updated: parsed.data.tasks.length,
+    });
+  } catch (error) {
+    console.error("Error shifting tasks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
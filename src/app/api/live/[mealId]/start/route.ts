@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase/client";
+import { recordExecutionEvents } from "@/lib/services/timeline/execution-log";
 
 /**
  * POST /api/live/[mealId]/start
  * Start cooking - anchor timeline to real time
+ *
+ * The execution log gets the planned task times and serve time as they
+ * stand now, before live changes overwrite them, for the post-meal report.
  */
 export async function POST(
   _request: Request,
@@ -71,6 +75,31 @@ export async function POST(
         .eq("id", firstTask.id);
     }
 
+    const [{ data: plannedTasks }, { data: meal }] = await Promise.all([
+      supabase
+        .from("tasks")
+        .select("id, step_key, start_time_minutes, end_time_minutes")
+        .eq("timeline_id", timeline.id),
+      supabase.from("meals").select("serve_time").eq("id", mealId).single(),
+    ]);
+
+    await recordExecutionEvents(supabase, mealId, [
+      {
+        type: "session_started",
+        occurredAt: startedAt,
+        data: {
+          serveTime: meal?.serve_time,
+          plannedTasks: (plannedTasks || []).map((t) => ({
+            taskId: t.id as string,
+            stepKey: (t.step_key as string | null) ?? undefined,
+            startTimeMinutes: t.start_time_minutes as number,
+            endTimeMinutes: t.end_time_minutes as number,
+          })),
+        },
+      },
+      ...(firstTask ? [{ type: "task_started" as const, taskId: firstTask.id, occurredAt: startedAt }] : []),
+    ]);
+
     return NextResponse.json({
       success: true,
       startedAt,
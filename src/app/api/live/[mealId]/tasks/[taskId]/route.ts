@@ -1,15 +1,24 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase/client";
 import { z } from "zod";
+import { getTaskStatusErrorCode, updateTaskStatus } from "@/lib/services/timeline";
 
 const UpdateTaskSchema = z.object({
   status: z.enum(["pending", "in_progress", "completed", "skipped"]).optional(),
+  completedAt: z.string().datetime({ offset: true }).optional(),
   notes: z.string().optional(),
+  startTimeMinutes: z.number().int().optional(),
+  endTimeMinutes: z.number().int().optional(),
+  baseUpdatedAt: z.string().datetime({ offset: true }).optional(),
 });
 
 /**
  * PATCH /api/live/[mealId]/tasks/[taskId]
- * Update task status (checkoff, undo, skip)
+ * Update a task (checkoff, undo, skip, notes, times)
+ *
+ * With baseUpdatedAt (offline replay), a task changed since that version
+ * is left alone and the response is 409 with the current server copy:
+ * { error, conflict: { current: TaskConflictSnapshot } }
  */
 export async function PATCH(
   request: Request,
@@ -28,105 +37,21 @@ export async function PATCH(
       );
     }
 
-    const { status, notes } = parsed.data;
+    const result = await updateTaskStatus(supabase, mealId, taskId, parsed.data);
 
-    // Verify task belongs to a timeline for this meal
-    const { data: task, error: taskError } = await supabase
-      .from("tasks")
-      .select("id, timeline_id, status, timelines!inner(meal_id)")
-      .eq("id", taskId)
-      .single();
-
-    if (taskError || !task) {
-      return NextResponse.json(
-        { error: "Task not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check meal ownership - timelines can be object or array depending on join
-    const timelines = task.timelines as unknown as { meal_id: string } | { meal_id: string }[];
-    const timeline = Array.isArray(timelines) ? timelines[0] : timelines;
-    if (!timeline || timeline.meal_id !== mealId) {
-      return NextResponse.json(
-        { error: "Task does not belong to this meal" },
-        { status: 403 }
-      );
-    }
-
-    // Build update object
-    const updateData: Record<string, unknown> = {};
-
-    if (status !== undefined) {
-      updateData.status = status;
-
-      // Set or clear completed_at based on status
-      if (status === "completed") {
-        updateData.completed_at = new Date().toISOString();
-      } else if (status === "pending") {
-        updateData.completed_at = null;
-      }
-    }
-
-    if (notes !== undefined) {
-      updateData.notes = notes;
-    }
-
-    // Update task
-    const { data: updatedTask, error: updateError } = await supabase
-      .from("tasks")
-      .update(updateData)
-      .eq("id", taskId)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error("Error updating task:", updateError);
+    if (!result.success) {
       return NextResponse.json(
-        { error: "Failed to update task" },
-        { status: 500 }
+        {
+          error: result.message,
+          ...(result.current && { conflict: { current: result.current } }),
+        },
+        { status: getTaskStatusErrorCode(result.error) }
       );
     }
 
-    // If completed, advance current_task_id to next pending task
-    if (status === "completed") {
-      const { data: nextTask } = await supabase
-        .from("tasks")
-        .select("id")
-        .eq("timeline_id", task.timeline_id)
-        .eq("status", "pending")
-        .order("start_time_minutes", { ascending: true })
-        .limit(1)
-        .single();
-
-      if (nextTask) {
-        await supabase
-          .from("timelines")
-          .update({ current_task_id: nextTask.id })
-          .eq("id", task.timeline_id);
-
-        // Set next task to in_progress
-        await supabase
-          .from("tasks")
-          .update({ status: "in_progress" })
-          .eq("id", nextTask.id);
-      } else {
-        // No more pending tasks - cooking complete!
-        await supabase
-          .from("timelines")
-          .update({ current_task_id: null })
-          .eq("id", task.timeline_id);
-      }
-    }
-
     return NextResponse.json({
       success: true,
-      task: {
-        id: updatedTask.id,
-        status: updatedTask.status,
-        completedAt: updatedTask.completed_at,
-        notes: updatedTask.notes,
-      },
+      task: result.task,
     });
   } catch (error) {
     console.error("Error updating task:", error);
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { getTimerEvents, recordExecutionEvents } from "@/lib/services/timeline/execution-log";
+import { mergeSharedTimers } from "@/lib/timers/shared-timers";
+import { SharedTimerSchema, type SharedTimer } from "@/types";
+import { z } from "zod";
+
+const TimersRequestSchema = z.object({
+  timers: z.array(SharedTimerSchema).max(100),
+});
+
+/** Tries before giving up when other devices keep saving at the same time */
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * PUT /api/live/[mealId]/timers
+ * Merge a device's kitchen timers into the meal's shared timers
+ *
+ * Request body: { timers: SharedTimer[] }
+ * Response: { success: true, timers: SharedTimer[] } (the merged list)
+ *
+ * Timers are merged by id, newest updatedAt winning, so a device never
+ * drops timers it hasn't heard about yet. The save only lands if the
+ * timeline is unchanged since it was read; otherwise the merge is redone
+ * on the newer list. Timers started, finished or dismissed since the
+ * stored list go to the execution log.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ mealId: string }> }
+) {
+  const { mealId } = await params;
+
+  try {
+    const body = await request.json();
+    const parsed = TimersRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const { data: timeline, error: timelineError } = await supabase
+        .from("timelines")
+        .select("id, timers, updated_at")
+        .eq("meal_id", mealId)
+        .single();
+
+      if (timelineError || !timeline) {
+        return NextResponse.json(
+          { error: "Timeline not found" },
+          { status: 404 }
+        );
+      }
+
+      const stored = (timeline.timers as SharedTimer[] | null) ?? [];
+      const timers = mergeSharedTimers(stored, parsed.data.timers);
+
+      const { data: saved, error: updateError } = await supabase
+        .from("timelines")
+        .update({ timers })
+        .eq("id", timeline.id)
+        .eq("updated_at", timeline.updated_at)
+        .select("id");
+
+      if (updateError) {
+        console.error("Error saving timers:", updateError);
+        return NextResponse.json(
+          { error: "Failed to save timers" },
+          { status: 500 }
+        );
+      }
+
+      // Another device saved in between; merge again on its list
+      if (!saved || saved.length === 0) continue;
+
+      await recordExecutionEvents(supabase, mealId, getTimerEvents(stored, timers));
+
+      return NextResponse.json({
+        success: true,
+        timers,
+      });
+    }
+
+    return NextResponse.json(
+      { error: "Timers are changing on another device. Try again." },
+      { status: 409 }
+    );
+  } catch (error) {
+    console.error("Error saving timers:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
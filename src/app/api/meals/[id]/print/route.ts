@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createMealService } from "@/lib/services/meal";
+import { createTimelineService } from "@/lib/services/timeline";
+import { buildMealPack } from "@/lib/pdf";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/meals/[id]/print
+ * Print pack PDF: run sheet, prep list and a quick card per recipe
+ *
+ * Query params:
+ * - tz: IANA time zone for clock times (default: the server's)
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id: mealId } = await params;
+    const timeZone = new URL(request.url).searchParams.get("tz") ?? undefined;
+
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone: ${timeZone}` },
+        { status: 400 }
+      );
+    }
+
+    const aiService = createAIService();
+    const [meal, timeline] = await Promise.all([
+      createMealService(supabase, aiService).get(mealId),
+      createTimelineService(supabase, aiService).getByMealId(mealId),
+    ]);
+
+    if (!meal) {
+      return NextResponse.json(
+        { error: "Meal not found" },
+        { status: 404 }
+      );
+    }
+
+    const pdf = buildMealPack({ meal, timeline, timeZone });
+    const filename = meal.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename || "meal"}-print-pack.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error building print pack:", error);
+    return NextResponse.json(
+      { error: "Failed to build print pack" },
+      { status: 500 }
+    );
+  }
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
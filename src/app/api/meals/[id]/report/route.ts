@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createMealService } from "@/lib/services/meal";
+import {
+  buildExecutionReport,
+  createTimelineService,
+  getExecutionEvents,
+} from "@/lib/services/timeline";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/meals/[id]/report
+ * Post-meal report: planned against actual times from the execution log
+ *
+ * Returns an ExecutionReport. 404 until the meal has a timeline that was
+ * cooked in live mode.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id: mealId } = await params;
+    const aiService = createAIService();
+
+    const [meal, timeline, events] = await Promise.all([
+      createMealService(supabase, aiService).get(mealId),
+      createTimelineService(supabase, aiService).getByMealId(mealId),
+      getExecutionEvents(supabase, mealId),
+    ]);
+
+    if (!meal) {
+      return NextResponse.json(
+        { error: "Meal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!timeline?.startedAt) {
+      return NextResponse.json(
+        { error: "This meal hasn't been cooked yet" },
+        { status: 404 }
+      );
+    }
+
+    const report = buildExecutionReport({
+      mealId,
+      serveTime: meal.serveTime,
+      tasks: timeline.tasks,
+      recipes: meal.recipes
+        .filter(({ recipe }) => recipe.id)
+        .map(({ recipe }) => ({ id: recipe.id!, name: recipe.name })),
+      events,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error building meal report:", error);
+    return NextResponse.json(
+      { error: "Failed to build meal report" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { supabase } from "@/lib/supabase/client";
 import { createAIService } from "@/lib/services/ai";
 import { createMealService } from "@/lib/services/meal";
 import { createShareService } from "@/lib/services/share";
+import { AutoTimerModeSchema, HelpersSchema, KitchenProfileSchema } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -35,6 +36,9 @@ export async function GET(_request: Request, { params }: RouteParams) {
 /**
  * PATCH /api/meals/[id] - Update a meal
  *
+ * Accepts name, serveTime, guestCount, status, kitchenProfile, helpers and
+ * autoTimerMode.
+ * Tasks assigned to removed helpers go back to the host.
  * When serve time changes, share link expirations are recalculated.
  */
 export async function PATCH(request: Request, { params }: RouteParams) {
@@ -44,11 +48,47 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     const aiService = createAIService();
     const mealService = createMealService(supabase, aiService);
 
+    let kitchenProfile;
+    if (body.kitchenProfile !== undefined) {
+      const parsed = KitchenProfileSchema.safeParse(body.kitchenProfile);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { message: parsed.error.issues[0]?.message ?? "Invalid kitchen profile" },
+          { status: 400 }
+        );
+      }
+      kitchenProfile = parsed.data;
+    }
+
+    let helpers;
+    if (body.helpers !== undefined) {
+      const parsed = HelpersSchema.safeParse(body.helpers);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { message: parsed.error.issues[0]?.message ?? "Invalid helpers" },
+          { status: 400 }
+        );
+      }
+      helpers = parsed.data;
+    }
+
+    let autoTimerMode;
+    if (body.autoTimerMode !== undefined) {
+      const parsed = AutoTimerModeSchema.safeParse(body.autoTimerMode);
+      if (!parsed.success) {
+        return NextResponse.json({ message: "Invalid auto timer mode" }, { status: 400 });
+      }
+      autoTimerMode = parsed.data;
+    }
+
     const meal = await mealService.update(id, {
       name: body.name,
       serveTime: body.serveTime,
       guestCount: body.guestCount ? { total: body.guestCount } : undefined,
       status: body.status,
+      kitchenProfile,
+      helpers,
+      autoTimerMode,
     });
 
     // Update share link expirations if serve time changed
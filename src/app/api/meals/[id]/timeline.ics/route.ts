@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createMealService } from "@/lib/services/meal";
+import { createShoppingService } from "@/lib/services/shopping";
+import {
+  buildTimelineCalendar,
+  createTimelineService,
+  listTimelineVersionTasks,
+} from "@/lib/services/timeline";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/meals/[id]/timeline.ics
+ * The meal's timeline as an iCalendar file
+ *
+ * Works as a one-off import or a calendar subscription. Event UIDs are
+ * stable across regenerates, so importing again updates the same events,
+ * and events only earlier versions had are sent as cancelled.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id: mealId } = await params;
+    const aiService = createAIService();
+
+    const [meal, timeline, shoppingList] = await Promise.all([
+      createMealService(supabase, aiService).get(mealId),
+      createTimelineService(supabase, aiService).getByMealId(mealId),
+      // The shopping reminder can do without the list
+      createShoppingService(supabase)
+        .getByMealId(mealId)
+        .catch((error) => {
+          console.error("Error fetching shopping list for calendar:", error);
+          return null;
+        }),
+    ]);
+
+    if (!meal) {
+      return NextResponse.json(
+        { error: "Meal not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!timeline) {
+      return NextResponse.json(
+        { error: "Timeline not found for this meal" },
+        { status: 404 }
+      );
+    }
+
+    // Without the history, dropped steps just stay in subscribed calendars
+    const pastTasks = await listTimelineVersionTasks(supabase, timeline.id!).catch((error) => {
+      console.error("Error fetching timeline versions for calendar:", error);
+      return [];
+    });
+
+    const calendar = buildTimelineCalendar({
+      mealId,
+      mealName: meal.name,
+      serveTime: meal.serveTime,
+      tasks: timeline.tasks,
+      recipes: meal.recipes
+        .filter(({ recipe }) => recipe.id)
+        .map(({ recipe }) => ({ id: recipe.id!, name: recipe.name })),
+      shoppingList,
+      pastTasks,
+      updatedAt: timeline.updatedAt,
+    });
+
+    const filename = meal.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename || "timeline"}.ics"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting timeline calendar:", error);
+    return NextResponse.json(
+      { error: "Failed to export timeline" },
+      { status: 500 }
+    );
+  }
+}
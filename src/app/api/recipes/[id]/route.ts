@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createRecipeService } from "@/lib/services/recipe";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -12,45 +14,14 @@ export async function GET(_request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
 
-    const { data: recipe, error } = await supabase
-      .from("recipes")
-      .select("*")
-      .eq("id", id)
-      .single();
+    const recipeService = createRecipeService(supabase, createAIService());
+    const recipe = await recipeService.get(id);
 
-    if (error) {
-      if (error.code === "PGRST116") {
-        return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
-      }
-      console.error("Failed to fetch recipe:", error);
-      return NextResponse.json(
-        { error: "Failed to fetch recipe" },
-        { status: 500 }
-      );
+    if (!recipe) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
     }
 
-    // Transform to match Recipe interface
-    const transformedRecipe = {
-      id: recipe.id,
-      name: recipe.name,
-      description: recipe.description ?? undefined,
-      sourceType: recipe.source_type,
-      category: recipe.category ?? undefined,
-      source: recipe.source ?? undefined,
-      sourceImageUrl: recipe.source_image_url ?? undefined,
-      servingSize: recipe.serving_size,
-      prepTimeMinutes: recipe.prep_time_minutes,
-      cookTimeMinutes: recipe.cook_time_minutes,
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      notes: recipe.notes ?? undefined,
-      uncertainFields: recipe.uncertain_fields ?? undefined,
-      extractionConfidence: recipe.extraction_confidence ?? undefined,
-      createdAt: recipe.created_at,
-      updatedAt: recipe.updated_at,
-    };
-
-    return NextResponse.json(transformedRecipe);
+    return NextResponse.json(recipe);
   } catch (error) {
     console.error("Recipe fetch failed:", error);
     return NextResponse.json(
@@ -62,47 +33,23 @@ export async function GET(_request: Request, { params }: RouteParams) {
 
 /**
  * DELETE /api/recipes/[id] - Delete a recipe
+ *
+ * Returns 404 if the recipe doesn't exist, 409 if it is still used by a meal.
  */
 export async function DELETE(_request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
 
-    // First get the recipe to check if it has an image to delete
-    const { data: recipe } = await supabase
-      .from("recipes")
-      .select("source_image_url")
-      .eq("id", id)
-      .single();
+    const recipeService = createRecipeService(supabase, createAIService());
+    const result = await recipeService.delete(id);
 
-    // Delete the recipe
-    const { error: deleteError } = await supabase
-      .from("recipes")
-      .delete()
-      .eq("id", id);
-
-    if (deleteError) {
-      console.error("Failed to delete recipe:", deleteError);
+    if (!result.success) {
       return NextResponse.json(
-        { error: "Failed to delete recipe" },
-        { status: 500 }
+        { error: result.message },
+        { status: result.error === "not_found" ? 404 : 409 }
       );
     }
 
-    // Try to delete the image from storage if it exists
-    if (recipe?.source_image_url) {
-      try {
-        // Extract path from URL
-        const url = new URL(recipe.source_image_url);
-        const pathMatch = url.pathname.match(/\/storage\/v1\/object\/public\/recipe-images\/(.+)/);
-        if (pathMatch?.[1]) {
-          await supabase.storage.from("recipe-images").remove([pathMatch[1]]);
-        }
-      } catch {
-        // Ignore image deletion errors - recipe is already deleted
-        console.warn("Failed to delete recipe image, continuing...");
-      }
-    }
-
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Recipe deletion failed:", error);
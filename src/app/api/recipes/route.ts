@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { supabase } from "@/lib/supabase/client";
-import { RecipeCategorySchema } from "@/types";
+import { createAIService } from "@/lib/services/ai";
+import { createRecipeService } from "@/lib/services/recipe";
+import type { ListRecipesOptions } from "@/contracts/recipe-service";
+import { RecipeCategorySchema, type RecipeCategory } from "@/types";
 
 /**
  * Recipe creation request schema (subset of full Recipe)
@@ -58,56 +61,12 @@ export async function POST(request: Request) {
 
     const recipeData = parsed.data;
 
-    // Insert recipe into Supabase
-    const { data: recipe, error: insertError } = await supabase
-      .from("recipes")
-      .insert({
-        name: recipeData.name,
-        description: recipeData.description ?? null,
-        source_type: recipeData.sourceType ?? "manual",
-        category: recipeData.category ?? "other",
-        source: recipeData.source ?? null,
-        source_image_url: recipeData.sourceImageUrl ?? null,
-        serving_size: recipeData.servingSize,
-        prep_time_minutes: recipeData.prepTimeMinutes ?? null,
-        cook_time_minutes: recipeData.cookTimeMinutes ?? null,
-        ingredients: recipeData.ingredients,
-        instructions: recipeData.instructions,
-        notes: recipeData.notes ?? null,
-        uncertain_fields: recipeData.uncertainFields ?? [],
-        extraction_confidence: recipeData.extractionConfidence ?? null,
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error("Failed to insert recipe:", insertError);
-      return NextResponse.json(
-        { error: `Failed to save recipe: ${insertError.message}` },
-        { status: 500 }
-      );
-    }
-
-    // Transform database response to match Recipe interface
-    const savedRecipe = {
-      id: recipe.id,
-      name: recipe.name,
-      description: recipe.description ?? undefined,
-      sourceType: recipe.source_type,
-      category: recipe.category ?? undefined,
-      source: recipe.source ?? undefined,
-      sourceImageUrl: recipe.source_image_url ?? undefined,
-      servingSize: recipe.serving_size,
-      prepTimeMinutes: recipe.prep_time_minutes,
-      cookTimeMinutes: recipe.cook_time_minutes,
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      notes: recipe.notes ?? undefined,
-      uncertainFields: recipe.uncertain_fields ?? undefined,
-      extractionConfidence: recipe.extraction_confidence ?? undefined,
-      createdAt: recipe.created_at,
-      updatedAt: recipe.updated_at,
-    };
+    const recipeService = createRecipeService(supabase, createAIService());
+    const savedRecipe = await recipeService.create({
+      ...recipeData,
+      prepTimeMinutes: recipeData.prepTimeMinutes ?? null,
+      cookTimeMinutes: recipeData.cookTimeMinutes ?? null,
+    });
 
     return NextResponse.json(savedRecipe, { status: 201 });
   } catch (error) {
@@ -131,64 +90,18 @@ export async function GET(request: Request) {
     const sourceType = searchParams.get("sourceType");
     const category = searchParams.get("category");
 
-    // Build query
-    let query = supabase
-      .from("recipes")
-      .select("*")
-      .order("created_at", { ascending: false });
-
-    // Apply filters
-    if (search) {
-      query = query.ilike("name", `%${search}%`);
-    }
-    if (sourceType) {
-      query = query.eq("source_type", sourceType);
-    }
-    if (category) {
-      query = query.eq("category", category);
-    }
-    if (limit) {
-      query = query.limit(parseInt(limit, 10));
-    }
-    if (offset) {
-      query = query.range(
-        parseInt(offset, 10),
-        parseInt(offset, 10) + (parseInt(limit ?? "50", 10) - 1)
-      );
-    }
-
-    const { data: recipes, error: listError } = await query;
-
-    if (listError) {
-      console.error("Failed to list recipes:", listError);
-      return NextResponse.json(
-        { error: "Failed to fetch recipes" },
-        { status: 500 }
-      );
-    }
-
-    // Transform to match Recipe interface
-    const transformedRecipes = recipes.map((recipe) => ({
-      id: recipe.id,
-      name: recipe.name,
-      description: recipe.description ?? undefined,
-      sourceType: recipe.source_type,
-      category: recipe.category ?? undefined,
-      source: recipe.source ?? undefined,
-      sourceImageUrl: recipe.source_image_url ?? undefined,
-      servingSize: recipe.serving_size,
-      prepTimeMinutes: recipe.prep_time_minutes,
-      cookTimeMinutes: recipe.cook_time_minutes,
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      notes: recipe.notes ?? undefined,
-      uncertainFields: recipe.uncertain_fields ?? undefined,
-      extractionConfidence: recipe.extraction_confidence ?? undefined,
-      createdAt: recipe.created_at,
-      updatedAt: recipe.updated_at,
-    }));
-
-    return NextResponse.json(transformedRecipes);
+    const recipeService = createRecipeService(supabase, createAIService());
+    const recipes = await recipeService.list({
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+      search: search ?? undefined,
+      sourceType: sourceType
+        ? (sourceType as ListRecipesOptions["sourceType"])
+        : undefined,
+      category: category ? (category as RecipeCategory) : undefined,
+    });
+
+    return NextResponse.json(recipes);
   } catch (error) {
     console.error("Recipe list failed:", error);
     return NextResponse.json(
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { supabase } from "@/lib/supabase/client";
+import { createShareService } from "@/lib/services/share";
+import { getTaskStatusErrorCode, updateTaskStatus } from "@/lib/services/timeline";
+import { canCheckoffSharedTask } from "@/lib/services/execution/assignees";
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+    taskId: string;
+  }>;
+}
+
+/**
+ * Request body schema for helper checkoff
+ */
+const HelperTaskUpdateSchema = z.object({
+  status: z.enum(["pending", "completed", "skipped"]),
+});
+
+/**
+ * PATCH /api/share/[token]/tasks/[taskId] - Helper checkoff via share link
+ *
+ * Only helper links may update tasks; a helper link naming a helper may
+ * only update that helper's tasks. Viewer links get 403.
+ *
+ * Request body: { status: "pending" | "completed" | "skipped" }
+ * Response: { success: true, task: { id, status, completedAt, notes } }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { token, taskId } = await params;
+
+    // Validate UUID format
+    const uuidResult = z.string().uuid().safeParse(token);
+    if (!uuidResult.success) {
+      return NextResponse.json(
+        { error: "invalid", message: "Invalid share link format" },
+        { status: 400 }
+      );
+    }
+
+    // Validate token and role
+    const shareService = createShareService(supabase);
+    const validation = await shareService.validateToken(token);
+
+    if (!validation.valid || !validation.mealId) {
+      const status = validation.error === "expired" ? 410 : 404;
+      return NextResponse.json(
+        {
+          error: validation.error ?? "invalid",
+          message: validation.message ?? "Invalid share link",
+        },
+        { status }
+      );
+    }
+
+    const access = { role: validation.role ?? "viewer", helperId: validation.helperId };
+    if (access.role !== "helper") {
+      return NextResponse.json(
+        { error: "forbidden", message: "This share link is view-only" },
+        { status: 403 }
+      );
+    }
+
+    // Body is checked only once the link may update tasks
+    const body = await request.json().catch(() => null);
+    const parsed = HelperTaskUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "invalid", message: parsed.error.issues[0]?.message ?? "Invalid input" },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateTaskStatus(supabase, validation.mealId, taskId, parsed.data, (task) =>
+      canCheckoffSharedTask(access, { assigneeId: task.assigneeId ?? undefined })
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, message: result.message },
+        { status: getTaskStatusErrorCode(result.error) }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      task: result.task,
+    });
+  } catch (error) {
+    console.error("Failed to update shared task:", error);
+    return NextResponse.json(
+      { error: "server_error", message: "Failed to update task" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,19 +2,21 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { supabase } from "@/lib/supabase/client";
 import { createShareService } from "@/lib/services/share";
+import { ShareLinkOptionsSchema } from "@/types";
 
 /**
  * Request body schema for generating a share link
  */
 const GenerateShareLinkSchema = z.object({
   mealId: z.string().uuid("Invalid meal ID format"),
+  options: ShareLinkOptionsSchema.optional(),
 });
 
 /**
  * POST /api/share - Generate a share link for a meal
  *
- * Request body: { mealId: string }
- * Response: { token: string, url: string, expiresAt: string }
+ * Request body: { mealId: string, options?: { role?: "viewer" | "helper", helperId?: string } }
+ * Response: { token: string, url: string, expiresAt: string, role: string, helperId?: string }
  */
 export async function POST(request: Request) {
   try {
@@ -36,7 +38,11 @@ export async function POST(request: Request) {
 
     // Create service and generate link
     const shareService = createShareService(supabase);
-    const result = await shareService.generateLink(parsed.data.mealId, baseUrl);
+    const result = await shareService.generateLink(
+      parsed.data.mealId,
+      baseUrl,
+      parsed.data.options
+    );
 
     return NextResponse.json(result, { status: 201 });
   } catch (error) {
@@ -50,6 +56,13 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof Error && error.message.includes("Helper not found")) {
+      return NextResponse.json(
+        { message: "Helper not found on this meal" },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { message: error instanceof Error ? error.message : "Failed to generate share link" },
       { status: 500 }
@@ -45,6 +45,8 @@ export async function GET(_request: Request, { params }: RouteParams) {
 /**
  * PATCH /api/shopping/[id]
  * Update a shopping list item (check, uncheck, add notes)
+ *
+ * Each action sets an absolute value, so repeating it is harmless.
  */
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
@@ -82,6 +84,13 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 
     return NextResponse.json(updatedList);
   } catch (error) {
+    // Not retryable: lets a replayed offline check give up cleanly
+    if (error instanceof Error && error.message === "Shopping list not found") {
+      return NextResponse.json(
+        { error: "Shopping list not found" },
+        { status: 404 }
+      );
+    }
     console.error("Error updating shopping list:", error);
     return NextResponse.json(
       { error: "Failed to update shopping list" },
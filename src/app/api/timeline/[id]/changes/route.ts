@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createTimelineService } from "@/lib/services/timeline";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/timeline/[id]/changes - What the last regeneration changed
+ *
+ * Response: TimelineDiff (added, removed and changed tasks, matched by
+ * step key). 404 until the timeline has been regenerated.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const aiService = createAIService();
+    const timelineService = createTimelineService(supabase, aiService);
+
+    const diff = await timelineService.getChanges(id);
+    if (!diff) {
+      return NextResponse.json(
+        { message: "No earlier version of this timeline" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error("Failed to get timeline changes:", error);
+    return NextResponse.json(
+      {
+        message:
+          error instanceof Error ? error.message : "Failed to get timeline changes",
+      },
+      { status: 500 }
+    );
+  }
+}
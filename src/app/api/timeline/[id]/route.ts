@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase/client";
 import { createAIService } from "@/lib/services/ai";
+import { createMealService } from "@/lib/services/meal";
 import { createTimelineService } from "@/lib/services/timeline";
 
 interface RouteParams {
@@ -45,6 +46,10 @@ export async function GET(_request: Request, { params }: RouteParams) {
  * - { action: "updateTask", taskId, updates } - Update a single task
  * - { action: "deleteTask", taskId } - Delete a task
  * - { action: "reorderTasks", taskOrder } - Reorder tasks
+ * - { action: "applyResolution", changes } - Apply conflict resolver start times
+ *   (changes: [{ taskId, startTimeMinutes }]) and save the re-validated timeline
+ * - { action: "restoreVersion", version } - Restore an earlier version from the
+ *   history (also how the editor's undo and redo work) and re-validate it
  */
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
@@ -64,9 +69,15 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     let updated = timeline;
 
     switch (body.action) {
-      case "validate":
-        const validationResult = timelineService.validate(timeline);
+      case "validate": {
+        const meal = await createMealService(supabase, aiService).get(timeline.mealId);
+        const validationResult = timelineService.validate(
+          timeline,
+          meal?.kitchenProfile,
+          meal?.helpers
+        );
         return NextResponse.json(validationResult);
+      }
 
       case "updateTask":
         if (!body.taskId || !body.updates) {
@@ -98,6 +109,65 @@ export async function PATCH(request: Request, { params }: RouteParams) {
         updated = await timelineService.reorderTasks(id, body.taskOrder);
         break;
 
+      case "applyResolution": {
+        if (!Array.isArray(body.changes)) {
+          return NextResponse.json(
+            { message: "changes array is required" },
+            { status: 400 }
+          );
+        }
+        const startTimes = new Map<string, number>(
+          body.changes.map((c: { taskId: string; startTimeMinutes: number }) => [
+            c.taskId,
+            c.startTimeMinutes,
+          ])
+        );
+        const tasks = timeline.tasks.map((task) => {
+          const start = task.id ? startTimes.get(task.id) : undefined;
+          return typeof start === "number"
+            ? { ...task, startTimeMinutes: start, endTimeMinutes: start + task.durationMinutes }
+            : task;
+        });
+
+        const meal = await createMealService(supabase, aiService).get(timeline.mealId);
+        const result = timelineService.validate(
+          { ...timeline, tasks },
+          meal?.kitchenProfile,
+          meal?.helpers
+        );
+        updated = await timelineService.save({
+          ...timeline,
+          tasks,
+          hasConflicts: !result.isValid,
+          conflicts: result.conflicts,
+        }, "resolved");
+        break;
+      }
+
+      case "restoreVersion": {
+        if (!Number.isInteger(body.version) || body.version < 1) {
+          return NextResponse.json(
+            { message: "version number is required" },
+            { status: 400 }
+          );
+        }
+        if (timeline.isRunning) {
+          return NextResponse.json(
+            { message: "Can't restore a version while cooking" },
+            { status: 409 }
+          );
+        }
+        const restored = await timelineService.restoreVersion(id, body.version);
+        if (!restored) {
+          return NextResponse.json(
+            { message: `Version ${body.version} not found` },
+            { status: 404 }
+          );
+        }
+        updated = restored;
+        break;
+      }
+
       default:
         return NextResponse.json(
           { message: "Invalid action" },
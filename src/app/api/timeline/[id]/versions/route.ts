@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createTimelineService } from "@/lib/services/timeline";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/timeline/[id]/versions - The timeline's version history
+ *
+ * Response: TimelineVersion[] newest first, with summaries but without
+ * their tasks. Restore one with PATCH /api/timeline/[id]
+ * { action: "restoreVersion", version }.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const aiService = createAIService();
+    const timelineService = createTimelineService(supabase, aiService);
+
+    const versions = await timelineService.listVersions(id);
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error("Failed to get timeline versions:", error);
+    return NextResponse.json(
+      {
+        message:
+          error instanceof Error ? error.message : "Failed to get timeline versions",
+      },
+      { status: 500 }
+    );
+  }
+}
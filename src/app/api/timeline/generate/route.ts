@@ -3,12 +3,16 @@ import { supabase } from "@/lib/supabase/client";
 import { createAIService } from "@/lib/services/ai";
 import { createMealService } from "@/lib/services/meal";
 import { createTimelineService } from "@/lib/services/timeline";
+import { TimelineGenerationStrategySchema } from "@/types";
 
 /**
  * POST /api/timeline/generate - Generate a timeline for a meal
  *
- * Request body: { mealId: string }
+ * Request body: { mealId: string, strategy?: "ai" | "local" }
  * Response: Timeline with tasks and any conflicts
+ *
+ * With strategy "ai" (default) the local scheduler is used automatically
+ * if Claude fails; check `generatedBy` on the response.
  */
 export async function POST(request: Request) {
   try {
@@ -22,6 +26,14 @@ export async function POST(request: Request) {
       );
     }
 
+    const strategy = TimelineGenerationStrategySchema.optional().safeParse(body.strategy);
+    if (!strategy.success) {
+      return NextResponse.json(
+        { message: "strategy must be \"ai\" or \"local\"" },
+        { status: 400 }
+      );
+    }
+
     const aiService = createAIService();
     const mealService = createMealService(supabase, aiService);
     const timelineService = createTimelineService(supabase, aiService);
@@ -40,7 +52,7 @@ export async function POST(request: Request) {
     }
 
     // Generate the timeline
-    const timeline = await timelineService.generate(meal);
+    const timeline = await timelineService.generate(meal, { strategy: strategy.data });
 
     // Save to database
     const saved = await timelineService.save(timeline);
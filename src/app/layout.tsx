@@ -1,7 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import { Playfair_Display, Source_Serif_4, Source_Sans_3 } from "next/font/google";
 import { Toaster } from "@/components/ui/toast";
-import { ServiceWorkerRegister, OfflineIndicator } from "@/components/pwa";
+import { ServiceWorkerRegister, OfflineIndicator, RecipeBoxMirror } from "@/components/pwa";
 import { Header } from "@/components/layout";
 import "./globals.css";
 
@@ -65,6 +65,7 @@ export default function RootLayout({
         <Toaster />
         <ServiceWorkerRegister />
         <OfflineIndicator />
+        <RecipeBoxMirror />
       </body>
     </html>
   );
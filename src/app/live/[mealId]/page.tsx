@@ -1,33 +1,84 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { use } from "react";
-import { ArrowLeft, Play, AlertCircle, Clock } from "lucide-react";
+import {
+  ArrowLeft,
+  Play,
+  Pause,
+  AlertCircle,
+  Clock,
+  Flag,
+  CheckCircle2,
+} from "lucide-react";
 import Link from "next/link";
-import type { Timeline, TaskStatus, RecalculationSuggestion, Task } from "@/types";
+import type {
+  Timeline,
+  TaskStatus,
+  RecalculationOption,
+  Task,
+  Helper,
+  MealStatus,
+  AutoTimerMode,
+} from "@/types";
 import { useRouter } from "next/navigation";
-import { Button, showToast } from "@/components/ui";
+import {
+  Button,
+  showToast,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+  ModalClose,
+} from "@/components/ui";
 import {
   ProgressBar,
   LiveTimelineView,
   UndoToast,
+  TaskNotesModal,
   KitchenWalkthrough,
   shouldSkipWalkthrough,
   ActiveTimerBanner,
+  AutoTimerSetting,
+  TimerOffers,
   RunningBehindButton,
   LargeTextToggle,
   SyncStatusIndicator,
   OfflineBanner,
+  PresenceIndicator,
 } from "@/components/live";
-import { ExecutionState } from "@/lib/services/execution";
-import { getTimerService } from "@/lib/timers";
+import { AssigneeFilter, useAssigneeFilter } from "@/components/timeline";
+import {
+  ExecutionState,
+  buildAssigneeNames,
+  filterTasksByAssignee,
+} from "@/lib/services/execution";
+import { getPausedMinutes, getPauseShifts } from "@/lib/services/timeline/pause";
+import {
+  getTimerService,
+  useTimerSync,
+  useAutoTimers,
+  useAutoTimerMode,
+} from "@/lib/timers";
 import { requestWakeLock, releaseWakeLock } from "@/lib/wake-lock";
 import {
   useOfflineCheckoff,
+  useOfflineActions,
+  readUpdatedAt,
   setupAutoSync,
   setActiveMeal,
   clearActiveMeal,
 } from "@/lib/offline";
+import {
+  useLiveSync,
+  applyLiveSyncEvent,
+  LIVE_SYNC_CONNECTED_INTERVAL,
+  LIVE_SYNC_FALLBACK_INTERVAL,
+  type LiveSyncEvent,
+  type TaskTimeUpdate,
+} from "@/lib/realtime";
 
 interface LiveState {
   timeline: Timeline;
@@ -36,14 +87,64 @@ interface LiveState {
     name: string;
     serveTime: string;
     guestCount: number;
+    status: MealStatus;
+    helpers: Helper[];
+    autoTimerMode: AutoTimerMode;
   };
   recipeNames: Record<string, string>;
 }
 
+/**
+ * Start/end times (and changed durations) of tasks whose schedule differs from before
+ */
+function getChangedTaskTimes(before: Task[], after: Task[]): TaskTimeUpdate[] {
+  return after.flatMap((task) => {
+    const original = before.find((t) => t.id === task.id);
+    if (
+      !original ||
+      (original.startTimeMinutes === task.startTimeMinutes &&
+        original.endTimeMinutes === task.endTimeMinutes &&
+        original.durationMinutes === task.durationMinutes)
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: task.id!,
+        startTimeMinutes: task.startTimeMinutes,
+        endTimeMinutes: task.endTimeMinutes,
+        ...(original.durationMinutes !== task.durationMinutes && {
+          durationMinutes: task.durationMinutes,
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Save a new serve time for the meal
+ *
+ * @returns Whether the server accepted it
+ */
+async function saveServeTime(mealId: string, serveTime: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/meals/${mealId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ serveTime }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
 interface UndoAction {
   taskId: string;
   taskTitle: string;
   previousStatus: TaskStatus;
+  /** When the task was checked off */
+  checkedAt: number;
   expiresAt: number;
 }
 
@@ -58,7 +159,9 @@ export default function LivePage({
   const [liveState, setLiveState] = useState<LiveState | null>(null);
   const [suggestionUndo, setSuggestionUndo] = useState<{
     previousTasks: Task[];
-    suggestion: RecalculationSuggestion;
+    /** Serve time to go back to, when the adjustment moved it */
+    previousServeTime?: string;
+    label: string;
     expiresAt: number;
   } | null>(null);
   const [loading, setLoading] = useState(true);
@@ -68,6 +171,15 @@ export default function LivePage({
   const [showWalkthrough, setShowWalkthrough] = useState(false);
   const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
   const [isStarting, setIsStarting] = useState(false);
+  const [showEndConfirm, setShowEndConfirm] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
+  const [isPausing, setIsPausing] = useState(false);
+  const [notesTaskId, setNotesTaskId] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useAssigneeFilter(mealId);
+  const [autoTimerMode, setAutoTimerMode] = useAutoTimerMode(
+    mealId,
+    liveState?.meal.autoTimerMode
+  );
 
   // Offline-aware checkoff hook
   const { checkoff: offlineCheckoff } = useOfflineCheckoff({
@@ -75,6 +187,13 @@ export default function LivePage({
     onQueued: () => showToast.info("Saved offline - will sync when connected"),
   });
 
+  // Offline-aware notes, skips, shifts, pause/resume and end of cooking
+  const { updateNotes, skipTask, shiftTasks, endCooking, pauseCooking, resumeCooking } =
+    useOfflineActions({
+    mealId,
+      onQueued: () => showToast.info("Saved offline - will sync when connected"),
+    });
+
   // Set up auto-sync and active meal for Service Worker
   useEffect(() => {
     // Set active meal for SW caching
@@ -86,6 +205,11 @@ export default function LivePage({
         if (result.succeeded > 0) {
           showToast.success(`Synced ${result.succeeded} change(s)`);
         }
+        if (result.conflicts > 0) {
+          showToast.error(
+            `${result.conflicts} change(s) clashed with another device. Check the sync status.`
+          );
+        }
       },
     });
 
@@ -95,9 +219,65 @@ export default function LivePage({
     };
   }, [mealId]);
 
-  // Fetch live state
+  // Apply changes pushed from other devices
+  const handleSyncEvent = useCallback((event: LiveSyncEvent) => {
+    setLiveState((prev) =>
+      prev ? { ...prev, timeline: applyLiveSyncEvent(prev.timeline, event) } : prev
+    );
+    if (event.type === "serve_time_changed") {
+      setLiveState((prev) =>
+        prev ? { ...prev, meal: { ...prev.meal, serveTime: event.serveTime } } : prev
+      );
+    } else if (event.type === "session_started") {
+      setExecutionState("cooking");
+    } else if (event.type === "session_ended") {
+      setExecutionState("completed");
+    }
+  }, []);
+
+  // Push channel to other devices, with presence
+  const {
+    status: liveSyncStatus,
+    members,
+    publish,
+  } = useLiveSync({
+    mealId,
+    member: { name: "Host", role: "host" },
+    onEvent: handleSyncEvent,
+  });
+
+  // Restore timers after a reload and share them with the meal's devices
+  useTimerSync({ mealId, sharedTimers: liveState?.timeline.timers, publish });
+
+  // Offer or start timers as hands-off tasks begin
+  const {
+    offers: timerOffers,
+    accept: acceptTimerOffer,
+    decline: declineTimerOffer,
+    cancelSince: cancelAutoTimersSince,
+  } = useAutoTimers({
+    mealId,
+    tasks: liveState?.timeline.tasks,
+    mode: autoTimerMode,
+    enabled: executionState === "cooking",
+  });
+
+  // Hold this meal's timers while the timeline is paused (here or elsewhere)
+  const pausedAt = liveState?.timeline.pausedAt;
+  const wasPaused = useRef(false);
   useEffect(() => {
-    async function fetchLiveState() {
+    const service = getTimerService();
+    if (pausedAt) {
+      void service.restore().then(() => service.holdMealTimers(mealId));
+    } else if (wasPaused.current) {
+      service.releaseMealTimers(mealId);
+    }
+    wasPaused.current = !!pausedAt;
+  }, [pausedAt, mealId]);
+
+  // Fetch live state
+  const fetchLiveState = useCallback(
+    async (isInitial: boolean) => {
       try {
         const response = await fetch(`/api/live/${mealId}`);
         if (!response.ok) {
@@ -110,18 +290,41 @@ export default function LivePage({
         // Determine execution state
         if (data.timeline.isRunning) {
           setExecutionState("cooking");
+        } else if (data.meal.status === "complete") {
+          setExecutionState("completed");
         } else {
           setExecutionState("not_started");
         }
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
+        // Background refreshes keep the last good state
+        if (isInitial) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
       } finally {
-        setLoading(false);
+        if (isInitial) {
+          setLoading(false);
+        }
       }
-    }
+    },
+    [mealId]
+  );
 
-    fetchLiveState();
-  }, [mealId]);
+  useEffect(() => {
+    fetchLiveState(true);
+  }, [fetchLiveState]);
+
+  // Poll as a fallback: often while the push channel is down, rarely while up
+  useEffect(() => {
+    const interval = setInterval(
+      () => {
+        if (navigator.onLine && document.visibilityState === "visible") {
+          fetchLiveState(false);
+        }
+      },
+      liveSyncStatus === "connected" ? LIVE_SYNC_CONNECTED_INTERVAL : LIVE_SYNC_FALLBACK_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, [liveSyncStatus, fetchLiveState]);
 
   // Manage wake lock based on execution state
   useEffect(() => {
@@ -176,6 +379,11 @@ export default function LivePage({
         };
       });
       setExecutionState("cooking");
+      void publish({
+        type: "session_started",
+        startedAt: data.startedAt,
+        currentTaskId: data.currentTaskId ?? null,
+      });
 
       showToast.success("Let's cook! Timer started. Good luck!");
     } catch (error) {
@@ -183,7 +391,7 @@ export default function LivePage({
     } finally {
       setIsStarting(false);
     }
-  }, [mealId]);
+  }, [mealId, publish]);
 
   // Handle Start Cooking
   const handleStartCooking = useCallback(async () => {
@@ -207,6 +415,21 @@ export default function LivePage({
     startCookingSession();
   };
 
+  // Base this device's next write to a task on the version the server returned
+  const setTaskUpdatedAt = useCallback((taskId: string, updatedAt: string | undefined) => {
+    if (!updatedAt) return;
+    setLiveState((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        timeline: {
+          ...prev.timeline,
+          tasks: prev.timeline.tasks.map((t) => (t.id === taskId ? { ...t, updatedAt } : t)),
+        },
+      };
+    });
+  }, []);
+
   // Handle task checkoff
   const handleCheckoff = useCallback(
     async (taskId: string) => {
@@ -241,13 +464,23 @@ export default function LivePage({
         taskId,
         taskTitle: task.title,
         previousStatus,
+        checkedAt: Date.now(),
         expiresAt: Date.now() + 30000,
       });
 
       // Persist to server (with offline fallback)
-      const result = await offlineCheckoff(taskId, "completed", {
-        completedAt: new Date().toISOString(),
-      });
+      const completedAt = new Date().toISOString();
+      const result = await offlineCheckoff(
+        taskId,
+        "completed",
+        { completedAt },
+        { baseUpdatedAt: task.updatedAt, taskTitle: task.title }
+      );
+
+      if (result.success) {
+        setTaskUpdatedAt(taskId, result.updatedAt);
+        void publish({ type: "task_status", taskId, status: "completed", completedAt });
+      }
 
       if (!result.success) {
         // Only revert if IndexedDB also failed (rare edge case)
@@ -270,14 +503,17 @@ export default function LivePage({
         showToast.error(result.error || "Failed to save. Please try again.");
       }
     },
-    [liveState, offlineCheckoff]
+    [liveState, offlineCheckoff, publish, setTaskUpdatedAt]
   );
 
   // Handle undo
   const handleUndo = useCallback(async () => {
     if (!undoAction || !liveState) return;
 
-    const { taskId, previousStatus } = undoAction;
+    const { taskId, previousStatus, checkedAt } = undoAction;
+
+    // Timers for tasks that started because of this checkoff go too
+    cancelAutoTimersSince(checkedAt);
 
     // Optimistic update
     setLiveState((prev) => {
@@ -298,17 +534,19 @@ export default function LivePage({
 
     // Persist to server
     try {
-      await fetch(`/api/live/${mealId}/tasks/${taskId}`, {
+      const response = await fetch(`/api/live/${mealId}/tasks/${taskId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ status: previousStatus }),
       });
+      setTaskUpdatedAt(taskId, await readUpdatedAt(response));
+      void publish({ type: "task_status", taskId, status: previousStatus });
 
       showToast.info("Task marked as not complete.");
     } catch {
       showToast.error("Failed to undo. Please try again.");
     }
-  }, [undoAction, liveState, mealId]);
+  }, [undoAction, liveState, mealId, publish, cancelAutoTimersSince, setTaskUpdatedAt]);
 
   // Dismiss undo toast
   const handleDismissUndo = useCallback(() => {
@@ -327,30 +565,235 @@ export default function LivePage({
       getTimerService().initAudio();
 
       // Start timer
-      getTimerService().startTimer(taskId, task.title, durationMinutes);
+      getTimerService().startTimer(taskId, task.title, durationMinutes, { mealId });
 
       showToast.info(`Timer started: ${task.title} - ${durationMinutes} minutes`);
     },
-    [liveState]
+    [liveState, mealId]
+  );
+
+  // Save the auto timer mode for everyone cooking the meal
+  const handleAutoTimerModeChange = useCallback(
+    async (mode: AutoTimerMode) => {
+      if (!(await setAutoTimerMode(mode))) {
+        showToast.error("Couldn't save the timer setting. Check your connection.");
+      }
+    },
+    [setAutoTimerMode]
   );
 
-  // Handle accepting a recalculation suggestion
-  const handleAcceptSuggestion = useCallback(
-    async (suggestion: RecalculationSuggestion, updatedTasks: Task[]) => {
+  // Handle skipping a task
+  const handleSkip = useCallback(
+    async (taskId: string) => {
       if (!liveState) return;
 
-      // Store for undo
-      setSuggestionUndo({
-        previousTasks: liveState.timeline.tasks,
-        suggestion,
-        expiresAt: Date.now() + 30000,
+      const task = liveState.timeline.tasks.find((t) => t.id === taskId);
+      if (!task || task.status === "completed" || task.status === "skipped") return;
+
+      // Optimistic update
+      const previousStatus = task.status;
+      const setStatus = (status: TaskStatus) =>
+        setLiveState((prev) => {
+          if (!prev) return prev;
+          return {
+            ...prev,
+            timeline: {
+              ...prev.timeline,
+              tasks: prev.timeline.tasks.map((t) => (t.id === taskId ? { ...t, status } : t)),
+            },
+          };
+        });
+      setStatus("skipped");
+
+      const result = await skipTask(taskId, {
+        baseUpdatedAt: task.updatedAt,
+        taskTitle: task.title,
+      });
+
+      if (result.success) {
+        setTaskUpdatedAt(taskId, result.updatedAt);
+        void publish({ type: "task_status", taskId, status: "skipped" });
+      } else {
+        setStatus(previousStatus);
+        showToast.error(result.error || "Failed to skip. Please try again.");
+      }
+    },
+    [liveState, skipTask, publish, setTaskUpdatedAt]
+  );
+
+  // Handle saving task notes
+  const handleSaveNotes = useCallback(
+    async (taskId: string, notes: string) => {
+      const task = liveState?.timeline.tasks.find((t) => t.id === taskId);
+      if (!task) return;
+
+      const result = await updateNotes(taskId, notes, {
+        baseUpdatedAt: task.updatedAt,
+        taskTitle: task.title,
+      });
+
+      if (!result.success) {
+        showToast.error(result.error || "Failed to save notes. Please try again.");
+        return;
+      }
+
+      setLiveState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          timeline: {
+            ...prev.timeline,
+            tasks: prev.timeline.tasks.map((t) =>
+              t.id === taskId
+                ? { ...t, notes: notes || undefined, updatedAt: result.updatedAt ?? t.updatedAt }
+                : t
+            ),
+          },
+        };
+      });
+    },
+    [liveState, updateNotes]
+  );
+
+  // Handle End Cooking
+  const handleEndCooking = useCallback(async () => {
+    setIsEnding(true);
+    try {
+      const endedAt = new Date().toISOString();
+      const result = await endCooking(endedAt);
+      if (!result.success) {
+        showToast.error(result.error || "Failed to end cooking. Please try again.");
+        return;
+      }
+
+      setLiveState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          timeline: {
+            ...prev.timeline,
+            isRunning: false,
+            currentTaskId: undefined,
+            pausedAt: undefined,
+          },
+        };
+      });
+      setExecutionState("completed");
+      setShowEndConfirm(false);
+      void publish({ type: "session_ended", endedAt });
+
+      showToast.success("Cooking finished. Enjoy the meal!");
+    } finally {
+      setIsEnding(false);
+    }
+  }, [endCooking, publish]);
+
+  // Handle Pause: freeze the clock
+  const handlePause = useCallback(async () => {
+    setIsPausing(true);
+    try {
+      const now = new Date().toISOString();
+      const result = await pauseCooking(now);
+      if (!result.success) {
+        showToast.error(result.error || "Failed to pause. Please try again.");
+        return;
+      }
+
+      setLiveState((prev) =>
+        prev ? { ...prev, timeline: { ...prev.timeline, pausedAt: now } } : prev
+      );
+      void publish({ type: "session_paused", pausedAt: now });
+    } finally {
+      setIsPausing(false);
+    }
+  }, [pauseCooking, publish]);
+
+  // Handle Resume: move pending tasks later by the time spent paused
+  const handleResume = useCallback(async () => {
+    if (!liveState?.timeline.pausedAt) return;
+
+    setIsPausing(true);
+    try {
+      const now = new Date().toISOString();
+      const result = await resumeCooking(now);
+      if (!result.success) {
+        showToast.error(result.error || "Failed to resume. Please try again.");
+        return;
+      }
+
+      // Same shift the server applies (see getPauseShifts)
+      const pausedMinutes = getPausedMinutes(liveState.timeline.pausedAt, now);
+      const shifts = getPauseShifts(liveState.timeline.tasks, pausedMinutes);
+      const event: LiveSyncEvent = { type: "session_resumed", resumedAt: now, tasks: shifts };
+      setLiveState((prev) =>
+        prev ? { ...prev, timeline: applyLiveSyncEvent(prev.timeline, event) } : prev
+      );
+      void publish(event);
+
+      if (pausedMinutes > 0) {
+        showToast.info(`Resumed. Upcoming tasks moved ${pausedMinutes} min later.`);
+      }
+    } finally {
+      setIsPausing(false);
+    }
+  }, [liveState, resumeCooking, publish]);
+
+  // Handle accepting a recalculation option
+  const handleAcceptOption = useCallback(
+    async (option: RecalculationOption) => {
+      if (!liveState) return;
+
+      const previousTasks = liveState.timeline.tasks;
+      const previousServeTime = liveState.meal.serveTime;
+      const skippedIds = new Set(
+        option.changes.filter((c) => c.skipped).map((c) => c.taskId)
+      );
+
+      // Take the preview's times; statuses stay as they are now, except skips
+      const planned = new Map(option.tasks.map((t) => [t.id, t]));
+      const updatedTasks = previousTasks.map((task): Task => {
+        const preview = task.id ? planned.get(task.id) : undefined;
+        if (!preview) return task;
+        return {
+          ...task,
+          startTimeMinutes: preview.startTimeMinutes,
+          endTimeMinutes: preview.endTimeMinutes,
+          durationMinutes: preview.durationMinutes,
+          status: skippedIds.has(task.id!) ? "skipped" : task.status,
+        };
       });
 
+      // Task times are relative to serve, so a new serve time must land first
+      let serveTime = previousServeTime;
+      if (option.serveTimeShiftMinutes) {
+        serveTime = new Date(
+          new Date(previousServeTime).getTime() + option.serveTimeShiftMinutes * 60000
+        ).toISOString();
+        if (!(await saveServeTime(mealId, serveTime))) {
+          showToast.error("Failed to change the serve time. Please try again.");
+          return;
+        }
+        void publish({ type: "serve_time_changed", serveTime });
+      }
+
+      // Skipped tasks are saved as skips, which this undo doesn't reverse
+      setSuggestionUndo(
+        skippedIds.size === 0
+          ? {
+              previousTasks,
+              previousServeTime: option.serveTimeShiftMinutes ? previousServeTime : undefined,
+              label: option.title,
+              expiresAt: Date.now() + 30000,
+            }
+          : null
+      );
+
       // Optimistic update
       setLiveState((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
+          meal: { ...prev.meal, serveTime },
           timeline: {
             ...prev.timeline,
             tasks: updatedTasks,
@@ -358,32 +801,35 @@ export default function LivePage({
         };
       });
 
-      showToast.success("Timeline adjusted. Undo available for 30 seconds.");
+      showToast.success(
+        skippedIds.size === 0
+          ? "Timeline adjusted. Undo available for 30 seconds."
+          : "Timeline adjusted."
+      );
+      const changed = getChangedTaskTimes(previousTasks, updatedTasks);
+      if (changed.length > 0) {
+        void publish({ type: "tasks_rescheduled", reason: "recalculation", tasks: changed });
+      }
 
-      // Persist to server
-      try {
-        for (const task of updatedTasks) {
-          const original = liveState.timeline.tasks.find((t) => t.id === task.id);
-          if (
-            original &&
-            (original.startTimeMinutes !== task.startTimeMinutes ||
-              original.endTimeMinutes !== task.endTimeMinutes)
-          ) {
-            await fetch(`/api/live/${mealId}/tasks/${task.id}`, {
-              method: "PATCH",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                startTimeMinutes: task.startTimeMinutes,
-                endTimeMinutes: task.endTimeMinutes,
-              }),
-            });
-          }
+      for (const taskId of Array.from(skippedIds)) {
+        const task = previousTasks.find((t) => t.id === taskId);
+        const result = await skipTask(taskId, {
+          baseUpdatedAt: task?.updatedAt,
+          taskTitle: task?.title,
+        });
+        if (result.success) {
+          setTaskUpdatedAt(taskId, result.updatedAt);
+          void publish({ type: "task_status", taskId, status: "skipped" });
         }
-      } catch {
-        showToast.error("Failed to save changes. Please try again.");
+      }
+
+      // Persist to server (with offline fallback)
+      const result = await shiftTasks(changed, "recalculation");
+      if (!result.success) {
+        showToast.error(result.error || "Failed to save changes. Please try again.");
       }
     },
-    [liveState, mealId]
+    [liveState, mealId, publish, shiftTasks, skipTask, setTaskUpdatedAt]
   );
 
   // Handle navigation to timeline edit
@@ -399,15 +845,7 @@ export default function LivePage({
       // Store for undo
       setSuggestionUndo({
         previousTasks: liveState.timeline.tasks,
-        suggestion: {
-          taskId: "offline-shift",
-          newStartTimeMinutes: 0,
-          description: `Shifted all pending tasks by ${shiftMinutes} minutes`,
-          tasksShifted: updatedTasks.filter(
-            (t, i) =>
-              t.startTimeMinutes !== liveState.timeline.tasks[i]?.startTimeMinutes
-          ).length,
-        },
+        label: `+${shiftMinutes} min`,
         expiresAt: Date.now() + 30000,
       });
 
@@ -424,47 +862,38 @@ export default function LivePage({
       });
 
       showToast.success(`Shifted tasks by +${shiftMinutes} min (offline mode)`);
+      const changed = getChangedTaskTimes(liveState.timeline.tasks, updatedTasks);
+      void publish({ type: "tasks_rescheduled", reason: "shift", tasks: changed });
 
-      // Try to persist when back online
-      if (navigator.onLine) {
-        try {
-          for (const task of updatedTasks) {
-            const original = liveState.timeline.tasks.find(
-              (t) => t.id === task.id
-            );
-            if (
-              original &&
-              original.startTimeMinutes !== task.startTimeMinutes
-            ) {
-              await fetch(`/api/live/${mealId}/tasks/${task.id}`, {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  startTimeMinutes: task.startTimeMinutes,
-                  endTimeMinutes: task.endTimeMinutes,
-                }),
-              });
-            }
-          }
-        } catch {
-          // Offline changes will sync later
-        }
+      // Persist now, or queue until back online
+      const result = await shiftTasks(changed, "shift");
+      if (!result.success) {
+        showToast.error(result.error || "Failed to save the shift. Please try again.");
       }
     },
-    [liveState, mealId]
+    [liveState, publish, shiftTasks]
   );
 
   // Handle undo suggestion
   const handleUndoSuggestion = useCallback(async () => {
     if (!suggestionUndo || !liveState) return;
 
-    const { previousTasks } = suggestionUndo;
+    const { previousTasks, previousServeTime } = suggestionUndo;
+
+    if (previousServeTime) {
+      if (!(await saveServeTime(mealId, previousServeTime))) {
+        showToast.error("Failed to revert. Please check manually.");
+        return;
+      }
+      void publish({ type: "serve_time_changed", serveTime: previousServeTime });
+    }
 
     // Revert local state
     setLiveState((prev) => {
       if (!prev) return prev;
       return {
         ...prev,
+        meal: { ...prev.meal, serveTime: previousServeTime ?? prev.meal.serveTime },
         timeline: {
           ...prev.timeline,
           tasks: previousTasks,
@@ -474,23 +903,15 @@ export default function LivePage({
     setSuggestionUndo(null);
 
     showToast.info("Changes reverted.");
+    const changed = getChangedTaskTimes(liveState.timeline.tasks, previousTasks);
+    void publish({ type: "tasks_rescheduled", reason: "undo", tasks: changed });
 
-    // Persist reverted state
-    try {
-      for (const task of previousTasks) {
-        await fetch(`/api/live/${mealId}/tasks/${task.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            startTimeMinutes: task.startTimeMinutes,
-            endTimeMinutes: task.endTimeMinutes,
-          }),
-        });
-      }
-    } catch {
+    // Persist reverted state (with offline fallback)
+    const result = await shiftTasks(changed, "undo");
+    if (!result.success) {
       showToast.error("Failed to revert. Please check manually.");
     }
-  }, [suggestionUndo, liveState, mealId]);
+  }, [suggestionUndo, liveState, mealId, publish, shiftTasks]);
 
   // Clear suggestion undo after expiry
   const handleDismissSuggestionUndo = useCallback(() => {
@@ -533,6 +954,8 @@ export default function LivePage({
 
   const serveTime = new Date(liveState.meal.serveTime);
   const recipeNamesMap = new Map(Object.entries(liveState.recipeNames));
+  const helpers = liveState.meal.helpers ?? [];
+  const assigneeNames = buildAssigneeNames(helpers);
 
   return (
     <div className="min-h-screen bg-neutral-50 pb-32">
@@ -567,13 +990,51 @@ export default function LivePage({
               <div className="flex items-center gap-2">
                 <SyncStatusIndicator />
                 <LargeTextToggle />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={pausedAt ? handleResume : handlePause}
+                  loading={isPausing}
+                  title={pausedAt ? "Resume cooking" : "Pause cooking"}
+                >
+                  {pausedAt ? (
+                    <Play className="h-4 w-4 mr-1" />
+                  ) : (
+                    <Pause className="h-4 w-4 mr-1" />
+                  )}
+                  {pausedAt ? "Resume" : "Pause"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowEndConfirm(true)}
+                  title="End cooking"
+                >
+                  <Flag className="h-4 w-4 mr-1" />
+                  End
+                </Button>
               </div>
             )}
           </div>
 
-          {/* Progress bar (only when cooking) */}
+          {/* Progress bar, presence and "my tasks" filter (only when cooking) */}
           {executionState === "cooking" && (
-            <ProgressBar tasks={liveState.timeline.tasks} serveTime={serveTime} />
+            <>
+              <ProgressBar tasks={liveState.timeline.tasks} serveTime={serveTime} />
+              <div className="mt-2">
+                <PresenceIndicator status={liveSyncStatus} members={members} />
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                {helpers.length > 0 && (
+                  <AssigneeFilter
+                    helpers={helpers}
+                    value={assigneeFilter}
+                    onChange={setAssigneeFilter}
+                  />
+                )}
+                <AutoTimerSetting value={autoTimerMode} onChange={handleAutoTimerModeChange} />
+              </div>
+            </>
           )}
         </div>
       </div>
@@ -612,14 +1073,65 @@ export default function LivePage({
             </p>
           </div>
         ) : (
-          // Live cooking mode
-          <LiveTimelineView
-            timeline={liveState.timeline}
-            recipeNames={recipeNamesMap}
-            serveTime={serveTime}
-            onCheckoff={handleCheckoff}
-            onStartTimer={handleStartTimer}
-          />
+          // Live cooking mode (read-only once cooking has ended)
+          <>
+            {executionState === "completed" && (
+              <div className="mb-6 flex items-center gap-3 rounded-lg border border-secondary/30 bg-secondary/5 p-4">
+                <CheckCircle2 className="h-6 w-6 text-secondary" />
+                <div className="flex-1">
+                  <p className="font-medium text-foreground">Cooking finished</p>
+                  <p className="text-sm text-neutral-600">
+                    This session has ended. Here&apos;s how the timeline played out.
+                  </p>
+                </div>
+                <Link href={`/meals/${mealId}/report`}>
+                  <Button size="sm" variant="outline">
+                    See report
+                  </Button>
+                </Link>
+              </div>
+            )}
+            {executionState === "cooking" && pausedAt && (
+              <div className="mb-6 flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+                <Pause className="h-6 w-6 text-amber-700" />
+                <div className="flex-1">
+                  <p className="font-medium text-amber-800">
+                    Paused at{" "}
+                    {new Date(pausedAt).toLocaleTimeString("en-US", {
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                  <p className="text-sm text-amber-700">
+                    The clock and timers are on hold. Resuming moves upcoming tasks later.
+                  </p>
+                </div>
+                <Button size="sm" onClick={handleResume} loading={isPausing}>
+                  Resume
+                </Button>
+              </div>
+            )}
+            {executionState === "cooking" && (
+              <TimerOffers
+                offers={timerOffers}
+                onAccept={acceptTimerOffer}
+                onDecline={declineTimerOffer}
+              />
+            )}
+            <LiveTimelineView
+              timeline={{
+                ...liveState.timeline,
+                tasks: filterTasksByAssignee(liveState.timeline.tasks, assigneeFilter),
+              }}
+              recipeNames={recipeNamesMap}
+              assigneeNames={assigneeNames}
+              serveTime={serveTime}
+              onCheckoff={handleCheckoff}
+              onStartTimer={handleStartTimer}
+              onSkip={executionState === "cooking" ? handleSkip : undefined}
+              onEditNotes={setNotesTaskId}
+            />
+          </>
         )}
       </main>
 
@@ -633,6 +1145,38 @@ export default function LivePage({
         />
       )}
 
+      {/* Task Notes Modal */}
+      <TaskNotesModal
+        task={liveState.timeline.tasks.find((t) => t.id === notesTaskId) ?? null}
+        open={notesTaskId !== null}
+        onOpenChange={(open) => !open && setNotesTaskId(null)}
+        onSave={handleSaveNotes}
+      />
+
+      {/* End Cooking confirmation */}
+      <Modal open={showEndConfirm} onOpenChange={setShowEndConfirm}>
+        <ModalContent>
+          <ModalHeader>
+            <ModalTitle className="flex items-center gap-2">
+              <Flag className="h-5 w-5" />
+              End Cooking
+            </ModalTitle>
+            <ModalDescription>
+              This stops the live session for everyone following along. Tasks
+              keep whatever status they have now.
+            </ModalDescription>
+          </ModalHeader>
+          <ModalFooter>
+            <ModalClose asChild>
+              <Button variant="ghost">Keep Cooking</Button>
+            </ModalClose>
+            <Button onClick={handleEndCooking} loading={isEnding}>
+              End Cooking
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
       {/* Undo Toast */}
       {undoAction && (
         <UndoToast
@@ -651,7 +1195,8 @@ export default function LivePage({
           mealId={mealId}
           timeline={liveState.timeline}
           serveTime={serveTime}
-          onAcceptSuggestion={handleAcceptSuggestion}
+          helpers={liveState.meal.helpers}
+          onAcceptOption={handleAcceptOption}
           onNavigateToEdit={handleNavigateToEdit}
           onOfflineShift={handleOfflineShift}
         />
@@ -660,7 +1205,7 @@ export default function LivePage({
       {/* Suggestion Undo Toast */}
       {suggestionUndo && (
         <UndoToast
-          taskTitle={`Timeline adjustment: ${suggestionUndo.suggestion.tasksShifted} task(s) shifted`}
+          taskTitle={`Timeline adjustment: ${suggestionUndo.label}`}
           onUndo={handleUndoSuggestion}
           onDismiss={handleDismissSuggestionUndo}
         />
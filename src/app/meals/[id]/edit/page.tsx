@@ -5,7 +5,7 @@ import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import { ArrowLeft } from "lucide-react";
 import { PageHeader } from "@/components/layout";
-import { MealForm } from "@/components/meals";
+import { MealForm, KitchenProfileEditor, HelpersEditor } from "@/components/meals";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,7 +14,8 @@ import type { Meal } from "@/types";
 /**
  * Edit Meal Page
  *
- * Allows editing meal name, serve time, and guest count.
+ * Allows editing meal name, serve time, guest count, and the kitchen
+ * equipment the timeline is scheduled against.
  */
 export default function EditMealPage() {
   const params = useParams();
@@ -114,6 +115,18 @@ export default function EditMealPage() {
         }}
         onSuccess={() => router.push(`/meals/${mealId}`)}
       />
+
+      <div className="mt-8">
+        <KitchenProfileEditor
+          mealId={mealId}
+          initialProfile={meal.kitchenProfile}
+          onSaved={setMeal}
+        />
+      </div>
+
+      <div className="mt-8">
+        <HelpersEditor mealId={mealId} initialHelpers={meal.helpers} onSaved={setMeal} />
+      </div>
     </div>
   );
 }
@@ -14,6 +14,7 @@ import {
   AlertTriangle,
   ChefHat,
   ClipboardList,
+  Printer,
   Share2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -403,12 +404,31 @@ export default function MealDetailPage() {
                 <>View and edit your cooking timeline.</>
               )}
             </p>
-            <Button
-              variant="secondary"
-              onClick={() => router.push(`/timeline/${mealId}`)}
-            >
-              {meal.status === "planning" ? "Generate Timeline" : "View Timeline"}
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => router.push(`/timeline/${mealId}`)}
+              >
+                {meal.status === "planning" ? "Generate Timeline" : "View Timeline"}
+              </Button>
+              <Button variant="ghost" asChild>
+                <a
+                  href={`/api/meals/${mealId}/print?tz=${encodeURIComponent(
+                    Intl.DateTimeFormat().resolvedOptions().timeZone
+                  )}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Pack
+                </a>
+              </Button>
+              {meal.status === "complete" && (
+                <Button variant="ghost" onClick={() => router.push(`/meals/${mealId}/report`)}>
+                  How It Went
+                </Button>
+              )}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -482,6 +502,7 @@ export default function MealDetailPage() {
         onOpenChange={setShowShareModal}
         mealId={mealId}
         mealName={meal.name}
+        helpers={meal.helpers}
       />
     </div>
   );
@@ -0,0 +1,331 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  ArrowLeft,
+  BarChart3,
+  ChefHat,
+  Clock,
+  GitCommitVertical,
+  ListChecks,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import type { ExecutionReport, Meal, TaskExecution } from "@/types";
+
+/**
+ * Post-Meal Report Page
+ *
+ * How cooking went against the plan: how late dinner was, which recipes
+ * slipped, the chain of tasks that set the finish, and every task's
+ * planned and actual times.
+ */
+export default function MealReportPage() {
+  const params = useParams();
+  const mealId = params.id as string;
+
+  const [meal, setMeal] = useState<Meal | null>(null);
+  const [report, setReport] = useState<ExecutionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const [mealResponse, reportResponse] = await Promise.all([
+        fetch(`/api/meals/${mealId}`),
+        fetch(`/api/meals/${mealId}/report`),
+      ]);
+      if (!mealResponse.ok) {
+        throw new Error(mealResponse.status === 404 ? "Meal not found" : "Failed to fetch meal");
+      }
+      if (!reportResponse.ok) {
+        const data = await reportResponse.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to fetch report");
+      }
+      setMeal(await mealResponse.json());
+      setReport(await reportResponse.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  }, [mealId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-8">
+        <Skeleton className="mb-6 h-6 w-32" />
+        <Skeleton className="mb-8 h-10 w-64" />
+        <div className="space-y-4">
+          <Skeleton className="h-32" />
+          <Skeleton className="h-48" />
+        </div>
+      </div>
+    );
+  }
+
+  const backLink = (
+    <Link
+      href={`/meals/${mealId}`}
+      className="mb-6 inline-flex items-center gap-2 text-sm text-neutral-600 transition-colors hover:text-foreground"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Meal
+    </Link>
+  );
+
+  // Error state
+  if (error || !meal || !report) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-8">
+        {backLink}
+        <Card variant="muted">
+          <CardContent className="p-8 text-center">
+            <p className="text-error">{error ?? "Report not available"}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Minutes relative to the planned serve time, as a clock time
+  const clockTime = (minutes: number) =>
+    formatTime(new Date(new Date(report.plannedServeTime).getTime() + minutes * 60000));
+  const recipeNames = new Map(report.recipes.map((r) => [r.recipeId, r.recipeName]));
+  const skipped = report.tasks.filter((t) => t.status === "skipped").length;
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8">
+      {backLink}
+
+      <h1 className="mb-2 font-display text-3xl font-bold text-foreground">How it went</h1>
+      <p className="mb-8 text-sm text-neutral-600">{meal.name}</p>
+
+      {/* Serving */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Serving
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report.servedAt && report.servedLateMinutes !== null ? (
+            <div className="flex items-baseline justify-between gap-4">
+              <p className="text-neutral-600">
+                Ready at{" "}
+                <span className="font-medium text-foreground">
+                  {formatTime(new Date(report.servedAt))}
+                </span>
+                , planned for {formatTime(new Date(report.plannedServeTime))}
+              </p>
+              <SlipBadge minutes={report.servedLateMinutes} />
+            </div>
+          ) : (
+            <p className="text-neutral-600">Nothing was checked off, so there&apos;s no finish time.</p>
+          )}
+          {report.finalServeTime && (
+            <p className="text-sm text-neutral-600">
+              Serve time was moved to {formatTime(new Date(report.finalServeTime))} while cooking.
+            </p>
+          )}
+          <dl className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+            <Stat label="Schedule changes" value={report.recalculations} />
+            <Stat
+              label="Pauses"
+              value={report.pauses}
+              detail={report.pausedMinutes > 0 ? `${report.pausedMinutes} min` : undefined}
+            />
+            <Stat
+              label="Timers"
+              value={report.timersStarted}
+              detail={report.timersFinished > 0 ? `${report.timersFinished} went off` : undefined}
+            />
+            <Stat label="Tasks skipped" value={skipped} />
+          </dl>
+          {!report.hasPlanSnapshot && (
+            <p className="text-xs text-neutral-500">
+              This meal was cooked before plans were recorded, so planned times include changes
+              made while cooking.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recipes */}
+      {report.recipes.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ChefHat className="h-5 w-5" />
+              Recipes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {report.recipes.map((recipe) => (
+                <li key={recipe.recipeId} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="font-medium text-foreground">{recipe.recipeName}</p>
+                    <p className="text-sm text-neutral-600">
+                      {recipe.actualEndMinutes !== undefined
+                        ? `Done ${clockTime(recipe.actualEndMinutes)}, planned ${clockTime(recipe.plannedEndMinutes)}`
+                        : "Not finished"}
+                      {recipe.worstOverrunMinutes > 0 &&
+                        ` · a step ran ${recipe.worstOverrunMinutes} min long`}
+                      {recipe.skippedCount > 0 && ` · ${recipe.skippedCount} skipped`}
+                    </p>
+                  </div>
+                  {recipe.actualEndMinutes !== undefined && (
+                    <SlipBadge minutes={recipe.slipMinutes} />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Critical path */}
+      {report.criticalPath.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCommitVertical className="h-5 w-5" />
+              What set the finish
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-sm text-neutral-600">
+              The chain of tasks that ended with the last checkoff. Each one waited on the one
+              before it.
+            </p>
+            <ol className="space-y-2">
+              {report.criticalPath.map((step) => {
+                const worst = step.taskId === report.worstStepTaskId;
+                return (
+                  <li
+                    key={step.taskId}
+                    className={cn(
+                      "flex items-center justify-between gap-4 rounded-lg px-3 py-2",
+                      worst ? "border border-amber-200 bg-amber-50" : "bg-neutral-50"
+                    )}
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">{step.title}</p>
+                      <p className="text-sm text-neutral-600">
+                        {recipeNames.get(step.recipeId) ?? "Recipe"} · done{" "}
+                        {clockTime(step.actualEndMinutes)}
+                        {worst && ` · added ${step.addedSlipMinutes} min, the most of any step`}
+                      </p>
+                    </div>
+                    <SlipBadge minutes={step.slipMinutes} />
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tasks */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Every task
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="pb-2 font-medium">Task</th>
+                <th className="pb-2 font-medium">Planned</th>
+                <th className="pb-2 font-medium">Actual</th>
+                <th className="pb-2 text-right font-medium">Finish</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {report.tasks.map((task) => (
+                <tr key={task.taskId}>
+                  <td className="py-2 pr-3 text-foreground">{task.title}</td>
+                  <td className="py-2 pr-3 whitespace-nowrap text-neutral-600">
+                    {clockTime(task.plannedStartMinutes)}–{clockTime(task.plannedEndMinutes)}
+                  </td>
+                  <td className="py-2 pr-3 whitespace-nowrap text-neutral-600">
+                    {formatActual(task, clockTime)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {task.endSlipMinutes !== undefined && (
+                      <SlipBadge minutes={task.endSlipMinutes} />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.tasks.length === 0 && (
+            <p className="flex items-center gap-2 text-sm text-neutral-600">
+              <BarChart3 className="h-4 w-4" />
+              No tasks were recorded.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+function formatActual(task: TaskExecution, clockTime: (minutes: number) => string): string {
+  if (task.status === "skipped") return "Skipped";
+  if (task.actualEndMinutes === undefined) return "Not done";
+  const start = task.actualStartMinutes !== undefined ? `${clockTime(task.actualStartMinutes)}–` : "";
+  return `${start}${clockTime(task.actualEndMinutes)}`;
+}
+
+/**
+ * Minutes late (or early) as a colored pill
+ */
+function SlipBadge({ minutes }: { minutes: number }) {
+  const label = minutes === 0 ? "On time" : minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+  return (
+    <span
+      className={cn(
+        "shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium whitespace-nowrap",
+        minutes > 5
+          ? "bg-red-100 text-red-700"
+          : minutes > 0
+            ? "bg-amber-100 text-amber-700"
+            : "bg-green-100 text-green-700"
+      )}
+    >
+      {label}
+    </span>
+  );
+}
+
+function Stat({ label, value, detail }: { label: string; value: number; detail?: string }) {
+  return (
+    <div className="rounded-lg bg-neutral-50 px-3 py-2">
+      <dt className="text-neutral-500">{label}</dt>
+      <dd className="font-display text-xl font-semibold text-foreground">
+        {value}
+        {detail && <span className="ml-1.5 text-xs font-normal text-neutral-500">{detail}</span>}
+      </dd>
+    </div>
+  );
+}
@@ -2,42 +2,20 @@
 
 import { revalidatePath } from "next/cache";
 import { supabase } from "@/lib/supabase/client";
+import { createAIService } from "@/lib/services/ai";
+import { createRecipeService } from "@/lib/services/recipe";
 
 /**
  * Delete a recipe by ID (Server Action)
+ *
+ * Fails with a user-facing message if the recipe is used by a meal.
  */
 export async function deleteRecipe(recipeId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    // First get the recipe to check if it has an image to delete
-    const { data: recipe } = await supabase
-      .from("recipes")
-      .select("source_image_url")
-      .eq("id", recipeId)
-      .single();
-
-    // Delete the recipe
-    const { error: deleteError } = await supabase
-      .from("recipes")
-      .delete()
-      .eq("id", recipeId);
-
-    if (deleteError) {
-      console.error("Failed to delete recipe:", deleteError);
-      return { success: false, error: "Failed to delete recipe" };
-    }
-
-    // Try to delete the image from storage if it exists
-    if (recipe?.source_image_url) {
-      try {
-        const url = new URL(recipe.source_image_url);
-        const pathMatch = url.pathname.match(/\/storage\/v1\/object\/public\/recipe-images\/(.+)/);
-        if (pathMatch?.[1]) {
-          await supabase.storage.from("recipe-images").remove([pathMatch[1]]);
-        }
-      } catch {
-        // Ignore image deletion errors
-        console.warn("Failed to delete recipe image, continuing...");
-      }
+    const recipeService = createRecipeService(supabase, createAIService());
+    const result = await recipeService.delete(recipeId);
+    if (!result.success) {
+      return { success: false, error: result.message };
     }
 
     // Revalidate the recipes pages
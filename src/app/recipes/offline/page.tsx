@@ -0,0 +1,115 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, CloudOff } from "lucide-react";
+import { PageHeader } from "@/components/layout";
+import { Button } from "@/components/ui";
+import { RecipeBoxView, RecipeDetail } from "@/components/recipe";
+import { useOfflineRecipes } from "@/lib/offline";
+
+/**
+ * Banner shown when recipes come from the device rather than the server
+ */
+function OfflineCopyNote() {
+  return (
+    <div className="mx-auto max-w-[1600px] px-4 pt-6">
+      <span className="flex items-center gap-1.5 text-sm text-amber-700">
+        <CloudOff className="w-4 h-4" />
+        Showing your offline copy
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Recipe box (or one recipe, with ?id=) read from the offline mirror
+ */
+function OfflineRecipes() {
+  const searchParams = useSearchParams();
+  const recipeId = searchParams.get("id");
+  const { recipes, source, isLoading, error } = useOfflineRecipes();
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <PageHeader title="Your Recipe Box" />
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-terracotta-600" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <PageHeader title="Your Recipe Box" />
+        <div className="text-center py-12">
+          <p className="text-red-600">{error}</p>
+          <Button
+            variant="outline"
+            className="mt-4"
+            onClick={() => window.location.reload()}
+          >
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (recipeId) {
+    const recipe = recipes.find((r) => r.id === recipeId);
+
+    if (!recipe) {
+      return (
+        <div className="container mx-auto px-4 py-8">
+          <Link
+            href="/recipes/offline"
+            className="inline-flex items-center gap-2 text-neutral-600 hover:text-terracotta-600 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Recipe Box
+          </Link>
+          <p className="py-12 text-center text-neutral-500">
+            This recipe isn&apos;t in your offline copy.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {source === "mirror" && <OfflineCopyNote />}
+        <RecipeDetail
+          recipe={recipe}
+          backHref={source === "mirror" ? "/recipes/offline" : "/recipes"}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {source === "mirror" && <OfflineCopyNote />}
+      <RecipeBoxView recipes={recipes} />
+    </>
+  );
+}
+
+/**
+ * Offline recipe box
+ *
+ * The Service Worker sends recipe pages here when they can't be loaded and
+ * weren't cached. Renders from the network when it can, else from the
+ * IndexedDB mirror kept fresh by RecipeBoxMirror.
+ */
+export default function OfflineRecipesPage() {
+  return (
+    <Suspense fallback={null}>
+      <OfflineRecipes />
+    </Suspense>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Download, RefreshCw, Trash2 } from "lucide-react";
+import { PageHeader } from "@/components/layout";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Label,
+  showToast,
+} from "@/components/ui";
+import {
+  RECIPE_IMAGE_BUDGETS,
+  clearRecipeMirror,
+  getRecipeImageBudget,
+  getRecipeMirrorInfo,
+  isIndexedDBAvailable,
+  mirrorRecipeBox,
+  setRecipeImageBudget,
+  type RecipeImageBudget,
+  type RecipeMirrorInfo,
+} from "@/lib/offline";
+
+/**
+ * Format a byte count as megabytes
+ */
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Settings page - device-level preferences
+ *
+ * Currently covers the offline recipe box: how much image data to keep and
+ * a manual sync / clear.
+ */
+export default function SettingsPage() {
+  const [budget, setBudget] = useState<RecipeImageBudget>("25mb");
+  const [info, setInfo] = useState<RecipeMirrorInfo | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  const loadInfo = useCallback(async () => {
+    try {
+      setInfo(await getRecipeMirrorInfo());
+    } catch (error) {
+      console.warn("Failed to read offline recipe box:", error);
+    }
+  }, []);
+
+  // localStorage and IndexedDB are only readable after mount
+  useEffect(() => {
+    setIsAvailable(isIndexedDBAvailable());
+    setBudget(getRecipeImageBudget());
+    void loadInfo();
+  }, [loadInfo]);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await mirrorRecipeBox();
+      showToast.success(`Saved ${result.recipes} recipe(s) and ${result.images} image(s)`);
+      await loadInfo();
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : "Failed to sync recipes");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleBudgetChange = async (value: RecipeImageBudget) => {
+    setRecipeImageBudget(value);
+    setBudget(value);
+    if (navigator.onLine) {
+      await handleSync();
+    }
+  };
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearRecipeMirror();
+      showToast.success("Offline recipe box cleared");
+      await loadInfo();
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : "Failed to clear recipes");
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const selected = RECIPE_IMAGE_BUDGETS.find((b) => b.value === budget);
+
+  return (
+    <div className="container mx-auto max-w-2xl px-4 py-8">
+      <PageHeader title="Settings" description="Preferences for this device" />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Offline recipe box
+          </CardTitle>
+          <CardDescription>
+            Your recipes are saved on this device so you can read them without a
+            connection. Choose how much space recipe photos may use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!isAvailable ? (
+            <p className="text-sm text-neutral-500">
+              This browser doesn&apos;t support offline storage.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="image-budget">Recipe photos</Label>
+                <select
+                  id="image-budget"
+                  value={budget}
+                  disabled={isSyncing}
+                  onChange={(e) => handleBudgetChange(e.target.value as RecipeImageBudget)}
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                >
+                  {RECIPE_IMAGE_BUDGETS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {selected && (
+                  <p className="text-sm text-neutral-500">{selected.description}</p>
+                )}
+              </div>
+
+              {info && (
+                <dl className="grid grid-cols-2 gap-3 text-sm">
+                  <dt className="text-neutral-500">Recipes saved</dt>
+                  <dd className="font-medium">{info.recipeCount}</dd>
+                  <dt className="text-neutral-500">Photos saved</dt>
+                  <dd className="font-medium">
+                    {info.imageCount} ({formatMegabytes(info.imageBytes)})
+                  </dd>
+                  <dt className="text-neutral-500">Last synced</dt>
+                  <dd className="font-medium">
+                    {info.lastMirroredAt
+                      ? new Date(info.lastMirroredAt).toLocaleString()
+                      : "Never"}
+                  </dd>
+                </dl>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleSync} disabled={isSyncing || isClearing}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+                  {isSyncing ? "Syncing..." : "Sync now"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleClear}
+                  disabled={isSyncing || isClearing || info?.recipeCount === 0}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Clear offline copy
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,20 +1,30 @@
 "use client";
 
-import { use, useCallback } from "react";
+import { use, useCallback, useEffect, useState } from "react";
 import { RefreshCw, Clock, Users, UtensilsCrossed } from "lucide-react";
-import type { ShareMealData } from "@/types";
+import type { ShareMealData, Task } from "@/types";
 import { usePolling, formatLastUpdated } from "@/lib/polling";
+import {
+  useLiveSync,
+  LIVE_SYNC_CONNECTED_INTERVAL,
+  LIVE_SYNC_FALLBACK_INTERVAL,
+} from "@/lib/realtime";
 import {
   calculateProgress,
   formatLiveTime,
+  buildAssigneeNames,
+  canCheckoffSharedTask,
+  filterTasksByAssignee,
 } from "@/lib/services/execution";
 import {
   ViewerTimelineView,
   ExpiredLink,
   InvalidLink,
 } from "@/components/share";
-import { ProgressBar } from "@/components/live";
+import { ProgressBar, PresenceIndicator } from "@/components/live";
+import { AssigneeFilter, useAssigneeFilter } from "@/components/timeline";
 import { Skeleton } from "@/components/ui";
+import { showToast } from "@/components/ui/toast";
 
 interface PageProps {
   params: Promise<{ token: string }>;
@@ -23,8 +33,9 @@ interface PageProps {
 /**
  * Share link viewer page
  *
- * Displays a read-only view of the cooking timeline for family members.
- * Polls for updates every 5 seconds.
+ * Displays the cooking timeline for family members. Viewer links are
+ * read-only; helper links can check off tasks. Changes are pushed over
+ * live sync, with polling every 5 seconds whenever the push channel is down.
  */
 export default function ShareViewerPage({ params }: PageProps) {
   const { token } = use(params);
@@ -46,9 +57,67 @@ export default function ShareViewerPage({ params }: PageProps) {
     return data as ShareMealData;
   }, [token]);
 
+  const [pollInterval, setPollInterval] = useState(LIVE_SYNC_FALLBACK_INTERVAL);
   const { data, isLoading, error, lastUpdated, refresh, isPaused } = usePolling(
     fetcher,
-    { interval: 5000 }
+    { interval: pollInterval }
+  );
+
+  // Push channel: any change on another device triggers a refresh
+  const helperName = data?.meal.helpers?.find((h) => h.id === data.access.helperId)?.name;
+  const accessRole = data?.access.role ?? "viewer";
+  const {
+    status: liveSyncStatus,
+    members,
+    publish,
+  } = useLiveSync({
+    mealId: data?.meal.id ?? "",
+    member: {
+      name: helperName ?? (accessRole === "helper" ? "Helper" : "Viewer"),
+      role: accessRole,
+    },
+    onEvent: () => void refresh(),
+    enabled: !!data,
+  });
+
+  // Poll rarely while pushes arrive, often while they don't
+  useEffect(() => {
+    setPollInterval(
+      liveSyncStatus === "connected" ? LIVE_SYNC_CONNECTED_INTERVAL : LIVE_SYNC_FALLBACK_INTERVAL
+    );
+  }, [liveSyncStatus]);
+
+  // "My tasks" choice is remembered per share link on this device
+  const [assigneeFilter, setAssigneeFilter] = useAssigneeFilter(token);
+
+  // Helper checkoff through the token-authenticated route
+  const handleCheckoff = useCallback(
+    async (taskId: string) => {
+      try {
+        const res = await fetch(`/api/share/${token}/tasks/${taskId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "completed" }),
+        });
+
+        if (!res.ok) {
+          const body = await res.json();
+          throw new Error(body.message || "Failed to check off task");
+        }
+
+        const { task } = await res.json();
+        void publish({
+          type: "task_status",
+          taskId,
+          status: task.status,
+          completedAt: task.completedAt ?? undefined,
+        });
+        await refresh();
+      } catch (err) {
+        showToast.error(err instanceof Error ? err.message : "Failed to check off task");
+      }
+    },
+    [token, refresh, publish]
   );
 
   // Handle loading state
@@ -80,6 +149,8 @@ export default function ShareViewerPage({ params }: PageProps) {
   const progress = calculateProgress(data.tasks);
   const isNotStarted = !data.timeline?.isRunning && progress.completed === 0;
   const isComplete = progress.completed === progress.total && progress.total > 0;
+  const helpers = data.meal.helpers ?? [];
+  const isHelper = data.access.role === "helper";
 
   return (
     <div className="min-h-screen bg-neutral-50">
@@ -113,6 +184,22 @@ export default function ShareViewerPage({ params }: PageProps) {
             </div>
           )}
 
+          {/* "My tasks" filter */}
+          {helpers.length > 0 && (
+            <div className="mt-3">
+              <AssigneeFilter
+                helpers={helpers}
+                value={assigneeFilter}
+                onChange={setAssigneeFilter}
+              />
+            </div>
+          )}
+
+          {/* Presence */}
+          <div className="mt-3">
+            <PresenceIndicator status={liveSyncStatus} members={members} />
+          </div>
+
           {/* Last updated indicator */}
           <div className="mt-3 flex items-center justify-between text-xs text-neutral-400">
             <span className="flex items-center gap-1">
@@ -167,9 +254,14 @@ export default function ShareViewerPage({ params }: PageProps) {
         {data.timeline && data.tasks.length > 0 ? (
           <ViewerTimelineView
             timeline={data.timeline}
-            tasks={data.tasks}
+            tasks={filterTasksByAssignee(data.tasks, assigneeFilter)}
             recipeNames={data.recipeNames}
+            assigneeNames={buildAssigneeNames(helpers)}
             serveTime={serveTime}
+            canCheckoff={
+              isHelper ? (task: Task) => canCheckoffSharedTask(data.access, task) : undefined
+            }
+            onCheckoff={isHelper ? handleCheckoff : undefined}
           />
         ) : (
           <div className="rounded-lg border-2 border-dashed border-neutral-200 p-8 text-center">
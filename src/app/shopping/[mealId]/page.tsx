@@ -2,15 +2,17 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useParams } from "next/navigation";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, CloudOff } from "lucide-react";
 import Link from "next/link";
-import { Button } from "@/components/ui";
+import { Button, showToast } from "@/components/ui";
 import { PageHeader } from "@/components/layout";
 import { ShoppingList } from "@/components/shopping";
+import { OfflineBanner, SyncStatusIndicator } from "@/components/live";
 import type { ShoppingList as ShoppingListType } from "@/types/shopping";
 import type { Meal } from "@/types/meal";
 import { createShoppingService } from "@/lib/services/shopping";
 import { supabase } from "@/lib/supabase/client";
+import { useOfflineActions, useOfflineShoppingList, setupAutoSync } from "@/lib/offline";
 
 export default function MealShoppingPage() {
   const params = useParams();
@@ -21,6 +23,40 @@ export default function MealShoppingPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Meal name from the offline copy, when the meal couldn't be fetched
+  const [offlineMealName, setOfflineMealName] = useState<string | null>(null);
+
+  // Check/uncheck and notes with offline fallback (in the store with no signal)
+  const { setShoppingItemChecked, setShoppingItemNotes } = useOfflineActions({
+    mealId,
+    onQueued: () => showToast.info("Saved offline - will sync when connected"),
+  });
+
+  // Offline copy of the list, saved on demand
+  const {
+    isSaved: isSavedOffline,
+    save: saveOffline,
+    refresh: refreshOffline,
+    remove: removeOffline,
+    loadCached,
+  } = useOfflineShoppingList(mealId);
+
+  // Sync queued changes when back online
+  useEffect(() => {
+    return setupAutoSync({
+      onComplete: (result) => {
+        if (result.succeeded > 0) {
+          showToast.success(`Synced ${result.succeeded} change(s)`);
+        }
+      },
+    });
+  }, []);
+
+  // Keep the offline copy current with every check and note
+  const mealName = meal?.name ?? offlineMealName ?? undefined;
+  useEffect(() => {
+    if (list) void refreshOffline(list, mealName);
+  }, [list, mealName, refreshOffline]);
 
   // Recipe name lookup
   const recipeNames = new Map<string, string>();
@@ -50,14 +86,21 @@ export default function MealShoppingPage() {
         }
         // 404 is fine - list just doesn't exist yet
       } catch (err) {
-        setError(err instanceof Error ? err.message : "An error occurred");
+        // No network - fall back to the offline copy if there is one
+        const cached = await loadCached();
+        if (cached) {
+          setList(cached.list);
+          setOfflineMealName(cached.mealName ?? null);
+        } else {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
       } finally {
         setIsLoading(false);
       }
     };
 
     fetchData();
-  }, [mealId]);
+  }, [mealId, loadCached]);
 
   // Generate shopping list
   const handleGenerate = async () => {
@@ -96,48 +139,82 @@ export default function MealShoppingPage() {
     }
   }, [mealId]);
 
-  // Check an item
-  const handleCheck = useCallback(
-    async (itemId: string) => {
+  // Check or uncheck an item (optimistic; reverted only if it can't be saved or queued)
+  const setItemChecked = useCallback(
+    async (itemId: string, checked: boolean) => {
       if (!list?.id) return;
-      try {
-        const response = await fetch(`/api/shopping/${list.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "check", itemId }),
+
+      const applyChecked = (value: boolean) =>
+        setList((prev) => {
+          if (!prev) return prev;
+          const items = prev.items.map((item) =>
+            item.id === itemId ? { ...item, checked: value } : item
+          );
+          return { ...prev, items, checkedItems: items.filter((i) => i.checked).length };
         });
 
-        if (!response.ok) throw new Error("Failed to check item");
-        const data = await response.json();
-        setList(data);
-      } catch (err) {
-        console.error("Error checking item:", err);
+      applyChecked(checked);
+      const result = await setShoppingItemChecked(list.id, itemId, checked);
+      if (!result.success) {
+        applyChecked(!checked);
+        console.error("Error updating item:", result.error);
       }
     },
-    [list?.id]
+    [list?.id, setShoppingItemChecked]
+  );
+
+  const handleCheck = useCallback(
+    (itemId: string) => setItemChecked(itemId, true),
+    [setItemChecked]
   );
 
-  // Uncheck an item
   const handleUncheck = useCallback(
-    async (itemId: string) => {
+    (itemId: string) => setItemChecked(itemId, false),
+    [setItemChecked]
+  );
+
+  // Set an item's notes (optimistic, like checks)
+  const handleSaveNotes = useCallback(
+    async (itemId: string, notes: string) => {
       if (!list?.id) return;
-      try {
-        const response = await fetch(`/api/shopping/${list.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "uncheck", itemId }),
-        });
 
-        if (!response.ok) throw new Error("Failed to uncheck item");
-        const data = await response.json();
-        setList(data);
-      } catch (err) {
-        console.error("Error unchecking item:", err);
+      const previous = list.items.find((item) => item.id === itemId)?.notes;
+      const applyNotes = (value: string | undefined) =>
+        setList((prev) =>
+          prev
+            ? {
+                ...prev,
+                items: prev.items.map((item) =>
+                  item.id === itemId ? { ...item, notes: value } : item
+                ),
+              }
+            : prev
+        );
+
+      applyNotes(notes);
+      const result = await setShoppingItemNotes(list.id, itemId, notes);
+      if (!result.success) {
+        applyNotes(previous);
+        showToast.error(result.error || "Failed to save notes");
       }
     },
-    [list?.id]
+    [list, setShoppingItemNotes]
   );
 
+  // Save or stop saving the list for offline use
+  const handleToggleOffline = useCallback(async () => {
+    if (!list) return;
+
+    if (isSavedOffline) {
+      await removeOffline();
+      showToast.info("Removed offline copy");
+    } else if (await saveOffline(list, mealName)) {
+      showToast.success("Saved - this list now works without signal");
+    } else {
+      showToast.error("Offline storage isn't available on this device");
+    }
+  }, [list, mealName, isSavedOffline, saveOffline, removeOffline]);
+
   // Toggle staple - this updates localStorage and refreshes the list
   const handleToggleStaple = useCallback(
     async (itemName: string, isStaple: boolean) => {
@@ -204,7 +281,23 @@ export default function MealShoppingPage() {
         All Shopping Lists
       </Link>
 
-      <PageHeader title={meal?.name ?? "Shopping List"} />
+      <PageHeader title={mealName ?? "Shopping List"} />
+
+      {/* Offline state */}
+      <OfflineBanner offlineMessage="Keep shopping — checks save locally and sync when you reconnect." />
+      {list && (isSavedOffline || !meal) && (
+        <div className="mb-4 flex items-center justify-between gap-3">
+          {!meal ? (
+            <span className="flex items-center gap-1.5 text-sm text-amber-700">
+              <CloudOff className="w-4 h-4" />
+              Showing your offline copy
+            </span>
+          ) : (
+            <span />
+          )}
+          <SyncStatusIndicator />
+        </div>
+      )}
 
       {!list ? (
         // No list yet - show generate button
@@ -227,9 +320,12 @@ export default function MealShoppingPage() {
           onCheck={handleCheck}
           onUncheck={handleUncheck}
           onToggleStaple={handleToggleStaple}
-          onRegenerate={handleRegenerate}
+          onRegenerate={meal ? handleRegenerate : undefined}
+          onSaveNotes={handleSaveNotes}
+          isSavedOffline={isSavedOffline}
+          onToggleOffline={handleToggleOffline}
           recipeNames={recipeNames}
-          mealName={meal?.name}
+          mealName={mealName}
         />
       )}
     </div>
@@ -2,7 +2,19 @@
 
 import { useEffect, useState, use } from "react";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, RefreshCw, Play, ListOrdered } from "lucide-react";
+import {
+  ArrowLeft,
+  RefreshCw,
+  Play,
+  ListOrdered,
+  Cpu,
+  CalendarDays,
+  CalendarPlus,
+  GitCompare,
+  History,
+  Undo2,
+  Redo2,
+} from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { PageHeader } from "@/components/layout/page-header";
@@ -10,13 +22,32 @@ import {
   ConflictBanner,
   NowNextLaterView,
   GanttView,
+  PrepListView,
   ViewSwitcher,
   TaskEditModal,
   TaskReorderModal,
+  ConflictResolutionModal,
+  TimelineDiffModal,
+  TimelineHistoryModal,
   type TimelineViewMode,
 } from "@/components/timeline";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Timeline, Meal, Task } from "@/types";
+import { showToast } from "@/components/ui/toast";
+import { resolveConflicts, type ConflictResolution } from "@/lib/validator";
+import {
+  buildAssigneeNames,
+  getServeDayTasks,
+  hasPrepSessions,
+} from "@/lib/services/execution";
+import { HANDS_RESOURCE_ID } from "@/types";
+import type {
+  Timeline,
+  TimelineDiff,
+  TimelineVersion,
+  Meal,
+  Task,
+  TimelineGenerationStrategy,
+} from "@/types";
 
 interface TimelinePageProps {
   params: Promise<{ mealId: string }>;
@@ -35,6 +66,16 @@ export default function TimelinePage({ params }: TimelinePageProps) {
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [reorderModalOpen, setReorderModalOpen] = useState(false);
+  const [resolution, setResolution] = useState<ConflictResolution | null>(null);
+  const [resolutionModalOpen, setResolutionModalOpen] = useState(false);
+  const [changes, setChanges] = useState<TimelineDiff | null>(null);
+  const [changesModalOpen, setChangesModalOpen] = useState(false);
+  const [versions, setVersions] = useState<TimelineVersion[] | null>(null);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  // Versions to go back to (undo) or forward to (redo), most recent last
+  const [undoStack, setUndoStack] = useState<number[]>([]);
+  const [redoStack, setRedoStack] = useState<number[]>([]);
+  const [restoring, setRestoring] = useState(false);
 
   // Fetch meal and timeline
   useEffect(() => {
@@ -54,8 +95,11 @@ export default function TimelinePage({ params }: TimelinePageProps) {
         // Fetch timeline
         const timelineRes = await fetch(`/api/meals/${mealId}/timeline`);
         if (timelineRes.ok) {
-          const timelineData = await timelineRes.json();
+          const timelineData: Timeline = await timelineRes.json();
           setTimeline(timelineData);
+          if (timelineData.id) {
+            setChanges(await fetchChanges(timelineData.id));
+          }
         } else if (timelineRes.status !== 404) {
           throw new Error("Failed to fetch timeline");
         }
@@ -69,8 +113,8 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     fetchData();
   }, [mealId]);
 
-  // Generate timeline
-  const handleGenerate = async () => {
+  // Generate timeline (AI by default, local scheduler on request)
+  const handleGenerate = async (strategy: TimelineGenerationStrategy = "ai") => {
     try {
       setGenerating(true);
       setError(null);
@@ -78,7 +122,7 @@ export default function TimelinePage({ params }: TimelinePageProps) {
       const res = await fetch("/api/timeline/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ mealId }),
+        body: JSON.stringify({ mealId, strategy }),
       });
 
       if (!res.ok) {
@@ -86,8 +130,22 @@ export default function TimelinePage({ params }: TimelinePageProps) {
         throw new Error(data.message || "Failed to generate timeline");
       }
 
-      const data = await res.json();
-      setTimeline(data);
+      const regenerated = !!timeline;
+      const data: Timeline = await res.json();
+      applyEdit(data);
+
+      // Show what a regenerate changed
+      const diff = regenerated && data.id ? await fetchChanges(data.id) : null;
+      setChanges(diff);
+      if (diff) {
+        setChangesModalOpen(true);
+      }
+
+      if (strategy === "ai" && data.generatedBy === "local") {
+        showToast.warning(
+          "AI timeline unavailable — built a basic timeline from your recipe steps instead."
+        );
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to generate");
     } finally {
@@ -95,6 +153,77 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     }
   };
 
+  // Show a saved timeline, keeping the version it replaced for undo
+  const applyEdit = (updated: Timeline) => {
+    const previous = timeline?.version;
+    if (previous && updated.version && updated.version !== previous) {
+      setUndoStack((stack) => [...stack, previous]);
+      setRedoStack([]);
+    }
+    setTimeline(updated);
+  };
+
+  // Undo or redo by restoring the version either side of the current one
+  const handleUndoRedo = async (direction: "undo" | "redo") => {
+    const stack = direction === "undo" ? undoStack : redoStack;
+    const target = stack[stack.length - 1];
+    const current = timeline?.version;
+    if (!timeline?.id || !target || !current) return;
+
+    try {
+      setRestoring(true);
+      const restored = await restoreVersion(timeline.id, target);
+      if (direction === "undo") {
+        setUndoStack((s) => s.slice(0, -1));
+        setRedoStack((s) => [...s, current]);
+      } else {
+        setRedoStack((s) => s.slice(0, -1));
+        setUndoStack((s) => [...s, current]);
+      }
+      setTimeline(restored);
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : `Failed to ${direction}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  // Open the version history
+  const handleOpenHistory = async () => {
+    if (!timeline?.id) return;
+    setVersions(null);
+    setHistoryModalOpen(true);
+
+    try {
+      const res = await fetch(`/api/timeline/${timeline.id}/versions`);
+      if (!res.ok) {
+        throw new Error("Failed to load history");
+      }
+      setVersions(await res.json());
+    } catch (err) {
+      setHistoryModalOpen(false);
+      showToast.error(err instanceof Error ? err.message : "Failed to load history");
+    }
+  };
+
+  // Restore a version picked from the history
+  const handleRestoreVersion = async (version: number) => {
+    if (!timeline?.id) return;
+
+    try {
+      const restored = await restoreVersion(timeline.id, version);
+      applyEdit(restored);
+      showToast.success(
+        restored.hasConflicts
+          ? `Restored version ${version}. It has conflicts with the kitchen as it is now.`
+          : `Restored version ${version}`
+      );
+    } catch (err) {
+      showToast.error(err instanceof Error ? err.message : "Failed to restore version");
+      throw err;
+    }
+  };
+
   // Handle task checkoff (for live mode, Week 7)
   const handleCheckoff = async (taskId: string) => {
     if (!timeline?.id) return;
@@ -106,9 +235,9 @@ export default function TimelinePage({ params }: TimelinePageProps) {
         body: JSON.stringify({ action: "updateTask", taskId, updates: { status: "completed" } }),
       });
 
+      // Checking off is progress, not an edit, so there's nothing to undo
       if (res.ok) {
-        const updated = await res.json();
-        setTimeline(updated);
+        setTimeline(await res.json());
       }
     } catch (err) {
       console.error("Failed to checkoff:", err);
@@ -139,7 +268,7 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     }
 
     const updated = await res.json();
-    setTimeline(updated);
+    applyEdit(updated);
   };
 
   // Delete task
@@ -157,7 +286,7 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     }
 
     const updated = await res.json();
-    setTimeline(updated);
+    applyEdit(updated);
   };
 
   // Reorder tasks
@@ -175,7 +304,44 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     }
 
     const updated = await res.json();
-    setTimeline(updated);
+    applyEdit(updated);
+  };
+
+  // Run the conflict resolver and preview its changes
+  const handleFixConflicts = () => {
+    if (!timeline) return;
+    setResolution(resolveConflicts(timeline.tasks, meal?.kitchenProfile, meal?.helpers));
+    setResolutionModalOpen(true);
+  };
+
+  // Apply previewed resolver changes
+  const handleApplyResolution = async (result: ConflictResolution) => {
+    if (!timeline?.id) return;
+
+    const res = await fetch(`/api/timeline/${timeline.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action: "applyResolution",
+        changes: result.changes.map((c) => ({
+          taskId: c.taskId,
+          startTimeMinutes: c.afterStartMinutes,
+        })),
+      }),
+    });
+
+    if (!res.ok) {
+      showToast.error("Failed to apply conflict fixes");
+      throw new Error("Failed to apply conflict fixes");
+    }
+
+    const updated: Timeline = await res.json();
+    applyEdit(updated);
+    showToast.success(
+      updated.hasConflicts
+        ? "Some conflicts fixed. The rest need a manual edit."
+        : "All conflicts fixed"
+    );
   };
 
   // Build recipe name map for display
@@ -183,9 +349,22 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     ? new Map(meal.recipes.map((r) => [r.recipe.id!, r.recipe.name]))
     : undefined;
 
+  // Helper names for assignee badges
+  const assigneeNames = buildAssigneeNames(meal?.helpers);
+
+  // Cooks available for hands-on work (Gantt crunch highlighting)
+  const cookCount = meal?.kitchenProfile?.resources.find(
+    (r) => r.id === HANDS_RESOURCE_ID
+  )?.capacity;
+
   // Parse serve time
   const serveTime = meal ? new Date(meal.serveTime) : undefined;
 
+  // Make-ahead tasks get their own Prep view; List and Gantt show serve day only
+  const showPrep = timeline ? hasPrepSessions(timeline.tasks) : false;
+  const serveDayTimeline =
+    timeline && showPrep ? { ...timeline, tasks: getServeDayTasks(timeline.tasks) } : timeline;
+
   if (loading) {
     return <TimelinePageSkeleton />;
   }
@@ -237,14 +416,20 @@ export default function TimelinePage({ params }: TimelinePageProps) {
           <p className="mt-2 text-neutral-600">
             Generate a cooking timeline based on your recipes.
           </p>
-          <Button
-            onClick={handleGenerate}
-            loading={generating}
-            className="mt-4"
-          >
-            <Play className="mr-2 h-4 w-4" />
-            Generate Timeline
-          </Button>
+          <div className="mt-4 flex flex-col items-center gap-2 sm:flex-row sm:justify-center">
+            <Button onClick={() => handleGenerate("ai")} loading={generating}>
+              <Play className="mr-2 h-4 w-4" />
+              Generate Timeline
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => handleGenerate("local")}
+              disabled={generating}
+            >
+              <Cpu className="mr-2 h-4 w-4" />
+              Build Without AI
+            </Button>
+          </div>
         </div>
       )}
 
@@ -259,12 +444,34 @@ export default function TimelinePage({ params }: TimelinePageProps) {
                 // TODO: Scroll to/highlight the conflicting task
                 console.log("Resolve conflict:", index);
               }}
+              onFixConflicts={handleFixConflicts}
             />
           )}
 
+          {/* Local scheduler notice */}
+          {timeline.generatedBy === "local" && (
+            <p className="flex items-center gap-2 text-sm text-neutral-500">
+              <Cpu className="h-4 w-4" />
+              Built from recipe steps without AI. Step times are estimates where the
+              recipe didn&apos;t give one.
+            </p>
+          )}
+
+          {/* Make-ahead notice */}
+          {showPrep && viewMode !== "prep" && (
+            <p className="flex items-center gap-2 text-sm text-neutral-500">
+              <CalendarDays className="h-4 w-4" />
+              Some steps are done on earlier days. Open Prep to see each day&apos;s list.
+            </p>
+          )}
+
           {/* Toolbar - stacks on mobile */}
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-            <ViewSwitcher currentView={viewMode} onViewChange={setViewMode} />
+            <ViewSwitcher
+              currentView={viewMode}
+              onViewChange={setViewMode}
+              showPrep={showPrep}
+            />
             <div className="flex gap-2">
               <Button
                 variant="outline"
@@ -278,7 +485,53 @@ export default function TimelinePage({ params }: TimelinePageProps) {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handleGenerate}
+                onClick={() => handleUndoRedo("undo")}
+                disabled={undoStack.length === 0 || restoring}
+                aria-label="Undo"
+                title="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUndoRedo("redo")}
+                disabled={redoStack.length === 0 || restoring}
+                aria-label="Redo"
+                title="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleOpenHistory}
+                className="flex-1 sm:flex-none"
+              >
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
+              {changes && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setChangesModalOpen(true)}
+                  className="flex-1 sm:flex-none"
+                >
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Changes
+                </Button>
+              )}
+              <Button variant="outline" size="sm" asChild className="flex-1 sm:flex-none">
+                <a href={`/api/meals/${mealId}/timeline.ics`} download>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Calendar
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleGenerate(timeline.generatedBy ?? "ai")}
                 loading={generating}
                 className="flex-1 sm:flex-none"
               >
@@ -289,20 +542,31 @@ export default function TimelinePage({ params }: TimelinePageProps) {
           </div>
 
           {/* Timeline view */}
-          {viewMode === "list" ? (
-            <NowNextLaterView
+          {viewMode === "prep" && showPrep && serveTime ? (
+            <PrepListView
               timeline={timeline}
               recipeNames={recipeNames}
+              assigneeNames={assigneeNames}
+              serveTime={serveTime}
+              onCheckoff={handleCheckoff}
+              onEditTask={handleEditTask}
+            />
+          ) : viewMode === "list" || viewMode === "prep" ? (
+            <NowNextLaterView
+              timeline={serveDayTimeline ?? timeline}
+              recipeNames={recipeNames}
+              assigneeNames={assigneeNames}
               serveTime={serveTime}
               onCheckoff={handleCheckoff}
               onEditTask={handleEditTask}
             />
           ) : (
             <GanttView
-              timeline={timeline}
+              timeline={serveDayTimeline ?? timeline}
               recipeNames={recipeNames}
               serveTime={serveTime}
               onTaskClick={handleEditTask}
+              cookCount={cookCount}
             />
           )}
         </div>
@@ -312,6 +576,7 @@ export default function TimelinePage({ params }: TimelinePageProps) {
       <TaskEditModal
         task={editingTask}
         serveTime={serveTime}
+        helpers={meal?.helpers}
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
         onSave={handleSaveTask}
@@ -328,10 +593,68 @@ export default function TimelinePage({ params }: TimelinePageProps) {
           onSave={handleReorderTasks}
         />
       )}
+
+      {/* Changes from the last regenerate */}
+      <TimelineDiffModal
+        diff={changes}
+        recipeNames={recipeNames}
+        helpers={meal?.helpers}
+        serveTime={serveTime}
+        open={changesModalOpen}
+        onOpenChange={setChangesModalOpen}
+      />
+
+      {/* Version history */}
+      <TimelineHistoryModal
+        versions={versions}
+        currentVersion={timeline?.version}
+        open={historyModalOpen}
+        onOpenChange={setHistoryModalOpen}
+        onRestore={handleRestoreVersion}
+      />
+
+      {/* Conflict resolution preview */}
+      <ConflictResolutionModal
+        resolution={resolution}
+        serveTime={serveTime}
+        open={resolutionModalOpen}
+        onOpenChange={setResolutionModalOpen}
+        onApply={handleApplyResolution}
+      />
     </div>
   );
 }
 
+/**
+ * Restore a saved version of a timeline (re-validated on the server)
+ */
+async function restoreVersion(timelineId: string, version: number): Promise<Timeline> {
+  const res = await fetch(`/api/timeline/${timelineId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "restoreVersion", version }),
+  });
+
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.message || "Failed to restore version");
+  }
+
+  return res.json();
+}
+
+/**
+ * What the last regenerate changed, or null if there's no earlier version
+ */
+async function fetchChanges(timelineId: string): Promise<TimelineDiff | null> {
+  try {
+    const res = await fetch(`/api/timeline/${timelineId}/changes`);
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Loading skeleton
  */
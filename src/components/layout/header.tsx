@@ -9,6 +9,7 @@ import { cn } from "@/lib/utils";
 const navItems = [
   { href: "/recipes", label: "Recipes" },
   { href: "/meals", label: "Meals" },
+  { href: "/settings", label: "Settings" },
 ] as const;
 
 /**
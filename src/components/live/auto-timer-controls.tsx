@@ -0,0 +1,82 @@
+"use client";
+
+import { Timer as TimerIcon, X } from "lucide-react";
+import { Button } from "@/components/ui";
+import {
+  AUTO_TIMER_MODES,
+  formatTimerDuration,
+  type AutoTimerMode,
+  type TimerSuggestion,
+} from "@/lib/timers";
+
+interface AutoTimerSettingProps {
+  value: AutoTimerMode;
+  onChange: (value: AutoTimerMode) => void;
+}
+
+/**
+ * Dropdown for what happens when a hands-off task starts
+ */
+export function AutoTimerSetting({ value, onChange }: AutoTimerSettingProps) {
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-neutral-600">
+      <TimerIcon className="h-4 w-4" />
+      <span className="sr-only">Timers for hands-off tasks</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as AutoTimerMode)}
+        className="rounded-lg border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+      >
+        {AUTO_TIMER_MODES.map((mode) => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface TimerOffersProps {
+  offers: TimerSuggestion[];
+  onAccept: (taskId: string) => void;
+  onDecline: (taskId: string) => void;
+}
+
+/**
+ * Prompts to start a timer for hands-off tasks that just began
+ *
+ * Renders nothing when there are no offers.
+ */
+export function TimerOffers({ offers, onAccept, onDecline }: TimerOffersProps) {
+  if (offers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      {offers.map((offer) => (
+        <div
+          key={offer.taskId}
+          className="flex items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 p-3"
+        >
+          <TimerIcon className="h-5 w-5 flex-shrink-0 text-primary" />
+          <p className="flex-1 text-sm text-foreground">
+            Start a {formatTimerDuration(offer.durationMinutes * 60)} timer for{" "}
+            <span className="font-medium">{offer.label}</span>?
+          </p>
+          <Button size="sm" onClick={() => onAccept(offer.taskId)}>
+            Start
+          </Button>
+          <button
+            onClick={() => onDecline(offer.taskId)}
+            className="rounded-lg p-2 text-neutral-500 hover:bg-neutral-100"
+            aria-label="No timer"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
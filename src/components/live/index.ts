@@ -2,12 +2,14 @@ export { ProgressBar } from "./progress-bar";
 export { LiveTaskCard, LiveTaskCardCompact } from "./live-task-card";
 export { LiveTimelineView } from "./live-timeline-view";
 export { UndoToast } from "./undo-toast";
+export { TaskNotesModal } from "./task-notes-modal";
 export {
   KitchenWalkthrough,
   shouldSkipWalkthrough,
   resetWalkthroughPreference,
 } from "./kitchen-walkthrough";
 export { ActiveTimerBanner } from "./active-timer-banner";
+export { AutoTimerSetting, TimerOffers } from "./auto-timer-controls";
 export { RunningBehindButton } from "./running-behind-modal";
 export {
   LargeTextToggle,
@@ -15,6 +17,7 @@ export {
   useLargeTextMode,
 } from "./large-text-toggle";
 export { SyncStatusIndicator, SyncStatusDot } from "./sync-status-indicator";
+export { PresenceIndicator } from "./presence-indicator";
 export { OfflineBanner, OfflineIndicatorCompact } from "./offline-banner";
 export {
   OfflineCapabilityWarning,
@@ -7,6 +7,9 @@ import {
   CheckCircle,
   Circle,
   Timer,
+  User,
+  SkipForward,
+  StickyNote,
 } from "lucide-react";
 import type { Task } from "@/types";
 import { cn } from "@/lib/utils";
@@ -18,12 +21,18 @@ export type TaskTimeState = "past" | "present" | "future";
 interface LiveTaskCardProps {
   task: Task;
   recipeName?: string;
+  /** Helper doing the task (omit for the host) */
+  assigneeName?: string;
   serveTime: Date;
   isNow?: boolean;
   /** Karaoke visual state - determines opacity/color treatment */
   timeState?: TaskTimeState;
   onCheckoff?: () => void;
   onStartTimer?: (durationMinutes: number) => void;
+  /** Skip the task (works offline) */
+  onSkip?: () => void;
+  /** Open the notes editor */
+  onEditNotes?: () => void;
   compact?: boolean;
 }
 
@@ -35,11 +44,14 @@ interface LiveTaskCardProps {
 export function LiveTaskCard({
   task,
   recipeName,
+  assigneeName,
   serveTime,
   isNow = false,
   timeState,
   onCheckoff,
   onStartTimer,
+  onSkip,
+  onEditNotes,
   compact = false,
 }: LiveTaskCardProps) {
   const [isChecking, setIsChecking] = useState(false);
@@ -173,9 +185,49 @@ export function LiveTaskCard({
                 {recipeName}
               </span>
             )}
+
+            {/* Assignee */}
+            {assigneeName && (
+              <span className="flex items-center gap-1 rounded bg-primary/10 px-2 py-0.5 text-[length:var(--live-subtitle-size)] live-secondary-info text-primary">
+                <User className="h-3 w-3" />
+                {assigneeName}
+              </span>
+            )}
           </div>
+
+          {/* Notes */}
+          {task.notes && (
+            <p className="mt-2 flex items-start gap-1 text-[length:var(--live-subtitle-size)] text-neutral-600">
+              <StickyNote className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-neutral-400" />
+              <span className="whitespace-pre-line">{task.notes}</span>
+            </p>
+          )}
         </div>
 
+        {/* Notes button */}
+        {onEditNotes && (
+          <button
+            type="button"
+            onClick={onEditNotes}
+            className="min-h-[var(--live-touch-target)] min-w-[var(--live-touch-target)] flex items-center justify-center text-neutral-400 hover:text-primary active:text-primary/80 transition-colors"
+            aria-label={`Edit notes for ${task.title}`}
+          >
+            <StickyNote className="h-5 w-5" />
+          </button>
+        )}
+
+        {/* Skip button */}
+        {onSkip && !isCompleted && (
+          <button
+            type="button"
+            onClick={onSkip}
+            className="min-h-[var(--live-touch-target)] min-w-[var(--live-touch-target)] flex items-center justify-center text-neutral-400 hover:text-primary active:text-primary/80 transition-colors"
+            aria-label={`Skip ${task.title}`}
+          >
+            <SkipForward className="h-5 w-5" />
+          </button>
+        )}
+
         {/* Timer button - touch target from CSS var */}
         {onStartTimer && !isCompleted && task.durationMinutes > 0 && (
           <button
@@ -9,9 +9,13 @@ import { groupTasksForLive, getOverdueTasks } from "@/lib/services/execution";
 interface LiveTimelineViewProps {
   timeline: Timeline;
   recipeNames: Map<string, string>;
+  /** Helper names by ID, for assignee badges */
+  assigneeNames?: Map<string, string>;
   serveTime: Date;
   onCheckoff: (taskId: string) => void;
   onStartTimer?: (taskId: string, durationMinutes: number) => void;
+  onSkip?: (taskId: string) => void;
+  onEditNotes?: (taskId: string) => void;
 }
 
 /**
@@ -23,18 +27,22 @@ interface LiveTimelineViewProps {
 export function LiveTimelineView({
   timeline,
   recipeNames,
+  assigneeNames,
   serveTime,
   onCheckoff,
   onStartTimer,
+  onSkip,
+  onEditNotes,
 }: LiveTimelineViewProps) {
   const { now, next, later, completed } = useMemo(
-    () => groupTasksForLive(timeline.tasks, serveTime, timeline.currentTaskId),
-    [timeline.tasks, serveTime, timeline.currentTaskId]
+    () =>
+      groupTasksForLive(timeline.tasks, serveTime, timeline.currentTaskId, timeline.pausedAt),
+    [timeline.tasks, serveTime, timeline.currentTaskId, timeline.pausedAt]
   );
 
   const overdueTasks = useMemo(
-    () => getOverdueTasks(timeline.tasks, serveTime),
-    [timeline.tasks, serveTime]
+    () => getOverdueTasks(timeline.tasks, serveTime, timeline.pausedAt),
+    [timeline.tasks, serveTime, timeline.pausedAt]
   );
 
   return (
@@ -73,6 +81,7 @@ export function LiveTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 isNow
                 timeState="present"
@@ -82,6 +91,8 @@ export function LiveTimelineView({
                     ? (duration) => onStartTimer(task.id!, duration)
                     : undefined
                 }
+                onSkip={onSkip && task.id ? () => onSkip(task.id!) : undefined}
+                onEditNotes={onEditNotes && task.id ? () => onEditNotes(task.id!) : undefined}
               />
             ))}
           </div>
@@ -110,6 +121,7 @@ export function LiveTimelineView({
                 <LiveTaskCard
                   task={task}
                   recipeName={recipeNames.get(task.recipeId)}
+                  assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                   serveTime={serveTime}
                   compact
                   timeState="future"
@@ -119,6 +131,8 @@ export function LiveTimelineView({
                       ? (duration) => onStartTimer(task.id!, duration)
                       : undefined
                   }
+                  onSkip={onSkip && task.id ? () => onSkip(task.id!) : undefined}
+                  onEditNotes={onEditNotes && task.id ? () => onEditNotes(task.id!) : undefined}
                 />
               </div>
             ))}
@@ -143,6 +157,7 @@ export function LiveTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
                 timeState="future"
@@ -167,6 +182,7 @@ export function LiveTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
                 timeState="past"
@@ -5,13 +5,20 @@ import { WifiOff, RefreshCw, Check, AlertTriangle } from "lucide-react";
 import { useSyncStatus } from "@/lib/offline/use-sync-status";
 import { cn } from "@/lib/utils";
 
+interface OfflineBannerProps {
+  /** Reassurance shown while offline (defaults to the cooking message) */
+  offlineMessage?: string;
+}
+
 /**
- * Offline banner for live cooking mode
+ * Offline banner for live cooking and shopping
  *
- * Shows when the user loses connection during cooking.
+ * Shows when the user loses connection during cooking or in the store.
  * Provides reassurance that changes are saved locally and will sync.
  */
-export function OfflineBanner() {
+export function OfflineBanner({
+  offlineMessage = "Keep cooking — changes save locally and sync when you reconnect.",
+}: OfflineBannerProps = {}) {
   const { isOnline, isSyncing, pendingCount, triggerSync, hasOfflineSupport } =
     useSyncStatus();
 
@@ -94,7 +101,7 @@ export function OfflineBanner() {
                 </p>
                 <p className="text-xs text-amber-600 mt-0.5">
                   {hasOfflineSupport
-                    ? "Keep cooking — changes save locally and sync when you reconnect."
+                    ? offlineMessage
                     : "Some features may not work until you reconnect."}
                 </p>
               </div>
@@ -0,0 +1,44 @@
+"use client";
+
+import { Radio, Users } from "lucide-react";
+import type { LiveSyncStatus, PresenceMember } from "@/lib/realtime";
+import { cn } from "@/lib/utils";
+
+interface PresenceIndicatorProps {
+  /** Push channel state */
+  status: LiveSyncStatus;
+  /** Everyone with the meal open, including this device */
+  members: PresenceMember[];
+}
+
+/**
+ * Presence indicator for live cooking and share pages
+ *
+ * Shows who has the meal open and whether updates arrive instantly
+ * ("Live") or by periodic refresh while the push channel is down.
+ */
+export function PresenceIndicator({ status, members }: PresenceIndicatorProps) {
+  const isLive = status === "connected";
+  const names = members.map((m) => m.name);
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-neutral-500">
+      <span
+        className={cn("flex items-center gap-1", isLive ? "text-green-600" : "text-amber-600")}
+        title={isLive ? "Changes appear instantly" : "Refreshing every few seconds"}
+      >
+        <Radio className="h-3.5 w-3.5" />
+        {isLive ? "Live" : status === "connecting" ? "Connecting..." : "Polling"}
+      </span>
+
+      {isLive && members.length > 0 && (
+        <span className="flex items-center gap-1" title={names.join(", ")}>
+          <Users className="h-3.5 w-3.5" />
+          {members.length === 1
+            ? "Only you"
+            : `${members.length} connected: ${names.join(", ")}`}
+        </span>
+      )}
+    </div>
+  );
+}
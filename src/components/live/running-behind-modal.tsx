@@ -1,28 +1,33 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import {
   AlertTriangle,
   Clock,
   Check,
-  RefreshCw,
   Edit3,
   X,
   WifiOff,
   Plus,
+  RefreshCw,
+  Sparkles,
 } from "lucide-react";
 import { Button } from "@/components/ui";
-import type { Timeline, RecalculationSuggestion, Task } from "@/types";
+import type { Timeline, RecalculationOption, RecalculationPlan, Task, Helper } from "@/types";
 import { calculateRealTime, formatLiveTime } from "@/lib/services/execution";
+import {
+  getBehindMinutes,
+  getMinutesFromServe,
+} from "@/lib/services/timeline/local-recalculation";
+import { getRecalculationOptions } from "@/lib/services/timeline/recalculation";
 
 interface RunningBehindButtonProps {
   mealId: string;
   timeline: Timeline;
   serveTime: Date;
-  onAcceptSuggestion: (
-    suggestion: RecalculationSuggestion,
-    updatedTasks: Task[]
-  ) => void;
+  /** Meal helpers, so local plans respect their lanes */
+  helpers?: Helper[];
+  onAcceptOption: (option: RecalculationOption) => void;
   onNavigateToEdit: () => void;
   onOfflineShift: (shiftMinutes: number, updatedTasks: Task[]) => void;
 }
@@ -30,126 +35,161 @@ interface RunningBehindButtonProps {
 type ModalState =
   | { kind: "closed" }
   | { kind: "loading" }
-  | { kind: "suggestion"; suggestion: RecalculationSuggestion; attempts: number }
+  | {
+      kind: "options";
+      plan: RecalculationPlan;
+      selectedId: string;
+      offline?: boolean;
+      /** Claude's suggestion is still being asked for */
+      aiPending?: boolean;
+    }
   | { kind: "offline" }
   | { kind: "error"; message: string };
 
-const MAX_ATTEMPTS = 3;
+/** Preview rows shown per option before "and N more" */
+const MAX_PREVIEW_CHANGES = 4;
 
 export function RunningBehindButton({
   mealId,
   timeline,
   serveTime,
-  onAcceptSuggestion,
+  helpers,
+  onAcceptOption,
   onNavigateToEdit,
   onOfflineShift,
 }: RunningBehindButtonProps) {
   const [modalState, setModalState] = useState<ModalState>({ kind: "closed" });
-
-  const requestSuggestion = useCallback(
-    async (attemptNumber: number) => {
-      setModalState({ kind: "loading" });
-
-      // Check if offline
-      if (!navigator.onLine) {
-        setModalState({ kind: "offline" });
-        return;
+  // Bumped on every open, so a late answer from an earlier open is ignored
+  const requestIdRef = useRef(0);
+
+  // Offline, work the plans out on this device; serving later needs the server
+  const showOfflineOptions = useCallback(() => {
+    const now = new Date();
+    const nowMinutes = getMinutesFromServe(now, serveTime);
+    const behindMinutes = getBehindMinutes(timeline.tasks, nowMinutes);
+    const options = getRecalculationOptions({
+      tasks: timeline.tasks,
+      nowMinutes,
+      behindMinutes,
+      serveTime,
+      helpers,
+    }).filter((o) => o.strategy !== "push_serve_time");
+
+    const first = options[0];
+    setModalState(
+      first
+        ? {
+            kind: "options",
+            plan: { behindMinutes, options },
+            selectedId: first.id,
+            offline: true,
+          }
+        : { kind: "offline" }
+    );
+  }, [timeline.tasks, serveTime, helpers]);
+
+  const fetchPlan = useCallback(
+    async (currentTime: string, includeAiSuggestion: boolean): Promise<RecalculationPlan> => {
+      const response = await fetch(`/api/live/${mealId}/recalculate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timeline, currentTime, includeAiSuggestion }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to get options");
       }
 
-      try {
-        const response = await fetch(`/api/live/${mealId}/recalculate`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            timeline,
-            currentTime: new Date().toISOString(),
-          }),
-        });
-
-        if (!response.ok) {
-          const data = await response.json();
-          throw new Error(data.error || "Failed to get suggestion");
-        }
-
-        const suggestion: RecalculationSuggestion = await response.json();
-        setModalState({
-          kind: "suggestion",
-          suggestion,
-          attempts: attemptNumber,
-        });
-      } catch (err) {
-        // Network error likely means offline
-        if (
-          err instanceof TypeError &&
-          err.message.includes("fetch")
-        ) {
-          setModalState({ kind: "offline" });
-        } else {
-          setModalState({
-            kind: "error",
-            message: err instanceof Error ? err.message : "Unknown error",
-          });
-        }
-      }
+      return response.json();
     },
     [mealId, timeline]
   );
 
-  const handleOpenModal = useCallback(() => {
-    requestSuggestion(1);
-  }, [requestSuggestion]);
-
-  const handleAccept = useCallback(() => {
-    if (modalState.kind !== "suggestion") return;
+  // Rank Claude's suggestion in once it arrives, keeping the cook's pick
+  const requestAiSuggestion = useCallback(
+    async (requestId: number, currentTime: string) => {
+      let plan: RecalculationPlan | undefined;
+      try {
+        plan = await fetchPlan(currentTime, true);
+      } catch (err) {
+        console.warn("AI recalculation unavailable:", err);
+      }
 
-    const { suggestion } = modalState;
+      if (requestIdRef.current !== requestId) return;
+      setModalState((state) => {
+        if (state.kind !== "options") return state;
+        if (!plan || plan.options.length === 0) return { ...state, aiPending: false };
 
-    // Calculate updated tasks with new times
-    const taskToMove = timeline.tasks.find((t) => t.id === suggestion.taskId);
-    if (!taskToMove) return;
+        const stillListed = plan.options.some((o) => o.id === state.selectedId);
+        return {
+          kind: "options",
+          plan,
+          selectedId: stillListed ? state.selectedId : plan.options[0]!.id,
+        };
+      });
+    },
+    [fetchPlan]
+  );
 
-    const timeDelta =
-      suggestion.newStartTimeMinutes - taskToMove.startTimeMinutes;
+  const requestOptions = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setModalState({ kind: "loading" });
 
-    // Update main task and affected tasks
-    const affectedIds = new Set([
-      suggestion.taskId,
-      ...(suggestion.affectedTaskIds || []),
-    ]);
+    // Check if offline
+    if (!navigator.onLine) {
+      showOfflineOptions();
+      return;
+    }
 
-    const updatedTasks = timeline.tasks.map((task) => {
-      if (task.id === suggestion.taskId) {
-        return {
-          ...task,
-          startTimeMinutes: suggestion.newStartTimeMinutes,
-          endTimeMinutes:
-            suggestion.newStartTimeMinutes + task.durationMinutes,
-        };
+    try {
+      const currentTime = new Date().toISOString();
+      const plan = await fetchPlan(currentTime, false);
+      const first = plan.options[0];
+      if (!first) {
+        throw new Error("No way to catch up was found");
       }
-      if (affectedIds.has(task.id!)) {
-        return {
-          ...task,
-          startTimeMinutes: task.startTimeMinutes + timeDelta,
-          endTimeMinutes: task.endTimeMinutes + timeDelta,
-        };
+
+      if (requestIdRef.current !== requestId) return;
+      setModalState({ kind: "options", plan, selectedId: first.id, aiPending: true });
+      requestAiSuggestion(requestId, currentTime);
+    } catch (err) {
+      // Network error likely means offline
+      if (
+        err instanceof TypeError &&
+        err.message.includes("fetch")
+      ) {
+        showOfflineOptions();
+      } else {
+        setModalState({
+          kind: "error",
+          message: err instanceof Error ? err.message : "Unknown error",
+        });
       }
-      return task;
-    });
+    }
+  }, [fetchPlan, requestAiSuggestion, showOfflineOptions]);
 
-    onAcceptSuggestion(suggestion, updatedTasks);
-    setModalState({ kind: "closed" });
-  }, [modalState, timeline.tasks, onAcceptSuggestion]);
+  const handleOpenModal = useCallback(() => {
+    requestOptions();
+  }, [requestOptions]);
+
+  const handleSelect = useCallback((selectedId: string) => {
+    setModalState((state) =>
+      state.kind === "options" ? { ...state, selectedId } : state
+    );
+  }, []);
 
-  const handleAdjustDifferently = useCallback(() => {
-    if (modalState.kind !== "suggestion") return;
+  const handleAccept = useCallback(() => {
+    if (modalState.kind !== "options") return;
 
-    if (modalState.attempts >= MAX_ATTEMPTS) {
-      // Already at max, can't request more
-      return;
-    }
+    const option = modalState.plan.options.find(
+      (o) => o.id === modalState.selectedId
+    );
+    if (!option) return;
 
-    requestSuggestion(modalState.attempts + 1);
-  }, [modalState, requestSuggestion]);
+    onAcceptOption(option);
+    setModalState({ kind: "closed" });
+  }, [modalState, onAcceptOption]);
 
   const handleFixMyself = useCallback(() => {
     setModalState({ kind: "closed" });
@@ -176,22 +216,13 @@ export function RunningBehindButton({
   }, [timeline.tasks, onOfflineShift]);
 
   const handleClose = useCallback(() => {
+    requestIdRef.current++;
     setModalState({ kind: "closed" });
   }, []);
 
-  // Format suggestion for display
-  const formatSuggestion = (suggestion: RecalculationSuggestion): string => {
-    const task = timeline.tasks.find((t) => t.id === suggestion.taskId);
-    if (!task) return suggestion.description;
-
-    const oldTime = calculateRealTime(task.startTimeMinutes, serveTime);
-    const newTime = calculateRealTime(
-      suggestion.newStartTimeMinutes,
-      serveTime
-    );
-
-    return `Push "${task.title}" from ${formatLiveTime(oldTime)} → ${formatLiveTime(newTime)}?`;
-  };
+  // Clock time of a preview time (relative to the current serve time)
+  const formatPreviewTime = (minutes: number): string =>
+    formatLiveTime(calculateRealTime(minutes, serveTime));
 
   return (
     <>
@@ -242,48 +273,67 @@ export function RunningBehindButton({
                 <div className="text-center py-8">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto" />
                   <p className="mt-4 text-neutral-600">
-                    Analyzing your timeline...
+                    Working out your options...
                   </p>
                 </div>
               )}
 
-              {modalState.kind === "suggestion" && (
+              {modalState.kind === "options" && (
                 <div className="space-y-4">
-                  <p className="text-lg text-foreground">
-                    {formatSuggestion(modalState.suggestion)}
+                  {modalState.offline && (
+                    <p className="flex items-center gap-2 text-sm text-neutral-500">
+                      <WifiOff className="h-4 w-4" />
+                      Offline - these plans were worked out on this device.
+                    </p>
+                  )}
+                  <p className="text-neutral-600">
+                    You&apos;re about {modalState.plan.behindMinutes} min behind.
+                    Pick a plan:
                   </p>
 
-                  {modalState.suggestion.tasksShifted > 0 && (
-                    <p className="text-sm text-neutral-500">
-                      This will shift {modalState.suggestion.tasksShifted} other
-                      task{modalState.suggestion.tasksShifted > 1 ? "s" : ""}.
+                  <div className="space-y-2" role="radiogroup" aria-label="Ways to catch up">
+                    {modalState.plan.options.map((option) => (
+                      <RecalculationOptionCard
+                        key={option.id}
+                        option={option}
+                        selected={option.id === modalState.selectedId}
+                        onSelect={() => handleSelect(option.id)}
+                        newServeTime={
+                          option.serveTimeShiftMinutes
+                            ? formatPreviewTime(option.serveTimeShiftMinutes)
+                            : undefined
+                        }
+                        formatTime={formatPreviewTime}
+                      />
+                    ))}
+                  </div>
+
+                  {modalState.aiPending && (
+                    <p className="flex items-center gap-2 text-sm text-neutral-500">
+                      <Sparkles className="h-4 w-4 animate-pulse" />
+                      Asking Claude for another idea...
                     </p>
                   )}
 
-                  <div className="flex flex-col gap-3 pt-4">
+                  <div className="flex flex-col gap-3 pt-2">
                     <Button
                       variant="primary"
                       onClick={handleAccept}
                       className="w-full"
                     >
                       <Check className="h-4 w-4 mr-2" />
-                      Accept
+                      Use This Plan
                     </Button>
 
-                    {modalState.attempts < MAX_ATTEMPTS ? (
+                    {modalState.offline && (
                       <Button
                         variant="outline"
-                        onClick={handleAdjustDifferently}
+                        onClick={handleOfflineShift}
                         className="w-full"
                       >
-                        <RefreshCw className="h-4 w-4 mr-2" />
-                        Adjust Differently ({MAX_ATTEMPTS - modalState.attempts}{" "}
-                        left)
+                        <Plus className="h-4 w-4 mr-2" />
+                        Just add 15 minutes
                       </Button>
-                    ) : (
-                      <p className="text-sm text-neutral-400 text-center">
-                        Max adjustments reached
-                      </p>
                     )}
 
                     <Button
@@ -337,7 +387,7 @@ export function RunningBehindButton({
                   <div className="flex flex-col gap-3 pt-4">
                     <Button
                       variant="outline"
-                      onClick={() => requestSuggestion(1)}
+                      onClick={requestOptions}
                       className="w-full"
                     >
                       <RefreshCw className="h-4 w-4 mr-2" />
@@ -362,3 +412,84 @@ export function RunningBehindButton({
     </>
   );
 }
+
+interface RecalculationOptionCardProps {
+  option: RecalculationOption;
+  selected: boolean;
+  onSelect: () => void;
+  /** Serve time under this option, when it moves */
+  newServeTime?: string;
+  formatTime: (minutes: number) => string;
+}
+
+/**
+ * One selectable plan with its validator result and task preview
+ */
+function RecalculationOptionCard({
+  option,
+  selected,
+  onSelect,
+  newServeTime,
+  formatTime,
+}: RecalculationOptionCardProps) {
+  const errorCount = option.conflicts.filter((c) => c.severity === "error").length;
+  const hidden = option.changes.length - MAX_PREVIEW_CHANGES;
+
+  return (
+    <button
+      type="button"
+      role="radio"
+      aria-checked={selected}
+      onClick={onSelect}
+      className={`w-full text-left rounded-xl border p-3 transition-colors ${
+        selected
+          ? "border-primary bg-primary/5 ring-1 ring-primary"
+          : "border-neutral-200 hover:bg-neutral-50"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <span className="font-medium text-foreground">{option.title}</span>
+        {option.isValid ? (
+          <span className="shrink-0 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+            Fits
+          </span>
+        ) : (
+          <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+            {errorCount} conflict{errorCount === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      <p className="mt-1 text-sm text-neutral-600">{option.description}</p>
+
+      {newServeTime && (
+        <p className="mt-1 text-sm font-medium text-amber-700">
+          New serve time: {newServeTime}
+        </p>
+      )}
+      {option.minutesPastServe > 0 && (
+        <p className="mt-1 text-sm text-amber-700">
+          Still runs {option.minutesPastServe} min past serve time
+        </p>
+      )}
+
+      {selected && option.changes.length > 0 && (
+        <ul className="mt-2 space-y-1 border-t border-neutral-200 pt-2 text-sm">
+          {option.changes.slice(0, MAX_PREVIEW_CHANGES).map((change) => (
+            <li key={change.taskId} className="flex justify-between gap-2">
+              <span className="truncate text-neutral-700">{change.title}</span>
+              <span className="shrink-0 text-neutral-500">
+                {change.skipped
+                  ? "skipped"
+                  : `${formatTime(change.beforeStartMinutes)} → ${formatTime(change.afterStartMinutes)}`}
+                {change.durationMinutes !== undefined && ` (${change.durationMinutes} min)`}
+              </span>
+            </li>
+          ))}
+          {hidden > 0 && (
+            <li className="text-neutral-400">and {hidden} more</li>
+          )}
+        </ul>
+      )}
+    </button>
+  );
+}
@@ -1,17 +1,20 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Cloud, CloudOff, RefreshCw, Check, AlertCircle } from "lucide-react";
+import { Cloud, CloudOff, RefreshCw, Check, AlertCircle, GitMerge } from "lucide-react";
 import { useSyncStatus } from "@/lib/offline/use-sync-status";
+import type { SyncConflict } from "@/lib/offline";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
 /**
- * Sync status indicator for live cooking mode
+ * Sync status indicator for live cooking and shopping
  *
  * Shows:
  * - Online: "Last synced X ago" with cloud icon
  * - Offline: "X changes queued" with offline icon
  * - Syncing: Spinning refresh icon
+ * - Conflicts: Changes that clashed with another device; tap to resolve
  * - Error: Warning with retry button
  */
 export function SyncStatusIndicator() {
@@ -22,10 +25,18 @@ export function SyncStatusIndicator() {
     lastSyncedAgo,
     lastError,
     hasOfflineSupport,
+    conflicts,
+    resolveConflict,
     triggerSync,
   } = useSyncStatus();
 
   const [showSyncSuccess, setShowSyncSuccess] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  // Close the conflict list once everything is resolved
+  useEffect(() => {
+    if (conflicts.length === 0) setShowConflicts(false);
+  }, [conflicts.length]);
 
   // Show brief success indicator after sync
   useEffect(() => {
@@ -64,6 +75,16 @@ export function SyncStatusIndicator() {
       };
     }
 
+    if (conflicts.length > 0) {
+      return {
+        icon: <GitMerge className="h-4 w-4" />,
+        text: `${conflicts.length} conflict${conflicts.length === 1 ? "" : "s"}`,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        hasConflicts: true,
+      };
+    }
+
     if (lastError && pendingCount > 0) {
       return {
         icon: <AlertCircle className="h-4 w-4" />,
@@ -94,29 +115,117 @@ export function SyncStatusIndicator() {
   const status = getStatusDisplay();
 
   return (
-    <div
-      className={cn(
-        "inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors",
-        status.bgColor,
-        status.color
-      )}
-    >
-      {status.icon}
-      <span className="live-secondary-info">{status.text}</span>
-
-      {"showRetry" in status && status.showRetry && (
-        <button
-          onClick={() => triggerSync()}
-          className="ml-1 p-0.5 hover:bg-white/50 rounded transition-colors"
-          title="Retry sync"
-        >
-          <RefreshCw className="h-3 w-3" />
-        </button>
+    <div className="relative">
+      <div
+        className={cn(
+          "inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors",
+          status.bgColor,
+          status.color
+        )}
+      >
+        {"hasConflicts" in status && status.hasConflicts ? (
+          <button
+            onClick={() => setShowConflicts((open) => !open)}
+            className="inline-flex items-center gap-1.5"
+            aria-expanded={showConflicts}
+          >
+            {status.icon}
+            <span className="live-secondary-info">{status.text}</span>
+          </button>
+        ) : (
+          <>
+            {status.icon}
+            <span className="live-secondary-info">{status.text}</span>
+          </>
+        )}
+
+        {"showRetry" in status && status.showRetry && (
+          <button
+            onClick={() => triggerSync()}
+            className="ml-1 p-0.5 hover:bg-white/50 rounded transition-colors"
+            title="Retry sync"
+          >
+            <RefreshCw className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {showConflicts && (
+        <div className="absolute right-0 top-full z-20 mt-2 w-72 space-y-3 rounded-lg border border-neutral-200 bg-white p-3 shadow-lg">
+          <p className="text-xs text-neutral-500">
+            These changes were made offline while someone else changed the same task.
+          </p>
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="space-y-2 border-t border-neutral-100 pt-3">
+              <p className="text-sm font-medium text-foreground">
+                {conflict.taskTitle ?? "Task"}
+              </p>
+              <p className="text-xs text-neutral-500">{conflict.reason}</p>
+              <p className="text-xs text-neutral-600">
+                Yours: {describeLocalChange(conflict)}
+                <br />
+                Theirs: {describeCurrentTask(conflict)}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveConflict(conflict, "keep_theirs")}
+                >
+                  Keep theirs
+                </Button>
+                <Button size="sm" onClick={() => resolveConflict(conflict, "keep_mine")}>
+                  Keep mine
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
       )}
     </div>
   );
 }
 
+/**
+ * Summarize what this device tried to write
+ */
+function describeLocalChange(conflict: SyncConflict): string {
+  const { localPayload } = conflict;
+  const parts: string[] = [];
+  if (typeof localPayload.status === "string") {
+    parts.push(localPayload.status.replace("_", " "));
+  }
+  if (typeof localPayload.notes === "string") {
+    parts.push(`notes "${localPayload.notes}"`);
+  }
+  if (typeof localPayload.startTimeMinutes === "number") {
+    parts.push(`starts at ${formatMinutes(localPayload.startTimeMinutes)}`);
+  }
+  return parts.join(", ") || "changes";
+}
+
+/**
+ * Summarize the server's copy of the task
+ */
+function describeCurrentTask(conflict: SyncConflict): string {
+  const { current, localPayload } = conflict;
+  const parts = [current.status.replace("_", " ")];
+  if (current.notes) {
+    parts.push(`notes "${current.notes}"`);
+  }
+  if (typeof localPayload.startTimeMinutes === "number") {
+    parts.push(`starts at ${formatMinutes(current.startTimeMinutes)}`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Minutes relative to serve time, e.g., "T-45m"
+ */
+function formatMinutes(minutes: number): string {
+  return minutes < 0 ? `T-${Math.abs(minutes)}m` : `T+${minutes}m`;
+}
+
 /**
  * Compact version for tight spaces
  */
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Task } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+} from "@/components/ui/modal";
+
+interface TaskNotesModalProps {
+  task: Task | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (taskId: string, notes: string) => Promise<void>;
+}
+
+/**
+ * Modal for jotting notes on a task mid-cook ("used 2 tbsp less salt")
+ *
+ * Saves through the offline queue, so it works without a connection.
+ */
+export function TaskNotesModal({ task, open, onOpenChange, onSave }: TaskNotesModalProps) {
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Reset form when task changes
+  useEffect(() => {
+    if (task) {
+      setNotes(task.notes ?? "");
+    }
+  }, [task]);
+
+  const handleSave = async () => {
+    if (!task?.id) return;
+
+    setSaving(true);
+    try {
+      await onSave(task.id, notes.trim());
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!task) return null;
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent>
+        <ModalHeader>
+          <ModalTitle>Task Notes</ModalTitle>
+          <ModalDescription>{task.title}</ModalDescription>
+        </ModalHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="live-task-notes">Notes</Label>
+          <textarea
+            id="live-task-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Add notes for this step..."
+            className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+            rows={4}
+          />
+        </div>
+
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save Notes
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
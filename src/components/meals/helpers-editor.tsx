@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Users, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { showToast } from "@/components/ui/toast";
+import { HelpersSchema, type Helper, type Meal } from "@/types";
+
+interface HelpersEditorProps {
+  /** Meal to save helpers on */
+  mealId: string;
+  /** Current helpers */
+  initialHelpers?: Helper[];
+  /** Callback after successful save */
+  onSaved?: (meal: Meal) => void;
+}
+
+/**
+ * Helpers Editor
+ *
+ * Lists the people cooking with the host. Timeline tasks can be
+ * assigned to them, and each helper can filter live and shared
+ * views down to their own tasks.
+ */
+export function HelpersEditor({ mealId, initialHelpers, onSaved }: HelpersEditorProps) {
+  const [helpers, setHelpers] = useState<Helper[]>(initialHelpers ?? []);
+  const [newName, setNewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setHelpers((prev) => [...prev, { id: uuidv4(), name }]);
+    setNewName("");
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setHelpers((prev) => prev.map((h) => (h.id === id ? { ...h, name } : h)));
+  };
+
+  const handleRemove = (id: string) => {
+    setHelpers((prev) => prev.filter((h) => h.id !== id));
+  };
+
+  const handleSave = async () => {
+    const parsed = HelpersSchema.safeParse(helpers);
+    if (!parsed.success) {
+      showToast.error(parsed.error.issues[0]?.message ?? "Invalid helpers");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/meals/${mealId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ helpers: parsed.data }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to save helpers");
+      }
+
+      const meal = await response.json();
+      showToast.success("Helpers saved");
+      onSaved?.(meal);
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : "Failed to save helpers");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Helpers
+        </CardTitle>
+        <CardDescription>
+          Who&apos;s cooking with you? Assign timeline tasks to them. Unassigned tasks are
+          yours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {helpers.length > 0 && (
+          <ul className="space-y-2">
+            {helpers.map((helper) => (
+              <li key={helper.id} className="flex items-center gap-2">
+                <Input
+                  value={helper.name}
+                  onChange={(e) => handleRename(helper.id, e.target.value)}
+                  aria-label="Helper name"
+                  className="flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(helper.id)}
+                  aria-label={`Remove ${helper.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name, e.g., Aunt Sue"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" onClick={handleAdd}>
+            Add
+          </Button>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="button" variant="primary" onClick={handleSave} loading={isSaving}>
+            Save Helpers
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,3 +1,5 @@
 export { MealForm } from "./meal-form";
 export { RecipePicker } from "./recipe-picker";
 export { ScalingInput, ScalingList } from "./scaling-input";
+export { KitchenProfileEditor } from "./kitchen-profile-editor";
+export { HelpersEditor } from "./helpers-editor";
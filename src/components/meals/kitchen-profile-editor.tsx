@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { ChefHat, Plus, Trash2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { showToast } from "@/components/ui/toast";
+import {
+  DEFAULT_KITCHEN_PROFILE,
+  KitchenProfileSchema,
+  OVEN_RESOURCE_ID,
+  type KitchenProfile,
+  type KitchenResource,
+  type Meal,
+} from "@/types";
+
+/** Common equipment offered as one-tap additions */
+const EQUIPMENT_PRESETS: KitchenResource[] = [
+  { id: "stand-mixer", name: "Stand mixer", capacity: 1 },
+  { id: "grill", name: "Grill", capacity: 1 },
+  { id: "slow-cooker", name: "Slow cooker", capacity: 1 },
+  { id: "microwave", name: "Microwave", capacity: 1 },
+];
+
+interface KitchenProfileEditorProps {
+  /** Meal to save the profile on */
+  mealId: string;
+  /** Current profile (default kitchen if unset) */
+  initialProfile?: KitchenProfile;
+  /** Callback after successful save */
+  onSaved?: (meal: Meal) => void;
+}
+
+/**
+ * Kitchen Profile Editor
+ *
+ * Lets the host describe the equipment available for a meal
+ * (two ovens, four burners, one stand mixer...). The timeline
+ * validator and generator schedule within these capacities.
+ */
+export function KitchenProfileEditor({
+  mealId,
+  initialProfile,
+  onSaved,
+}: KitchenProfileEditorProps) {
+  const [resources, setResources] = useState<KitchenResource[]>(
+    () => (initialProfile ?? DEFAULT_KITCHEN_PROFILE).resources
+  );
+  const [newName, setNewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateResource = useCallback((id: string, updates: Partial<KitchenResource>) => {
+    setResources((prev) => prev.map((r) => (r.id === id ? { ...r, ...updates } : r)));
+  }, []);
+
+  const removeResource = useCallback((id: string) => {
+    setResources((prev) => prev.filter((r) => r.id !== id));
+  }, []);
+
+  const addResource = useCallback((resource: KitchenResource) => {
+    setResources((prev) =>
+      prev.some((r) => r.id === resource.id) ? prev : [...prev, resource]
+    );
+  }, []);
+
+  const handleAddCustom = () => {
+    const name = newName.trim();
+    const id = toResourceId(name);
+    if (!id) return;
+    addResource({ id, name, capacity: 1 });
+    setNewName("");
+  };
+
+  const handleSave = async () => {
+    const parsed = KitchenProfileSchema.safeParse({ resources });
+    if (!parsed.success) {
+      showToast.error(parsed.error.issues[0]?.message ?? "Invalid kitchen setup");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/meals/${mealId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kitchenProfile: parsed.data }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to save kitchen");
+      }
+
+      const meal = await response.json();
+      showToast.success("Kitchen saved. Regenerate the timeline to use it.");
+      onSaved?.(meal);
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : "Failed to save kitchen");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const availablePresets = EQUIPMENT_PRESETS.filter(
+    (preset) => !resources.some((r) => r.id === preset.id)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Kitchen
+        </CardTitle>
+        <CardDescription>
+          How many of each can be used at once. Two ovens? Set Oven to 2.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {resources.map((resource) => (
+            <li key={resource.id} className="flex items-center gap-2">
+              <Input
+                value={resource.name}
+                onChange={(e) => updateResource(resource.id, { name: e.target.value })}
+                aria-label="Equipment name"
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                max={20}
+                value={resource.capacity}
+                onChange={(e) =>
+                  updateResource(resource.id, {
+                    capacity: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })
+                }
+                aria-label={`${resource.name} capacity`}
+                className="w-20"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeResource(resource.id)}
+                disabled={resource.id === OVEN_RESOURCE_ID}
+                aria-label={`Remove ${resource.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {availablePresets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {availablePresets.map((preset) => (
+              <Button
+                key={preset.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => addResource(preset)}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Other equipment, e.g., Smoker"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddCustom();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" onClick={handleAddCustom}>
+            Add
+          </Button>
+        </div>
+
+        <div className="flex justify-between gap-3">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => setResources(DEFAULT_KITCHEN_PROFILE.resources)}
+            disabled={isSaving}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+          <Button type="button" variant="primary" onClick={handleSave} loading={isSaving}>
+            Save Kitchen
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Turn a display name into a resource ID slug
+ */
+function toResourceId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -13,3 +13,4 @@ export {
 export type { ServiceWorkerState } from "./service-worker-register";
 
 export { OfflineIndicator } from "./offline-indicator";
+export { RecipeBoxMirror } from "./recipe-box-mirror";
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { isIndexedDBAvailable, isRecipeMirrorStale, mirrorRecipeBox } from "@/lib/offline";
+
+/** Wait after page load before mirroring, to stay out of the way */
+const MIRROR_DELAY_MS = 5000;
+
+/**
+ * Keeps the offline recipe box fresh in the background.
+ *
+ * Mirrors recipes (and images, within the chosen budget) into IndexedDB
+ * shortly after load and whenever the connection returns, if the last
+ * mirror is stale. Also prefetches the offline recipe page so its code is
+ * cached before it's needed. Renders nothing.
+ */
+export function RecipeBoxMirror() {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isIndexedDBAvailable()) return;
+
+    const refresh = () => {
+      if (!navigator.onLine || !isRecipeMirrorStale()) return;
+      mirrorRecipeBox().catch((error) => {
+        console.warn("Recipe box mirror failed:", error);
+      });
+    };
+
+    const timer = setTimeout(() => {
+      router.prefetch("/recipes/offline");
+      refresh();
+    }, MIRROR_DELAY_MS);
+
+    window.addEventListener("online", refresh);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("online", refresh);
+    };
+  }, [router]);
+
+  return null;
+}
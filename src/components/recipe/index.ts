@@ -22,6 +22,9 @@ export type { CategorySidebarProps, CategoryCount } from "./category-sidebar";
 export { RecipeDetailPanel } from "./recipe-detail-panel";
 export type { RecipeDetailPanelProps } from "./recipe-detail-panel";
 
+export { RecipeDetail } from "./recipe-detail";
+export type { RecipeDetailProps } from "./recipe-detail";
+
 export { RecipeBoxView } from "./recipe-box-view";
 export type { RecipeBoxViewProps } from "./recipe-box-view";
 
@@ -13,7 +13,7 @@ import {
   ModalClose,
 } from "@/components/ui/modal";
 import { showToast } from "@/components/ui/toast";
-import type { ShareLinkResult } from "@/types";
+import type { Helper, ShareLinkOptions, ShareLinkResult, ShareRole } from "@/types";
 
 interface ShareModalProps {
   /** Whether the modal is open */
@@ -24,21 +24,26 @@ interface ShareModalProps {
   mealId: string;
   /** The meal name for display */
   mealName: string;
+  /** Meal helpers a helper link can be issued to */
+  helpers?: Helper[];
 }
 
 /**
  * ShareModal: Modal for generating and copying share links
  *
  * Generates a unique share link that expires 24 hours after
- * the meal's serve time. Viewers can see the cooking timeline
- * but cannot make changes.
+ * the meal's serve time. Viewer links are read-only; helper links
+ * can also check off tasks (just one helper's, if a helper is picked).
  */
 export function ShareModal({
   open,
   onOpenChange,
   mealId,
   mealName,
+  helpers = [],
 }: ShareModalProps) {
+  const [role, setRole] = useState<ShareRole>("viewer");
+  const [helperId, setHelperId] = useState("");
   const [shareResult, setShareResult] = useState<ShareLinkResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -53,7 +58,7 @@ export function ShareModal({
       const response = await fetch("/api/share", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ mealId }),
+        body: JSON.stringify({ mealId, options: buildOptions() }),
       });
 
       if (!response.ok) {
@@ -70,6 +75,14 @@ export function ShareModal({
     }
   };
 
+  // Only helper links carry a helper identity
+  const buildOptions = (): ShareLinkOptions => {
+    if (role === "helper") {
+      return { role, ...(helperId && { helperId }) };
+    }
+    return { role };
+  };
+
   // Copy link to clipboard
   const handleCopy = async () => {
     if (!shareResult) return;
@@ -104,6 +117,8 @@ export function ShareModal({
       setShareResult(null);
       setError(null);
       setCopied(false);
+      setRole("viewer");
+      setHelperId("");
     }
     onOpenChange(newOpen);
   };
@@ -118,13 +133,56 @@ export function ShareModal({
           </ModalTitle>
           <ModalDescription>
             Create a link to share the cooking timeline for &quot;{mealName}&quot; with family
-            members. They&apos;ll be able to view progress but not make changes.
+            members. Viewers can follow progress; helpers can also check off tasks.
           </ModalDescription>
         </ModalHeader>
 
         <div className="p-6">
           {!shareResult && !loading && !error && (
             <div className="text-center">
+              <div className="mb-4 space-y-3 text-left">
+                <div>
+                  <label
+                    htmlFor="share-role"
+                    className="mb-1.5 block text-sm font-medium text-neutral-700"
+                  >
+                    Access
+                  </label>
+                  <select
+                    id="share-role"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as ShareRole)}
+                    className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                  >
+                    <option value="viewer">View only</option>
+                    <option value="helper">Helper (can check off tasks)</option>
+                  </select>
+                </div>
+
+                {role === "helper" && helpers.length > 0 && (
+                  <div>
+                    <label
+                      htmlFor="share-helper"
+                      className="mb-1.5 block text-sm font-medium text-neutral-700"
+                    >
+                      Helper
+                    </label>
+                    <select
+                      id="share-helper"
+                      value={helperId}
+                      onChange={(e) => setHelperId(e.target.value)}
+                      className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                    >
+                      <option value="">Anyone (all tasks)</option>
+                      {helpers.map((helper) => (
+                        <option key={helper.id} value={helper.id}>
+                          {helper.name} (their tasks only)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
               <p className="mb-4 text-sm text-neutral-600">
                 Share links expire 24 hours after the meal&apos;s serve time.
               </p>
@@ -194,7 +252,11 @@ export function ShareModal({
 
               {/* Usage info */}
               <div className="text-xs text-neutral-500">
-                <p>Anyone with this link can view the cooking timeline.</p>
+                <p>
+                  {shareResult.role === "helper"
+                    ? "Anyone with this link can check off tasks."
+                    : "Anyone with this link can view the cooking timeline."}
+                </p>
                 <p>Generate a new link anytime to replace the current one.</p>
               </div>
             </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { Clock, Flame, CheckCircle, Circle } from "lucide-react";
+import { Clock, Flame, CheckCircle, Circle, User } from "lucide-react";
 import type { Task } from "@/types";
 import { cn } from "@/lib/utils";
 import { calculateRealTime, formatLiveTime } from "@/lib/services/execution";
@@ -8,23 +8,29 @@ import { calculateRealTime, formatLiveTime } from "@/lib/services/execution";
 interface ViewerTaskCardProps {
   task: Task;
   recipeName?: string;
+  /** Helper doing the task (omit for the host) */
+  assigneeName?: string;
   serveTime: Date;
   isNow?: boolean;
   compact?: boolean;
+  /** Check off the task (helper links only) */
+  onCheckoff?: () => void;
 }
 
 /**
  * Read-only task card for share link viewers
  *
- * Shows task status visually but has no interaction.
- * Displays actual clock times based on serve time.
+ * Shows task status visually. Interactive only when onCheckoff is
+ * given (helper links). Displays actual clock times based on serve time.
  */
 export function ViewerTaskCard({
   task,
   recipeName,
+  assigneeName,
   serveTime,
   isNow = false,
   compact = false,
+  onCheckoff,
 }: ViewerTaskCardProps) {
   const statusColors = {
     pending: "border-neutral-200 bg-white",
@@ -37,6 +43,7 @@ export function ViewerTaskCard({
   const realEndTime = calculateRealTime(task.endTimeMinutes, serveTime);
 
   const isCompleted = task.status === "completed" || task.status === "skipped";
+  const canCheckoff = !!onCheckoff && !isCompleted;
 
   return (
     <div
@@ -48,12 +55,16 @@ export function ViewerTaskCard({
       )}
     >
       <div className="flex items-start gap-3">
-        {/* Status indicator (read-only) */}
-        <div
+        {/* Status indicator (a checkoff button for helpers) */}
+        <button
+          type="button"
+          onClick={onCheckoff}
+          disabled={!canCheckoff}
           className={cn(
-            "flex-shrink-0 min-h-[44px] min-w-[44px] flex items-center justify-center"
+            "flex-shrink-0 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-full",
+            canCheckoff && "cursor-pointer hover:bg-neutral-100 active:scale-95"
           )}
-          aria-label={`Task ${task.status}`}
+          aria-label={canCheckoff ? `Mark "${task.title}" as complete` : `Task ${task.status}`}
         >
           {isCompleted ? (
             <CheckCircle
@@ -72,7 +83,7 @@ export function ViewerTaskCard({
               )}
             />
           )}
-        </div>
+        </button>
 
         {/* Main content */}
         <div className="flex-1 min-w-0">
@@ -126,6 +137,14 @@ export function ViewerTaskCard({
                 {recipeName}
               </span>
             )}
+
+            {/* Assignee */}
+            {assigneeName && (
+              <span className="flex items-center gap-1 rounded bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                <User className="h-3 w-3" />
+                {assigneeName}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
-import { Clock, ChefHat, CheckCircle2, Eye } from "lucide-react";
+import { Clock, ChefHat, CheckCircle2, Eye, ListChecks } from "lucide-react";
 import type { Timeline, Task } from "@/types";
 import { ViewerTaskCard } from "./viewer-task-card";
 import { groupTasksForLive } from "@/lib/services/execution";
@@ -10,20 +10,30 @@ interface ViewerTimelineViewProps {
   timeline: Timeline;
   tasks: Task[];
   recipeNames: Record<string, string>;
+  /** Helper names by ID, for assignee badges */
+  assigneeNames?: Map<string, string>;
   serveTime: Date;
+  /** Which tasks this link may check off (helper links only) */
+  canCheckoff?: (task: Task) => boolean;
+  /** Check off a task (helper links only) */
+  onCheckoff?: (taskId: string) => void;
 }
 
 /**
  * Read-only timeline view for share link viewers
  *
  * Groups tasks into Now/Next/Later sections.
- * No checkoff or timer functionality - just viewing.
+ * Viewer links just watch; helper links can also check off their tasks.
+ * No timer functionality.
  */
 export function ViewerTimelineView({
   timeline,
   tasks,
   recipeNames,
+  assigneeNames,
   serveTime,
+  canCheckoff,
+  onCheckoff,
 }: ViewerTimelineViewProps) {
   const recipeNamesMap = useMemo(
     () => new Map(Object.entries(recipeNames)),
@@ -35,13 +45,23 @@ export function ViewerTimelineView({
     [tasks, serveTime, timeline.currentTaskId]
   );
 
+  // Checkoff handler for tasks this link may update
+  const checkoffFor = (task: Task) =>
+    onCheckoff && task.id && (!canCheckoff || canCheckoff(task))
+      ? () => onCheckoff(task.id!)
+      : undefined;
+
   return (
     <div className="space-y-8">
-      {/* Viewer badge */}
+      {/* Viewer / helper badge */}
       <div className="flex items-center justify-center gap-2 rounded-lg bg-neutral-100 py-2 px-4">
-        <Eye className="h-4 w-4 text-neutral-500" />
+        {onCheckoff ? (
+          <ListChecks className="h-4 w-4 text-neutral-500" />
+        ) : (
+          <Eye className="h-4 w-4 text-neutral-500" />
+        )}
         <span className="text-sm text-neutral-600">
-          Viewing live cooking progress
+          {onCheckoff ? "Helping: tap a task to check it off" : "Viewing live cooking progress"}
         </span>
       </div>
 
@@ -62,8 +82,10 @@ export function ViewerTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNamesMap.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 isNow
+                onCheckoff={checkoffFor(task)}
               />
             ))}
           </div>
@@ -88,8 +110,10 @@ export function ViewerTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNamesMap.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
+                onCheckoff={checkoffFor(task)}
               />
             ))}
           </div>
@@ -113,8 +137,10 @@ export function ViewerTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNamesMap.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
+                onCheckoff={checkoffFor(task)}
               />
             ))}
           </div>
@@ -136,6 +162,7 @@ export function ViewerTimelineView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNamesMap.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
               />
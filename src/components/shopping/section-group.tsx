@@ -13,6 +13,7 @@ interface SectionGroupProps {
   onCheck: (itemId: string) => void;
   onUncheck: (itemId: string) => void;
   onToggleStaple: (itemName: string, isStaple: boolean) => void;
+  onSaveNotes?: (itemId: string, notes: string) => void;
   recipeNames?: Map<string, string>;
   defaultOpen?: boolean;
 }
@@ -23,6 +24,7 @@ export function SectionGroup({
   onCheck,
   onUncheck,
   onToggleStaple,
+  onSaveNotes,
   recipeNames,
   defaultOpen = true,
 }: SectionGroupProps) {
@@ -88,6 +90,7 @@ export function SectionGroup({
               onCheck={onCheck}
               onUncheck={onUncheck}
               onToggleStaple={onToggleStaple}
+              onSaveNotes={onSaveNotes}
               recipeNames={recipeNames}
             />
           ))}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Check, Star, StarOff, ChevronDown, ChevronUp } from "lucide-react";
+import { Check, Star, StarOff, ChevronDown, ChevronUp, Pencil } from "lucide-react";
 import type { ShoppingItem as ShoppingItemType } from "@/types/shopping";
 import { cn } from "@/lib/utils";
 import { formatQuantity } from "@/lib/services/shopping/unit-reconciliation";
@@ -11,6 +11,8 @@ interface ShoppingItemProps {
   onCheck: (itemId: string) => void;
   onUncheck: (itemId: string) => void;
   onToggleStaple: (itemName: string, isStaple: boolean) => void;
+  /** Save notes for the item ("from Costco"); omit to hide the editor */
+  onSaveNotes?: (itemId: string, notes: string) => void;
   recipeNames?: Map<string, string>;
 }
 
@@ -19,9 +21,12 @@ export function ShoppingItem({
   onCheck,
   onUncheck,
   onToggleStaple,
+  onSaveNotes,
   recipeNames,
 }: ShoppingItemProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [draftNotes, setDraftNotes] = useState("");
 
   const handleCheck = () => {
     if (item.checked) {
@@ -36,6 +41,19 @@ export function ShoppingItem({
     onToggleStaple(item.name, !item.isStaple);
   };
 
+  const startEditingNotes = () => {
+    setDraftNotes(item.notes ?? "");
+    setIsEditingNotes(true);
+  };
+
+  const saveNotes = () => {
+    const notes = draftNotes.trim();
+    setIsEditingNotes(false);
+    if (onSaveNotes && item.id && notes && notes !== item.notes) {
+      onSaveNotes(item.id, notes);
+    }
+  };
+
   const quantityDisplay =
     item.quantity !== null
       ? `${formatQuantity(item.quantity)}${item.unit ? ` ${item.unit}` : ""}`
@@ -98,8 +116,23 @@ export function ShoppingItem({
         </div>
 
         {/* Notes */}
-        {item.notes && (
-          <p className="text-sm text-neutral-500 mt-0.5">{item.notes}</p>
+        {isEditingNotes ? (
+          <input
+            type="text"
+            value={draftNotes}
+            onChange={(e) => setDraftNotes(e.target.value)}
+            onBlur={saveNotes}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveNotes();
+              if (e.key === "Escape") setIsEditingNotes(false);
+            }}
+            placeholder="Buy organic, from Costco..."
+            className="mt-1 w-full rounded-md border border-neutral-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-terracotta-500"
+            aria-label={`Notes for ${item.name}`}
+            autoFocus
+          />
+        ) : (
+          item.notes && <p className="text-sm text-neutral-500 mt-0.5">{item.notes}</p>
         )}
 
         {/* Recipe sources (expandable) */}
@@ -127,6 +160,18 @@ export function ShoppingItem({
         )}
       </div>
 
+      {/* Notes editor toggle */}
+      {onSaveNotes && !isEditingNotes && (
+        <button
+          onClick={startEditingNotes}
+          className="flex-shrink-0 p-1.5 rounded-md transition-colors opacity-0 group-hover:opacity-100 text-neutral-300 hover:text-terracotta-600 hover:bg-terracotta-50"
+          aria-label={item.notes ? "Edit notes" : "Add notes"}
+          title={item.notes ? "Edit notes" : "Add notes"}
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+      )}
+
       {/* Staple toggle */}
       <button
         onClick={handleToggleStaple}
@@ -8,6 +8,7 @@ import {
   RefreshCw,
   ShoppingCart,
   Check,
+  Download,
 } from "lucide-react";
 import type { ShoppingList as ShoppingListType, StoreSection } from "@/types/shopping";
 import { getSectionOrder } from "@/lib/services/shopping/section-classifier";
@@ -21,6 +22,11 @@ interface ShoppingListProps {
   onUncheck: (itemId: string) => Promise<void>;
   onToggleStaple: (itemName: string, isStaple: boolean) => Promise<void>;
   onRegenerate?: () => Promise<void>;
+  onSaveNotes?: (itemId: string, notes: string) => void;
+  /** Whether the list is saved for offline use */
+  isSavedOffline?: boolean;
+  /** Save or stop saving the list offline; omit to hide the toggle */
+  onToggleOffline?: () => void;
   recipeNames?: Map<string, string>;
   mealName?: string;
 }
@@ -31,6 +37,9 @@ export function ShoppingList({
   onUncheck,
   onToggleStaple,
   onRegenerate,
+  onSaveNotes,
+  isSavedOffline = false,
+  onToggleOffline,
   recipeNames,
   mealName,
 }: ShoppingListProps) {
@@ -132,6 +141,25 @@ export function ShoppingList({
           )}
         </div>
         <div className="flex items-center gap-2">
+          {onToggleOffline && (
+            <button
+              onClick={onToggleOffline}
+              className={cn(
+                "p-2 rounded-lg transition-colors",
+                isSavedOffline
+                  ? "text-sage-600 bg-sage-50 hover:bg-sage-100"
+                  : "text-neutral-500 hover:text-terracotta-600 hover:bg-terracotta-50"
+              )}
+              title={
+                isSavedOffline
+                  ? "Saved for offline use (tap to remove)"
+                  : "Save for offline use in the store"
+              }
+              aria-pressed={isSavedOffline}
+            >
+              <Download className="w-5 h-5" />
+            </button>
+          )}
           {onRegenerate && (
             <button
               onClick={handleRegenerate}
@@ -240,6 +268,7 @@ export function ShoppingList({
             onCheck={handleCheck}
             onUncheck={handleUncheck}
             onToggleStaple={handleToggleStaple}
+            onSaveNotes={onSaveNotes}
             recipeNames={recipeNames}
           />
         ))}
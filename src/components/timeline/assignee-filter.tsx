@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Users } from "lucide-react";
+import type { Helper } from "@/types";
+import {
+  ALL_ASSIGNEES,
+  HOST_ASSIGNEE,
+  type AssigneeFilter as AssigneeFilterValue,
+} from "@/lib/services/execution";
+
+const STORAGE_KEY_PREFIX = "sunday-dinner-assignee-";
+
+/**
+ * Remember whose tasks this device shows
+ *
+ * Stored in localStorage so a helper's phone keeps showing "my tasks"
+ * across reloads.
+ *
+ * @param scope - Meal ID (live view) or share token (viewer page)
+ */
+export function useAssigneeFilter(
+  scope: string
+): [AssigneeFilterValue, (value: AssigneeFilterValue) => void] {
+  const [filter, setFilter] = useState<AssigneeFilterValue>(ALL_ASSIGNEES);
+
+  // Initialize from localStorage on mount
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + scope);
+    if (stored) setFilter(stored);
+  }, [scope]);
+
+  const update = useCallback(
+    (value: AssigneeFilterValue) => {
+      setFilter(value);
+      localStorage.setItem(STORAGE_KEY_PREFIX + scope, value);
+    },
+    [scope]
+  );
+
+  return [filter, update];
+}
+
+interface AssigneeFilterProps {
+  helpers: Helper[];
+  value: AssigneeFilterValue;
+  onChange: (value: AssigneeFilterValue) => void;
+}
+
+/**
+ * Dropdown to show everyone's tasks or just one person's
+ *
+ * Renders nothing when the meal has no helpers.
+ */
+export function AssigneeFilter({ helpers, value, onChange }: AssigneeFilterProps) {
+  if (helpers.length === 0) {
+    return null;
+  }
+
+  // A removed helper falls back to everyone
+  const selected =
+    value === HOST_ASSIGNEE || helpers.some((h) => h.id === value) ? value : ALL_ASSIGNEES;
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-neutral-600">
+      <Users className="h-4 w-4" />
+      <span className="sr-only">Show tasks for</span>
+      <select
+        value={selected}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-lg border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+      >
+        <option value={ALL_ASSIGNEES}>Everyone&apos;s tasks</option>
+        <option value={HOST_ASSIGNEE}>Host&apos;s tasks</option>
+        {helpers.map((helper) => (
+          <option key={helper.id} value={helper.id}>
+            {helper.name}&apos;s tasks
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -1,21 +1,25 @@
 "use client";
 
-import { AlertTriangle, XCircle, ChevronDown, ChevronUp } from "lucide-react";
+import { AlertTriangle, XCircle, ChevronDown, ChevronUp, Wand2 } from "lucide-react";
 import { useState } from "react";
 import type { TimelineConflict } from "@/types";
+import { Button } from "@/components/ui/button";
 
 interface ConflictBannerProps {
   conflicts: TimelineConflict[];
   onResolve?: (conflictIndex: number) => void;
+  /** Run the automatic resolver (shown only when there are errors) */
+  onFixConflicts?: () => void;
 }
 
 /**
  * ConflictBanner displays timeline validation conflicts
  *
  * Shows errors (blocking) and warnings (informational) with
- * expandable details for each conflict.
+ * expandable details for each conflict. Blocking errors can be
+ * handed to the automatic resolver via onFixConflicts.
  */
-export function ConflictBanner({ conflicts, onResolve }: ConflictBannerProps) {
+export function ConflictBanner({ conflicts, onResolve, onFixConflicts }: ConflictBannerProps) {
   const [expanded, setExpanded] = useState(true);
 
   if (conflicts.length === 0) {
@@ -103,6 +107,12 @@ export function ConflictBanner({ conflicts, onResolve }: ConflictBannerProps) {
               />
             ))}
           </ul>
+          {hasErrors && onFixConflicts && (
+            <Button variant="outline" size="sm" onClick={onFixConflicts} className="mt-3">
+              <Wand2 className="mr-2 h-4 w-4" />
+              Fix conflicts
+            </Button>
+          )}
         </div>
       )}
     </div>
@@ -178,6 +188,14 @@ function getConflictTypeLabel(type: TimelineConflict["type"]): string {
       return "Serve Time Issue";
     case "missing_dependency":
       return "Missing Dependency";
+    case "resource_overbooked":
+      return "Equipment Conflict";
+    case "unknown_resource":
+      return "Unknown Equipment";
+    case "attention_overlap":
+      return "Hands Full";
+    case "helper_double_booked":
+      return "Helper Double-Booked";
     default:
       return "Conflict";
   }
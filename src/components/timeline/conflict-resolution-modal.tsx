@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowRight, AlertTriangle } from "lucide-react";
+import type { ConflictResolution } from "@/lib/validator";
+import { Button } from "@/components/ui/button";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+} from "@/components/ui/modal";
+
+interface ConflictResolutionModalProps {
+  /** Resolver output to preview (null while closed) */
+  resolution: ConflictResolution | null;
+  serveTime?: Date;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (resolution: ConflictResolution) => Promise<void>;
+}
+
+/**
+ * Modal previewing the automatic conflict fix
+ *
+ * Lists every task the resolver moved with its before → after time
+ * so the host can check the new plan before anything is saved.
+ */
+export function ConflictResolutionModal({
+  resolution,
+  serveTime,
+  open,
+  onOpenChange,
+  onApply,
+}: ConflictResolutionModalProps) {
+  const [applying, setApplying] = useState(false);
+
+  const changes = resolution?.changes ?? [];
+  const remainingErrors =
+    resolution?.remainingConflicts.filter((c) => c.severity === "error") ?? [];
+
+  const handleApply = async () => {
+    if (!resolution) return;
+    setApplying(true);
+    try {
+      await onApply(resolution);
+      onOpenChange(false);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="max-w-2xl">
+        <ModalHeader>
+          <ModalTitle>Fix Conflicts</ModalTitle>
+          <ModalDescription>
+            {changes.length > 0
+              ? `${changes.length} task${changes.length !== 1 ? "s" : ""} will move earlier. Nothing is saved until you apply.`
+              : "No tasks could be moved to fix these conflicts."}
+          </ModalDescription>
+        </ModalHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <ul className="space-y-2">
+            {changes.map((change) => (
+              <li key={change.taskId} className="rounded-lg border bg-white p-3">
+                <p className="truncate font-medium">{change.title}</p>
+                <p className="mt-1 flex items-center gap-2 text-sm">
+                  <span className="text-neutral-400 line-through">
+                    {formatTaskTime(change.beforeStartMinutes, serveTime)}
+                  </span>
+                  <ArrowRight className="h-3.5 w-3.5 text-neutral-400" />
+                  <span className="font-medium text-primary">
+                    {formatTaskTime(change.afterStartMinutes, serveTime)}
+                  </span>
+                </p>
+                <p className="mt-1 text-xs text-neutral-500">{change.reason}</p>
+              </li>
+            ))}
+          </ul>
+
+          {remainingErrors.length > 0 && (
+            <div className="mt-4 flex items-start gap-2 rounded-md bg-amber-100 p-3 text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+              <p>
+                {remainingErrors.length} conflict
+                {remainingErrors.length !== 1 ? "s" : ""} can&apos;t be fixed automatically
+                (tasks already in progress, or ones that would have to be split into parts). Edit
+                those tasks by hand.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={changes.length === 0} loading={applying}>
+            Apply Changes
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+/**
+ * Format task time as clock time, or relative to serve if unknown
+ */
+function formatTaskTime(minutesRelative: number, serveTime?: Date): string {
+  if (!serveTime) {
+    if (minutesRelative === 0) return "At serve time";
+    if (minutesRelative > 0) return `${minutesRelative}m after`;
+
+    const abs = Math.abs(minutesRelative);
+    if (abs < 60) return `${abs}m before`;
+
+    const hours = Math.floor(abs / 60);
+    const mins = abs % 60;
+    if (mins === 0) return `${hours}h before`;
+    return `${hours}h ${mins}m before`;
+  }
+
+  const taskTime = new Date(serveTime.getTime() + minutesRelative * 60 * 1000);
+  return taskTime.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
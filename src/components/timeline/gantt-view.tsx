@@ -11,6 +11,8 @@ interface GanttViewProps {
   recipeColors?: Map<string, string>;
   serveTime?: Date;
   onTaskClick?: (taskId: string) => void;
+  /** People cooking; hands-on overlap beyond this is highlighted (default 1) */
+  cookCount?: number;
 }
 
 /**
@@ -25,6 +27,12 @@ const RECIPE_COLORS = [
   "bg-pink-400/70 border-pink-500",
 ];
 
+/**
+ * Diagonal stripes marking hands-off (passive) task bars
+ */
+const PASSIVE_STRIPES =
+  "repeating-linear-gradient(135deg, rgba(255,255,255,0.45) 0 4px, transparent 4px 8px)";
+
 /**
  * GanttView displays tasks as horizontal bars on a timeline
  *
@@ -32,6 +40,8 @@ const RECIPE_COLORS = [
  * - Color-coded by recipe
  * - Time scale along bottom
  * - Oven indicators
+ * - Solid bars for hands-on tasks, striped bars for hands-off ones
+ * - Hands-on lane showing where active tasks pile up
  * - Click to edit
  */
 export function GanttView({
@@ -40,6 +50,7 @@ export function GanttView({
   recipeColors: customColors,
   serveTime,
   onTaskClick,
+  cookCount = 1,
 }: GanttViewProps) {
   // Calculate time bounds
   const { minTime, maxTime, scale, recipeColorMap } = useMemo(() => {
@@ -95,6 +106,15 @@ export function GanttView({
     return grouped;
   }, [timeline.tasks]);
 
+  // Hands-on load over time
+  const activeLoad = useMemo(
+    () =>
+      getActiveLoadSegments(
+        timeline.tasks.filter((t) => t.status !== "completed" && t.status !== "skipped")
+      ),
+    [timeline.tasks]
+  );
+
   return (
     <div className="relative overflow-x-auto">
       {/* Mobile scroll hint */}
@@ -119,6 +139,15 @@ export function GanttView({
               </span>
             </div>
           ))}
+          <div className="flex items-center gap-2 text-sm text-neutral-500">
+            <div className="h-3 w-3 rounded-sm border border-neutral-400 bg-neutral-400" />
+            Hands-on
+            <div
+              className="ml-2 h-3 w-3 rounded-sm border border-dashed border-neutral-400"
+              style={{ backgroundImage: PASSIVE_STRIPES }}
+            />
+            Hands-off
+          </div>
         </div>
 
         {/* Gantt chart area */}
@@ -162,6 +191,26 @@ export function GanttView({
                   })}
               </div>
             ))}
+
+            {/* Hands-on lane - red where active tasks outnumber cooks */}
+            {activeLoad.length > 0 && (
+              <div className="relative h-4" aria-label="Hands-on load">
+                {activeLoad.map((segment) => (
+                  <div
+                    key={segment.start}
+                    className={cn(
+                      "absolute top-0 h-4 rounded-sm",
+                      segment.count > cookCount ? "bg-red-500/80" : "bg-neutral-300"
+                    )}
+                    style={{
+                      left: `${((segment.start - minTime) / scale) * 100}%`,
+                      width: `${((segment.end - segment.start) / scale) * 100}%`,
+                    }}
+                    title={`${segment.count} hands-on task${segment.count !== 1 ? "s" : ""}`}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Serve time indicator */}
@@ -207,6 +256,8 @@ function GanttBar({
   colorClass: string;
   onClick?: () => void;
 }) {
+  const isPassive = task.attention === "passive";
+
   return (
     <button
       type="button"
@@ -215,14 +266,16 @@ function GanttBar({
       className={cn(
         "absolute top-1 h-10 rounded border-2 px-2 py-1 text-left transition-all",
         colorClass,
+        isPassive && "border-dashed opacity-60",
         onClick && "cursor-pointer hover:opacity-80",
         "overflow-hidden"
       )}
       style={{
         left: `${left}%`,
         width: `${Math.max(width, 3)}%`, // Minimum width for visibility
+        ...(isPassive && { backgroundImage: PASSIVE_STRIPES }),
       }}
-      title={task.title}
+      title={isPassive ? `${task.title} (hands-off)` : task.title}
     >
       <div className="flex items-center gap-1">
         {task.requiresOven && (
@@ -236,6 +289,32 @@ function GanttBar({
   );
 }
 
+/**
+ * Split time into segments by how many active tasks are running
+ *
+ * Only segments with at least one active task are returned.
+ */
+function getActiveLoadSegments(
+  tasks: Task[]
+): Array<{ start: number; end: number; count: number }> {
+  const active = tasks.filter((t) => t.attention === "active");
+  const points = Array.from(
+    new Set(active.flatMap((t) => [t.startTimeMinutes, t.endTimeMinutes]))
+  ).sort((a, b) => a - b);
+
+  const segments: Array<{ start: number; end: number; count: number }> = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]!;
+    const end = points[i + 1]!;
+    const count = active.filter(
+      (t) => t.startTimeMinutes < end && start < t.endTimeMinutes
+    ).length;
+    if (count > 0) segments.push({ start, end, count });
+  }
+
+  return segments;
+}
+
 /**
  * Format time marker for display
  */
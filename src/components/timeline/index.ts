@@ -8,6 +8,11 @@ export { ConflictBanner } from "./conflict-banner";
 export { TaskCard, TaskCardCompact } from "./task-card";
 export { NowNextLaterView } from "./now-next-later-view";
 export { GanttView } from "./gantt-view";
+export { PrepListView } from "./prep-list-view";
 export { ViewSwitcher, type TimelineViewMode } from "./view-switcher";
 export { TaskEditModal } from "./task-edit-modal";
 export { TaskReorderModal } from "./task-reorder-modal";
+export { ConflictResolutionModal } from "./conflict-resolution-modal";
+export { TimelineDiffModal } from "./timeline-diff-modal";
+export { TimelineHistoryModal } from "./timeline-history-modal";
+export { AssigneeFilter, useAssigneeFilter } from "./assignee-filter";
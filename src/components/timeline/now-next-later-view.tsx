@@ -8,6 +8,8 @@ import { TaskCard } from "./task-card";
 interface NowNextLaterViewProps {
   timeline: Timeline;
   recipeNames?: Map<string, string>;
+  /** Helper names by ID, for assignee badges */
+  assigneeNames?: Map<string, string>;
   serveTime?: Date;
   onCheckoff?: (taskId: string) => void;
   onEditTask?: (taskId: string) => void;
@@ -25,6 +27,7 @@ interface NowNextLaterViewProps {
 export function NowNextLaterView({
   timeline,
   recipeNames,
+  assigneeNames,
   serveTime,
   onCheckoff,
   onEditTask,
@@ -54,6 +57,7 @@ export function NowNextLaterView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames?.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 isNow
                 onCheckoff={
@@ -86,6 +90,7 @@ export function NowNextLaterView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames?.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
                 onCheckoff={
@@ -117,6 +122,7 @@ export function NowNextLaterView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames?.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
                 onEdit={
@@ -143,6 +149,7 @@ export function NowNextLaterView({
                 key={task.id}
                 task={task}
                 recipeName={recipeNames?.get(task.recipeId)}
+                assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
                 serveTime={serveTime}
                 compact
               />
@@ -0,0 +1,104 @@
+"use client";
+
+import { useMemo } from "react";
+import { CalendarDays, UtensilsCrossed } from "lucide-react";
+import type { Timeline } from "@/types";
+import { formatPrepSessionLabel, groupTasksByPrepSession } from "@/lib/services/execution";
+import { TaskCard } from "./task-card";
+
+interface PrepListViewProps {
+  timeline: Timeline;
+  recipeNames?: Map<string, string>;
+  /** Helper names by ID, for assignee badges */
+  assigneeNames?: Map<string, string>;
+  serveTime: Date;
+  onCheckoff?: (taskId: string) => void;
+  onEditTask?: (taskId: string) => void;
+}
+
+/**
+ * PrepListView shows make-ahead work as one checklist per day
+ *
+ * Each prep session ("Saturday prep", "Friday prep") lists its tasks
+ * with clock times. Serve-day cooking is summarized at the end; the
+ * List and Gantt views cover it in detail.
+ */
+export function PrepListView({
+  timeline,
+  recipeNames,
+  assigneeNames,
+  serveTime,
+  onCheckoff,
+  onEditTask,
+}: PrepListViewProps) {
+  const sessions = useMemo(
+    () => groupTasksByPrepSession(timeline.tasks, serveTime),
+    [timeline.tasks, serveTime]
+  );
+
+  const prepSessions = sessions.filter((s) => s.daysBeforeServe > 0);
+  const serveDay = sessions.find((s) => s.daysBeforeServe === 0);
+
+  if (prepSessions.length === 0) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-neutral-200 p-6 text-center">
+        <p className="text-sm text-neutral-500">
+          Everything is cooked on serve day. No make-ahead prep.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {prepSessions.map((session) => {
+        const remaining = session.tasks.filter(
+          (t) => t.status === "pending" || t.status === "in_progress"
+        ).length;
+
+        return (
+          <section key={session.daysBeforeServe}>
+            <div className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-primary" />
+              <h2 className="font-display text-lg font-semibold text-foreground">
+                {formatPrepSessionLabel(session)}
+              </h2>
+              <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-600">
+                {remaining} left
+              </span>
+              <span className="text-sm text-neutral-500">
+                {session.date.toLocaleDateString("en-US", {
+                  weekday: "short",
+                  month: "short",
+                  day: "numeric",
+                })}
+              </span>
+            </div>
+            <div className="mt-3 space-y-2">
+              {session.tasks.map((task) => (
+                <TaskCard
+                  key={task.id}
+                  task={task}
+                  recipeName={recipeNames?.get(task.recipeId)}
+                  assigneeName={task.assigneeId ? assigneeNames?.get(task.assigneeId) : undefined}
+                  serveTime={serveTime}
+                  compact
+                  onCheckoff={onCheckoff && task.id ? () => onCheckoff(task.id!) : undefined}
+                  onEdit={onEditTask && task.id ? () => onEditTask(task.id!) : undefined}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+
+      {serveDay && (
+        <p className="flex items-center gap-2 text-sm text-neutral-500">
+          <UtensilsCrossed className="h-4 w-4" />
+          {serveDay.tasks.length} task{serveDay.tasks.length !== 1 ? "s" : ""} on serve day.
+          Switch to List or Gantt to see them.
+        </p>
+      )}
+    </div>
+  );
+}
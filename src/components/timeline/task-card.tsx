@@ -1,12 +1,23 @@
 "use client";
 
-import { Clock, Flame, CheckCircle, Circle, Pause, SkipForward } from "lucide-react";
+import {
+  Clock,
+  Flame,
+  CheckCircle,
+  Circle,
+  History,
+  Pause,
+  SkipForward,
+  User,
+} from "lucide-react";
 import type { Task } from "@/types";
 import { cn } from "@/lib/utils";
 
 interface TaskCardProps {
   task: Task;
   recipeName?: string;
+  /** Helper doing the task (omit for the host) */
+  assigneeName?: string;
   serveTime?: Date;
   isNow?: boolean;
   onCheckoff?: () => void;
@@ -17,12 +28,14 @@ interface TaskCardProps {
 /**
  * TaskCard displays a single cooking task
  *
- * Shows title, timing, status, and optionally oven indicator.
+ * Shows title, timing, status, and optionally oven indicator and how
+ * long the step usually takes this cook.
  * Can be used in list view or compact mode.
  */
 export function TaskCard({
   task,
   recipeName,
+  assigneeName,
   serveTime,
   isNow = false,
   onCheckoff,
@@ -110,12 +123,31 @@ export function TaskCard({
               {task.durationMinutes} min
             </span>
 
+            {/* Learned from past meals */}
+            {task.typicalDurationMinutes && (
+              <span
+                className="flex items-center gap-1 text-xs text-neutral-500"
+                title="From how long this step took at your past meals"
+              >
+                <History className="h-3 w-3" />
+                usually takes {task.typicalDurationMinutes} min for you
+              </span>
+            )}
+
             {/* Recipe source */}
             {recipeName && (
               <span className="rounded bg-neutral-100 px-2 py-0.5 text-xs">
                 {recipeName}
               </span>
             )}
+
+            {/* Assignee */}
+            {assigneeName && (
+              <span className="flex items-center gap-1 rounded bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                <User className="h-3 w-3" />
+                {assigneeName}
+              </span>
+            )}
           </div>
         </div>
 
@@ -2,7 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { Trash2, AlertTriangle } from "lucide-react";
-import type { Task } from "@/types";
+import {
+  MAX_PREP_DAYS_BEFORE,
+  MINUTES_PER_DAY,
+  type Helper,
+  type Task,
+  type TaskAttention,
+} from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -18,6 +24,8 @@ import {
 interface TaskEditModalProps {
   task: Task | null;
   serveTime?: Date;
+  /** Meal helpers the task can be assigned to */
+  helpers?: Helper[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (taskId: string, updates: Partial<Task>) => Promise<void>;
@@ -33,6 +41,7 @@ interface TaskEditModalProps {
 export function TaskEditModal({
   task,
   serveTime,
+  helpers = [],
   open,
   onOpenChange,
   onSave,
@@ -41,6 +50,9 @@ export function TaskEditModal({
   const [title, setTitle] = useState("");
   const [minutesBefore, setMinutesBefore] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [prepDays, setPrepDays] = useState(0);
+  const [attention, setAttention] = useState<TaskAttention | "">("");
+  const [assigneeId, setAssigneeId] = useState("");
   const [notes, setNotes] = useState("");
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -53,6 +65,9 @@ export function TaskEditModal({
       // Convert startTimeMinutes (negative) to positive minutes before serve
       setMinutesBefore(Math.abs(task.startTimeMinutes));
       setDuration(task.durationMinutes);
+      setPrepDays(task.prepDaysBefore ?? 0);
+      setAttention(task.attention ?? "");
+      setAssigneeId(task.assigneeId ?? "");
       setNotes(task.notes ?? "");
       setShowDeleteConfirm(false);
     }
@@ -64,11 +79,18 @@ export function TaskEditModal({
 
     const startTime = new Date(serveTime.getTime() - minutesBefore * 60 * 1000);
     return startTime.toLocaleTimeString("en-US", {
+      ...(prepDays > 0 && { weekday: "short" }),
       hour: "numeric",
       minute: "2-digit",
     });
   };
 
+  // Moving a task to another prep day keeps its clock time
+  const handlePrepDaysChange = (days: number) => {
+    setMinutesBefore((prev) => Math.max(0, prev + (days - prepDays) * MINUTES_PER_DAY));
+    setPrepDays(days);
+  };
+
   // Calculate actual end time for display
   const getActualEndTime = (): string => {
     if (!serveTime) return `${minutesBefore - duration} min before serve`;
@@ -92,6 +114,10 @@ export function TaskEditModal({
         // Store as negative (before serve time)
         startTimeMinutes: -minutesBefore,
         durationMinutes: duration,
+        prepDaysBefore: prepDays,
+        ...(attention && { attention }),
+        // Empty string clears the assignee (back to the host)
+        assigneeId,
         notes: notes || undefined,
       });
       onOpenChange(false);
@@ -141,6 +167,25 @@ export function TaskEditModal({
             />
           </div>
 
+          {/* Prep day */}
+          <div className="space-y-2">
+            <Label htmlFor="prep-days">Day</Label>
+            <select
+              id="prep-days"
+              value={prepDays}
+              onChange={(e) => handlePrepDaysChange(Number(e.target.value))}
+              className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+            >
+              {Array.from({ length: MAX_PREP_DAYS_BEFORE + 1 }, (_, days) => (
+                <option key={days} value={days}>
+                  {days === 0
+                    ? "Serve day"
+                    : `Make ahead: ${days} day${days !== 1 ? "s" : ""} before`}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Start Time */}
           <div className="space-y-2">
             <Label htmlFor="minutes-before">Minutes Before Serve Time</Label>
@@ -177,6 +222,43 @@ export function TaskEditModal({
             </div>
           </div>
 
+          {/* Attention */}
+          <div className="space-y-2">
+            <Label htmlFor="task-attention">Attention</Label>
+            <select
+              id="task-attention"
+              value={attention}
+              onChange={(e) => setAttention(e.target.value as TaskAttention | "")}
+              className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+            >
+              <option value="" disabled>
+                Not set
+              </option>
+              <option value="active">Hands-on (needs you the whole time)</option>
+              <option value="passive">Hands-off (roasting, resting, chilling)</option>
+            </select>
+          </div>
+
+          {/* Assignee */}
+          {helpers.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="task-assignee">Who&apos;s doing it</Label>
+              <select
+                id="task-assignee"
+                value={assigneeId}
+                onChange={(e) => setAssigneeId(e.target.value)}
+                className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+              >
+                <option value="">Host (you)</option>
+                {helpers.map((helper) => (
+                  <option key={helper.id} value={helper.id}>
+                    {helper.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Validation warning */}
           {minutesBefore < duration && (
             <div className="flex items-center gap-2 rounded-lg bg-amber-50 p-3 text-amber-700">
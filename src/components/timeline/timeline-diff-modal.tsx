@@ -0,0 +1,205 @@
+"use client";
+
+import { ArrowRight, Minus, Pencil, Plus } from "lucide-react";
+import type { Helper, Task, TaskOverrideField, TimelineDiff } from "@/types";
+import { Button } from "@/components/ui/button";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+} from "@/components/ui/modal";
+
+interface TimelineDiffModalProps {
+  /** Changes from the last regeneration (null while unknown) */
+  diff: TimelineDiff | null;
+  recipeNames?: Map<string, string>;
+  helpers?: Helper[];
+  serveTime?: Date;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** How each changed field is named in the list */
+const FIELD_LABELS: Record<TaskOverrideField, string> = {
+  title: "Name",
+  description: "Description",
+  startTimeMinutes: "Start",
+  durationMinutes: "Length",
+  requiresOven: "Oven",
+  ovenTemp: "Oven temp",
+  resources: "Equipment",
+  attention: "Attention",
+  assigneeId: "Cook",
+  prepDaysBefore: "Day",
+};
+
+/**
+ * Modal listing what the last regeneration changed
+ *
+ * Tasks are matched across versions by recipe step, so a task that only
+ * moved shows as changed rather than removed and added. Manual edits are
+ * re-applied before this comparison, so they only show when they no
+ * longer apply.
+ */
+export function TimelineDiffModal({
+  diff,
+  recipeNames,
+  helpers,
+  serveTime,
+  open,
+  onOpenChange,
+}: TimelineDiffModalProps) {
+  const total = diff ? diff.added.length + diff.removed.length + diff.changed.length : 0;
+  const helperNames = new Map((helpers ?? []).map((h) => [h.id, h.name]));
+
+  const formatValue = (field: TaskOverrideField, task: Task): string => {
+    switch (field) {
+      case "startTimeMinutes":
+        return formatTaskTime(task.startTimeMinutes, serveTime);
+      case "durationMinutes":
+        return `${task.durationMinutes} min`;
+      case "requiresOven":
+        return task.requiresOven ? "Yes" : "No";
+      case "ovenTemp":
+        return task.ovenTemp ? `${task.ovenTemp}°F` : "None";
+      case "resources":
+        return task.resources?.map((r) => r.resourceId).join(", ") || "None";
+      case "attention":
+        return task.attention === "passive" ? "Hands-off" : task.attention ? "Hands-on" : "Unknown";
+      case "assigneeId":
+        return task.assigneeId ? (helperNames.get(task.assigneeId) ?? "Helper") : "You";
+      case "prepDaysBefore":
+        return formatPrepDay(task.prepDaysBefore);
+      default:
+        return task[field] || "None";
+    }
+  };
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="max-w-2xl">
+        <ModalHeader>
+          <ModalTitle>What Changed</ModalTitle>
+          <ModalDescription>
+            {total > 0
+              ? `${total} task${total !== 1 ? "s" : ""} differ from the version before the last regenerate. Your own edits were kept.`
+              : "Regenerating didn't change any tasks."}
+          </ModalDescription>
+        </ModalHeader>
+
+        {diff && total > 0 && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {diff.added.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center gap-1.5 text-sm font-semibold text-green-700">
+                  <Plus className="h-4 w-4" />
+                  Added
+                </h3>
+                <ul className="space-y-2">
+                  {diff.added.map((task) => (
+                    <li key={task.stepKey} className="rounded-lg border bg-white p-3">
+                      <p className="font-medium">{task.title}</p>
+                      <p className="mt-1 text-sm text-neutral-500">
+                        {recipeNames?.get(task.recipeId) ?? "Recipe"} ·{" "}
+                        {formatTaskTime(task.startTimeMinutes, serveTime)} · {task.durationMinutes}{" "}
+                        min
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {diff.removed.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center gap-1.5 text-sm font-semibold text-red-700">
+                  <Minus className="h-4 w-4" />
+                  Removed
+                </h3>
+                <ul className="space-y-2">
+                  {diff.removed.map((task) => (
+                    <li key={task.stepKey} className="rounded-lg border bg-white p-3">
+                      <p className="font-medium text-neutral-500 line-through">{task.title}</p>
+                      <p className="mt-1 text-sm text-neutral-500">
+                        {recipeNames?.get(task.recipeId) ?? "Recipe"} ·{" "}
+                        {formatTaskTime(task.startTimeMinutes, serveTime)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {diff.changed.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center gap-1.5 text-sm font-semibold text-amber-700">
+                  <Pencil className="h-4 w-4" />
+                  Changed
+                </h3>
+                <ul className="space-y-2">
+                  {diff.changed.map((change) => (
+                    <li key={change.stepKey} className="rounded-lg border bg-white p-3">
+                      <p className="font-medium">{change.after.title}</p>
+                      <ul className="mt-1 space-y-0.5 text-sm">
+                        {change.fields.map((field) => (
+                          <li key={field} className="flex flex-wrap items-center gap-2">
+                            <span className="text-neutral-500">{FIELD_LABELS[field]}:</span>
+                            <span className="text-neutral-400 line-through">
+                              {formatValue(field, change.before)}
+                            </span>
+                            <ArrowRight className="h-3.5 w-3.5 text-neutral-400" />
+                            <span className="font-medium text-primary">
+                              {formatValue(field, change.after)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+function formatPrepDay(prepDaysBefore: number | undefined): string {
+  if (!prepDaysBefore) return "Serve day";
+  return prepDaysBefore === 1 ? "Day before" : `${prepDaysBefore} days before`;
+}
+
+/**
+ * Format task time as clock time, or relative to serve if unknown
+ */
+function formatTaskTime(minutesRelative: number, serveTime?: Date): string {
+  if (!serveTime) {
+    if (minutesRelative === 0) return "At serve time";
+    if (minutesRelative > 0) return `${minutesRelative}m after`;
+
+    const abs = Math.abs(minutesRelative);
+    if (abs < 60) return `${abs}m before`;
+
+    const hours = Math.floor(abs / 60);
+    const mins = abs % 60;
+    if (mins === 0) return `${hours}h before`;
+    return `${hours}h ${mins}m before`;
+  }
+
+  const taskTime = new Date(serveTime.getTime() + minutesRelative * 60 * 1000);
+  return taskTime.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import type { TimelineVersion, TimelineVersionSource } from "@/types";
+import { Button } from "@/components/ui/button";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+} from "@/components/ui/modal";
+
+interface TimelineHistoryModalProps {
+  /** Saved versions, newest first (null while loading) */
+  versions: TimelineVersion[] | null;
+  /** The version the timeline is at now */
+  currentVersion?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (version: number) => Promise<void>;
+}
+
+/** Badge text for what caused each save */
+const SOURCE_LABELS: Record<TimelineVersionSource, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  deleted: "Deleted",
+  reordered: "Reordered",
+  resolved: "Conflicts fixed",
+  restored: "Restored",
+};
+
+/**
+ * Modal listing a timeline's saved versions
+ *
+ * Each save of the timeline is a version with a summary of what changed.
+ * Restoring one saves it again as the newest version, so nothing in the
+ * list is lost by restoring.
+ */
+export function TimelineHistoryModal({
+  versions,
+  currentVersion,
+  open,
+  onOpenChange,
+  onRestore,
+}: TimelineHistoryModalProps) {
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      await onRestore(version);
+      onOpenChange(false);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="max-w-2xl">
+        <ModalHeader>
+          <ModalTitle>Version History</ModalTitle>
+          <ModalDescription>
+            {versions && versions.length === 0
+              ? "No versions saved yet. Every change to the timeline from now on is kept here."
+              : "Every change to the timeline is kept. Restore any version; conflicts are checked again."}
+          </ModalDescription>
+        </ModalHeader>
+
+        {!versions ? (
+          <p className="py-6 text-center text-sm text-neutral-500">Loading history...</p>
+        ) : (
+          <ul className="max-h-[60vh] space-y-2 overflow-y-auto">
+            {versions.map((version) => {
+              const isCurrent = version.version === currentVersion;
+              return (
+                <li
+                  key={version.id}
+                  className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${
+                    isCurrent ? "border-primary bg-primary/5" : "bg-white"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold">Version {version.version}</span>
+                      <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-600">
+                        {SOURCE_LABELS[version.source]}
+                      </span>
+                      {isCurrent && (
+                        <span className="text-xs font-medium text-primary">Current</span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-sm text-foreground">{version.summary}</p>
+                    <p className="mt-1 text-xs text-neutral-500">
+                      {formatSavedAt(version.createdAt)} · {version.taskCount} task
+                      {version.taskCount !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  {!isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version.version)}
+                      loading={restoring === version.version}
+                      disabled={restoring !== null}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+/**
+ * Save time, e.g., "Sat, Nov 22, 3:05 PM"
+ */
+function formatSavedAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -1,19 +1,22 @@
 "use client";
 
-import { List, BarChart3 } from "lucide-react";
+import { List, BarChart3, CalendarDays } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-export type TimelineViewMode = "list" | "gantt";
+export type TimelineViewMode = "list" | "gantt" | "prep";
 
 interface ViewSwitcherProps {
   currentView: TimelineViewMode;
   onViewChange: (view: TimelineViewMode) => void;
+  /** Show the make-ahead prep lists option */
+  showPrep?: boolean;
 }
 
 /**
- * ViewSwitcher toggles between Now/Next/Later list view and Gantt chart
+ * ViewSwitcher toggles between Now/Next/Later list view, Gantt chart,
+ * and (when the timeline has make-ahead tasks) prep lists
  */
-export function ViewSwitcher({ currentView, onViewChange }: ViewSwitcherProps) {
+export function ViewSwitcher({ currentView, onViewChange, showPrep = false }: ViewSwitcherProps) {
   return (
     <div className="inline-flex rounded-lg border border-neutral-200 bg-neutral-50 p-1">
       <ViewButton
@@ -28,6 +31,14 @@ export function ViewSwitcher({ currentView, onViewChange }: ViewSwitcherProps) {
         isActive={currentView === "gantt"}
         onClick={() => onViewChange("gantt")}
       />
+      {showPrep && (
+        <ViewButton
+          icon={CalendarDays}
+          label="Prep"
+          isActive={currentView === "prep"}
+          onClick={() => onViewChange("prep")}
+        />
+      )}
     </div>
   );
 }
@@ -5,6 +5,8 @@ import type {
   Task,
   Timeline,
   RecalculationSuggestion,
+  KitchenProfile,
+  DurationCorrections,
 } from "@/types";
 
 /**
@@ -24,6 +26,10 @@ export interface TimelineGenerationInput {
   serveTime: string;
   /** Number of guests */
   guestCount: number;
+  /** Kitchen equipment to schedule within (default profile if omitted) */
+  kitchenProfile?: KitchenProfile;
+  /** How much longer this cook's steps take than planned, from past meals */
+  durationCorrections?: DurationCorrections;
 }
 
 /**
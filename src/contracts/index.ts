@@ -20,13 +20,17 @@
 export type { AIService, ImageMimeType, TimelineGenerationInput } from "./ai-service";
 
 // Recipe Service (Agent A)
-export type { RecipeService, ListRecipesOptions } from "./recipe-service";
+export type { RecipeService, ListRecipesOptions, DeleteRecipeResult } from "./recipe-service";
 
 // Meal Service (Agent B)
 export type { MealService, ListMealsOptions, CreateMealInput } from "./meal-service";
 
 // Timeline Service (Agent B)
-export type { TimelineService, ValidationResult } from "./timeline-service";
+export type {
+  TimelineService,
+  ValidationResult,
+  GenerateTimelineOptions,
+} from "./timeline-service";
 
 // Shopping Service (Agent A)
 export type { ShoppingService, ListItemsOptions } from "./shopping-service";
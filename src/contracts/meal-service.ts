@@ -88,14 +88,19 @@ export interface MealService {
    * Update meal details
    *
    * @param mealId - Meal UUID
-   * @param updates - Partial meal data (name, serveTime, guestCount)
+   * @param updates - Partial meal data (name, serveTime, guestCount, kitchenProfile, helpers, autoTimerMode)
    * @returns Updated meal
    *
    * @throws Error if meal not found
    */
   update(
     mealId: string,
-    updates: Partial<Pick<Meal, "name" | "serveTime" | "guestCount" | "status">>
+    updates: Partial<
+      Pick<
+        Meal,
+        "name" | "serveTime" | "guestCount" | "status" | "kitchenProfile" | "helpers" | "autoTimerMode"
+      >
+    >
   ): Promise<Meal>;
 
   /**
@@ -1,4 +1,4 @@
-import type { Recipe, ExtractionResult } from "@/types";
+import type { Recipe, RecipeCategory, ExtractionResult } from "@/types";
 
 /**
  * Options for listing recipes
@@ -12,8 +12,20 @@ export interface ListRecipesOptions {
   search?: string;
   /** Filter by source type */
   sourceType?: "photo" | "url" | "pdf" | "manual";
+  /** Filter by category */
+  category?: RecipeCategory;
 }
 
+/**
+ * Outcome of deleting a recipe
+ *
+ * A recipe that doesn't exist or is still used by a meal is refused
+ * rather than thrown, so callers can tell the two apart.
+ */
+export type DeleteRecipeResult =
+  | { success: true }
+  | { success: false; error: "not_found" | "in_use"; message: string };
+
 /**
  * RecipeService: Handles recipe CRUD and extraction operations
  *
@@ -80,10 +92,11 @@ export interface RecipeService {
    * Also removes associated image from storage.
    *
    * @param recipeId - Recipe UUID
+   * @returns Success, or why the recipe was refused (not found or in use by a meal)
    *
-   * @throws Error if recipe not found or in use by a meal
+   * @throws Error if the delete itself fails
    */
-  delete(recipeId: string): Promise<void>;
+  delete(recipeId: string): Promise<DeleteRecipeResult>;
 
   /**
    * Extract recipe data from image
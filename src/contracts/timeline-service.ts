@@ -1,4 +1,16 @@
-import type { Timeline, Task, Meal, RecalculationSuggestion, TimelineConflict } from "@/types";
+import type {
+  Timeline,
+  Task,
+  Meal,
+  RecalculationSuggestion,
+  TimelineConflict,
+  TimelineGenerationStrategy,
+  KitchenProfile,
+  Helper,
+  TimelineDiff,
+  TimelineVersion,
+  TimelineVersionSource,
+} from "@/types";
 
 /**
  * Result of timeline validation
@@ -15,6 +27,19 @@ export interface ValidationResult {
   }>;
 }
 
+/**
+ * Options for timeline generation
+ */
+export interface GenerateTimelineOptions {
+  /**
+   * Which generator to use (default: "ai")
+   *
+   * "ai" falls back to the local scheduler if the Claude call fails.
+   * "local" skips Claude entirely.
+   */
+  strategy?: TimelineGenerationStrategy;
+}
+
 /**
  * TimelineService: Generates and manages cooking timelines
  *
@@ -51,13 +76,15 @@ export interface TimelineService {
   /**
    * Generate timeline from meal recipes
    *
-   * Uses Claude to create task sequence, then validates
-   * deterministically for conflicts.
+   * Uses Claude to create task sequence (or the local scheduler),
+   * then validates deterministically for conflicts.
    *
    * @param meal - Meal with recipes and scaling
-   * @returns Generated timeline (may have conflicts)
+   * @param options - Generation strategy
+   * @returns Generated timeline (may have conflicts); generatedBy
+   *   records which generator produced it
    */
-  generate(meal: Meal): Promise<Timeline>;
+  generate(meal: Meal, options?: GenerateTimelineOptions): Promise<Timeline>;
 
   /**
    * Get a timeline by ID
@@ -78,10 +105,14 @@ export interface TimelineService {
   /**
    * Save timeline to database
    *
+   * Every save (here and in the edit methods below) adds a version to
+   * the timeline's history.
+   *
    * @param timeline - Timeline to save
+   * @param source - What caused the save, for the history (default: "generated")
    * @returns Saved timeline with ID
    */
-  save(timeline: Timeline): Promise<Timeline>;
+  save(timeline: Timeline, source?: TimelineVersionSource): Promise<Timeline>;
 
   /**
    * Delete a timeline
@@ -94,20 +125,29 @@ export interface TimelineService {
    * Validate timeline deterministically
    *
    * Checks for:
-   * - Oven conflicts (overlapping tasks requiring oven)
+   * - Oven conflicts (more oven tasks than ovens)
+   * - Over-subscribed kitchen resources (burners, mixer, hands...)
    * - Task order violations (dependency issues)
    * - Negative/zero durations
    * - Tasks ending after serve time
+   * - Helpers double-booked in their own lane
    *
    * @param timeline - Timeline to validate
+   * @param kitchenProfile - Meal's kitchen (default profile if omitted)
+   * @param helpers - Meal's helpers, for names in conflict descriptions
    * @returns Validation result with conflicts
    */
-  validate(timeline: Timeline): ValidationResult;
+  validate(
+    timeline: Timeline,
+    kitchenProfile?: KitchenProfile,
+    helpers?: Helper[]
+  ): ValidationResult;
 
   /**
    * Update a single task
    *
-   * Triggers re-validation after update.
+   * Triggers re-validation after update. Edited planning fields are
+   * recorded so regeneration keeps them.
    *
    * @param timelineId - Timeline UUID
    * @param taskId - Task UUID
@@ -122,6 +162,7 @@ export interface TimelineService {
    * Delete a task from timeline
    *
    * Handles dependency cleanup (removes task from others' dependsOn).
+   * The task stays deleted when the timeline is regenerated.
    *
    * @param timelineId - Timeline UUID
    * @param taskId - Task UUID
@@ -132,6 +173,8 @@ export interface TimelineService {
   /**
    * Reorder tasks in timeline
    *
+   * The order is kept when the timeline is regenerated.
+   *
    * @param timelineId - Timeline UUID
    * @param taskOrder - Array of task IDs in new order
    * @returns Updated timeline
@@ -141,13 +184,49 @@ export interface TimelineService {
   /**
    * Regenerate timeline when recipes change
    *
-   * Called when recipes are added/removed from meal.
+   * Called when recipes are added/removed from meal. Manual edits
+   * (updateTask, deleteTask, reorderTasks) are re-applied to the new
+   * tasks, and the replaced tasks are kept for getChanges.
    *
    * @param mealId - Meal UUID
-   * @returns New timeline
+   * @returns New timeline, saved
    */
   regenerate(mealId: string): Promise<Timeline>;
 
+  /**
+   * What the last regeneration changed
+   *
+   * Tasks are matched across versions by step key.
+   *
+   * @param timelineId - Timeline UUID
+   * @returns Added, removed and changed tasks, or null if the timeline
+   *   hasn't been regenerated
+   */
+  getChanges(timelineId: string): Promise<TimelineDiff | null>;
+
+  /**
+   * List a timeline's saved versions, newest first
+   *
+   * @param timelineId - Timeline UUID
+   * @returns Versions with summaries (without their tasks)
+   */
+  listVersions(timelineId: string): Promise<TimelineVersion[]>;
+
+  /**
+   * Restore an earlier version of a timeline
+   *
+   * The version's tasks and manual edits replace the current ones, the
+   * validator re-runs against them, and the result is saved as a new
+   * version, so a restore can itself be undone.
+   *
+   * @param timelineId - Timeline UUID
+   * @param version - Version number to restore
+   * @returns Restored timeline, or null if the version doesn't exist
+   *
+   * @throws Error if the timeline isn't found or is being cooked
+   */
+  restoreVersion(timelineId: string, version: number): Promise<Timeline | null>;
+
   // =========================================================================
   // Live Execution Methods (Week 7-9)
   // =========================================================================
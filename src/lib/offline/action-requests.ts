@@ -0,0 +1,88 @@
+import type { OfflineAction } from "./indexed-db";
+
+/**
+ * HTTP request that carries out an offline action
+ */
+export interface ActionRequest {
+  endpoint: string;
+  method: "PATCH" | "POST";
+  body: Record<string, unknown>;
+}
+
+/**
+ * Build the API request for an offline action
+ *
+ * Used both for the first attempt while online and for replaying the
+ * queue, so both take the same route. Every endpoint applies absolute
+ * values, which makes replaying an action that already landed harmless.
+ *
+ * @param action - The action to send; baseUpdatedAt is forwarded for task writes
+ * @returns The request, or null for an action this client can't send
+ */
+export function getActionRequest(
+  action: Pick<OfflineAction, "type" | "mealId" | "taskId" | "payload" | "baseUpdatedAt">
+): ActionRequest | null {
+  const { type, mealId, taskId, payload, baseUpdatedAt } = action;
+
+  switch (type) {
+    case "task_checkoff":
+    case "task_status_change":
+    case "task_time_change":
+    case "task_notes_edit":
+    case "task_skip":
+      if (!taskId) return null;
+      return {
+        endpoint: `/api/live/${mealId}/tasks/${taskId}`,
+        method: "PATCH",
+        body: baseUpdatedAt ? { ...payload, baseUpdatedAt } : payload,
+      };
+
+    case "timeline_shift":
+      return {
+        endpoint: `/api/live/${mealId}/shift`,
+        method: "POST",
+        body: payload,
+      };
+
+    case "cooking_end":
+      return {
+        endpoint: `/api/live/${mealId}/end`,
+        method: "POST",
+        body: payload,
+      };
+
+    case "cooking_pause":
+      return {
+        endpoint: `/api/live/${mealId}/pause`,
+        method: "POST",
+        body: payload,
+      };
+
+    case "cooking_resume":
+      return {
+        endpoint: `/api/live/${mealId}/resume`,
+        method: "POST",
+        body: payload,
+      };
+
+    case "shopping_item_check":
+      return {
+        endpoint: `/api/shopping/${payload.listId}`,
+        method: "PATCH",
+        body: {
+          action: payload.checked ? "check" : "uncheck",
+          itemId: payload.itemId,
+        },
+      };
+
+    case "shopping_item_notes":
+      return {
+        endpoint: `/api/shopping/${payload.listId}`,
+        method: "PATCH",
+        body: { action: "addNotes", itemId: payload.itemId, notes: payload.notes },
+      };
+
+    default:
+      return null;
+  }
+}
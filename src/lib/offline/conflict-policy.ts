@@ -0,0 +1,88 @@
+import type { TaskConflictSnapshot, TaskStatus } from "@/types";
+import type { OfflineAction } from "./indexed-db";
+
+/**
+ * What to do with a queued action whose task changed on another device
+ *
+ * - apply_local: resend payload on top of the server's current version
+ * - keep_remote: drop the action; the server already has the better answer
+ * - unresolved: ask the cook (shown in SyncStatusIndicator)
+ */
+export type ConflictDecision =
+  | { outcome: "apply_local"; payload: Record<string, unknown> }
+  | { outcome: "keep_remote" }
+  | { outcome: "unresolved"; reason: string };
+
+/**
+ * How far along each status is; the further-along status wins a conflict
+ */
+const STATUS_RANK: Record<TaskStatus, number> = {
+  pending: 0,
+  in_progress: 1,
+  skipped: 2,
+  completed: 3,
+};
+
+/**
+ * Merge policy for replaying a stale offline action
+ *
+ * The server rejects a replayed write when the task changed after the
+ * version the action was based on, and returns its current copy. Each
+ * field in the action is then settled on its own:
+ *
+ * 1. Status - the further-along status wins:
+ *    completed > skipped > in_progress > pending.
+ *    A checkoff beats another device's undo; an offline undo yields to a
+ *    checkoff made elsewhere. Equal statuses need nothing resent.
+ * 2. Notes - local notes win if the server's are empty or identical;
+ *    notes edited on both devices are unresolved.
+ * 3. Times (startTimeMinutes/endTimeMinutes) - unresolved unless the server
+ *    already has the same times; two devices moved the schedule.
+ *
+ * Any unresolved field makes the whole action unresolved. Otherwise the
+ * winning local fields are resent, or the action is dropped if none won.
+ *
+ * @param action - The queued action the server rejected
+ * @param current - The server's current copy of the task
+ */
+export function decideConflict(
+  action: OfflineAction,
+  current: TaskConflictSnapshot
+): ConflictDecision {
+  const { payload } = action;
+  const winning: Record<string, unknown> = {};
+
+  // 1. Status
+  const localStatus = payload.status as TaskStatus | undefined;
+  if (localStatus && localStatus !== current.status) {
+    if (STATUS_RANK[localStatus] > STATUS_RANK[current.status]) {
+      winning.status = localStatus;
+      if (payload.completedAt !== undefined) {
+        winning.completedAt = payload.completedAt;
+      }
+    }
+  }
+
+  // 2. Notes
+  const localNotes = payload.notes as string | undefined;
+  if (localNotes !== undefined && localNotes !== (current.notes ?? "")) {
+    if (current.notes) {
+      return { outcome: "unresolved", reason: "Notes were edited on another device" };
+    }
+    winning.notes = localNotes;
+  }
+
+  // 3. Times
+  const localStart = payload.startTimeMinutes as number | undefined;
+  const localEnd = payload.endTimeMinutes as number | undefined;
+  if (
+    (localStart !== undefined && localStart !== current.startTimeMinutes) ||
+    (localEnd !== undefined && localEnd !== current.endTimeMinutes)
+  ) {
+    return { outcome: "unresolved", reason: "The schedule was changed on another device" };
+  }
+
+  return Object.keys(winning).length > 0
+    ? { outcome: "apply_local", payload: winning }
+    : { outcome: "keep_remote" };
+}
@@ -2,7 +2,11 @@
  * Offline support module for Sunday Dinner
  *
  * Provides IndexedDB-backed offline persistence for:
- * - Task checkoffs during cooking
+ * - Task checkoffs, notes, skips and shifts during cooking
+ * - Ending cooking and shopping list checks and notes
+ * - Shopping lists saved for the store
+ * - A mirror of the recipe box, kept fresh in the background
+ * - Kitchen timers that survive reloads
  * - Sync queue for reconnection
  * - Meal data caching
  */
@@ -20,8 +24,13 @@ export {
   getPendingActionsForMeal,
   removeOfflineAction,
   incrementRetryCount,
+  rebaseOfflineAction,
   clearActionsForMeal,
 
+  // Sync conflicts
+  addSyncConflict,
+  removeSyncConflict,
+
   // Sync status
   getSyncStatus,
   updateSyncStatus,
@@ -35,19 +44,81 @@ export {
   deleteCachedMeal,
   cleanupExpiredCache,
 
+  // Shopping list cache
+  cacheShoppingList,
+  getCachedShoppingList,
+  deleteCachedShoppingList,
+
+  // Recipe box mirror
+  RECIPE_MIRROR_VERSION,
+  getMirroredRecipe,
+  getMirroredImage,
+
+  // Timers
+  putStoredTimer,
+  getStoredTimers,
+  deleteStoredTimer,
+
   // Types
   type OfflineAction,
   type OfflineActionType,
   type SyncStatus,
+  type SyncConflict,
   type CachedMeal,
+  type CachedShoppingList,
+  type MirroredRecipe,
+  type MirroredImage,
+  type StoredTimer,
 } from "./indexed-db";
 
+// Schema migrations
+export {
+  MIGRATIONS,
+  validateMigrations,
+  getLatestVersion,
+  getPendingMigrations,
+  runMigrations,
+  type IndexedDBMigration,
+} from "./migrations";
+
+// Recipe box mirror
+export {
+  mirrorRecipeBox,
+  loadMirroredRecipes,
+  getRecipeMirrorInfo,
+  clearRecipeMirror,
+  getRecipeImageBudget,
+  setRecipeImageBudget,
+  getLastRecipeMirrorAt,
+  isRecipeMirrorStale,
+  RECIPE_IMAGE_BUDGETS,
+  RECIPE_MIRROR_STALE_MS,
+  type RecipeImageBudget,
+  type RecipeMirrorResult,
+  type RecipeMirrorInfo,
+} from "./recipe-mirror";
+export { useOfflineRecipes, type UseOfflineRecipesResult } from "./use-offline-recipes";
+
+// Request routing for queued actions
+export { getActionRequest, type ActionRequest } from "./action-requests";
+
+// Merge policy for stale offline writes
+export { decideConflict, type ConflictDecision } from "./conflict-policy";
+
 // Hooks
 export {
   useOfflineCheckoff,
+  readUpdatedAt,
   type CheckoffResult,
+  type OfflineChangeContext,
   type UseOfflineCheckoffOptions,
 } from "./use-offline-checkoff";
+export {
+  useOfflineActions,
+  type OfflineActionResult,
+  type UseOfflineActionsOptions,
+} from "./use-offline-actions";
+export { useOfflineShoppingList } from "./use-offline-shopping-list";
 
 // Sync service
 export {
@@ -57,6 +128,7 @@ export {
   isSyncInProgress,
   getCurrentSyncStatus,
   setupAutoSync,
+  resolveSyncConflict,
   type SyncResult,
   type SyncCallbacks,
 } from "./sync-service";
@@ -71,6 +143,7 @@ export {
   clearActiveMeal,
   getActiveMeal,
   precacheImages,
+  precachePages,
   clearAllCaches,
   skipWaiting,
   listenForServiceWorkerMessages,
@@ -2,33 +2,70 @@
  * IndexedDB Service for Sunday Dinner Offline Support
  *
  * Provides persistent storage for:
- * - Offline action queue (checkoffs, time changes)
+ * - Offline action queue (checkoffs, notes, skips, shifts, end of cooking,
+ *   shopping checks)
  * - Sync status tracking
  * - Current meal cache for offline viewing
+ * - Shopping lists saved for offline use
+ * - A mirror of the recipe box (recipes and source images)
+ * - Running kitchen timers
  *
  * Database structure:
  * - offline_queue: Pending actions to sync when online
  * - sync_status: Last sync timestamp and status
  * - meal_cache: Current meal data for offline access
+ * - shopping_cache: Shopping lists saved on demand (no expiry)
+ * - recipe_box: Mirrored recipes, tagged with RECIPE_MIRROR_VERSION
+ * - recipe_images: Mirrored source images (blobs), keyed by URL
+ * - timers: Kitchen timers with absolute end times
+ *
+ * The schema is built by the migrations in ./migrations; the database
+ * version is the latest migration's.
  */
 
+import type { Recipe, SharedTimer, ShoppingList, TaskConflictSnapshot } from "@/types";
+import { STORES, getLatestVersion, runMigrations } from "./migrations";
+
+export { STORES };
+
 const DB_NAME = "sunday-dinner-offline";
-const DB_VERSION = 1;
+const DB_VERSION = getLatestVersion();
 
-// Store names
-export const STORES = {
-  OFFLINE_QUEUE: "offline_queue",
-  SYNC_STATUS: "sync_status",
-  MEAL_CACHE: "meal_cache",
-} as const;
+/**
+ * Shape version of mirrored recipe records
+ *
+ * Bump when the stored Recipe shape changes; records from an older
+ * version are ignored and replaced on the next mirror.
+ */
+export const RECIPE_MIRROR_VERSION = 1;
 
 /**
  * Action types that can be queued offline
+ *
+ * Payloads:
+ * - task_checkoff / task_status_change: { status, completedAt? }
+ * - task_time_change: { startTimeMinutes, endTimeMinutes }
+ * - task_notes_edit: { notes }
+ * - task_skip: { status: "skipped" }
+ * - timeline_shift: { tasks: [{ id, startTimeMinutes, endTimeMinutes }], reason? }
+ * - cooking_end: { endedAt? }
+ * - cooking_pause: { pausedAt }
+ * - cooking_resume: { resumedAt }
+ * - shopping_item_check: { listId, itemId, checked }
+ * - shopping_item_notes: { listId, itemId, notes }
  */
 export type OfflineActionType =
   | "task_checkoff"
   | "task_status_change"
-  | "task_time_change";
+  | "task_time_change"
+  | "task_notes_edit"
+  | "task_skip"
+  | "timeline_shift"
+  | "cooking_end"
+  | "cooking_pause"
+  | "cooking_resume"
+  | "shopping_item_check"
+  | "shopping_item_notes";
 
 /**
  * Queued offline action
@@ -37,13 +74,39 @@ export interface OfflineAction {
   id: string;
   type: OfflineActionType;
   mealId: string;
-  taskId: string;
+  /** Task the action changes (omitted for meal-wide and shopping actions) */
+  taskId?: string;
   payload: Record<string, unknown>;
+  /** Task.updatedAt the action was based on (enables conflict detection) */
+  baseUpdatedAt?: string;
+  /** Task title, for showing conflicts */
+  taskTitle?: string;
   createdAt: string;
   retryCount: number;
   lastError?: string;
 }
 
+/**
+ * A queued action the merge policy couldn't settle on its own
+ *
+ * Kept until the cook picks "keep mine" or "keep theirs".
+ */
+export interface SyncConflict {
+  /** ID of the offline action that conflicted */
+  id: string;
+  actionType: OfflineActionType;
+  mealId: string;
+  taskId: string;
+  taskTitle?: string;
+  /** What this device tried to write */
+  localPayload: Record<string, unknown>;
+  /** What the server has now */
+  current: TaskConflictSnapshot;
+  /** Why it needs a decision */
+  reason: string;
+  detectedAt: string;
+}
+
 /**
  * Sync status record
  */
@@ -53,6 +116,8 @@ export interface SyncStatus {
   pendingCount: number;
   isSyncing: boolean;
   lastError?: string;
+  /** Unresolved conflicts from replaying the queue */
+  conflicts?: SyncConflict[];
 }
 
 /**
@@ -65,6 +130,49 @@ export interface CachedMeal {
   expiresAt: string;
 }
 
+/**
+ * Shopping list saved for use in the store without signal
+ */
+export interface CachedShoppingList {
+  /** Meal the list belongs to (the key) */
+  mealId: string;
+  list: ShoppingList;
+  mealName?: string;
+  cachedAt: string;
+}
+
+/**
+ * Recipe mirrored for offline viewing
+ */
+export interface MirroredRecipe {
+  id: string;
+  recipe: Recipe;
+  /** RECIPE_MIRROR_VERSION when written */
+  version: number;
+  mirroredAt: string;
+}
+
+/**
+ * Recipe source image mirrored for offline viewing
+ */
+export interface MirroredImage {
+  /** Original image URL (the key) */
+  url: string;
+  recipeId: string;
+  blob: Blob;
+  sizeBytes: number;
+  mirroredAt: string;
+}
+
+/**
+ * Kitchen timer kept across reloads and tab evictions
+ */
+export interface StoredTimer extends SharedTimer {
+  /** Meal the timer was started for, if any */
+  mealId: string | null;
+  createdAt: string;
+}
+
 let dbInstance: IDBDatabase | null = null;
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -112,29 +220,21 @@ export function openDatabase(): Promise<IDBDatabase> {
       resolve(dbInstance);
     };
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      // Offline queue store
-      if (!db.objectStoreNames.contains(STORES.OFFLINE_QUEUE)) {
-        const queueStore = db.createObjectStore(STORES.OFFLINE_QUEUE, {
-          keyPath: "id",
-        });
-        queueStore.createIndex("mealId", "mealId", { unique: false });
-        queueStore.createIndex("createdAt", "createdAt", { unique: false });
-      }
-
-      // Sync status store
-      if (!db.objectStoreNames.contains(STORES.SYNC_STATUS)) {
-        db.createObjectStore(STORES.SYNC_STATUS, { keyPath: "id" });
-      }
+    // Another tab holds the old version open; it closes on versionchange
+    request.onblocked = () => {
+      console.warn("IndexedDB upgrade waiting for other tabs to close the database");
+    };
 
-      // Meal cache store
-      if (!db.objectStoreNames.contains(STORES.MEAL_CACHE)) {
-        const cacheStore = db.createObjectStore(STORES.MEAL_CACHE, {
-          keyPath: "id",
-        });
-        cacheStore.createIndex("expiresAt", "expiresAt", { unique: false });
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction;
+      if (!transaction) return;
+
+      try {
+        runMigrations(db, transaction, event.oldVersion);
+      } catch (error) {
+        // The upgrade was rolled back; onerror rejects the open
+        console.error(error);
       }
     };
   });
@@ -226,8 +326,9 @@ function generateActionId(): string {
 export async function queueOfflineAction(
   type: OfflineActionType,
   mealId: string,
-  taskId: string,
-  payload: Record<string, unknown>
+  taskId: string | undefined,
+  payload: Record<string, unknown>,
+  options: { baseUpdatedAt?: string; taskTitle?: string } = {}
 ): Promise<OfflineAction> {
   const action: OfflineAction = {
     id: generateActionId(),
@@ -235,6 +336,7 @@ export async function queueOfflineAction(
     mealId,
     taskId,
     payload,
+    ...options,
     createdAt: new Date().toISOString(),
     retryCount: 0,
   };
@@ -297,6 +399,26 @@ export async function incrementRetryCount(
   }
 }
 
+/**
+ * Move a queued action onto a newer version of its task
+ *
+ * Used once this device's own earlier write to the task has landed, so
+ * the action isn't taken for a change made on another device.
+ */
+export async function rebaseOfflineAction(
+  actionId: string,
+  baseUpdatedAt: string
+): Promise<void> {
+  const action = await getFromStore<OfflineAction>(
+    STORES.OFFLINE_QUEUE,
+    actionId
+  );
+  if (action) {
+    action.baseUpdatedAt = baseUpdatedAt;
+    await putInStore(STORES.OFFLINE_QUEUE, action);
+  }
+}
+
 /**
  * Clear all actions for a meal (e.g., when meal is deleted)
  */
@@ -367,6 +489,25 @@ export async function markSyncFailed(error: string): Promise<void> {
   });
 }
 
+/**
+ * Record a conflict that needs the cook's decision
+ */
+export async function addSyncConflict(conflict: SyncConflict): Promise<void> {
+  const current = await getSyncStatus();
+  const conflicts = (current.conflicts ?? []).filter((c) => c.id !== conflict.id);
+  await updateSyncStatus({ conflicts: [...conflicts, conflict] });
+}
+
+/**
+ * Forget a conflict (after it was resolved)
+ */
+export async function removeSyncConflict(conflictId: string): Promise<void> {
+  const current = await getSyncStatus();
+  await updateSyncStatus({
+    conflicts: (current.conflicts ?? []).filter((c) => c.id !== conflictId),
+  });
+}
+
 /**
  * Update pending count from queue
  */
@@ -450,6 +591,149 @@ export async function cleanupExpiredCache(): Promise<number> {
   });
 }
 
+// =============================================================================
+// SHOPPING LIST CACHE OPERATIONS
+// =============================================================================
+
+/**
+ * Save (or refresh) a meal's shopping list for offline use
+ */
+export async function cacheShoppingList(
+  mealId: string,
+  list: ShoppingList,
+  mealName?: string
+): Promise<void> {
+  const cached: CachedShoppingList = {
+    mealId,
+    list,
+    mealName,
+    cachedAt: new Date().toISOString(),
+  };
+  await putInStore(STORES.SHOPPING_CACHE, cached);
+}
+
+/**
+ * Get a meal's saved shopping list
+ */
+export async function getCachedShoppingList(
+  mealId: string
+): Promise<CachedShoppingList | null> {
+  const cached = await getFromStore<CachedShoppingList>(
+    STORES.SHOPPING_CACHE,
+    mealId
+  );
+  return cached ?? null;
+}
+
+/**
+ * Remove a meal's saved shopping list
+ */
+export async function deleteCachedShoppingList(mealId: string): Promise<void> {
+  await deleteFromStore(STORES.SHOPPING_CACHE, mealId);
+}
+
+// =============================================================================
+// RECIPE BOX MIRROR OPERATIONS
+// =============================================================================
+
+/**
+ * Store recipes in the mirror (current version)
+ */
+export async function putMirroredRecipes(recipes: Recipe[]): Promise<void> {
+  const mirroredAt = new Date().toISOString();
+  for (const recipe of recipes) {
+    if (!recipe.id) continue;
+    const record: MirroredRecipe = {
+      id: recipe.id,
+      recipe,
+      version: RECIPE_MIRROR_VERSION,
+      mirroredAt,
+    };
+    await putInStore(STORES.RECIPE_BOX, record);
+  }
+}
+
+/**
+ * Get all mirrored recipes of the current version
+ */
+export async function getMirroredRecipes(): Promise<MirroredRecipe[]> {
+  const records = await getAllFromStore<MirroredRecipe>(STORES.RECIPE_BOX);
+  return records.filter((r) => r.version === RECIPE_MIRROR_VERSION);
+}
+
+/**
+ * Get a mirrored recipe (current version only)
+ */
+export async function getMirroredRecipe(
+  id: string
+): Promise<MirroredRecipe | null> {
+  const record = await getFromStore<MirroredRecipe>(STORES.RECIPE_BOX, id);
+  return record?.version === RECIPE_MIRROR_VERSION ? record : null;
+}
+
+/**
+ * Remove a recipe from the mirror
+ */
+export async function deleteMirroredRecipe(id: string): Promise<void> {
+  await deleteFromStore(STORES.RECIPE_BOX, id);
+}
+
+/**
+ * Store a mirrored image
+ */
+export async function putMirroredImage(image: MirroredImage): Promise<void> {
+  await putInStore(STORES.RECIPE_IMAGES, image);
+}
+
+/**
+ * Get a mirrored image by its original URL
+ */
+export async function getMirroredImage(
+  url: string
+): Promise<MirroredImage | null> {
+  const image = await getFromStore<MirroredImage>(STORES.RECIPE_IMAGES, url);
+  return image ?? null;
+}
+
+/**
+ * Get all mirrored images
+ */
+export async function getMirroredImages(): Promise<MirroredImage[]> {
+  return getAllFromStore<MirroredImage>(STORES.RECIPE_IMAGES);
+}
+
+/**
+ * Remove a mirrored image
+ */
+export async function deleteMirroredImage(url: string): Promise<void> {
+  await deleteFromStore(STORES.RECIPE_IMAGES, url);
+}
+
+// =============================================================================
+// TIMER OPERATIONS
+// =============================================================================
+
+/**
+ * Save a timer
+ */
+export async function putStoredTimer(timer: StoredTimer): Promise<void> {
+  await putInStore(STORES.TIMERS, timer);
+}
+
+/**
+ * Get every saved timer
+ */
+export async function getStoredTimers(): Promise<StoredTimer[]> {
+  return getAllFromStore<StoredTimer>(STORES.TIMERS);
+}
+
+/**
+ * Remove a saved timer
+ */
+export async function deleteStoredTimer(id: string): Promise<void> {
+  await deleteFromStore(STORES.TIMERS, id);
+}
+
 /**
  * Check if IndexedDB is available
  */
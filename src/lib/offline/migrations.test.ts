@@ -0,0 +1,146 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { closeDatabase, openDatabase } from "./indexed-db";
+import {
+  MIGRATIONS,
+  STORES,
+  getLatestVersion,
+  getPendingMigrations,
+  runMigrations,
+  type IndexedDBMigration,
+} from "./migrations";
+
+/** Name openDatabase uses */
+const DB_NAME = "sunday-dinner-offline";
+
+beforeEach(() => {
+  closeDatabase();
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.doUnmock("./migrations");
+  vi.restoreAllMocks();
+});
+
+/**
+ * Create the database as an older release left it
+ */
+function createOldDatabase(version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      runMigrations(
+        request.result,
+        request.transaction!,
+        event.oldVersion,
+        MIGRATIONS.filter((m) => m.version <= version)
+      );
+    };
+  });
+}
+
+function putAll(db: IDBDatabase, storeName: string, records: object[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    records.forEach((record) => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName).objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const queuedActions = [
+  { id: "a1", mealId: "meal-1", type: "task_checkoff", createdAt: "2025-11-27T17:00:00Z" },
+  { id: "a2", mealId: "meal-1", type: "cooking_end", createdAt: "2025-11-27T18:00:00Z" },
+];
+
+describe("getPendingMigrations", () => {
+  it("returns every migration for a fresh install", () => {
+    expect(getPendingMigrations(0).map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+  });
+
+  it("returns only the newer migrations for an existing database", () => {
+    expect(getPendingMigrations(1, MIGRATIONS.slice(0, 3)).map((m) => m.version)).toEqual([2, 3]);
+    expect(getPendingMigrations(getLatestVersion())).toEqual([]);
+  });
+
+  it("rejects migrations with gaps", () => {
+    expect(() => getPendingMigrations(0, [MIGRATIONS[0]!, MIGRATIONS[2]!])).toThrow(/expected 2/);
+  });
+});
+
+describe("openDatabase", () => {
+  it("builds the latest schema on a fresh install", async () => {
+    const db = await openDatabase();
+
+    expect(db.version).toBe(getLatestVersion());
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(Object.values(STORES).sort());
+
+    const queueIndexes = db
+      .transaction(STORES.OFFLINE_QUEUE)
+      .objectStore(STORES.OFFLINE_QUEUE).indexNames;
+    expect(Array.from(queueIndexes).sort()).toEqual(["createdAt", "mealId"]);
+  });
+
+  it("keeps queued offline actions when upgrading from v1", async () => {
+    const v1 = await createOldDatabase(1);
+    await putAll(v1, STORES.OFFLINE_QUEUE, queuedActions);
+    v1.close();
+
+    const db = await openDatabase();
+
+    expect(db.version).toBe(getLatestVersion());
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(Object.values(STORES).sort());
+    expect(await getAll(db, STORES.OFFLINE_QUEUE)).toEqual(queuedActions);
+  });
+
+  it("rolls back a failed upgrade and leaves the old data in place", async () => {
+    const v1 = await createOldDatabase(1);
+    await putAll(v1, STORES.OFFLINE_QUEUE, queuedActions);
+    v1.close();
+
+    // A release whose newest migration throws halfway through
+    const failing: IndexedDBMigration = {
+      version: getLatestVersion() + 1,
+      description: "Broken migration",
+      migrate: (db) => {
+        db.createObjectStore("half_done", { keyPath: "id" });
+        throw new Error("boom");
+      },
+    };
+    vi.doMock("./migrations", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("./migrations")>();
+      const migrations = [...actual.MIGRATIONS, failing];
+      return {
+        ...actual,
+        MIGRATIONS: migrations,
+        getLatestVersion: () => actual.getLatestVersion(migrations),
+        runMigrations: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) =>
+          actual.runMigrations(db, transaction, oldVersion, migrations),
+      };
+    });
+    const broken = await import("./indexed-db");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(broken.openDatabase()).rejects.toThrow(/Failed to open database/);
+
+    const reopened = await createOldDatabase(1);
+    expect(reopened.objectStoreNames.contains("half_done")).toBe(false);
+    expect(reopened.objectStoreNames.contains(STORES.TIMERS)).toBe(false);
+    expect(await getAll(reopened, STORES.OFFLINE_QUEUE)).toEqual(queuedActions);
+    reopened.close();
+  });
+});
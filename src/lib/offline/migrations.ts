@@ -0,0 +1,158 @@
+/**
+ * IndexedDB Schema Migrations
+ *
+ * The offline database schema is defined by an ordered list of migrations.
+ * Each one moves the schema up by one version and runs inside the
+ * versionchange transaction of `onupgradeneeded`, so an upgrade either
+ * finishes completely or rolls back to the previous version with every
+ * store - including queued offline actions - left as it was.
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit or reorder a migration that has shipped: devices that already
+ * ran it won't run it again. Migrations must not clear or recreate
+ * `offline_queue`; transform its records in place if their shape changes.
+ */
+
+// Store names
+export const STORES = {
+  OFFLINE_QUEUE: "offline_queue",
+  SYNC_STATUS: "sync_status",
+  MEAL_CACHE: "meal_cache",
+  SHOPPING_CACHE: "shopping_cache",
+  RECIPE_BOX: "recipe_box",
+  RECIPE_IMAGES: "recipe_images",
+  TIMERS: "timers",
+} as const;
+
+/**
+ * One step of the schema
+ */
+export interface IndexedDBMigration {
+  /** Schema version this migration produces */
+  version: number;
+  /** What changes, for logs and reviewers */
+  description: string;
+  /**
+   * Apply the change
+   *
+   * @param db - Database being upgraded (create or delete stores here)
+   * @param transaction - The versionchange transaction (open existing stores
+   *   here to add indexes or rewrite records)
+   */
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Every schema change, oldest first
+ */
+export const MIGRATIONS: readonly IndexedDBMigration[] = [
+  {
+    version: 1,
+    description: "Offline queue, sync status and meal cache",
+    migrate: (db) => {
+      const queueStore = db.createObjectStore(STORES.OFFLINE_QUEUE, { keyPath: "id" });
+      queueStore.createIndex("mealId", "mealId", { unique: false });
+      queueStore.createIndex("createdAt", "createdAt", { unique: false });
+
+      db.createObjectStore(STORES.SYNC_STATUS, { keyPath: "id" });
+
+      const cacheStore = db.createObjectStore(STORES.MEAL_CACHE, { keyPath: "id" });
+      cacheStore.createIndex("expiresAt", "expiresAt", { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: "Shopping lists saved for offline use",
+    migrate: (db) => {
+      db.createObjectStore(STORES.SHOPPING_CACHE, { keyPath: "mealId" });
+    },
+  },
+  {
+    version: 3,
+    description: "Recipe box mirror (recipes and source images)",
+    migrate: (db) => {
+      db.createObjectStore(STORES.RECIPE_BOX, { keyPath: "id" });
+
+      const imageStore = db.createObjectStore(STORES.RECIPE_IMAGES, { keyPath: "url" });
+      imageStore.createIndex("recipeId", "recipeId", { unique: false });
+    },
+  },
+  {
+    version: 4,
+    description: "Kitchen timers that survive reloads",
+    migrate: (db) => {
+      const timerStore = db.createObjectStore(STORES.TIMERS, { keyPath: "id" });
+      timerStore.createIndex("mealId", "mealId", { unique: false });
+    },
+  },
+];
+
+/**
+ * Check that migrations are numbered 1, 2, 3, ... with no gaps or repeats
+ *
+ * @throws If the list is empty or out of order
+ */
+export function validateMigrations(migrations: readonly IndexedDBMigration[]): void {
+  if (migrations.length === 0) {
+    throw new Error("IndexedDB migrations are empty");
+  }
+
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `IndexedDB migration "${migration.description}" has version ${migration.version}, expected ${index + 1}`
+      );
+    }
+  });
+}
+
+/**
+ * Schema version after every migration has run
+ */
+export function getLatestVersion(migrations: readonly IndexedDBMigration[] = MIGRATIONS): number {
+  validateMigrations(migrations);
+  return migrations[migrations.length - 1]!.version;
+}
+
+/**
+ * Migrations a database at `oldVersion` still needs, in order
+ */
+export function getPendingMigrations(
+  oldVersion: number,
+  migrations: readonly IndexedDBMigration[] = MIGRATIONS
+): IndexedDBMigration[] {
+  validateMigrations(migrations);
+  return migrations.filter((m) => m.version > oldVersion);
+}
+
+/**
+ * Run pending migrations inside `onupgradeneeded`
+ *
+ * A migration that throws aborts the versionchange transaction, which rolls
+ * the whole upgrade back; the error propagates so the open request fails.
+ *
+ * @returns The versions that were applied
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: readonly IndexedDBMigration[] = MIGRATIONS
+): number[] {
+  const pending = getPendingMigrations(oldVersion, migrations);
+
+  for (const migration of pending) {
+    try {
+      migration.migrate(db, transaction);
+    } catch (error) {
+      transaction.abort();
+      throw new Error(
+        `IndexedDB migration ${migration.version} (${migration.description}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  return pending.map((m) => m.version);
+}
@@ -0,0 +1,280 @@
+import type { Recipe } from "@/types";
+import {
+  putMirroredRecipes,
+  getMirroredRecipes,
+  deleteMirroredRecipe,
+  putMirroredImage,
+  getMirroredImages,
+  deleteMirroredImage,
+  isIndexedDBAvailable,
+  type MirroredImage,
+} from "./indexed-db";
+
+const IMAGE_BUDGET_KEY = "sunday-dinner-recipe-image-budget";
+const LAST_MIRRORED_KEY = "sunday-dinner-recipe-mirror-at";
+
+/**
+ * How old the mirror may get before a background refresh
+ */
+export const RECIPE_MIRROR_STALE_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * How much recipe image data to keep offline
+ */
+export type RecipeImageBudget = "none" | "25mb" | "100mb" | "all";
+
+/**
+ * Image budget choices for the settings control
+ */
+export const RECIPE_IMAGE_BUDGETS: {
+  value: RecipeImageBudget;
+  label: string;
+  description: string;
+  bytes: number;
+}[] = [
+  {
+    value: "none",
+    label: "No images",
+    description: "Recipes only - smallest footprint",
+    bytes: 0,
+  },
+  {
+    value: "25mb",
+    label: "Up to 25 MB",
+    description: "Images for your newest recipes",
+    bytes: 25 * 1024 * 1024,
+  },
+  {
+    value: "100mb",
+    label: "Up to 100 MB",
+    description: "Images for most of your recipe box",
+    bytes: 100 * 1024 * 1024,
+  },
+  {
+    value: "all",
+    label: "All images",
+    description: "Every source image, however large",
+    bytes: Number.POSITIVE_INFINITY,
+  },
+];
+
+const DEFAULT_IMAGE_BUDGET: RecipeImageBudget = "25mb";
+
+/**
+ * Outcome of mirroring the recipe box
+ */
+export interface RecipeMirrorResult {
+  /** Recipes now in the mirror */
+  recipes: number;
+  /** Recipes dropped because they were deleted */
+  removed: number;
+  /** Images now in the mirror */
+  images: number;
+  /** Total size of mirrored images */
+  imageBytes: number;
+}
+
+/**
+ * Current state of the mirror, for the settings page
+ */
+export interface RecipeMirrorInfo {
+  recipeCount: number;
+  imageCount: number;
+  imageBytes: number;
+  lastMirroredAt: string | null;
+}
+
+let mirrorInFlight: Promise<RecipeMirrorResult> | null = null;
+
+/**
+ * Get the chosen image budget
+ */
+export function getRecipeImageBudget(): RecipeImageBudget {
+  if (typeof window === "undefined") return DEFAULT_IMAGE_BUDGET;
+  const stored = localStorage.getItem(IMAGE_BUDGET_KEY);
+  return RECIPE_IMAGE_BUDGETS.some((b) => b.value === stored)
+    ? (stored as RecipeImageBudget)
+    : DEFAULT_IMAGE_BUDGET;
+}
+
+/**
+ * Choose how much image data to keep (applies on the next mirror)
+ */
+export function setRecipeImageBudget(budget: RecipeImageBudget): void {
+  localStorage.setItem(IMAGE_BUDGET_KEY, budget);
+}
+
+/**
+ * When the mirror was last refreshed
+ */
+export function getLastRecipeMirrorAt(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(LAST_MIRRORED_KEY);
+}
+
+/**
+ * Whether the mirror is due for a background refresh
+ */
+export function isRecipeMirrorStale(now: number = Date.now()): boolean {
+  const last = getLastRecipeMirrorAt();
+  return !last || now - new Date(last).getTime() > RECIPE_MIRROR_STALE_MS;
+}
+
+/**
+ * Mirror the recipe box into IndexedDB
+ *
+ * Fetches every recipe, drops ones deleted since the last run, then keeps
+ * source images newest recipe first until the image budget is spent.
+ * Images already mirrored aren't downloaded again. Concurrent calls share
+ * one run.
+ *
+ * @throws If the recipe list can't be fetched
+ */
+export function mirrorRecipeBox(): Promise<RecipeMirrorResult> {
+  if (!mirrorInFlight) {
+    mirrorInFlight = runMirror().finally(() => {
+      mirrorInFlight = null;
+    });
+  }
+  return mirrorInFlight;
+}
+
+/**
+ * Load mirrored recipes, newest first
+ */
+export async function loadMirroredRecipes(): Promise<Recipe[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  const records = await getMirroredRecipes();
+  return records
+    .map((r) => r.recipe)
+    .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+}
+
+/**
+ * Summarize what the mirror holds
+ */
+export async function getRecipeMirrorInfo(): Promise<RecipeMirrorInfo> {
+  if (!isIndexedDBAvailable()) {
+    return { recipeCount: 0, imageCount: 0, imageBytes: 0, lastMirroredAt: null };
+  }
+
+  const [recipes, images] = await Promise.all([getMirroredRecipes(), getMirroredImages()]);
+  return {
+    recipeCount: recipes.length,
+    imageCount: images.length,
+    imageBytes: images.reduce((sum, i) => sum + i.sizeBytes, 0),
+    lastMirroredAt: getLastRecipeMirrorAt(),
+  };
+}
+
+/**
+ * Remove everything from the mirror
+ */
+export async function clearRecipeMirror(): Promise<void> {
+  const [recipes, images] = await Promise.all([getMirroredRecipes(), getMirroredImages()]);
+  for (const record of recipes) {
+    await deleteMirroredRecipe(record.id);
+  }
+  for (const image of images) {
+    await deleteMirroredImage(image.url);
+  }
+  localStorage.removeItem(LAST_MIRRORED_KEY);
+}
+
+// =============================================================================
+// Private Helpers
+// =============================================================================
+
+async function runMirror(): Promise<RecipeMirrorResult> {
+  const response = await fetch("/api/recipes");
+  if (!response.ok) {
+    throw new Error(`Failed to mirror recipes: HTTP ${response.status}`);
+  }
+  const recipes: Recipe[] = await response.json();
+
+  // Recipes: write current, drop deleted
+  const liveIds = new Set(recipes.map((r) => r.id));
+  const previous = await getMirroredRecipes();
+  const deleted = previous.filter((r) => !liveIds.has(r.id));
+  for (const record of deleted) {
+    await deleteMirroredRecipe(record.id);
+  }
+  await putMirroredRecipes(recipes);
+
+  // Images: newest recipes first, within budget
+  const budget =
+    RECIPE_IMAGE_BUDGETS.find((b) => b.value === getRecipeImageBudget())?.bytes ?? 0;
+  const images = await mirrorImages(recipes, budget);
+
+  localStorage.setItem(LAST_MIRRORED_KEY, new Date().toISOString());
+
+  return {
+    recipes: recipes.length,
+    removed: deleted.length,
+    images: images.length,
+    imageBytes: images.reduce((sum, i) => sum + i.sizeBytes, 0),
+  };
+}
+
+/**
+ * Bring mirrored images in line with the recipes and budget
+ *
+ * @returns The images kept
+ */
+async function mirrorImages(recipes: Recipe[], budgetBytes: number): Promise<MirroredImage[]> {
+  const existing = new Map((await getMirroredImages()).map((i) => [i.url, i]));
+  const kept: MirroredImage[] = [];
+  let usedBytes = 0;
+
+  for (const recipe of recipes) {
+    const url = recipe.sourceImageUrl;
+    if (!url || !recipe.id || usedBytes >= budgetBytes) continue;
+
+    let image = existing.get(url) ?? null;
+    if (!image) {
+      image = await downloadImage(url, recipe.id);
+      if (!image) continue;
+    }
+
+    // Skip images that would overflow the budget; smaller ones may still fit
+    if (usedBytes + image.sizeBytes > budgetBytes) continue;
+
+    if (!existing.has(url)) {
+      await putMirroredImage(image);
+    }
+    kept.push(image);
+    usedBytes += image.sizeBytes;
+  }
+
+  // Drop images for deleted recipes or beyond the budget
+  const keptUrls = new Set(kept.map((i) => i.url));
+  for (const url of Array.from(existing.keys())) {
+    if (!keptUrls.has(url)) {
+      await deleteMirroredImage(url);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Download an image, or null if it can't be fetched
+ */
+async function downloadImage(url: string, recipeId: string): Promise<MirroredImage | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    return {
+      url,
+      recipeId,
+      blob,
+      sizeBytes: blob.size,
+      mirroredAt: new Date().toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
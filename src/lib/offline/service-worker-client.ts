@@ -5,7 +5,7 @@
  *
  * Provides methods to communicate with the Service Worker for:
  * - Setting the active meal for targeted caching
- * - Precaching images
+ * - Precaching images and pages
  * - Managing cache
  */
 
@@ -106,6 +106,21 @@ export async function precacheImages(urls: string[]): Promise<boolean> {
   return result?.success ?? false;
 }
 
+/**
+ * Precache page shells
+ *
+ * Call this when a page's data is saved for offline use (e.g., a shopping
+ * list), so the page itself opens without a connection.
+ */
+export async function precachePages(urls: string[]): Promise<boolean> {
+  if (urls.length === 0) return true;
+
+  const result = await sendMessage<{ success: boolean }>("PRECACHE_PAGES", {
+    urls,
+  });
+  return result?.success ?? false;
+}
+
 /**
  * Clear all app caches
  */
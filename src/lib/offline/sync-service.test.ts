@@ -0,0 +1,93 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TaskConflictSnapshot } from "@/types";
+import { closeDatabase, getPendingActions, queueOfflineAction } from "./indexed-db";
+import { syncOfflineActions } from "./sync-service";
+
+const MEAL_ID = "meal-1";
+const TASK_ID = "task-1";
+const BASE = "2025-11-27T17:00:00.000Z";
+
+let server: TaskConflictSnapshot;
+let clock: number;
+
+/**
+ * A task endpoint that rejects writes based on an old version, like
+ * PATCH /api/live/[mealId]/tasks/[taskId]
+ */
+async function fakeFetch(_url: string, init: RequestInit): Promise<Response> {
+  const { baseUpdatedAt, ...changes } = JSON.parse(init.body as string);
+  if (baseUpdatedAt && baseUpdatedAt !== server.updatedAt) {
+    return Response.json({ error: "Conflict", conflict: { current: server } }, { status: 409 });
+  }
+  server = { ...server, ...changes, updatedAt: new Date((clock += 1000)).toISOString() };
+  return Response.json({ success: true, task: server });
+}
+
+beforeEach(() => {
+  closeDatabase();
+  globalThis.indexedDB = new IDBFactory();
+  vi.stubGlobal("navigator", { onLine: true });
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+  clock = Date.parse(BASE);
+  server = {
+    id: TASK_ID,
+    status: "in_progress",
+    startTimeMinutes: -60,
+    endTimeMinutes: -30,
+    updatedAt: BASE,
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("syncOfflineActions", () => {
+  it("applies several queued actions on one task in order", async () => {
+    await queueOfflineAction(
+      "task_checkoff",
+      MEAL_ID,
+      TASK_ID,
+      { status: "completed" },
+      { baseUpdatedAt: BASE }
+    );
+    await queueOfflineAction(
+      "task_notes_edit",
+      MEAL_ID,
+      TASK_ID,
+      { notes: "Crispy" },
+      { baseUpdatedAt: BASE }
+    );
+    await queueOfflineAction(
+      "task_notes_edit",
+      MEAL_ID,
+      TASK_ID,
+      { notes: "Extra crispy" },
+      { baseUpdatedAt: BASE }
+    );
+
+    const result = await syncOfflineActions();
+
+    expect(result).toMatchObject({ succeeded: 3, merged: 0, conflicts: 0 });
+    expect(server).toMatchObject({ status: "completed", notes: "Extra crispy" });
+    expect(await getPendingActions()).toEqual([]);
+  });
+
+  it("still flags a change made on another device", async () => {
+    server = { ...server, notes: "From the other phone", updatedAt: "2025-11-27T17:05:00.000Z" };
+    await queueOfflineAction(
+      "task_notes_edit",
+      MEAL_ID,
+      TASK_ID,
+      { notes: "Mine" },
+      { baseUpdatedAt: BASE }
+    );
+
+    const result = await syncOfflineActions();
+
+    expect(result).toMatchObject({ succeeded: 0, conflicts: 1 });
+    expect(server.notes).toBe("From the other phone");
+  });
+});
@@ -1,16 +1,24 @@
 "use client";
 
+import type { TaskConflictSnapshot } from "@/types";
 import {
   getPendingActions,
+  queueOfflineAction,
   removeOfflineAction,
   incrementRetryCount,
+  rebaseOfflineAction,
   markSyncStarted,
   markSyncCompleted,
   markSyncFailed,
   getSyncStatus,
+  addSyncConflict,
+  removeSyncConflict,
   isIndexedDBAvailable,
   type OfflineAction,
+  type SyncConflict,
 } from "./indexed-db";
+import { decideConflict } from "./conflict-policy";
+import { getActionRequest } from "./action-requests";
 
 /**
  * Maximum retry attempts before giving up on an action
@@ -35,6 +43,10 @@ interface SyncActionResult {
   success: boolean;
   error?: string;
   retryable: boolean;
+  /** The task's new updatedAt after a successful task write */
+  updatedAt?: string;
+  /** Server copy when the action was based on a stale version (HTTP 409) */
+  conflict?: TaskConflictSnapshot;
 }
 
 /**
@@ -45,6 +57,10 @@ export interface SyncResult {
   processed: number;
   succeeded: number;
   failed: number;
+  /** Stale actions dropped because the server already had the winning change */
+  merged: number;
+  /** Stale actions left for the cook to resolve */
+  conflicts: number;
   errors: string[];
 }
 
@@ -56,6 +72,7 @@ export interface SyncCallbacks {
   onProgress?: (processed: number, total: number) => void;
   onActionSuccess?: (action: OfflineAction) => void;
   onActionFailed?: (action: OfflineAction, error: string) => void;
+  onConflict?: (conflict: SyncConflict) => void;
   onComplete?: (result: SyncResult) => void;
 }
 
@@ -81,28 +98,19 @@ function sleep(ms: number): Promise<void> {
  * Process a single offline action
  */
 async function processAction(action: OfflineAction): Promise<SyncActionResult> {
-  const { id, type, mealId, taskId, payload } = action;
-
-  // Build the API endpoint based on action type
-  let endpoint: string;
-  const method: string = "PATCH";
-  let body: Record<string, unknown>;
-
-  switch (type) {
-    case "task_checkoff":
-    case "task_status_change":
-    case "task_time_change":
-      endpoint = `/api/live/${mealId}/tasks/${taskId}`;
-      body = payload;
-      break;
-    default:
-      return {
-        actionId: id,
-        success: false,
-        error: `Unknown action type: ${type}`,
-        retryable: false,
-      };
+  const { id, type } = action;
+
+  // Build the API request based on action type
+  const request = getActionRequest(action);
+  if (!request) {
+    return {
+      actionId: id,
+      success: false,
+      error: `Unknown action type: ${type}`,
+      retryable: false,
+    };
   }
+  const { endpoint, method, body } = request;
 
   try {
     const response = await fetch(endpoint, {
@@ -112,12 +120,32 @@ async function processAction(action: OfflineAction): Promise<SyncActionResult> {
     });
 
     if (response.ok) {
-      return { actionId: id, success: true, retryable: false };
+      const data = await response.json().catch(() => ({}));
+      return {
+        actionId: id,
+        success: true,
+        retryable: false,
+        updatedAt: data.task?.updatedAt,
+      };
     }
 
     // Handle different error codes
     const statusCode = response.status;
 
+    // 409: the task changed on another device since this action was queued
+    if (statusCode === 409) {
+      const errorData = await response.json().catch(() => ({}));
+      if (errorData.conflict?.current) {
+        return {
+          actionId: id,
+          success: false,
+          error: errorData.error || "Conflict",
+          retryable: false,
+          conflict: errorData.conflict.current,
+        };
+      }
+    }
+
     // 4xx errors (except 429) are not retryable - bad request, not found, etc.
     if (statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
       const errorData = await response.json().catch(() => ({}));
@@ -152,6 +180,8 @@ async function processAction(action: OfflineAction): Promise<SyncActionResult> {
  *
  * Processes actions in order (oldest first) with exponential backoff
  * for failures. Non-retryable errors are logged and the action is removed.
+ * Once an action lands, the device's later actions on the same task move
+ * onto the version it created, so they don't conflict with it.
  */
 export async function syncOfflineActions(
   callbacks?: SyncCallbacks
@@ -163,6 +193,8 @@ export async function syncOfflineActions(
       processed: 0,
       succeeded: 0,
       failed: 0,
+      merged: 0,
+      conflicts: 0,
       errors: ["Sync already in progress"],
     };
   }
@@ -173,6 +205,8 @@ export async function syncOfflineActions(
       processed: 0,
       succeeded: 0,
       failed: 0,
+      merged: 0,
+      conflicts: 0,
       errors: ["IndexedDB not available"],
     };
   }
@@ -184,6 +218,8 @@ export async function syncOfflineActions(
       processed: 0,
       succeeded: 0,
       failed: 0,
+      merged: 0,
+      conflicts: 0,
       errors: ["Device is offline"],
     };
   }
@@ -208,10 +244,14 @@ export async function syncOfflineActions(
       processed: 0,
       succeeded: 0,
       failed: 0,
+      merged: 0,
+      conflicts: 0,
       errors: [],
     };
 
-    for (const action of actions) {
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index]!;
+
       // Check if sync was aborted
       if (syncAborted) {
         result.success = false;
@@ -245,11 +285,31 @@ export async function syncOfflineActions(
       }
 
       // Process the action
-      const actionResult = await processAction(action);
+      let actionResult = await processAction(action);
       result.processed++;
 
+      // Stale write: apply the merge policy
+      const wasStale = !!actionResult.conflict;
+      if (actionResult.conflict) {
+        const settled = await settleConflict(action, actionResult.conflict, callbacks);
+        if (settled.outcome === "merged") {
+          result.merged++;
+          callbacks?.onProgress?.(result.processed, actions.length);
+          continue;
+        }
+        if (settled.outcome === "conflict") {
+          result.conflicts++;
+          callbacks?.onProgress?.(result.processed, actions.length);
+          continue;
+        }
+        actionResult = settled.result;
+      }
+
       if (actionResult.success) {
         await removeOfflineAction(action.id);
+        if (actionResult.updatedAt && !wasStale) {
+          await rebaseLaterActions(actions.slice(index + 1), action, actionResult.updatedAt);
+        }
         result.succeeded++;
         callbacks?.onActionSuccess?.(action);
       } else if (actionResult.retryable) {
@@ -282,6 +342,115 @@ export async function syncOfflineActions(
   }
 }
 
+/**
+ * Move the device's later actions on a task onto the version an applied
+ * action created
+ *
+ * Only actions based on the same version as the applied one move: they
+ * were queued after it on this device, so they already include it. An
+ * action resent over another device's change (see settleConflict) was
+ * based on an older version, so nothing moves and the later actions go
+ * through the merge policy themselves.
+ */
+async function rebaseLaterActions(
+  later: OfflineAction[],
+  applied: OfflineAction,
+  updatedAt: string
+): Promise<void> {
+  if (!applied.taskId || !applied.baseUpdatedAt) return;
+
+  for (const action of later) {
+    if (action.taskId === applied.taskId && action.baseUpdatedAt === applied.baseUpdatedAt) {
+      action.baseUpdatedAt = updatedAt;
+      await rebaseOfflineAction(action.id, updatedAt);
+    }
+  }
+}
+
+/**
+ * Settle a stale action with the merge policy (see conflict-policy.ts)
+ *
+ * - keep_remote: the action is dropped ("merged")
+ * - apply_local: the winning fields are resent on the current version;
+ *   the caller handles the returned result like any other
+ * - unresolved (or a second conflict while resending): the action moves
+ *   from the queue to the sync status conflicts ("conflict")
+ */
+async function settleConflict(
+  action: OfflineAction,
+  current: TaskConflictSnapshot,
+  callbacks?: SyncCallbacks
+): Promise<
+  | { outcome: "merged" }
+  | { outcome: "conflict" }
+  | { outcome: "resent"; result: SyncActionResult }
+> {
+  const decision = decideConflict(action, current);
+
+  if (decision.outcome === "keep_remote") {
+    await removeOfflineAction(action.id);
+    return { outcome: "merged" };
+  }
+
+  let latest = current;
+  if (decision.outcome === "apply_local") {
+    const resent = await processAction({
+      ...action,
+      payload: decision.payload,
+      baseUpdatedAt: current.updatedAt,
+    });
+    if (!resent.conflict) {
+      return { outcome: "resent", result: resent };
+    }
+    latest = resent.conflict;
+  }
+
+  const conflict: SyncConflict = {
+    id: action.id,
+    actionType: action.type,
+    mealId: action.mealId,
+    taskId: action.taskId ?? current.id,
+    taskTitle: action.taskTitle,
+    localPayload: action.payload,
+    current: latest,
+    reason:
+      decision.outcome === "unresolved"
+        ? decision.reason
+        : "The task kept changing on another device",
+    detectedAt: new Date().toISOString(),
+  };
+  await removeOfflineAction(action.id);
+  await addSyncConflict(conflict);
+  callbacks?.onConflict?.(conflict);
+  return { outcome: "conflict" };
+}
+
+/**
+ * Resolve a conflict left by the merge policy
+ *
+ * "keep_mine" re-queues this device's change on top of the server's
+ * current version and syncs; "keep_theirs" discards it.
+ */
+export async function resolveSyncConflict(
+  conflict: SyncConflict,
+  choice: "keep_mine" | "keep_theirs"
+): Promise<void> {
+  if (choice === "keep_mine") {
+    await queueOfflineAction(
+      conflict.actionType,
+      conflict.mealId,
+      conflict.taskId,
+      conflict.localPayload,
+      { baseUpdatedAt: conflict.current.updatedAt, taskTitle: conflict.taskTitle }
+    );
+  }
+  await removeSyncConflict(conflict.id);
+
+  if (choice === "keep_mine" && navigator.onLine) {
+    await syncOfflineActions();
+  }
+}
+
 /**
  * Abort an in-progress sync
  */
@@ -385,6 +554,8 @@ export async function syncWithRetry(
       processed: 0,
       succeeded: 0,
       failed: 0,
+      merged: 0,
+      conflicts: 0,
       errors: ["Sync failed after all retries"],
     }
   );
@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+  queueOfflineAction,
+  isIndexedDBAvailable,
+  type OfflineActionType,
+} from "./indexed-db";
+import { getActionRequest } from "./action-requests";
+import {
+  readUpdatedAt,
+  type CheckoffResult,
+  type OfflineChangeContext,
+} from "./use-offline-checkoff";
+import type { TaskTimeUpdate } from "@/lib/realtime/types";
+import type { RescheduleReason } from "@/types";
+
+/**
+ * Result of an offline-aware action (same shape as a checkoff)
+ */
+export type OfflineActionResult = CheckoffResult;
+
+/**
+ * Options for the useOfflineActions hook
+ */
+export interface UseOfflineActionsOptions {
+  mealId: string;
+  onQueued?: (type: OfflineActionType) => void;
+  onError?: (type: OfflineActionType, error: string) => void;
+}
+
+/**
+ * Hook for the live cooking and shopping actions that must work offline
+ *
+ * Companion to useOfflineCheckoff covering notes, skips, schedule shifts,
+ * pausing, resuming and ending cooking and shopping list changes. Each action:
+ * 1. Is sent to the server while online
+ * 2. Falls back to the IndexedDB queue when offline or the server is
+ *    unavailable (network error, 429, 5xx)
+ * 3. Replays through the same endpoint on sync (see action-requests.ts)
+ *
+ * Other 4xx responses are returned as errors, since replaying them later
+ * would fail the same way.
+ *
+ * @example
+ * ```tsx
+ * const { skipTask, shiftTasks, endCooking } = useOfflineActions({
+ *   mealId,
+ *   onQueued: () => showToast.info("Saved offline"),
+ * });
+ *
+ * await skipTask(task.id, { baseUpdatedAt: task.updatedAt, taskTitle: task.title });
+ * ```
+ */
+export function useOfflineActions({ mealId, onQueued, onError }: UseOfflineActionsOptions) {
+  /**
+   * Send an action, queueing it if the server can't be reached
+   */
+  const perform = useCallback(
+    async (
+      type: OfflineActionType,
+      taskId: string | undefined,
+      payload: Record<string, unknown>,
+      context?: OfflineChangeContext
+    ): Promise<OfflineActionResult> => {
+      const queue = async (): Promise<OfflineActionResult> => {
+        if (!isIndexedDBAvailable()) {
+          onError?.(type, "Offline storage not available");
+          return { success: false, queued: false, error: "Offline storage not available" };
+        }
+
+        try {
+          await queueOfflineAction(type, mealId, taskId, payload, context);
+          onQueued?.(type);
+          return { success: true, queued: true };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : "Failed to queue offline";
+          onError?.(type, errorMessage);
+          return { success: false, queued: false, error: errorMessage };
+        }
+      };
+
+      if (!navigator.onLine) {
+        return await queue();
+      }
+
+      // Online writes go straight through, without version checks (like checkoffs)
+      const request = getActionRequest({ type, mealId, taskId, payload });
+      if (!request) {
+        return { success: false, queued: false, error: `Unknown action type: ${type}` };
+      }
+
+      try {
+        const response = await fetch(request.endpoint, {
+          method: request.method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request.body),
+        });
+
+        if (response.ok) {
+          return {
+            success: true,
+            queued: false,
+            updatedAt: taskId ? await readUpdatedAt(response) : undefined,
+          };
+        }
+
+        if (response.status === 429 || response.status >= 500) {
+          return await queue();
+        }
+
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error || `HTTP ${response.status}`;
+        onError?.(type, errorMessage);
+        return { success: false, queued: false, error: errorMessage };
+      } catch {
+        // Network error - queue for later
+        return await queue();
+      }
+    },
+    [mealId, onQueued, onError]
+  );
+
+  /**
+   * Replace a task's notes
+   */
+  const updateNotes = useCallback(
+    (taskId: string, notes: string, context?: OfflineChangeContext) =>
+      perform("task_notes_edit", taskId, { notes }, context),
+    [perform]
+  );
+
+  /**
+   * Skip a task
+   */
+  const skipTask = useCallback(
+    (taskId: string, context?: OfflineChangeContext) =>
+      perform("task_skip", taskId, { status: "skipped" }, context),
+    [perform]
+  );
+
+  /**
+   * Move tasks to new absolute times ("I'm behind", suggestions, undo)
+   *
+   * @param reason - Why, for the execution log (default: "shift")
+   */
+  const shiftTasks = useCallback(
+    async (tasks: TaskTimeUpdate[], reason?: RescheduleReason): Promise<OfflineActionResult> => {
+      if (tasks.length === 0) return { success: true, queued: false };
+      return perform("timeline_shift", undefined, reason ? { tasks, reason } : { tasks });
+    },
+    [perform]
+  );
+
+  /**
+   * End the cooking session
+   *
+   * @param endedAt - When end was pressed (kept if the request is queued)
+   */
+  const endCooking = useCallback(
+    (endedAt: string) => perform("cooking_end", undefined, { endedAt }),
+    [perform]
+  );
+
+  /**
+   * Freeze the live clock
+   *
+   * @param pausedAt - When pause was pressed (kept if the request is queued)
+   */
+  const pauseCooking = useCallback(
+    (pausedAt: string) => perform("cooking_pause", undefined, { pausedAt }),
+    [perform]
+  );
+
+  /**
+   * Restart the live clock; the server moves pending tasks by the paused time
+   *
+   * @param resumedAt - When resume was pressed (kept if the request is queued)
+   */
+  const resumeCooking = useCallback(
+    (resumedAt: string) => perform("cooking_resume", undefined, { resumedAt }),
+    [perform]
+  );
+
+  /**
+   * Check or uncheck a shopping list item
+   */
+  const setShoppingItemChecked = useCallback(
+    (listId: string, itemId: string, checked: boolean) =>
+      perform("shopping_item_check", undefined, { listId, itemId, checked }),
+    [perform]
+  );
+
+  /**
+   * Set a shopping list item's notes
+   */
+  const setShoppingItemNotes = useCallback(
+    (listId: string, itemId: string, notes: string) =>
+      perform("shopping_item_notes", undefined, { listId, itemId, notes }),
+    [perform]
+  );
+
+  return {
+    updateNotes,
+    skipTask,
+    shiftTasks,
+    endCooking,
+    pauseCooking,
+    resumeCooking,
+    setShoppingItemChecked,
+    setShoppingItemNotes,
+    isIndexedDBAvailable: isIndexedDBAvailable(),
+  };
+}
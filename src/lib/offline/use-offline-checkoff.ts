@@ -16,6 +16,18 @@ export interface CheckoffResult {
   success: boolean;
   queued: boolean;
   error?: string;
+  /** The task's new updatedAt when the server applied a task write */
+  updatedAt?: string;
+}
+
+/**
+ * What a queued change was based on, for conflict detection on replay
+ */
+export interface OfflineChangeContext {
+  /** Task.updatedAt as last seen by this device */
+  baseUpdatedAt?: string;
+  /** Task title, shown if the change conflicts */
+  taskTitle?: string;
 }
 
 /**
@@ -36,6 +48,9 @@ export interface UseOfflineCheckoffOptions {
  * 2. Falls back to IndexedDB queue if offline
  * 3. Always succeeds from the caller's perspective
  *
+ * Pass the task's updatedAt as context so a queued change that another
+ * device has overtaken is merged on replay instead of overwriting it.
+ *
  * @example
  * ```tsx
  * const { checkoff, isOnline, pendingCount } = useOfflineCheckoff({
@@ -44,7 +59,10 @@ export interface UseOfflineCheckoffOptions {
  * });
  *
  * // In your handler
- * await checkoff(taskId, 'completed', { completedAt: new Date().toISOString() });
+ * await checkoff(taskId, 'completed', { completedAt: new Date().toISOString() }, {
+ *   baseUpdatedAt: task.updatedAt,
+ *   taskTitle: task.title,
+ * });
  * ```
  */
 export function useOfflineCheckoff({
@@ -63,7 +81,8 @@ export function useOfflineCheckoff({
     async (
       taskId: string,
       status: TaskStatus,
-      additionalPayload?: Record<string, unknown>
+      additionalPayload?: Record<string, unknown>,
+      context?: OfflineChangeContext
     ): Promise<CheckoffResult> => {
       const payload = {
         status,
@@ -72,7 +91,7 @@ export function useOfflineCheckoff({
 
       // Check if we're offline first
       if (!navigator.onLine) {
-        return await queueCheckoff(taskId, payload);
+        return await queueCheckoff(taskId, payload, context);
       }
 
       // Try the API call
@@ -85,14 +104,14 @@ export function useOfflineCheckoff({
 
         if (!response.ok) {
           // Server error - queue for retry
-          return await queueCheckoff(taskId, payload);
+          return await queueCheckoff(taskId, payload, context);
         }
 
         onSuccess?.(taskId);
-        return { success: true, queued: false };
+        return { success: true, queued: false, updatedAt: await readUpdatedAt(response) };
       } catch {
         // Network error - queue for later
-        return await queueCheckoff(taskId, payload);
+        return await queueCheckoff(taskId, payload, context);
       }
     },
     // Note: queueCheckoff is intentionally omitted to avoid recreation loops
@@ -106,7 +125,8 @@ export function useOfflineCheckoff({
   const queueCheckoff = useCallback(
     async (
       taskId: string,
-      payload: Record<string, unknown>
+      payload: Record<string, unknown>,
+      context?: OfflineChangeContext
     ): Promise<CheckoffResult> => {
       if (!isIndexedDBAvailable()) {
         onError?.(taskId, "Offline storage not available");
@@ -122,7 +142,8 @@ export function useOfflineCheckoff({
           "task_checkoff",
           mealId,
           taskId,
-          payload
+          payload,
+          context
         );
 
         pendingRef.current.set(taskId, action);
@@ -146,12 +167,13 @@ export function useOfflineCheckoff({
     async (
       taskId: string,
       startTimeMinutes: number,
-      endTimeMinutes: number
+      endTimeMinutes: number,
+      context?: OfflineChangeContext
     ): Promise<CheckoffResult> => {
       const payload = { startTimeMinutes, endTimeMinutes };
 
       if (!navigator.onLine) {
-        return await queueTimeChange(taskId, payload);
+        return await queueTimeChange(taskId, payload, context);
       }
 
       try {
@@ -162,13 +184,13 @@ export function useOfflineCheckoff({
         });
 
         if (!response.ok) {
-          return await queueTimeChange(taskId, payload);
+          return await queueTimeChange(taskId, payload, context);
         }
 
         onSuccess?.(taskId);
-        return { success: true, queued: false };
+        return { success: true, queued: false, updatedAt: await readUpdatedAt(response) };
       } catch {
-        return await queueTimeChange(taskId, payload);
+        return await queueTimeChange(taskId, payload, context);
       }
     },
     // Note: queueTimeChange is intentionally omitted to avoid recreation loops
@@ -182,7 +204,8 @@ export function useOfflineCheckoff({
   const queueTimeChange = useCallback(
     async (
       taskId: string,
-      payload: Record<string, unknown>
+      payload: Record<string, unknown>,
+      context?: OfflineChangeContext
     ): Promise<CheckoffResult> => {
       if (!isIndexedDBAvailable()) {
         onError?.(taskId, "Offline storage not available");
@@ -198,7 +221,8 @@ export function useOfflineCheckoff({
           "task_time_change",
           mealId,
           taskId,
-          payload
+          payload,
+          context
         );
 
         pendingRef.current.set(`time-${taskId}`, action);
@@ -246,3 +270,14 @@ export function useOfflineCheckoff({
     isIndexedDBAvailable: isIndexedDBAvailable(),
   };
 }
+
+/**
+ * The task's new updatedAt from a task PATCH response, if it has one
+ *
+ * Later writes from this device are based on it, so they aren't taken
+ * for changes made on another device.
+ */
+export async function readUpdatedAt(response: Response): Promise<string | undefined> {
+  const data = await response.json().catch(() => ({}));
+  return data.task?.updatedAt;
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Recipe } from "@/types";
+import { getMirroredImages, isIndexedDBAvailable } from "./indexed-db";
+import { loadMirroredRecipes } from "./recipe-mirror";
+
+/**
+ * Recipes from the network, or from the offline mirror when fetch fails
+ */
+export interface UseOfflineRecipesResult {
+  recipes: Recipe[];
+  /** Where the recipes came from (null while loading) */
+  source: "network" | "mirror" | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook for loading the recipe box with an offline fallback
+ *
+ * Tries /api/recipes first. If that fails, serves the IndexedDB mirror,
+ * pointing sourceImageUrl at mirrored image blobs (or clearing it when the
+ * image wasn't kept, so cards show their placeholder instead of a broken
+ * image).
+ */
+export function useOfflineRecipes(): UseOfflineRecipesResult {
+  const [state, setState] = useState<UseOfflineRecipesResult>({
+    recipes: [],
+    source: null,
+    isLoading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const objectUrls: string[] = [];
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/recipes");
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const recipes: Recipe[] = await response.json();
+        if (!cancelled) {
+          setState({ recipes, source: "network", isLoading: false, error: null });
+        }
+        return;
+      } catch {
+        // Fall through to the mirror
+      }
+
+      try {
+        const recipes = isIndexedDBAvailable() ? await loadMirroredRecipes() : [];
+        if (recipes.length === 0) {
+          throw new Error("Your recipe box hasn't been saved for offline use yet.");
+        }
+
+        const images = new Map((await getMirroredImages()).map((i) => [i.url, i.blob]));
+        const withImages = recipes.map((recipe) => {
+          const blob = recipe.sourceImageUrl ? images.get(recipe.sourceImageUrl) : undefined;
+          if (!blob) return { ...recipe, sourceImageUrl: undefined };
+          const objectUrl = URL.createObjectURL(blob);
+          objectUrls.push(objectUrl);
+          return { ...recipe, sourceImageUrl: objectUrl };
+        });
+
+        if (!cancelled) {
+          setState({ recipes: withImages, source: "mirror", isLoading: false, error: null });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setState({
+            recipes: [],
+            source: null,
+            isLoading: false,
+            error: error instanceof Error ? error.message : "Failed to load recipes",
+          });
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  return state;
+}
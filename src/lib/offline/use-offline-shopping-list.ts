@@ -0,0 +1,117 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { ShoppingList } from "@/types";
+import {
+  cacheShoppingList,
+  getCachedShoppingList,
+  deleteCachedShoppingList,
+  isIndexedDBAvailable,
+  type CachedShoppingList,
+} from "./indexed-db";
+import { precachePages } from "./service-worker-client";
+
+/**
+ * Hook for saving a meal's shopping list to use without signal
+ *
+ * Saving is on demand: it stores the list in IndexedDB and asks the
+ * Service Worker to cache the page shell. While saved, call refresh() after
+ * every change so the offline copy reflects checks made in the store.
+ *
+ * @example
+ * ```tsx
+ * const { isSaved, save, refresh, loadCached } = useOfflineShoppingList(mealId);
+ *
+ * useEffect(() => {
+ *   if (list) void refresh(list, meal?.name);
+ * }, [list, meal?.name, refresh]);
+ * ```
+ */
+export function useOfflineShoppingList(mealId: string) {
+  const [isSaved, setIsSaved] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+
+  // Check for a saved copy on mount
+  useEffect(() => {
+    if (!isIndexedDBAvailable()) return;
+
+    getCachedShoppingList(mealId)
+      .then((cached) => {
+        setIsSaved(cached !== null);
+        setCachedAt(cached?.cachedAt ?? null);
+      })
+      .catch(() => setIsSaved(false));
+  }, [mealId]);
+
+  /**
+   * Save the list (and its page) for offline use
+   */
+  const save = useCallback(
+    async (list: ShoppingList, mealName?: string): Promise<boolean> => {
+      if (!isIndexedDBAvailable()) return false;
+
+      try {
+        await cacheShoppingList(mealId, list, mealName);
+        void precachePages([`/shopping/${mealId}`]);
+        setIsSaved(true);
+        setCachedAt(new Date().toISOString());
+        return true;
+      } catch (error) {
+        console.error("Failed to save shopping list offline:", error);
+        return false;
+      }
+    },
+    [mealId]
+  );
+
+  /**
+   * Update the saved copy; does nothing unless the list was saved
+   */
+  const refresh = useCallback(
+    async (list: ShoppingList, mealName?: string): Promise<void> => {
+      if (!isSaved) return;
+
+      try {
+        await cacheShoppingList(mealId, list, mealName);
+        setCachedAt(new Date().toISOString());
+      } catch (error) {
+        console.warn("Failed to refresh offline shopping list:", error);
+      }
+    },
+    [mealId, isSaved]
+  );
+
+  /**
+   * Stop keeping the list offline
+   */
+  const remove = useCallback(async (): Promise<void> => {
+    if (!isIndexedDBAvailable()) return;
+
+    await deleteCachedShoppingList(mealId);
+    setIsSaved(false);
+    setCachedAt(null);
+  }, [mealId]);
+
+  /**
+   * Read the saved copy (e.g., when the network is unavailable)
+   */
+  const loadCached = useCallback(async (): Promise<CachedShoppingList | null> => {
+    if (!isIndexedDBAvailable()) return null;
+
+    try {
+      return await getCachedShoppingList(mealId);
+    } catch {
+      return null;
+    }
+  }, [mealId]);
+
+  return {
+    isSaved,
+    cachedAt,
+    save,
+    refresh,
+    remove,
+    loadCached,
+    isIndexedDBAvailable: isIndexedDBAvailable(),
+  };
+}
@@ -4,11 +4,13 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import {
   getSyncStatus,
   isIndexedDBAvailable,
+  type SyncConflict,
   type SyncStatus,
 } from "./indexed-db";
 import {
   syncOfflineActions,
   isSyncInProgress,
+  resolveSyncConflict,
   type SyncResult,
 } from "./sync-service";
 import { formatLastOnline } from "@/hooks/use-offline";
@@ -38,6 +40,15 @@ export interface SyncStatusInfo {
   /** Whether IndexedDB is available */
   hasOfflineSupport: boolean;
 
+  /** Queued changes that conflicted with another device and need a decision */
+  conflicts: SyncConflict[];
+
+  /** Keep this device's change or the other device's */
+  resolveConflict: (
+    conflict: SyncConflict,
+    choice: "keep_mine" | "keep_theirs"
+  ) => Promise<void>;
+
   /** Trigger a manual sync */
   triggerSync: () => Promise<SyncResult | null>;
 
@@ -173,6 +184,15 @@ export function useSyncStatus(): SyncStatusInfo {
     }
   }, [hasOfflineSupport, isOnline, refreshStatus]);
 
+  // Settle a conflict and reload status
+  const resolveConflict = useCallback(
+    async (conflict: SyncConflict, choice: "keep_mine" | "keep_theirs") => {
+      await resolveSyncConflict(conflict, choice);
+      await refreshStatus();
+    },
+    [refreshStatus]
+  );
+
   return {
     isOnline,
     isSyncing: status.isSyncing,
@@ -181,6 +201,8 @@ export function useSyncStatus(): SyncStatusInfo {
     lastSyncedAgo,
     lastError: status.lastError,
     hasOfflineSupport,
+    conflicts: status.conflicts ?? [],
+    resolveConflict,
     triggerSync,
     refreshStatus,
   };
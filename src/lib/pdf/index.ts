@@ -0,0 +1,23 @@
+/**
+ * PDF generation for Sunday Dinner.
+ *
+ * Builds printable documents server-side, without a browser or print CSS.
+ *
+ * @example
+ * ```typescript
+ * import { buildMealPack } from "@/lib/pdf";
+ *
+ * const bytes = buildMealPack({ meal, timeline, timeZone: "America/Chicago" });
+ * ```
+ *
+ * @module
+ */
+
+export {
+  PdfDocument,
+  type PdfFont,
+  type PdfTextOptions,
+  type PdfDocumentOptions,
+} from "./pdf-document";
+
+export { buildMealPack, type MealPackInput } from "./meal-pack";
@@ -0,0 +1,228 @@
+/**
+ * Meal Print Pack
+ *
+ * Everything for the fridge door in one PDF:
+ * 1. Run sheet: serve-day tasks at clock times, grouped by hour
+ * 2. Prep list: make-ahead tasks per day, with checkboxes
+ * 3. Quick cards: one large-type page per recipe, quantities scaled
+ */
+
+import type { Meal, RecipeWithScaling, Task, Timeline } from "@/types";
+import { calculateRealTime } from "@/lib/services/execution/real-time";
+import {
+  getServeDayTasks,
+  groupTasksByPrepSession,
+} from "@/lib/services/execution/prep-sessions";
+import { formatQuantity } from "@/lib/services/shopping/unit-reconciliation";
+import { PdfDocument } from "./pdf-document";
+
+export interface MealPackInput {
+  meal: Meal;
+  /** The meal's timeline (run sheet and prep list are skipped without one) */
+  timeline: Timeline | null;
+  /** IANA time zone for clock times (default: the server's) */
+  timeZone?: string;
+}
+
+/** Room for the time column on the run sheet */
+const TIME_COLUMN = 78;
+
+/** Room for checkboxes and step numbers */
+const LIST_INDENT = 26;
+
+/**
+ * Build the print pack PDF for a meal
+ */
+export function buildMealPack(input: MealPackInput): Uint8Array<ArrayBuffer> {
+  const { meal, timeline, timeZone } = input;
+  const serveTime = new Date(meal.serveTime);
+  const tasks = (timeline?.tasks ?? []).filter((t) => t.status !== "skipped");
+  const recipeNames = new Map(
+    meal.recipes.map(({ recipe }) => [recipe.id, recipe.name] as const)
+  );
+  const helperNames = new Map((meal.helpers ?? []).map((h) => [h.id, h.name]));
+  const clock = (date: Date) =>
+    date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone });
+
+  const pdf = new PdfDocument({ footer: `Sunday Dinner · ${meal.name}` });
+
+  // Cover and run sheet
+  pdf.text(meal.name, { font: "bold", size: 28 });
+  pdf.text(
+    `Serve at ${clock(serveTime)} · ${serveTime.toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      timeZone,
+    })} · ${meal.guestCount.total} guests`,
+    { size: 14, gray: 0.35 }
+  );
+  pdf.rule(1.5);
+  pdf.space(6);
+
+  pdf.text("Run Sheet", { font: "bold", size: 20 });
+  pdf.space(4);
+  const serveDay = getServeDayTasks(tasks).sort(
+    (a, b) => a.startTimeMinutes - b.startTimeMinutes
+  );
+  if (serveDay.length === 0) {
+    pdf.text(
+      timeline ? "Nothing scheduled on serve day." : "No timeline yet. Generate one to get a run sheet.",
+      { size: 13, gray: 0.35 }
+    );
+  }
+  for (const [hour, hourTasks] of Array.from(groupByHour(serveDay, serveTime, timeZone))) {
+    pdf.ensureSpace(60);
+    pdf.space(6);
+    pdf.text(hour, { font: "bold", size: 16 });
+    pdf.rule(0.5, 0.6);
+    for (const task of hourTasks) {
+      pdf.text(task.title, {
+        size: 14,
+        indent: TIME_COLUMN,
+        label: clock(calculateRealTime(task.startTimeMinutes, serveTime)),
+      });
+      pdf.text(describeTask(task, recipeNames, helperNames), {
+        size: 10,
+        indent: TIME_COLUMN,
+        gray: 0.4,
+      });
+      pdf.space(4);
+    }
+  }
+  pdf.space(6);
+  pdf.text("Serve", { font: "bold", size: 16, indent: TIME_COLUMN, label: clock(serveTime) });
+
+  // Prep list
+  pdf.ensureSpace(120);
+  pdf.space(24);
+  pdf.text("Prep List", { font: "bold", size: 20 });
+  pdf.space(4);
+  const prepSessions = groupTasksByPrepSession(tasks, serveTime).filter(
+    (s) => s.daysBeforeServe > 0
+  );
+  if (prepSessions.length === 0) {
+    pdf.text("Nothing to make ahead. Everything happens on serve day.", {
+      size: 13,
+      gray: 0.35,
+    });
+  }
+  for (const session of prepSessions) {
+    const day = calculateRealTime(session.tasks[0]!.startTimeMinutes, serveTime);
+    pdf.ensureSpace(60);
+    pdf.space(6);
+    pdf.text(
+      `${day.toLocaleDateString("en-US", { weekday: "long", timeZone })} prep`,
+      { font: "bold", size: 16 }
+    );
+    pdf.rule(0.5, 0.6);
+    for (const task of session.tasks) {
+      pdf.text(task.title, { size: 14, indent: LIST_INDENT, checkbox: true });
+      pdf.text(
+        `${clock(calculateRealTime(task.startTimeMinutes, serveTime))} · ${describeTask(task, recipeNames, helperNames)}`,
+        { size: 10, indent: LIST_INDENT, gray: 0.4 }
+      );
+      pdf.space(4);
+    }
+  }
+
+  // Quick cards
+  for (const recipe of meal.recipes) {
+    pdf.pageBreak();
+    writeQuickCard(pdf, recipe);
+  }
+
+  return pdf.toBytes();
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * One recipe on its own page, in type large enough to read from the stove
+ */
+function writeQuickCard(pdf: PdfDocument, { recipe, scaling }: RecipeWithScaling): void {
+  pdf.text(recipe.name, { font: "bold", size: 30 });
+  pdf.text(
+    scaling.multiplier === 1
+      ? `Makes ${scaling.targetServingSize} servings`
+      : `Makes ${scaling.targetServingSize} servings (${formatQuantity(scaling.multiplier)}× the original ${scaling.originalServingSize})`,
+    { size: 15, gray: 0.35 }
+  );
+  if (scaling.claudeReviewNotes) {
+    pdf.space(4);
+    pdf.text(`Scaling note: ${scaling.claudeReviewNotes}`, { size: 13, gray: 0.35 });
+  }
+  pdf.rule(1.5);
+  pdf.space(6);
+
+  pdf.text("Ingredients", { font: "bold", size: 20 });
+  pdf.space(4);
+  for (const ingredient of recipe.ingredients) {
+    const quantity =
+      ingredient.quantity !== null
+        ? formatQuantity(ingredient.quantity * scaling.multiplier)
+        : undefined;
+    const line = [quantity, ingredient.unit, ingredient.name].filter(Boolean).join(" ");
+    pdf.text(ingredient.notes ? `${line}, ${ingredient.notes}` : line, {
+      size: 17,
+      indent: LIST_INDENT,
+      checkbox: true,
+    });
+    pdf.space(3);
+  }
+
+  pdf.space(12);
+  pdf.text("Steps", { font: "bold", size: 20 });
+  pdf.space(4);
+  for (const step of [...recipe.instructions].sort((a, b) => a.stepNumber - b.stepNumber)) {
+    const details = [
+      step.ovenTemp ? `${step.ovenTemp}°F` : undefined,
+      step.durationMinutes ? `${step.durationMinutes} min` : undefined,
+    ].filter(Boolean);
+    pdf.text(
+      details.length > 0 ? `${step.description} (${details.join(", ")})` : step.description,
+      { size: 15, indent: LIST_INDENT, label: `${step.stepNumber}.` }
+    );
+    pdf.space(5);
+  }
+}
+
+/**
+ * Tasks grouped under their starting hour's label, e.g., "1 PM"
+ */
+function groupByHour(
+  tasks: Task[],
+  serveTime: Date,
+  timeZone: string | undefined
+): Map<string, Task[]> {
+  const groups = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const hour = calculateRealTime(task.startTimeMinutes, serveTime).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      timeZone,
+    });
+    groups.set(hour, [...(groups.get(hour) ?? []), task]);
+  }
+  return groups;
+}
+
+/**
+ * Recipe, oven, hands-off and helper details for a task's second line
+ */
+function describeTask(
+  task: Task,
+  recipeNames: Map<string | undefined, string>,
+  helperNames: Map<string, string>
+): string {
+  return [
+    recipeNames.get(task.recipeId),
+    `${task.durationMinutes} min`,
+    task.requiresOven && task.ovenTemp ? `oven ${task.ovenTemp}°F` : undefined,
+    task.attention === "passive" ? "hands-off" : undefined,
+    task.assigneeId ? helperNames.get(task.assigneeId) : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,332 @@
+/**
+ * Minimal PDF writer
+ *
+ * Just enough of PDF 1.4 for printable text documents: US Letter pages,
+ * Helvetica and Helvetica-Bold (built into every PDF reader, so nothing is
+ * embedded), word-wrapped text, rules and checkboxes. Runs anywhere,
+ * including API routes, with no browser involved.
+ *
+ * Text is written top-down with a cursor; a line that doesn't fit starts
+ * a new page. Characters outside the Windows-1252 set the fonts cover are
+ * swapped for ASCII stand-ins (⅓ becomes 1/3) or "?".
+ */
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  /** Font size in points (default 12) */
+  size?: number;
+  /** Left indent from the margin in points */
+  indent?: number;
+  /** Gray level, 0 (black) to 1 (white) */
+  gray?: number;
+  /** Hanging text drawn in the indent on the first line, e.g., "1." or a time */
+  label?: string;
+  /** Draw an empty checkbox in the indent on the first line */
+  checkbox?: boolean;
+}
+
+export interface PdfDocumentOptions {
+  /** Footer text on every page, followed by the page number */
+  footer?: string;
+}
+
+/** US Letter, in points */
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_SIZE = 9;
+
+/** Line height as a multiple of font size */
+const LEADING = 1.3;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: "F1",
+  bold: "F2",
+};
+
+/**
+ * Helvetica advance widths (1/1000 em) for ASCII 32-126
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/**
+ * Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+ */
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Width used for characters outside ASCII */
+const DEFAULT_WIDTH = 556;
+
+/** Windows-1252 codes for characters outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+/** ASCII stand-ins for common characters the fonts don't have */
+const SUBSTITUTES: Record<string, string> = {
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+  "→": "->",
+  "−": "-",
+};
+
+/**
+ * A PDF built page by page with a top-down text cursor
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+  private footer?: string;
+
+  constructor(options: PdfDocumentOptions = {}) {
+    this.footer = options.footer;
+    this.newPage();
+  }
+
+  /** Width available for text between the margins */
+  get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  /**
+   * Start a new page and move the cursor to its top
+   */
+  newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Start a new page unless the current one is still empty
+   */
+  pageBreak(): void {
+    if (this.current.length > 0) this.newPage();
+  }
+
+  /**
+   * Start a new page if less than this much height is left
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_SIZE * 2) this.newPage();
+  }
+
+  /**
+   * Move the cursor down
+   */
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  /**
+   * Write word-wrapped text at the cursor
+   *
+   * Wrapped lines stay together with the label or checkbox on the first
+   * line; a block that doesn't fit moves to the next page whole when it
+   * can.
+   */
+  text(value: string, options: PdfTextOptions = {}): void {
+    const { font = "regular", size = 12, indent = 0, gray = 0, label, checkbox } = options;
+    const lineHeight = size * LEADING;
+    const x = MARGIN + indent;
+    const lines = this.wrap(value, font, size, this.contentWidth - indent);
+
+    this.ensureSpace(Math.min(lines.length, 4) * lineHeight);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y -= size;
+      if (index === 0 && checkbox) {
+        const box = size * 0.75;
+        this.current.push(`0 G 0.75 w ${fixed(x - box - 8)} ${fixed(this.y - 1)} ${fixed(box)} ${fixed(box)} re S`);
+      }
+      if (index === 0 && label) {
+        this.current.push(drawText(MARGIN, this.y, label, font, size, gray));
+      }
+      this.current.push(drawText(x, this.y, line, font, size, gray));
+      this.y -= lineHeight - size;
+    });
+  }
+
+  /**
+   * Draw a horizontal rule across the page at the cursor
+   */
+  rule(weight = 0.75, gray = 0): void {
+    this.ensureSpace(weight + 6);
+    this.y -= 4;
+    this.current.push(
+      `${fixed(gray)} G ${fixed(weight)} w ${MARGIN} ${fixed(this.y)} m ${PAGE_WIDTH - MARGIN} ${fixed(this.y)} l S`
+    );
+    this.y -= 6;
+  }
+
+  /**
+   * Width of a single line of text in points
+   */
+  measure(value: string, font: PdfFont = "regular", size = 12): number {
+    const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of normalizeText(value)) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32]! : DEFAULT_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Serialize the document to PDF bytes
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const pageCount = this.pages.length;
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const content = [...operations, ...this.footerOperations(index + 1, pageCount)].join("\n");
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`;
+
+    // Everything written is ASCII (text is hex-encoded), so length is byte count
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  private footerOperations(page: number, pageCount: number): string[] {
+    const label = [this.footer, `Page ${page} of ${pageCount}`].filter(Boolean).join(" · ");
+    return [drawText(MARGIN, MARGIN - FOOTER_SIZE, label, "regular", FOOTER_SIZE, 0.45)];
+  }
+
+  /**
+   * Split text into lines that fit a width, breaking between words
+   *
+   * A word longer than a whole line is broken between characters.
+   */
+  private wrap(value: string, font: PdfFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of value.split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.measure(candidate, font, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        line = word;
+        while (this.measure(line, font, size) > width && line.length > 1) {
+          let fit = line.length - 1;
+          while (fit > 1 && this.measure(line.slice(0, fit), font, size) > width) fit--;
+          lines.push(line.slice(0, fit));
+          line = line.slice(fit);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Text-showing operations for one line
+ */
+function drawText(
+  x: number,
+  y: number,
+  value: string,
+  font: PdfFont,
+  size: number,
+  gray: number
+): string {
+  return `BT ${fixed(gray)} g /${FONT_NAMES[font]} ${size} Tf ${fixed(x)} ${fixed(y)} Td <${encodeText(value)}> Tj ET`;
+}
+
+/**
+ * Windows-1252 bytes as a hex string
+ */
+function encodeText(value: string): string {
+  let hex = "";
+  for (const char of normalizeText(value)) {
+    const code = char.charCodeAt(0);
+    const byte =
+      code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : (WIN_ANSI_EXTRAS[char] ?? 0x3f);
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Swap in ASCII stand-ins and drop control characters
+ */
+function normalizeText(value: string): string {
+  return value
+    .replace(/(\d)([⅓⅔⅛⅜⅝⅞])/g, "$1 $2")
+    .replace(/[⅓⅔⅛⅜⅝⅞→−]/g, (char) => SUBSTITUTES[char] ?? char)
+    .replace(/[\u0000-\u001f]/g, " ");
+}
+
+function fixed(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
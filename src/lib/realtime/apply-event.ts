@@ -0,0 +1,82 @@
+import type { Task, Timeline } from "@/types";
+import type { LiveSyncEvent, TaskTimeUpdate } from "./types";
+
+/**
+ * Apply an event from another device to local timeline state
+ *
+ * Pure: returns a new timeline and leaves the input untouched. Tasks the
+ * event names but this device doesn't know about are ignored.
+ *
+ * @param timeline - Current local timeline
+ * @param event - Event received from the live sync channel
+ * @returns Updated timeline
+ */
+export function applyLiveSyncEvent(timeline: Timeline, event: LiveSyncEvent): Timeline {
+  switch (event.type) {
+    case "task_status":
+      return {
+        ...timeline,
+        tasks: timeline.tasks.map((t) =>
+          t.id === event.taskId
+            ? {
+                ...t,
+                status: event.status,
+                completedAt: event.status === "completed" ? event.completedAt : undefined,
+              }
+            : t
+        ),
+      };
+
+    case "tasks_rescheduled":
+      return { ...timeline, tasks: applyTaskTimes(timeline.tasks, event.tasks) };
+
+    case "session_started":
+      return {
+        ...timeline,
+        isRunning: true,
+        startedAt: event.startedAt,
+        currentTaskId: event.currentTaskId ?? undefined,
+        tasks: timeline.tasks.map((t) =>
+          t.id === event.currentTaskId ? { ...t, status: "in_progress" as const } : t
+        ),
+      };
+
+    case "session_ended":
+      return { ...timeline, isRunning: false, currentTaskId: undefined, pausedAt: undefined };
+
+    case "session_paused":
+      return { ...timeline, pausedAt: event.pausedAt };
+
+    case "session_resumed":
+      return {
+        ...timeline,
+        pausedAt: undefined,
+        tasks: applyTaskTimes(timeline.tasks, event.tasks),
+      };
+
+    case "timers_changed":
+      return { ...timeline, timers: event.timers };
+
+    case "serve_time_changed":
+      // Serve time belongs to the meal; task times are already relative to it
+      return timeline;
+  }
+}
+
+/**
+ * Set new start/end times (and durations, when given) on the tasks named in an update
+ */
+function applyTaskTimes(tasks: Task[], updates: TaskTimeUpdate[]): Task[] {
+  const times = new Map(updates.map((t) => [t.id, t]));
+  return tasks.map((t) => {
+    const update = t.id ? times.get(t.id) : undefined;
+    return update
+      ? {
+          ...t,
+          startTimeMinutes: update.startTimeMinutes,
+          endTimeMinutes: update.endTimeMinutes,
+          durationMinutes: update.durationMinutes ?? t.durationMinutes,
+        }
+      : t;
+  });
+}
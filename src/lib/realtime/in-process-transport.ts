@@ -0,0 +1,73 @@
+import type {
+  LiveSyncConnection,
+  LiveSyncHandlers,
+  LiveSyncTransport,
+  PresenceMember,
+} from "./types";
+
+interface Subscriber {
+  member: PresenceMember;
+  handlers: LiveSyncHandlers;
+}
+
+/**
+ * InProcessLiveSyncTransport: LiveSyncTransport on an in-memory bus
+ *
+ * Stand-in for Supabase Realtime in tests and local development.
+ * Connections made through the same instance share channels, so two
+ * connections behave like two devices: events reach every other
+ * subscriber on the meal (delivered asynchronously, as over a network),
+ * and presence updates on join and leave.
+ */
+export class InProcessLiveSyncTransport implements LiveSyncTransport {
+  private channels = new Map<string, Set<Subscriber>>();
+
+  connect(mealId: string, member: PresenceMember, handlers: LiveSyncHandlers): LiveSyncConnection {
+    const subscriber: Subscriber = { member, handlers };
+    const channel = this.channels.get(mealId) ?? new Set<Subscriber>();
+    channel.add(subscriber);
+    this.channels.set(mealId, channel);
+
+    handlers.onStatusChange("connected");
+    this.broadcastPresence(mealId);
+
+    return {
+      publish: async (event) => {
+        const others = Array.from(this.channels.get(mealId) ?? []).filter((s) => s !== subscriber);
+        await Promise.resolve();
+        for (const other of others) {
+          other.handlers.onEvent(event);
+        }
+      },
+      disconnect: () => {
+        const current = this.channels.get(mealId);
+        if (!current?.delete(subscriber)) return;
+        handlers.onStatusChange("disconnected");
+        if (current.size === 0) {
+          this.channels.delete(mealId);
+        } else {
+          this.broadcastPresence(mealId);
+        }
+      },
+    };
+  }
+
+  /**
+   * Number of open connections for a meal
+   */
+  getConnectionCount(mealId: string): number {
+    return this.channels.get(mealId)?.size ?? 0;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private broadcastPresence(mealId: string): void {
+    const subscribers = Array.from(this.channels.get(mealId) ?? []);
+    const members = subscribers.map((s) => s.member);
+    for (const subscriber of subscribers) {
+      subscriber.handlers.onPresence(members);
+    }
+  }
+}
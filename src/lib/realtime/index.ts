@@ -0,0 +1,34 @@
+/**
+ * Real-time sync module for Sunday Dinner
+ *
+ * Pushes live cooking changes (checkoffs, recalculations, shifts) to every
+ * device with the meal open, with presence. Polling remains the fallback
+ * whenever the push channel is down.
+ */
+
+export {
+  useLiveSync,
+  getLiveSyncTransport,
+  setLiveSyncTransport,
+  LIVE_SYNC_FALLBACK_INTERVAL,
+  LIVE_SYNC_CONNECTED_INTERVAL,
+  type UseLiveSyncOptions,
+  type UseLiveSyncResult,
+} from "./use-live-sync";
+
+export { applyLiveSyncEvent } from "./apply-event";
+
+// Transports
+export { SupabaseLiveSyncTransport } from "./supabase-transport";
+export { InProcessLiveSyncTransport } from "./in-process-transport";
+
+// Types
+export type {
+  LiveSyncEvent,
+  LiveSyncStatus,
+  LiveSyncTransport,
+  LiveSyncConnection,
+  LiveSyncHandlers,
+  PresenceMember,
+  TaskTimeUpdate,
+} from "./types";
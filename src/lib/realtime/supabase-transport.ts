@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  LiveSyncConnection,
+  LiveSyncEvent,
+  LiveSyncHandlers,
+  LiveSyncTransport,
+  PresenceMember,
+} from "./types";
+
+/** Broadcast event name carrying LiveSyncEvent payloads */
+const SYNC_EVENT = "live-sync";
+
+/**
+ * SupabaseLiveSyncTransport: LiveSyncTransport over Supabase Realtime
+ *
+ * One broadcast channel per meal ("live-meal:{mealId}") carries events;
+ * Realtime presence on the same channel tracks connected devices.
+ * Broadcasts are not echoed back to the sender.
+ */
+export class SupabaseLiveSyncTransport implements LiveSyncTransport {
+  constructor(private supabase: SupabaseClient) {}
+
+  connect(mealId: string, member: PresenceMember, handlers: LiveSyncHandlers): LiveSyncConnection {
+    const channel = this.supabase.channel(`live-meal:${mealId}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: member.clientId },
+      },
+    });
+
+    channel
+      .on("broadcast", { event: SYNC_EVENT }, ({ payload }) => {
+        handlers.onEvent(payload as LiveSyncEvent);
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<PresenceMember>();
+        const members = Object.values(state)
+          .map((presences) => presences[0])
+          .filter((p): p is NonNullable<typeof p> => !!p)
+          .map(({ clientId, name, role }) => ({ clientId, name, role }));
+        handlers.onPresence(members);
+      });
+
+    handlers.onStatusChange("connecting");
+    channel.subscribe(async (status) => {
+      if (status === "SUBSCRIBED") {
+        handlers.onStatusChange("connected");
+        await channel.track(member);
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+        handlers.onStatusChange("disconnected");
+      }
+    });
+
+    return {
+      publish: async (event) => {
+        const result = await channel.send({
+          type: "broadcast",
+          event: SYNC_EVENT,
+          payload: event,
+        });
+        if (result !== "ok") {
+          throw new Error(`Failed to publish live sync event: ${result}`);
+        }
+      },
+      disconnect: () => {
+        void this.supabase.removeChannel(channel);
+      },
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import type { RescheduleReason, ShareRole, SharedTimer, TaskStatus } from "@/types";
+
+/**
+ * New start/end times for one task after a reschedule
+ */
+export interface TaskTimeUpdate {
+  id: string;
+  startTimeMinutes: number;
+  endTimeMinutes: number;
+  /** Set when the task's length changed too (a hurried task) */
+  durationMinutes?: number;
+}
+
+/**
+ * A change to live cooking state, pushed to every open device
+ *
+ * - task_status: a task was checked off, undone or skipped
+ * - tasks_rescheduled: a recalculation, shift or undo moved tasks
+ * - session_started: the host pressed Start Cooking
+ * - session_ended: the host ended cooking
+ * - session_paused / session_resumed: the clock was frozen or restarted;
+ *   resuming carries the pending tasks it moved
+ * - timers_changed: a kitchen timer was started, paused, changed or dismissed
+ * - serve_time_changed: the cook chose to serve later to catch up
+ */
+export type LiveSyncEvent =
+  | {
+      type: "task_status";
+      taskId: string;
+      status: TaskStatus;
+      completedAt?: string;
+    }
+  | {
+      type: "tasks_rescheduled";
+      reason: RescheduleReason;
+      tasks: TaskTimeUpdate[];
+    }
+  | {
+      type: "session_started";
+      startedAt: string;
+      currentTaskId: string | null;
+    }
+  | {
+      type: "session_ended";
+      endedAt: string;
+    }
+  | {
+      type: "session_paused";
+      pausedAt: string;
+    }
+  | {
+      type: "session_resumed";
+      resumedAt: string;
+      tasks: TaskTimeUpdate[];
+    }
+  | {
+      type: "timers_changed";
+      timers: SharedTimer[];
+    }
+  | {
+      type: "serve_time_changed";
+      serveTime: string;
+    };
+
+/**
+ * Someone with the meal open on a device
+ */
+export interface PresenceMember {
+  /** Random ID per open page */
+  clientId: string;
+  /** Display name, e.g., "Host" or a helper's name */
+  name: string;
+  /** Host (live page) or the share link's role */
+  role: "host" | ShareRole;
+}
+
+/**
+ * Connection state of a live sync channel
+ */
+export type LiveSyncStatus = "connecting" | "connected" | "disconnected";
+
+/**
+ * Callbacks a transport reports to
+ */
+export interface LiveSyncHandlers {
+  /** An event published by another device */
+  onEvent: (event: LiveSyncEvent) => void;
+  /** Everyone currently connected (including this device) */
+  onPresence: (members: PresenceMember[]) => void;
+  /** Channel connected or dropped */
+  onStatusChange: (status: LiveSyncStatus) => void;
+}
+
+/**
+ * An open channel for one meal
+ */
+export interface LiveSyncConnection {
+  /** Send an event to every other device on the meal */
+  publish(event: LiveSyncEvent): Promise<void>;
+  /** Leave the channel and stop presence */
+  disconnect(): void;
+}
+
+/**
+ * Push transport for live cooking state
+ *
+ * Implemented over Supabase Realtime in production and by an in-process
+ * bus for local testing. Callers fall back to polling whenever the
+ * connection is not "connected".
+ */
+export interface LiveSyncTransport {
+  /**
+   * Join a meal's channel
+   * @param mealId - Meal whose live state to sync
+   * @param member - This device's presence entry
+   * @param handlers - Event, presence and status callbacks
+   */
+  connect(mealId: string, member: PresenceMember, handlers: LiveSyncHandlers): LiveSyncConnection;
+}
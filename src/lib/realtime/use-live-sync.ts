@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { supabase } from "@/lib/supabase/client";
+import { SupabaseLiveSyncTransport } from "./supabase-transport";
+import { InProcessLiveSyncTransport } from "./in-process-transport";
+import type {
+  LiveSyncConnection,
+  LiveSyncEvent,
+  LiveSyncStatus,
+  LiveSyncTransport,
+  PresenceMember,
+} from "./types";
+
+/** Polling interval while the push channel is down */
+export const LIVE_SYNC_FALLBACK_INTERVAL = 5000;
+
+/** Safety-net polling interval while the push channel is up */
+export const LIVE_SYNC_CONNECTED_INTERVAL = 30000;
+
+let transportInstance: LiveSyncTransport | null = null;
+
+/**
+ * Get the live sync transport
+ *
+ * Supabase Realtime by default. Set NEXT_PUBLIC_LIVE_SYNC_TRANSPORT to
+ * "in-process" to use the in-memory stand-in instead.
+ */
+export function getLiveSyncTransport(): LiveSyncTransport {
+  if (!transportInstance) {
+    transportInstance =
+      process.env.NEXT_PUBLIC_LIVE_SYNC_TRANSPORT === "in-process"
+        ? new InProcessLiveSyncTransport()
+        : new SupabaseLiveSyncTransport(supabase);
+  }
+  return transportInstance;
+}
+
+/**
+ * Replace the live sync transport (e.g., with an InProcessLiveSyncTransport in tests)
+ */
+export function setLiveSyncTransport(transport: LiveSyncTransport | null): void {
+  transportInstance = transport;
+}
+
+export interface UseLiveSyncOptions {
+  /** Meal whose live state to sync */
+  mealId: string;
+  /** How this device appears to others */
+  member: Omit<PresenceMember, "clientId">;
+  /** Called for events published by other devices */
+  onEvent: (event: LiveSyncEvent) => void;
+  /** Whether to connect (default: true) */
+  enabled?: boolean;
+  /** Transport override (defaults to getLiveSyncTransport()) */
+  transport?: LiveSyncTransport;
+}
+
+export interface UseLiveSyncResult {
+  /** Push channel state; poll with LIVE_SYNC_FALLBACK_INTERVAL unless "connected" */
+  status: LiveSyncStatus;
+  /** Everyone with the meal open, including this device */
+  members: PresenceMember[];
+  /** Tell other devices about a change. No-op while disconnected. */
+  publish: (event: LiveSyncEvent) => Promise<void>;
+}
+
+/**
+ * Hook for push-based sync of live cooking state across devices
+ *
+ * Joins the meal's channel on mount and leaves on unmount. Publishing
+ * never throws: a failed push is logged and other devices catch up by
+ * polling.
+ *
+ * @example
+ * ```tsx
+ * const { status, members, publish } = useLiveSync({
+ *   mealId,
+ *   member: { name: "Host", role: "host" },
+ *   onEvent: (event) => setTimeline((t) => applyLiveSyncEvent(t, event)),
+ * });
+ * ```
+ */
+export function useLiveSync({
+  mealId,
+  member,
+  onEvent,
+  enabled = true,
+  transport,
+}: UseLiveSyncOptions): UseLiveSyncResult {
+  const [status, setStatus] = useState<LiveSyncStatus>("connecting");
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const [clientId] = useState(() => uuidv4());
+
+  const connectionRef = useRef<LiveSyncConnection | null>(null);
+  const onEventRef = useRef(onEvent);
+
+  // Keep handler ref up to date
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const { name, role } = member;
+
+  // Connect / disconnect
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("disconnected");
+      return;
+    }
+
+    let active = true;
+    const connection = (transport ?? getLiveSyncTransport()).connect(
+      mealId,
+      { clientId, name, role },
+      {
+        onEvent: (event) => {
+          if (active) onEventRef.current(event);
+        },
+        onPresence: (next) => {
+          if (active) setMembers(next);
+        },
+        onStatusChange: (next) => {
+          if (active) setStatus(next);
+        },
+      }
+    );
+    connectionRef.current = connection;
+
+    return () => {
+      active = false;
+      connectionRef.current = null;
+      connection.disconnect();
+    };
+  }, [mealId, clientId, name, role, enabled, transport]);
+
+  const publish = useCallback(async (event: LiveSyncEvent) => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+
+    try {
+      await connection.publish(event);
+    } catch (error) {
+      console.warn("Live sync publish failed:", error);
+    }
+  }, []);
+
+  return { status, members, publish };
+}
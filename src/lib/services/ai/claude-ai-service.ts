@@ -6,6 +6,7 @@ import type {
   TimelineGenerationInput,
 } from "@/contracts/ai-service";
 import type {
+  DurationCorrections,
   ExtractionResult,
   Recipe,
   Task,
@@ -15,8 +16,9 @@ import type {
 } from "@/types";
 import {
   ExtractionResultSchema,
-  TaskSchema,
+  GeneratedTaskSchema,
   RecalculationSuggestionSchema,
+  DEFAULT_KITCHEN_PROFILE,
 } from "@/types";
 import {
   RECIPE_EXTRACTION_PROMPT,
@@ -24,6 +26,7 @@ import {
   SCALING_REVIEW_PROMPT,
   RECALCULATION_PROMPT,
 } from "./prompts";
+import { getStepKey, isSignificant } from "@/lib/services/timeline/duration-corrections";
 
 /**
  * ClaudeAIService: Implementation of AIService using Anthropic's Claude API
@@ -46,24 +49,37 @@ import {
  * ```
  */
 export class ClaudeAIService implements AIService {
-  private client: Anthropic;
+  private anthropic: Anthropic | null = null;
+  private apiKey: string | undefined;
   private model = "claude-sonnet-4-5-20250929";
   private maxTokens = 4096;
 
   /**
    * Create a new ClaudeAIService instance
    *
+   * A missing API key is reported when a method is first called, so
+   * callers with a non-AI fallback (e.g. timeline generation) still work.
+   *
    * @param apiKey - Optional API key. Defaults to ANTHROPIC_API_KEY env var.
    */
   constructor(apiKey?: string) {
-    const key = apiKey ?? process.env.ANTHROPIC_API_KEY;
-    if (!key) {
-      throw new Error(
-        "ANTHROPIC_API_KEY environment variable is required. " +
-          "Set it in your .env.local file."
-      );
+    this.apiKey = apiKey ?? process.env.ANTHROPIC_API_KEY;
+  }
+
+  /**
+   * Anthropic client, created on first use
+   */
+  private get client(): Anthropic {
+    if (!this.anthropic) {
+      if (!this.apiKey) {
+        throw new Error(
+          "ANTHROPIC_API_KEY environment variable is required. " +
+            "Set it in your .env.local file."
+        );
+      }
+      this.anthropic = new Anthropic({ apiKey: this.apiKey });
     }
-    this.client = new Anthropic({ apiKey: key });
+    return this.anthropic;
   }
 
   /**
@@ -160,20 +176,25 @@ export class ClaudeAIService implements AIService {
           const multiplier = scale ? scale.multiplier : 1;
           return `
 ### Recipe ${i + 1}: ${recipe.name}
+- Recipe ID: ${recipe.id ?? "none"}
 - Original serving size: ${recipe.servingSize}
 - Scaling factor: ${multiplier}x (serving ${recipe.servingSize * multiplier})
 - Prep time: ${recipe.prepTimeMinutes ?? "unknown"} min
 - Cook time: ${recipe.cookTimeMinutes ?? "unknown"} min
-
+${this.formatLearnedPace(recipe, input.durationCorrections)}
 **Ingredients:**
 ${recipe.ingredients.map((ing) => `- ${ing.quantity ?? "?"} ${ing.unit ?? ""} ${ing.name}${ing.notes ? ` (${ing.notes})` : ""}`).join("\n")}
 
 **Instructions:**
-${recipe.instructions.map((inst) => `${inst.stepNumber}. ${inst.description}${inst.durationMinutes ? ` (${inst.durationMinutes} min)` : ""}${inst.ovenRequired ? ` [OVEN: ${inst.ovenTemp}°F]` : ""}`).join("\n")}
+${recipe.instructions.map((inst) => `${inst.stepNumber}. ${inst.id ? `[id: ${inst.id}] ` : ""}${inst.description}${inst.durationMinutes ? ` (${inst.durationMinutes} min)` : ""}${inst.ovenRequired ? ` [OVEN: ${inst.ovenTemp}°F]` : ""}${this.formatLearnedStep(recipe, inst.id, input.durationCorrections)}`).join("\n")}
 `;
         })
         .join("\n---\n");
 
+      const kitchen = (input.kitchenProfile ?? DEFAULT_KITCHEN_PROFILE).resources
+        .map((r) => `- ${r.id}: ${r.name} (capacity ${r.capacity})`)
+        .join("\n");
+
       const response = await this.client.messages.create({
         model: this.model,
         max_tokens: this.maxTokens,
@@ -186,6 +207,9 @@ ${recipe.instructions.map((inst) => `${inst.stepNumber}. ${inst.description}${in
 **Guest Count:** ${input.guestCount}
 **Meal ID:** meal-${Date.now()}
 
+**Kitchen Resources:**
+${kitchen}
+
 ${recipesSummary}
 
 Generate a complete timeline of tasks, working backwards from the serve time. Output ONLY the JSON array of tasks.`,
@@ -196,9 +220,13 @@ Generate a complete timeline of tasks, working backwards from the serve time. Ou
 
       const parsed = this.parseJsonResponse(response);
 
-      // Validate as array of tasks
-      const tasksArray = z.array(TaskSchema).parse(parsed);
-      return tasksArray;
+      // Validate as array of tasks; a null instructionId means no single step
+      return z
+        .array(GeneratedTaskSchema)
+        .parse(parsed)
+        .map(({ instructionId, ...task }) =>
+          instructionId ? { ...task, instructionId } : task
+        );
     } catch (error) {
       if (error instanceof Anthropic.APIError) {
         throw new Error(`Claude API error during timeline generation: ${error.message}`);
@@ -330,6 +358,55 @@ Suggest ONE adjustment to help get back on track. Output ONLY the JSON suggestio
   // Private Helpers
   // ============================================================================
 
+  /**
+   * Recipe-wide and title-matched timing history for the timeline request
+   *
+   * Steps matched by instruction are noted on the step itself (see
+   * formatLearnedStep). Empty when there's no history worth mentioning.
+   */
+  private formatLearnedPace(recipe: Recipe, corrections?: DurationCorrections): string {
+    if (!corrections || !recipe.id) return "";
+    const lines: string[] = [];
+
+    const pace = corrections.recipes[recipe.id];
+    if (pace && isSignificant(pace)) {
+      const percent = Math.round(Math.abs(pace.factor - 1) * 100);
+      lines.push(
+        `- Your past timing: steps usually take ${percent}% ${pace.factor > 1 ? "longer" : "less time"} than planned (${pace.samples} past tasks)`
+      );
+    }
+
+    const instructionKeys = new Set(
+      recipe.instructions
+        .filter((inst) => inst.id)
+        .map((inst) => getStepKey({ recipeId: recipe.id!, instructionId: inst.id, title: "" }))
+    );
+    for (const [key, step] of Object.entries(corrections.steps)) {
+      if (!key.startsWith(`${recipe.id}:`) || instructionKeys.has(key)) continue;
+      if (!step.typicalMinutes || !isSignificant(step)) continue;
+      lines.push(
+        `- Your past timing: "${key.slice(recipe.id.length + 1)}" usually takes ${step.typicalMinutes} min`
+      );
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  /**
+   * Timing history for one instruction, appended to its line
+   */
+  private formatLearnedStep(
+    recipe: Recipe,
+    instructionId: string | undefined,
+    corrections?: DurationCorrections
+  ): string {
+    if (!corrections || !recipe.id || !instructionId) return "";
+    const step = corrections.steps[getStepKey({ recipeId: recipe.id, instructionId, title: "" })];
+    return step?.typicalMinutes && isSignificant(step)
+      ? ` [USUALLY TAKES YOU: ${step.typicalMinutes} min]`
+      : "";
+  }
+
   /**
    * Parse JSON from Claude's text response
    *
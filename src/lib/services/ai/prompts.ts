@@ -135,7 +135,7 @@ Respond with ONLY valid JSON - an array of tasks:
   {
     "mealId": "meal-uuid",
     "recipeId": "recipe-uuid",
-    "instructionId": "instruction-uuid-if-applicable",
+    "instructionId": "instruction-uuid-or-null",
     "title": "Preheat oven to 350°F",
     "description": "For the roasted vegetables",
     "startTimeMinutes": -180,
@@ -143,7 +143,10 @@ Respond with ONLY valid JSON - an array of tasks:
     "endTimeMinutes": -170,
     "requiresOven": true,
     "ovenTemp": 350,
+    "resources": [{ "resourceId": "hands", "quantity": 1 }],
+    "attention": "active",
     "dependsOn": [],
+    "prepDaysBefore": 0,
     "status": "pending"
   }
 ]
@@ -152,6 +155,7 @@ Respond with ONLY valid JSON - an array of tasks:
 - ALL times are relative to serve time (0 = serve time)
 - Negative values = before serve time (e.g., -120 = 2 hours before)
 - The last task should end at or just before 0 (serve time)
+- Times keep counting across days: one day earlier = 1440 minutes earlier
 
 ## Planning Rules
 
@@ -161,15 +165,59 @@ Respond with ONLY valid JSON - an array of tasks:
 3. Parallelize where possible (while one thing bakes, prep another)
 4. Add buffer time for transitions
 
+### Kitchen Resources
+- The request lists the kitchen's resources as "id: name (capacity N)"
+- Capacity is how many tasks can use a resource at once (2 ovens = capacity 2)
+- For each task, list the resources it holds in "resources" using those ids
+  (e.g. a sauce on the stove holds 1 "burner"; active chopping holds 1 "hands")
+- Oven tasks set "requiresOven" and don't need to list the oven in "resources"
+- NEVER schedule more concurrent claims on a resource than its capacity
+- Only claim resources that appear in the list
+
+### Cook Attention
+- Set "attention" on EVERY task:
+  - "active" = hands-on the whole time (chopping, searing, whisking gravy, carving)
+  - "passive" = runs on its own (roasting, baking, resting, chilling, simmering unattended)
+- Split long steps so a 4-hour roast is passive and the basting or carving around it is active
+- Avoid overlapping active tasks beyond the number of cooks ("hands" capacity);
+  do active work while passive tasks run
+
 ### Oven Constraints
-- Only ONE oven task can run at a time (unless same temperature)
-- Different temperatures = sequential, not parallel
+- The number of oven tasks running at once must not exceed the oven capacity
+- Different temperatures in the same oven = sequential, not parallel
 - Include preheat time before first oven task
 
+### Make-Ahead Prep Days
+- Move steps to earlier days when they hold up or improve overnight:
+  brines, marinades, doughs that rest, pie crusts, pies, stocks, sauces, dressings
+- Set "prepDaysBefore" to the number of days before serve day (1 = the day before, max 7)
+- Serve-day tasks use "prepDaysBefore": 0
+- A prep-day task's startTimeMinutes includes the whole days, e.g. 10am the day
+  before a 5pm dinner = -(1440 + 420) = -1860
+- Keep prep-day tasks at sensible hours (9am-9pm) and group each day's work together
+- Keep the serve-day session short: if a step can safely be done ahead, do it ahead
+- Only days up to 2 before serve, unless the recipe says it needs longer (e.g., dry-aging, thawing)
+
 ### Duration Estimation
 - If recipe doesn't specify, estimate based on common cooking times
 - Add 5-10 min buffer for complex steps
 - Account for scale (larger batches take longer)
+- The request may include this cook's past timing, measured from earlier meals:
+  - "[USUALLY TAKES YOU: N min]" on a step = plan that step at N minutes
+  - "Your past timing: steps usually take N% longer" = stretch that recipe's
+    estimates by N% (shorten them for "less time")
+  - Past timing beats the recipe's stated times and your own estimates
+
+### Recipe Steps
+- The request lists each recipe's id and each instruction's id, e.g.
+  "3. [id: 5f1c...] Roast until golden"
+- Set "recipeId" to the recipe's id on every task
+- Set "instructionId" on EVERY task to the id of the step it carries out,
+  copied exactly; never invent ids
+- A step split into several tasks (a roast and its basting) uses that step's
+  id on each of them
+- Use null only for tasks that carry out no single step (preheating the oven,
+  mise en place across recipes)
 
 ### Dependencies
 - Use "dependsOn" to reference task IDs that must complete first
@@ -180,7 +228,7 @@ Respond with ONLY valid JSON - an array of tasks:
 - Create tasks for EACH significant step, not just "make the whole recipe"
 - Include passive time (oven baking, resting) as separate tasks
 - Consider mise en place (ingredient prep) as early tasks
-- The host is cooking ALONE - don't assume multiple cooks`;
+- The host is cooking ALONE - don't assume multiple cooks unless "hands" has capacity above 1`;
 
 /**
  * Scaling review for non-linear scaling concerns
@@ -0,0 +1,52 @@
+import type { Helper, ShareMealData, Task } from "@/types";
+
+/** Filter value showing every task */
+export const ALL_ASSIGNEES = "all";
+
+/** Filter value showing only the host's (unassigned) tasks */
+export const HOST_ASSIGNEE = "host";
+
+/**
+ * Whose tasks to show: ALL_ASSIGNEES, HOST_ASSIGNEE, or a Helper.id
+ */
+export type AssigneeFilter = string;
+
+/**
+ * Keep only the tasks belonging to one person
+ *
+ * @param tasks - All timeline tasks
+ * @param filter - ALL_ASSIGNEES, HOST_ASSIGNEE, or a helper ID
+ * @returns Matching tasks in their original order
+ */
+export function filterTasksByAssignee(tasks: Task[], filter: AssigneeFilter): Task[] {
+  if (filter === ALL_ASSIGNEES) {
+    return tasks;
+  }
+  if (filter === HOST_ASSIGNEE) {
+    return tasks.filter((t) => !t.assigneeId);
+  }
+  return tasks.filter((t) => t.assigneeId === filter);
+}
+
+/**
+ * Map helper IDs to display names for task cards
+ */
+export function buildAssigneeNames(helpers: Helper[] = []): Map<string, string> {
+  return new Map(helpers.map((h) => [h.id, h.name]));
+}
+
+/**
+ * Whether a share link holder may check off a task
+ *
+ * Viewer links are read-only. A helper link naming a helper covers only
+ * that helper's tasks; an unnamed helper link covers every task.
+ */
+export function canCheckoffSharedTask(
+  access: ShareMealData["access"],
+  task: Pick<Task, "assigneeId">
+): boolean {
+  if (access.role !== "helper") {
+    return false;
+  }
+  return !access.helperId || task.assigneeId === access.helperId;
+}
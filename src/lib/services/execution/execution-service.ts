@@ -1,6 +1,8 @@
 "use client";
 
 import type { Timeline, Task, TaskStatus } from "@/types";
+import { getCurrentPrepDaysBefore, getPrepDaysBefore } from "./prep-sessions";
+import { calculateRealTime } from "./real-time";
 
 /**
  * Execution state for live cooking mode
@@ -32,20 +34,6 @@ export interface LiveExecutionContext {
   undoableActions: UndoableAction[];
 }
 
-/**
- * Calculate actual clock time for a task based on serve time
- *
- * @param minutesRelative - Minutes relative to serve time (negative = before)
- * @param serveTime - The target serve time
- * @returns Actual Date when the task should start
- */
-export function calculateRealTime(
-  minutesRelative: number,
-  serveTime: Date
-): Date {
-  return new Date(serveTime.getTime() + minutesRelative * 60 * 1000);
-}
-
 /**
  * Format time for display in live mode
  */
@@ -99,18 +87,26 @@ export function calculateProgress(tasks: Task[]): {
 
 /**
  * Group tasks for live view (similar to planning but with real time calculations)
+ *
+ * Only tasks from today's prep session (or unfinished make-ahead work
+ * from earlier days) can be Now or Next. Sessions on later days wait
+ * in Later, so Saturday's brine doesn't pull Sunday's roast forward.
+ *
+ * While the timeline is paused the clock stands still at pausedAt, so
+ * nothing moves between groups until the cook resumes.
  */
 export function groupTasksForLive(
   tasks: Task[],
   serveTime: Date,
-  currentTaskId?: string
+  currentTaskId?: string,
+  pausedAt?: string
 ): {
   now: Task[];
   next: Task[];
   later: Task[];
   completed: Task[];
 } {
-  const currentTime = new Date();
+  const currentTime = pausedAt ? new Date(pausedAt) : new Date();
   const currentMinutesFromServe = Math.floor(
     (currentTime.getTime() - serveTime.getTime()) / 60000
   );
@@ -122,10 +118,15 @@ export function groupTasksForLive(
     (t) => t.status === "pending" || t.status === "in_progress"
   );
 
-  // Sort by start time
-  const sorted = [...pending].sort(
-    (a, b) => a.startTimeMinutes - b.startTimeMinutes
-  );
+  // Sort by start time, holding back sessions on later days
+  const todaysSession = getCurrentPrepDaysBefore(serveTime, currentTime);
+  const byStart = (a: Task, b: Task) => a.startTimeMinutes - b.startTimeMinutes;
+  const sorted = pending
+    .filter((t) => getPrepDaysBefore(t) >= todaysSession)
+    .sort(byStart);
+  const laterSessions = pending
+    .filter((t) => getPrepDaysBefore(t) < todaysSession)
+    .sort(byStart);
 
   // NOW: Current task or first task that should be active based on current time
   let nowTask: Task | undefined;
@@ -166,7 +167,7 @@ export function groupTasksForLive(
 
   // LATER: Everything else
   const nextIds = new Set(next.map((t) => t.id));
-  const later = remaining.filter((t) => !nextIds.has(t.id));
+  const later = [...remaining.filter((t) => !nextIds.has(t.id)), ...laterSessions];
 
   return { now, next, later, completed };
 }
@@ -257,8 +258,13 @@ export function createUndoableAction(
 
 /**
  * Get tasks that should have started by now (for "overdue" indicator)
+ *
+ * Nothing is overdue while the timeline is paused; resuming moves pending
+ * tasks later by the paused time.
  */
-export function getOverdueTasks(tasks: Task[], serveTime: Date): Task[] {
+export function getOverdueTasks(tasks: Task[], serveTime: Date, pausedAt?: string): Task[] {
+  if (pausedAt) return [];
+
   const currentMinutesFromServe = Math.floor(
     (Date.now() - serveTime.getTime()) / 60000
   );
@@ -1 +1,4 @@
 export * from "./execution-service";
+export * from "./real-time";
+export * from "./prep-sessions";
+export * from "./assignees";
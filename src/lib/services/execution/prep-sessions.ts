@@ -0,0 +1,95 @@
+import type { Task } from "@/types";
+
+/**
+ * A cooking session on one calendar day
+ *
+ * Serve day is session 0. Make-ahead work (brine Saturday, pie Friday)
+ * forms earlier sessions, one per day.
+ */
+export interface PrepSession {
+  /** Whole days before serve day (0 = serve day) */
+  daysBeforeServe: number;
+  /** Local midnight of the session's day */
+  date: Date;
+  /** Tasks in the session, sorted by start time */
+  tasks: Task[];
+}
+
+/**
+ * Days before serve day a task is scheduled (0 = serve day)
+ */
+export function getPrepDaysBefore(task: Task): number {
+  return task.prepDaysBefore ?? 0;
+}
+
+/**
+ * Whether any task is scheduled on a day before serve day
+ */
+export function hasPrepSessions(tasks: Task[]): boolean {
+  return tasks.some((t) => getPrepDaysBefore(t) > 0);
+}
+
+/**
+ * Tasks cooked on serve day (excludes make-ahead prep)
+ */
+export function getServeDayTasks(tasks: Task[]): Task[] {
+  return tasks.filter((t) => getPrepDaysBefore(t) === 0);
+}
+
+/**
+ * Group tasks into one session per day
+ *
+ * @param tasks - All timeline tasks
+ * @param serveTime - The target serve time
+ * @returns Sessions with at least one task, earliest day first
+ */
+export function groupTasksByPrepSession(tasks: Task[], serveTime: Date): PrepSession[] {
+  const byDay = new Map<number, Task[]>();
+  for (const task of tasks) {
+    const days = getPrepDaysBefore(task);
+    const existing = byDay.get(days) ?? [];
+    existing.push(task);
+    byDay.set(days, existing);
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([daysBeforeServe, sessionTasks]) => ({
+      daysBeforeServe,
+      date: getSessionDate(serveTime, daysBeforeServe),
+      tasks: [...sessionTasks].sort((a, b) => a.startTimeMinutes - b.startTimeMinutes),
+    }));
+}
+
+/**
+ * Which session is happening today, as days before serve day
+ *
+ * Returns 0 on (or after) serve day.
+ */
+export function getCurrentPrepDaysBefore(serveTime: Date, now: Date = new Date()): number {
+  const serveDay = getSessionDate(serveTime, 0).getTime();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  return Math.max(0, Math.round((serveDay - today) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Human-readable session name, e.g., "Serve day" or "Saturday prep"
+ */
+export function formatPrepSessionLabel(session: PrepSession): string {
+  if (session.daysBeforeServe === 0) {
+    return "Serve day";
+  }
+  const weekday = session.date.toLocaleDateString("en-US", { weekday: "long" });
+  return `${weekday} prep`;
+}
+
+/**
+ * Local midnight of the day N days before serve day
+ */
+function getSessionDate(serveTime: Date, daysBeforeServe: number): Date {
+  return new Date(
+    serveTime.getFullYear(),
+    serveTime.getMonth(),
+    serveTime.getDate() - daysBeforeServe
+  );
+}
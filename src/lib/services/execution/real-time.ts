@@ -0,0 +1,16 @@
+/**
+ * Calculate actual clock time for a task based on serve time
+ *
+ * Kept free of client-only code so server routes (the calendar export)
+ * compute the same times the live view shows.
+ *
+ * @param minutesRelative - Minutes relative to serve time (negative = before)
+ * @param serveTime - The target serve time
+ * @returns Actual Date when the task should start
+ */
+export function calculateRealTime(
+  minutesRelative: number,
+  serveTime: Date
+): Date {
+  return new Date(serveTime.getTime() + minutesRelative * 60 * 1000);
+}
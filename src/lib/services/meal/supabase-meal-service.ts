@@ -13,6 +13,9 @@ import type {
   ScalingFactor,
   RecipeWithScaling,
   Recipe,
+  KitchenProfile,
+  Helper,
+  AutoTimerMode,
 } from "@/types";
 
 /**
@@ -24,6 +27,9 @@ interface MealRow {
   serve_time: string;
   guest_count: { total: number; dietary?: string[] };
   status: MealStatus;
+  kitchen_profile: KitchenProfile | null;
+  helpers: Helper[] | null;
+  auto_timer_mode: AutoTimerMode | null;
   created_at: string;
   updated_at: string;
 }
@@ -193,7 +199,12 @@ export class SupabaseMealService implements MealService {
    */
   async update(
     mealId: string,
-    updates: Partial<Pick<Meal, "name" | "serveTime" | "guestCount" | "status">>
+    updates: Partial<
+      Pick<
+        Meal,
+        "name" | "serveTime" | "guestCount" | "status" | "kitchenProfile" | "helpers" | "autoTimerMode"
+      >
+    >
   ): Promise<Meal> {
     const updateData: Record<string, unknown> = {};
 
@@ -209,6 +220,15 @@ export class SupabaseMealService implements MealService {
     if (updates.status !== undefined) {
       updateData.status = updates.status;
     }
+    if (updates.kitchenProfile !== undefined) {
+      updateData.kitchen_profile = updates.kitchenProfile;
+    }
+    if (updates.helpers !== undefined) {
+      updateData.helpers = updates.helpers;
+    }
+    if (updates.autoTimerMode !== undefined) {
+      updateData.auto_timer_mode = updates.autoTimerMode;
+    }
 
     const { data, error } = await this.supabase
       .from("meals")
@@ -224,6 +244,10 @@ export class SupabaseMealService implements MealService {
       throw new Error("Meal not found");
     }
 
+    if (updates.helpers !== undefined) {
+      await this.unassignRemovedHelpers(mealId, updates.helpers);
+    }
+
     const recipesWithScaling = await this.fetchMealRecipes(mealId);
     return this.transformMealRow(data, recipesWithScaling);
   }
@@ -519,6 +543,26 @@ export class SupabaseMealService implements MealService {
     return counts;
   }
 
+  /**
+   * Hand tasks of helpers no longer on the meal back to the host
+   */
+  private async unassignRemovedHelpers(mealId: string, helpers: Helper[]): Promise<void> {
+    let query = this.supabase
+      .from("tasks")
+      .update({ assignee_id: null })
+      .eq("meal_id", mealId)
+      .not("assignee_id", "is", null);
+
+    if (helpers.length > 0) {
+      query = query.not("assignee_id", "in", `(${helpers.map((h) => h.id).join(",")})`);
+    }
+
+    const { error } = await query;
+    if (error) {
+      throw new Error(`Failed to unassign removed helpers: ${error.message}`);
+    }
+  }
+
   /**
    * Transform Supabase meal row to Meal type
    */
@@ -533,6 +577,9 @@ export class SupabaseMealService implements MealService {
       guestCount: row.guest_count as GuestCount,
       recipes,
       status: row.status,
+      kitchenProfile: row.kitchen_profile ?? undefined,
+      helpers: row.helpers ?? undefined,
+      autoTimerMode: row.auto_timer_mode ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -0,0 +1,4 @@
+export {
+  SupabaseRecipeService,
+  createRecipeService,
+} from "./supabase-recipe-service";
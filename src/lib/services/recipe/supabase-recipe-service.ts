@@ -0,0 +1,398 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AIService, ImageMimeType } from "@/contracts/ai-service";
+import type {
+  RecipeService,
+  ListRecipesOptions,
+  DeleteRecipeResult,
+} from "@/contracts/recipe-service";
+import type { Recipe, RecipeCategory, RecipeSourceType, ExtractionResult } from "@/types";
+import { scrapeRecipeUrl } from "@/lib/extraction";
+
+/**
+ * Storage bucket for recipe source images
+ */
+const RECIPE_IMAGES_BUCKET = "recipe-images";
+
+/**
+ * Row shape from Supabase recipes table
+ */
+interface RecipeRow {
+  id: string;
+  name: string;
+  description: string | null;
+  source_type: RecipeSourceType | null;
+  category: RecipeCategory | null;
+  source: string | null;
+  source_image_url: string | null;
+  serving_size: number;
+  prep_time_minutes: number | null;
+  cook_time_minutes: number | null;
+  ingredients: Recipe["ingredients"];
+  instructions: Recipe["instructions"];
+  notes: string | null;
+  uncertain_fields: string[] | null;
+  extraction_confidence: Record<string, number> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SupabaseRecipeService: RecipeService implementation using Supabase
+ *
+ * Handles recipe CRUD, extraction delegation and source image storage.
+ *
+ * @example
+ * ```typescript
+ * const recipeService = new SupabaseRecipeService(supabase, aiService);
+ * const recipes = await recipeService.list({ category: "dessert" });
+ * ```
+ */
+export class SupabaseRecipeService implements RecipeService {
+  constructor(
+    private supabase: SupabaseClient,
+    private aiService: AIService
+  ) {}
+
+  /**
+   * Create a new recipe
+   */
+  async create(recipe: Omit<Recipe, "id" | "createdAt" | "updatedAt">): Promise<Recipe> {
+    const { data, error } = await this.supabase
+      .from("recipes")
+      .insert({
+        name: recipe.name,
+        description: recipe.description ?? null,
+        source_type: recipe.sourceType ?? "manual",
+        category: recipe.category ?? "other",
+        source: recipe.source ?? null,
+        source_image_url: recipe.sourceImageUrl ?? null,
+        serving_size: recipe.servingSize,
+        prep_time_minutes: recipe.prepTimeMinutes ?? null,
+        cook_time_minutes: recipe.cookTimeMinutes ?? null,
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        notes: recipe.notes ?? null,
+        uncertain_fields: recipe.uncertainFields ?? [],
+        extraction_confidence: recipe.extractionConfidence ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save recipe: ${error.message}`);
+    }
+
+    return this.transformRecipeRow(data as RecipeRow);
+  }
+
+  /**
+   * Get a recipe by ID
+   */
+  async get(recipeId: string): Promise<Recipe | null> {
+    const { data, error } = await this.supabase
+      .from("recipes")
+      .select("*")
+      .eq("id", recipeId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null; // Not found
+      }
+      throw new Error(`Failed to get recipe: ${error.message}`);
+    }
+
+    return this.transformRecipeRow(data as RecipeRow);
+  }
+
+  /**
+   * List recipes with optional filtering, newest first
+   */
+  async list(options: ListRecipesOptions = {}): Promise<Recipe[]> {
+    const { limit, offset, search, sourceType, category } = options;
+
+    let query = this.supabase
+      .from("recipes")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (search) {
+      query = query.ilike("name", `%${search}%`);
+    }
+    if (sourceType) {
+      query = query.eq("source_type", sourceType);
+    }
+    if (category) {
+      query = query.eq("category", category);
+    }
+    if (offset !== undefined) {
+      query = query.range(offset, offset + (limit ?? 50) - 1);
+    } else if (limit !== undefined) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list recipes: ${error.message}`);
+    }
+
+    return (data as RecipeRow[]).map((row) => this.transformRecipeRow(row));
+  }
+
+  /**
+   * Update an existing recipe
+   */
+  async update(recipeId: string, updates: Partial<Recipe>): Promise<Recipe> {
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.sourceType !== undefined) updateData.source_type = updates.sourceType;
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.source !== undefined) updateData.source = updates.source;
+    if (updates.sourceImageUrl !== undefined) updateData.source_image_url = updates.sourceImageUrl;
+    if (updates.servingSize !== undefined) updateData.serving_size = updates.servingSize;
+    if (updates.prepTimeMinutes !== undefined)
+      updateData.prep_time_minutes = updates.prepTimeMinutes;
+    if (updates.cookTimeMinutes !== undefined)
+      updateData.cook_time_minutes = updates.cookTimeMinutes;
+    if (updates.ingredients !== undefined) updateData.ingredients = updates.ingredients;
+    if (updates.instructions !== undefined) updateData.instructions = updates.instructions;
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+    if (updates.uncertainFields !== undefined)
+      updateData.uncertain_fields = updates.uncertainFields;
+    if (updates.extractionConfidence !== undefined)
+      updateData.extraction_confidence = updates.extractionConfidence;
+
+    if (Object.keys(updateData).length === 0) {
+      const existing = await this.get(recipeId);
+      if (!existing) {
+        throw new Error("Recipe not found");
+      }
+      return existing;
+    }
+
+    const { data, error } = await this.supabase
+      .from("recipes")
+      .update(updateData)
+      .eq("id", recipeId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("Recipe not found");
+      }
+      throw new Error(`Failed to update recipe: ${error.message}`);
+    }
+
+    return this.transformRecipeRow(data as RecipeRow);
+  }
+
+  /**
+   * Delete a recipe and its stored source image
+   *
+   * Refuses to delete recipes that are still attached to a meal.
+   */
+  async delete(recipeId: string): Promise<DeleteRecipeResult> {
+    const recipe = await this.get(recipeId);
+    if (!recipe) {
+      return { success: false, error: "not_found", message: "Recipe not found" };
+    }
+
+    const mealCount = await this.countMealsUsingRecipe(recipeId);
+    if (mealCount > 0) {
+      return {
+        success: false,
+        error: "in_use",
+        message: `Recipe is in use by ${mealCount} meal${mealCount === 1 ? "" : "s"}. Remove it from those meals first.`,
+      };
+    }
+
+    const { error } = await this.supabase.from("recipes").delete().eq("id", recipeId);
+
+    if (error) {
+      throw new Error(`Failed to delete recipe: ${error.message}`);
+    }
+
+    if (recipe.sourceImageUrl) {
+      await this.removeStoredImage(recipe.sourceImageUrl);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Extract recipe data from an image via Claude Vision
+   */
+  async extractFromImage(imageBase64: string): Promise<ExtractionResult> {
+    const { data, mimeType } = this.parseBase64Image(imageBase64);
+    return this.aiService.visionExtractRecipe(data, mimeType);
+  }
+
+  /**
+   * Extract recipe data from a URL
+   *
+   * Uses the server-side scraper (JSON-LD, then generic HTML parsing).
+   * Falls back to the AI service when scraping finds no recipe.
+   */
+  async extractFromUrl(url: string, siteType?: string): Promise<ExtractionResult> {
+    const scraped = await scrapeRecipeUrl(url);
+    if (scraped.success) {
+      return scraped;
+    }
+
+    try {
+      return await this.aiService.parseRecipeUrl(url, siteType);
+    } catch {
+      // AI fallback unavailable - surface the scraper's error
+      return scraped;
+    }
+  }
+
+  /**
+   * Extract recipe data from a PDF
+   *
+   * PDF rendering needs browser APIs, so the normal flow converts pages
+   * to images client-side (@/lib/extraction/client) and calls
+   * extractFromImage. This delegates to the AI service for server use.
+   */
+  async extractFromPdf(pdfBase64: string): Promise<ExtractionResult> {
+    return this.aiService.parsePdf(pdfBase64);
+  }
+
+  /**
+   * Upload a recipe source image and link it to the recipe
+   *
+   * Images are compressed client-side (@/lib/image) before they reach
+   * the server. Any previously stored image is removed after the new
+   * one is linked.
+   */
+  async uploadSourceImage(recipeId: string, imageBase64: string): Promise<string> {
+    const recipe = await this.get(recipeId);
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+
+    const { data, mimeType } = this.parseBase64Image(imageBase64);
+    const extension = mimeType.split("/")[1] ?? "jpg";
+    const path = `${recipeId}/${Date.now()}.${extension}`;
+
+    const { data: uploadData, error: uploadError } = await this.supabase.storage
+      .from(RECIPE_IMAGES_BUCKET)
+      .upload(path, Buffer.from(data, "base64"), {
+        contentType: mimeType,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload image: ${uploadError.message}`);
+    }
+
+    const {
+      data: { publicUrl },
+    } = this.supabase.storage.from(RECIPE_IMAGES_BUCKET).getPublicUrl(uploadData.path);
+
+    await this.update(recipeId, { sourceImageUrl: publicUrl });
+
+    if (recipe.sourceImageUrl && recipe.sourceImageUrl !== publicUrl) {
+      await this.removeStoredImage(recipe.sourceImageUrl);
+    }
+
+    return publicUrl;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Count meals that reference a recipe
+   */
+  private async countMealsUsingRecipe(recipeId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from("meal_recipes")
+      .select("meal_id")
+      .eq("recipe_id", recipeId);
+
+    if (error) {
+      throw new Error(`Failed to check recipe usage: ${error.message}`);
+    }
+
+    return new Set((data ?? []).map((row: { meal_id: string }) => row.meal_id)).size;
+  }
+
+  /**
+   * Remove an image from the recipe-images bucket by its public URL
+   *
+   * Best effort: the recipe row is the source of truth, so a failed
+   * removal only leaves an orphaned file behind.
+   */
+  private async removeStoredImage(publicUrl: string): Promise<void> {
+    try {
+      const url = new URL(publicUrl);
+      const pathMatch = url.pathname.match(/\/storage\/v1\/object\/public\/recipe-images\/(.+)/);
+      if (pathMatch?.[1]) {
+        await this.supabase.storage
+          .from(RECIPE_IMAGES_BUCKET)
+          .remove([decodeURIComponent(pathMatch[1])]);
+      }
+    } catch {
+      console.warn("Failed to delete recipe image, continuing...");
+    }
+  }
+
+  /**
+   * Split a base64 image (with or without data URL prefix) into raw data
+   * and MIME type. Without a prefix, the type is sniffed from magic bytes.
+   */
+  private parseBase64Image(imageBase64: string): { data: string; mimeType: ImageMimeType } {
+    const matches = imageBase64.match(/^data:([^;]+);base64,(.+)$/);
+    if (matches?.[1] && matches[2]) {
+      return { data: matches[2], mimeType: matches[1] as ImageMimeType };
+    }
+
+    let mimeType: ImageMimeType = "image/jpeg";
+    if (imageBase64.startsWith("iVBOR")) mimeType = "image/png";
+    else if (imageBase64.startsWith("R0lG")) mimeType = "image/gif";
+    else if (imageBase64.startsWith("UklGR")) mimeType = "image/webp";
+
+    return { data: imageBase64, mimeType };
+  }
+
+  /**
+   * Transform database row to Recipe
+   */
+  private transformRecipeRow(row: RecipeRow): Recipe {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      sourceType: row.source_type ?? undefined,
+      category: row.category ?? undefined,
+      source: row.source ?? undefined,
+      sourceImageUrl: row.source_image_url ?? undefined,
+      servingSize: row.serving_size,
+      prepTimeMinutes: row.prep_time_minutes,
+      cookTimeMinutes: row.cook_time_minutes,
+      ingredients: row.ingredients ?? [],
+      instructions: row.instructions ?? [],
+      notes: row.notes ?? undefined,
+      uncertainFields: row.uncertain_fields ?? undefined,
+      extractionConfidence: row.extraction_confidence ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Factory function to create a SupabaseRecipeService
+ */
+export function createRecipeService(
+  supabase: SupabaseClient,
+  aiService: AIService
+): RecipeService {
+  return new SupabaseRecipeService(supabase, aiService);
+}
@@ -1,10 +1,12 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
+  ShareLinkOptions,
   ShareLinkResult,
   ShareMealData,
   TokenValidationResult,
   Task,
   Timeline,
+  Helper,
 } from "@/types";
 
 /**
@@ -35,10 +37,14 @@ interface TaskRow {
   description: string | null;
   start_time_minutes: number;
   duration_minutes: number;
+  typical_duration_minutes: number | null;
   end_time_minutes: number;
   requires_oven: boolean;
   oven_temp: number | null;
+  attention: Task["attention"] | null;
+  assignee_id: string | null;
   depends_on: string[];
+  prep_days_before: number;
   status: string;
   completed_at: string | null;
   notes: string | null;
@@ -57,14 +63,19 @@ export interface ShareService {
    * Generate a share link for a meal
    * @param mealId - The meal to share
    * @param baseUrl - Base URL for constructing share links
+   * @param options - Link role and optional helper identity (defaults to viewer)
    * @returns The generated share link with token and expiration
    */
-  generateLink(mealId: string, baseUrl: string): Promise<ShareLinkResult>;
+  generateLink(
+    mealId: string,
+    baseUrl: string,
+    options?: ShareLinkOptions
+  ): Promise<ShareLinkResult>;
 
   /**
    * Validate a share token
    * @param token - The token to validate
-   * @returns Validation result with meal ID if valid
+   * @returns Validation result with meal ID and role if valid
    */
   validateToken(token: string): Promise<TokenValidationResult>;
 
@@ -111,16 +122,22 @@ export class SupabaseShareService implements ShareService {
   /**
    * Generate a share link for a meal
    *
-   * 1. Fetches the meal's serve time
+   * 1. Fetches the meal's serve time (and helpers, for helper links)
    * 2. Calculates expiration (serve time + 24 hours)
    * 3. Inserts token into database
    * 4. Returns shareable URL
    */
-  async generateLink(mealId: string, baseUrl: string): Promise<ShareLinkResult> {
+  async generateLink(
+    mealId: string,
+    baseUrl: string,
+    options: ShareLinkOptions = {}
+  ): Promise<ShareLinkResult> {
+    const role = options.role ?? "viewer";
+
     // Fetch meal to get serve time for expiration calculation
     const { data: meal, error: mealError } = await this.supabase
       .from("meals")
-      .select("serve_time")
+      .select("serve_time, helpers")
       .eq("id", mealId)
       .single();
 
@@ -128,6 +145,14 @@ export class SupabaseShareService implements ShareService {
       throw new Error(`Meal not found: ${mealId}`);
     }
 
+    // A named helper link must point at one of the meal's helpers
+    if (options.helperId) {
+      const helpers = (meal.helpers as Helper[] | null) ?? [];
+      if (role !== "helper" || !helpers.some((h) => h.id === options.helperId)) {
+        throw new Error(`Helper not found: ${options.helperId}`);
+      }
+    }
+
     // Calculate expiration: serve time + 24 hours
     const serveTime = new Date(meal.serve_time);
     const expiresAt = new Date(
@@ -140,8 +165,10 @@ export class SupabaseShareService implements ShareService {
       .insert({
         meal_id: mealId,
         expires_at: expiresAt.toISOString(),
+        role,
+        helper_id: options.helperId ?? null,
       })
-      .select("token, expires_at")
+      .select("token, expires_at, role, helper_id")
       .single();
 
     if (insertError || !token) {
@@ -152,6 +179,8 @@ export class SupabaseShareService implements ShareService {
       token: token.token,
       url: `${baseUrl}/share/${token.token}`,
       expiresAt: token.expires_at,
+      role: token.role,
+      helperId: token.helper_id ?? undefined,
     };
   }
 
@@ -165,7 +194,7 @@ export class SupabaseShareService implements ShareService {
     // RLS policy already filters expired tokens (expires_at > now())
     const { data, error } = await this.supabase
       .from("meal_share_tokens")
-      .select("token, meal_id, expires_at")
+      .select("token, meal_id, expires_at, role, helper_id")
       .eq("token", token)
       .single();
 
@@ -194,17 +223,20 @@ export class SupabaseShareService implements ShareService {
     return {
       valid: true,
       mealId: data.meal_id,
+      role: data.role,
+      helperId: data.helper_id ?? undefined,
     };
   }
 
   /**
    * Get complete meal data for share link viewers
    *
-   * Returns everything needed to display the read-only timeline view:
+   * Returns everything needed to display the shared timeline view:
    * - Basic meal info (name, serve time, status)
    * - Timeline with conflicts
    * - All tasks with current status
    * - Recipe names for display
+   * - The link's role, so helpers get checkoff controls
    */
   async getShareData(token: string): Promise<ShareMealData | null> {
     // First validate the token
@@ -218,7 +250,7 @@ export class SupabaseShareService implements ShareService {
     // Fetch meal data
     const { data: mealRow, error: mealError } = await this.supabase
       .from("meals")
-      .select("id, name, serve_time, guest_count, status")
+      .select("id, name, serve_time, guest_count, status, helpers")
       .eq("id", mealId)
       .single();
 
@@ -276,10 +308,15 @@ export class SupabaseShareService implements ShareService {
         serveTime: mealRow.serve_time,
         guestCount: (mealRow.guest_count as { total: number }).total,
         status: mealRow.status,
+        helpers: (mealRow.helpers as Helper[] | null) ?? undefined,
       },
       timeline: timelineRow ? this.timelineRowToTimeline(timelineRow as TimelineRow, tasks) : null,
       tasks,
       recipeNames,
+      access: {
+        role: validation.role ?? "viewer",
+        helperId: validation.helperId,
+      },
     };
   }
 
@@ -331,15 +368,20 @@ export class SupabaseShareService implements ShareService {
       description: row.description ?? undefined,
       startTimeMinutes: row.start_time_minutes,
       durationMinutes: row.duration_minutes,
+      typicalDurationMinutes: row.typical_duration_minutes ?? undefined,
       endTimeMinutes: row.end_time_minutes,
       requiresOven: row.requires_oven,
       ovenTemp: row.oven_temp ?? undefined,
+      attention: row.attention ?? undefined,
+      assigneeId: row.assignee_id ?? undefined,
       dependsOn: row.depends_on,
+      prepDaysBefore: row.prep_days_before || undefined,
       status: row.status as Task["status"],
       completedAt: row.completed_at ?? undefined,
       notes: row.notes ?? undefined,
       isValid: row.is_valid,
       validationErrors: row.validation_errors,
+      updatedAt: row.updated_at,
     };
   }
 
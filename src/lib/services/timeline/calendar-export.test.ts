@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Task } from "@/types";
+import { buildTimelineCalendar } from "./calendar-export";
+
+const MEAL_ID = "meal-1";
+
+function task(instructionId: string, title: string, startTimeMinutes: number): Task {
+  return {
+    mealId: MEAL_ID,
+    recipeId: "recipe-1",
+    instructionId,
+    title,
+    startTimeMinutes,
+    durationMinutes: 30,
+    endTimeMinutes: startTimeMinutes + 30,
+    status: "pending",
+  };
+}
+
+/** Each VEVENT's UID and whether it's cancelled */
+function getEvents(calendar: string): Array<{ uid: string; cancelled: boolean }> {
+  return calendar
+    .replace(/\r\n /g, "")
+    .split("BEGIN:VEVENT")
+    .slice(1)
+    .map((block) => ({
+      uid: /UID:(.*)\r\n/.exec(block)![1]!,
+      cancelled: block.includes("STATUS:CANCELLED"),
+    }));
+}
+
+const input = {
+  mealId: MEAL_ID,
+  mealName: "Sunday Roast",
+  serveTime: "2025-11-30T18:00:00Z",
+  recipes: [{ id: "recipe-1", name: "Roast Chicken" }],
+  updatedAt: "2025-11-29T12:00:00Z",
+  now: new Date("2025-11-29T12:00:00Z"),
+};
+
+describe("buildTimelineCalendar", () => {
+  it("cancels steps that only earlier versions had", () => {
+    const calendar = buildTimelineCalendar({
+      ...input,
+      tasks: [task("i1", "Roast chicken", -90)],
+      pastTasks: [[task("i1", "Roast chicken", -90), task("i2", "Make gravy", -30)]],
+    });
+
+    const events = getEvents(calendar);
+    expect(events.filter((e) => e.cancelled).map((e) => e.uid)).toEqual([
+      `${MEAL_ID}-task-recipe-1-i2@sunday-dinner`,
+    ]);
+    expect(events.find((e) => e.uid.includes("-i1@"))?.cancelled).toBe(false);
+  });
+
+  it("cancels a task once it's skipped", () => {
+    const calendar = buildTimelineCalendar({
+      ...input,
+      tasks: [
+        task("i1", "Roast chicken", -90),
+        { ...task("i2", "Make gravy", -30), status: "skipped" },
+      ],
+    });
+
+    expect(
+      getEvents(calendar)
+        .filter((e) => e.cancelled)
+        .map((e) => e.uid)
+    ).toEqual([`${MEAL_ID}-task-recipe-1-i2@sunday-dinner`]);
+  });
+
+  it("sends nothing cancelled when nothing was dropped", () => {
+    const tasks = [task("i1", "Roast chicken", -90)];
+    const calendar = buildTimelineCalendar({ ...input, tasks, pastTasks: [tasks] });
+
+    expect(getEvents(calendar).some((e) => e.cancelled)).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Calendar Export
+ *
+ * Turns a meal's timeline into an iCalendar (RFC 5545) file so "shop
+ * Friday, brine Saturday, turkey in at 1:30" lands in a phone calendar.
+ * Every task becomes an event at its real clock time, with alarms when a
+ * cooking session starts and when something goes in the oven, plus a
+ * shopping reminder and a heads-up the day before each make-ahead day.
+ *
+ * Event UIDs come from the meal and the recipe step, not task IDs, which
+ * change on every regenerate. Re-importing (or a subscribed calendar
+ * refreshing) updates the events already there instead of adding copies.
+ * Events earlier versions of the timeline had and this one doesn't (a
+ * step dropped by regenerating, a skipped task) are sent again as
+ * cancelled, so subscribed calendars remove them.
+ */
+
+import type { ShoppingList, Task } from "@/types";
+import { calculateRealTime } from "@/lib/services/execution/real-time";
+import { groupTasksByPrepSession } from "@/lib/services/execution/prep-sessions";
+import { getStepKey } from "./duration-corrections";
+
+/** Domain part of every event UID */
+const UID_DOMAIN = "sunday-dinner";
+
+/** Longest content line before folding, in octets */
+const MAX_LINE_OCTETS = 75;
+
+/** How far before a cooking session its start alarm goes off */
+const SESSION_ALARM_MINUTES = 15;
+
+/** Length of the shopping and serve events */
+const REMINDER_EVENT_MINUTES = 60;
+const SERVE_EVENT_MINUTES = 30;
+
+/** How often subscribed calendars should re-fetch */
+const REFRESH_INTERVAL = "PT1H";
+
+export interface TimelineCalendarInput {
+  mealId: string;
+  mealName: string;
+  /** The meal's serve time (ISO datetime) */
+  serveTime: string;
+  tasks: Task[];
+  recipes: Array<{ id: string; name: string }>;
+  /** The meal's shopping list, if one has been made */
+  shoppingList?: ShoppingList | null;
+  /** Task lists of earlier versions, whose events may need cancelling */
+  pastTasks?: Task[][];
+  /** When the timeline last changed; newer exports replace older ones */
+  updatedAt?: string;
+  /** When the file is generated (default: now) */
+  now?: Date;
+}
+
+/**
+ * Build an iCalendar file for a meal's timeline
+ *
+ * Skipped tasks are left out (and cancelled if they were sent before).
+ * Lines use CRLF and are folded at 75 octets.
+ */
+export function buildTimelineCalendar(input: TimelineCalendarInput): string {
+  const { mealName, tasks } = input;
+  const stamp = formatDateTime(input.now ?? new Date());
+  const updated = input.updatedAt ? new Date(input.updatedAt) : undefined;
+
+  const events = getCalendarEvents(
+    input,
+    tasks.filter((t) => t.status !== "skipped")
+  );
+  const published = new Set(events.map((event) => event.uid));
+
+  // Whatever an earlier export could have sent that this one doesn't
+  const cancelled = new Map<string, CalendarEvent>();
+  for (const taskList of [tasks, ...(input.pastTasks ?? [])]) {
+    for (const event of getCalendarEvents(input, taskList)) {
+      if (!published.has(event.uid) && !cancelled.has(event.uid)) {
+        cancelled.set(event.uid, { ...event, cancelled: true, alarms: [] });
+      }
+    }
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Sunday Dinner//Meal Timeline//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(mealName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...[...events, ...Array.from(cancelled.values())].flatMap((event) =>
+      formatEvent({ ...event, stamp, updated })
+    ),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+interface CalendarAlarm {
+  /** Minutes before the event starts (0 = at the start) */
+  minutesBefore: number;
+  description: string;
+}
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  alarms: CalendarAlarm[];
+  /** Sent so calendars remove an event they already have */
+  cancelled?: boolean;
+}
+
+/**
+ * The events for one list of scheduled tasks, with their final UIDs
+ */
+function getCalendarEvents(input: TimelineCalendarInput, scheduled: Task[]): CalendarEvent[] {
+  const { mealId, mealName, recipes, shoppingList } = input;
+  const serveTime = new Date(input.serveTime);
+  const recipeNames = new Map(recipes.map((r) => [r.id, r.name]));
+  const sessions = groupTasksByPrepSession(scheduled, serveTime);
+  const sessionStarts = new Set(sessions.map((session) => session.tasks[0]));
+  const uid = createUidFactory(mealId);
+
+  const event = (fields: CalendarEvent): CalendarEvent => ({ ...fields, uid: uid(fields.uid) });
+  const events: CalendarEvent[] = [];
+
+  // Shopping, the day before the first cooking session
+  const firstTask = sessions[0]?.tasks[0];
+  if (firstTask) {
+    const start = calculateRealTime(firstTask.startTimeMinutes - 24 * 60, serveTime);
+    events.push(
+      event({
+        uid: "shopping",
+        summary: `Shop for ${mealName}`,
+        description: describeShopping(shoppingList, recipes),
+        start,
+        end: new Date(start.getTime() + REMINDER_EVENT_MINUTES * 60000),
+        alarms: [{ minutesBefore: 0, description: `Shop for ${mealName}` }],
+      })
+    );
+  }
+
+  // Make-ahead days, with a heads-up the day before
+  for (const session of sessions.filter((s) => s.daysBeforeServe > 0)) {
+    const last = session.tasks.reduce((latest, t) =>
+      t.endTimeMinutes > latest.endTimeMinutes ? t : latest
+    );
+    events.push(
+      event({
+        uid: `prep-${session.daysBeforeServe}`,
+        summary: `Make-ahead prep for ${mealName}`,
+        description: session.tasks.map((t) => `- ${t.title}`).join("\n"),
+        start: calculateRealTime(session.tasks[0]!.startTimeMinutes, serveTime),
+        end: calculateRealTime(last.endTimeMinutes, serveTime),
+        alarms: [{ minutesBefore: 24 * 60, description: `Tomorrow: make-ahead prep for ${mealName}` }],
+      })
+    );
+  }
+
+  // Every task at its clock time
+  for (const task of [...scheduled].sort((a, b) => a.startTimeMinutes - b.startTimeMinutes)) {
+    const alarms: CalendarAlarm[] = [];
+    if (sessionStarts.has(task)) {
+      alarms.push({
+        minutesBefore: SESSION_ALARM_MINUTES,
+        description: `Start cooking in ${SESSION_ALARM_MINUTES} min: ${task.title}`,
+      });
+    }
+    if (task.requiresOven) {
+      alarms.push({ minutesBefore: 0, description: task.title });
+    }
+
+    events.push(
+      event({
+        uid: `task-${getStepKey(task)}`,
+        summary: task.title,
+        description: describeTask(task, recipeNames.get(task.recipeId)),
+        start: calculateRealTime(task.startTimeMinutes, serveTime),
+        end: calculateRealTime(Math.max(task.endTimeMinutes, task.startTimeMinutes + 1), serveTime),
+        alarms,
+      })
+    );
+  }
+
+  events.push(
+    event({
+      uid: "serve",
+      summary: `Serve ${mealName}`,
+      start: serveTime,
+      end: calculateRealTime(SERVE_EVENT_MINUTES, serveTime),
+      alarms: [],
+    })
+  );
+
+  return events;
+}
+
+/**
+ * VEVENT lines for one event
+ */
+function formatEvent(
+  event: CalendarEvent & { stamp: string; updated?: Date }
+): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${event.stamp}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.cancelled) {
+    lines.push("STATUS:CANCELLED");
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.updated) {
+    // Seconds since the epoch only ever grow, so a newer export wins
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.updated)}`);
+    lines.push(`SEQUENCE:${Math.floor(event.updated.getTime() / 1000)}`);
+  }
+  for (const alarm of event.alarms) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:${formatTrigger(alarm.minutesBefore)}`,
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      "END:VALARM"
+    );
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Alarm offset before the event start, e.g., -PT15M or -P1D
+ */
+function formatTrigger(minutesBefore: number): string {
+  if (minutesBefore === 0) return "PT0M";
+  const day = 24 * 60;
+  return minutesBefore % day === 0 ? `-P${minutesBefore / day}D` : `-PT${minutesBefore}M`;
+}
+
+/**
+ * Stable, unique UIDs for one meal's events
+ *
+ * A meal with the same step twice (two batches of rolls) numbers the
+ * repeats in timeline order, so they keep their UIDs too.
+ */
+function createUidFactory(mealId: string): (key: string) => string {
+  const seen = new Map<string, number>();
+  return (key) => {
+    const slug = key
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    const count = (seen.get(slug) ?? 0) + 1;
+    seen.set(slug, count);
+    return `${mealId}-${slug}${count > 1 ? `-${count}` : ""}@${UID_DOMAIN}`;
+  };
+}
+
+function describeTask(task: Task, recipeName: string | undefined): string {
+  const parts = [
+    recipeName,
+    task.description,
+    task.requiresOven && task.ovenTemp ? `Oven: ${task.ovenTemp}°F` : undefined,
+    task.attention === "passive" ? "Hands-off" : undefined,
+  ];
+  return parts.filter(Boolean).join("\n");
+}
+
+/**
+ * What's left to buy, or the recipes to shop for when there's no list yet
+ */
+function describeShopping(
+  shoppingList: ShoppingList | null | undefined,
+  recipes: Array<{ id: string; name: string }>
+): string {
+  if (!shoppingList) {
+    return ["Shopping for:", ...recipes.map((r) => `- ${r.name}`)].join("\n");
+  }
+  const toBuy = shoppingList.items.filter((item) => !item.checked && !item.isStaple);
+  if (toBuy.length === 0) {
+    return "Everything on the shopping list is checked off.";
+  }
+  return toBuy
+    .map((item) =>
+      [`- ${item.name}`, item.quantity ?? undefined, item.unit ?? undefined]
+        .filter((part) => part !== undefined)
+        .join(" ")
+    )
+    .join("\n");
+}
+
+/**
+ * UTC date-time, e.g., 20251123T183000Z
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
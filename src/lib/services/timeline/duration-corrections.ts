@@ -0,0 +1,365 @@
+/**
+ * Learned Duration Corrections
+ *
+ * Past meals' execution logs say how long each task really took. Dividing
+ * that by the planned length gives a ratio per task; the median ratio for
+ * a step (or, with less history, for the whole recipe) corrects the
+ * estimate the next time the recipe is scheduled. "We always run late on
+ * the gravy" becomes a gravy step planned 30% longer.
+ *
+ * Time spent paused doesn't count against a task, and ratios far outside
+ * a plausible range (a task checked off an hour after it was done) are
+ * ignored as noise.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  DurationCorrection,
+  DurationCorrections,
+  ExecutionEvent,
+  ExecutionEventData,
+  Task,
+} from "@/types";
+import { getTaskActuals, relinkExecutionEvents } from "./execution-report";
+
+/** Past tasks needed before a step's own history is used */
+const MIN_STEP_SAMPLES = 2;
+
+/** Past tasks needed before a recipe-wide correction is used */
+const MIN_RECIPE_SAMPLES = 3;
+
+/** Corrections smaller than this (10%) leave the estimate alone */
+const MIN_CORRECTION = 0.1;
+
+/** Learned factors are kept within this range */
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2.5;
+
+/** Single-task ratios outside this range are treated as noise */
+const MIN_SAMPLE_RATIO = 0.2;
+const MAX_SAMPLE_RATIO = 5;
+
+/** Most past tasks read when learning */
+const MAX_HISTORY_TASKS = 500;
+
+/** Log events that affect how long a task took */
+const HISTORY_EVENT_TYPES: ExecutionEvent["type"][] = [
+  "session_started",
+  "session_paused",
+  "session_resumed",
+  "task_started",
+  "task_completed",
+  "task_skipped",
+  "task_reopened",
+];
+
+/** No corrections (no history) */
+export const NO_DURATION_CORRECTIONS: DurationCorrections = { recipes: {}, steps: {} };
+
+/**
+ * The parts of a past task duration learning needs
+ */
+export type HistoryTask = Pick<
+  Task,
+  "id" | "recipeId" | "instructionId" | "title" | "durationMinutes" | "stepKey"
+>;
+
+/**
+ * How long one past task was planned to take and actually took
+ */
+export interface DurationSample {
+  recipeId: string;
+  stepKey: string;
+  plannedMinutes: number;
+  actualMinutes: number;
+}
+
+/**
+ * Key that identifies the same step across meals
+ *
+ * The recipe's instruction when the task came from one, otherwise the
+ * task's title with case, numbers and punctuation removed.
+ */
+export function getStepKey(
+  task: Pick<Task, "recipeId" | "instructionId" | "title">
+): string {
+  if (task.instructionId) {
+    return `${task.recipeId}:${task.instructionId}`;
+  }
+  const title = task.title
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${task.recipeId}:${title}`;
+}
+
+/**
+ * Planned against actual length for each finished task in one meal's log
+ *
+ * Tasks without both a recorded start and finish are left out.
+ *
+ * @param log - One meal's execution log, oldest first
+ * @param tasks - That meal's tasks
+ */
+export function getDurationSamples(
+  log: ExecutionEvent[],
+  tasks: HistoryTask[]
+): DurationSample[] {
+  const events = relinkExecutionEvents(log, tasks);
+  const session = events.filter((e) => e.type === "session_started").pop();
+  const planned = new Map(
+    (session?.data.plannedTasks ?? []).map((t) => [t.taskId, t.endTimeMinutes - t.startTimeMinutes])
+  );
+  const pauses = getPauses(events);
+  const actuals = getTaskActuals(events);
+  const samples: DurationSample[] = [];
+
+  for (const task of tasks) {
+    const actual = task.id ? actuals.get(task.id) : undefined;
+    if (!task.id || !actual?.start || !actual.end) continue;
+
+    const start = new Date(actual.start).getTime();
+    const end = new Date(actual.end).getTime();
+    const paused = pauses.reduce(
+      (total, pause) =>
+        total + Math.max(0, Math.min(end, pause.end) - Math.max(start, pause.start)),
+      0
+    );
+    const actualMinutes = (end - start - paused) / 60000;
+    const plannedMinutes = planned.get(task.id) ?? task.durationMinutes;
+    const ratio = actualMinutes / plannedMinutes;
+
+    if (plannedMinutes <= 0 || ratio < MIN_SAMPLE_RATIO || ratio > MAX_SAMPLE_RATIO) continue;
+
+    samples.push({
+      recipeId: task.recipeId,
+      stepKey: getStepKey(task),
+      plannedMinutes,
+      actualMinutes,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Turn duration samples into per-recipe and per-step corrections
+ *
+ * Each correction is the median actual/planned ratio, so one bad day
+ * doesn't skew it. Recipes and steps with too little history get none.
+ */
+export function buildDurationCorrections(samples: DurationSample[]): DurationCorrections {
+  const byRecipe = new Map<string, DurationSample[]>();
+  const byStep = new Map<string, DurationSample[]>();
+
+  for (const sample of samples) {
+    byRecipe.set(sample.recipeId, [...(byRecipe.get(sample.recipeId) ?? []), sample]);
+    byStep.set(sample.stepKey, [...(byStep.get(sample.stepKey) ?? []), sample]);
+  }
+
+  const steps = toCorrections(byStep, MIN_STEP_SAMPLES);
+  for (const [key, correction] of Object.entries(steps)) {
+    correction.typicalMinutes = Math.round(
+      median(byStep.get(key)!.map((sample) => sample.actualMinutes))
+    );
+  }
+
+  return {
+    recipes: toCorrections(byRecipe, MIN_RECIPE_SAMPLES),
+    steps,
+  };
+}
+
+/**
+ * A step's duration corrected by past meals
+ *
+ * Uses the step's own history when there is enough, otherwise its
+ * recipe's. A step that usually runs to plan stays as it is, even in a
+ * recipe that runs late.
+ *
+ * @returns Corrected minutes, or undefined when nothing applies
+ */
+export function getCorrectedDuration(
+  task: Pick<Task, "recipeId" | "instructionId" | "title" | "durationMinutes">,
+  corrections: DurationCorrections | undefined
+): number | undefined {
+  if (!corrections) return undefined;
+  const correction =
+    corrections.steps[getStepKey(task)] ?? corrections.recipes[task.recipeId];
+  return correction ? applyCorrection(task.durationMinutes, correction) : undefined;
+}
+
+/**
+ * Record learned durations on tasks whose steps have their own history
+ *
+ * For timelines Claude planned: the corrections were already in the
+ * prompt, so durations are left as generated and only the hint (the
+ * step's typical actual length) is added.
+ */
+export function annotateTypicalDurations(
+  tasks: Task[],
+  corrections: DurationCorrections | undefined
+): Task[] {
+  if (!corrections) return tasks;
+  return tasks.map((task) => {
+    const correction = corrections.steps[getStepKey(task)];
+    return correction?.typicalMinutes && isSignificant(correction)
+      ? { ...task, typicalDurationMinutes: correction.typicalMinutes }
+      : task;
+  });
+}
+
+/**
+ * Whether a correction is big enough to act on
+ */
+export function isSignificant(correction: DurationCorrection): boolean {
+  return Math.abs(correction.factor - 1) >= MIN_CORRECTION;
+}
+
+/**
+ * Learn duration corrections for recipes from past meals
+ *
+ * @param supabase - Supabase client
+ * @param recipeIds - Recipes about to be scheduled
+ * @param excludeMealId - Meal being planned (its own log isn't history)
+ * @throws Error if the history can't be read
+ */
+export async function loadDurationCorrections(
+  supabase: SupabaseClient,
+  recipeIds: string[],
+  excludeMealId?: string
+): Promise<DurationCorrections> {
+  if (recipeIds.length === 0) return NO_DURATION_CORRECTIONS;
+
+  let taskQuery = supabase
+    .from("tasks")
+    .select("id, meal_id, recipe_id, instruction_id, step_key, title, duration_minutes")
+    .in("recipe_id", recipeIds)
+    .eq("status", "completed");
+  if (excludeMealId) {
+    taskQuery = taskQuery.neq("meal_id", excludeMealId);
+  }
+  const { data: taskRows, error: tasksError } = await taskQuery
+    .order("created_at", { ascending: false })
+    .limit(MAX_HISTORY_TASKS);
+
+  if (tasksError) {
+    throw new Error(`Failed to fetch task history: ${tasksError.message}`);
+  }
+
+  const tasksByMeal = new Map<string, HistoryTask[]>();
+  for (const row of taskRows ?? []) {
+    const mealId = row.meal_id as string;
+    tasksByMeal.set(mealId, [
+      ...(tasksByMeal.get(mealId) ?? []),
+      {
+        id: row.id as string,
+        recipeId: row.recipe_id as string,
+        instructionId: (row.instruction_id as string | null) ?? undefined,
+        title: row.title as string,
+        durationMinutes: row.duration_minutes as number,
+        stepKey: (row.step_key as string | null) ?? undefined,
+      },
+    ]);
+  }
+  if (tasksByMeal.size === 0) return NO_DURATION_CORRECTIONS;
+
+  const { data: eventRows, error: eventsError } = await supabase
+    .from("execution_events")
+    .select("meal_id, task_id, step_key, task_title, type, occurred_at, data")
+    .in("meal_id", Array.from(tasksByMeal.keys()))
+    .in("type", HISTORY_EVENT_TYPES)
+    .order("occurred_at", { ascending: true });
+
+  if (eventsError) {
+    throw new Error(`Failed to fetch execution history: ${eventsError.message}`);
+  }
+
+  const eventsByMeal = new Map<string, ExecutionEvent[]>();
+  for (const row of eventRows ?? []) {
+    const mealId = row.meal_id as string;
+    eventsByMeal.set(mealId, [
+      ...(eventsByMeal.get(mealId) ?? []),
+      {
+        mealId,
+        taskId: (row.task_id as string | null) ?? undefined,
+        stepKey: (row.step_key as string | null) ?? undefined,
+        taskTitle: (row.task_title as string | null) ?? undefined,
+        type: row.type as ExecutionEvent["type"],
+        occurredAt: row.occurred_at as string,
+        data: (row.data as ExecutionEventData | null) ?? {},
+      },
+    ]);
+  }
+
+  return buildDurationCorrections(
+    Array.from(tasksByMeal.entries()).flatMap(([mealId, tasks]) =>
+      getDurationSamples(eventsByMeal.get(mealId) ?? [], tasks)
+    )
+  );
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Paused stretches in a meal's log (epoch ms)
+ *
+ * A pause that was never resumed runs to the end of the log.
+ */
+function getPauses(events: ExecutionEvent[]): Array<{ start: number; end: number }> {
+  const pauses: Array<{ start: number; end: number }> = [];
+  let pausedAt: number | undefined;
+
+  for (const event of events) {
+    const at = new Date(event.occurredAt).getTime();
+    if (event.type === "session_paused" && pausedAt === undefined) {
+      pausedAt = at;
+    } else if (event.type === "session_resumed" && pausedAt !== undefined) {
+      pauses.push({ start: pausedAt, end: at });
+      pausedAt = undefined;
+    }
+  }
+  if (pausedAt !== undefined) {
+    pauses.push({ start: pausedAt, end: Infinity });
+  }
+
+  return pauses;
+}
+
+/**
+ * Corrected minutes, or undefined when the correction is too small to use
+ */
+function applyCorrection(minutes: number, correction: DurationCorrection): number | undefined {
+  if (!isSignificant(correction)) return undefined;
+  return Math.max(1, Math.round(minutes * correction.factor));
+}
+
+/**
+ * Median ratio per key, for keys with enough samples
+ */
+function toCorrections(
+  groups: Map<string, DurationSample[]>,
+  minSamples: number
+): Record<string, DurationCorrection> {
+  const corrections: Record<string, DurationCorrection> = {};
+
+  for (const [key, samples] of Array.from(groups.entries())) {
+    if (samples.length < minSamples) continue;
+    const ratio = median(samples.map((s) => s.actualMinutes / s.plannedMinutes));
+    const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, ratio));
+    corrections[key] = { factor: Math.round(factor * 100) / 100, samples: samples.length };
+  }
+
+  return corrections;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExecutionEvent, ExecutionEventData, SharedTimer } from "@/types";
+import { getStepKey } from "./duration-corrections";
+
+/**
+ * An event to append to a meal's execution log
+ */
+export type NewExecutionEvent = Omit<ExecutionEvent, "id" | "mealId" | "occurredAt" | "data"> & {
+  /** When it happened (default: now) */
+  occurredAt?: string;
+  data?: ExecutionEventData;
+};
+
+/**
+ * Database row shape for execution_events
+ */
+interface ExecutionEventRow {
+  id: string;
+  meal_id: string;
+  task_id: string | null;
+  step_key: string | null;
+  task_title: string | null;
+  type: ExecutionEvent["type"];
+  occurred_at: string;
+  data: ExecutionEventData | null;
+}
+
+/**
+ * Append events to a meal's execution log
+ *
+ * The log only feeds the post-meal report, so a failed write is logged
+ * and swallowed: it must never fail the checkoff or shift that caused it.
+ * Task events get the task's step key and title, so they still find
+ * their task after the timeline's task rows are replaced.
+ *
+ * @param supabase - Supabase client
+ * @param mealId - Meal the events belong to
+ * @param events - Events to append
+ */
+export async function recordExecutionEvents(
+  supabase: SupabaseClient,
+  mealId: string,
+  events: NewExecutionEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+
+  const now = new Date().toISOString();
+  const labels = await getTaskLabels(
+    supabase,
+    events.filter((event) => !event.stepKey).map((event) => event.taskId)
+  );
+  const { error } = await supabase.from("execution_events").insert(
+    events.map((event) => ({
+      meal_id: mealId,
+      task_id: event.taskId ?? null,
+      step_key: event.stepKey ?? labels.get(event.taskId ?? "")?.stepKey ?? null,
+      task_title: event.taskTitle ?? labels.get(event.taskId ?? "")?.title ?? null,
+      type: event.type,
+      occurred_at: event.occurredAt ?? now,
+      data: event.data ?? {},
+    }))
+  );
+
+  if (error) {
+    console.error("Error recording execution events:", error);
+  }
+}
+
+/**
+ * Get a meal's execution log, oldest first
+ *
+ * @throws Error if the log can't be read
+ */
+export async function getExecutionEvents(
+  supabase: SupabaseClient,
+  mealId: string
+): Promise<ExecutionEvent[]> {
+  const { data, error } = await supabase
+    .from("execution_events")
+    .select("id, meal_id, task_id, step_key, task_title, type, occurred_at, data")
+    .eq("meal_id", mealId)
+    .order("occurred_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch execution events: ${error.message}`);
+  }
+
+  return ((data ?? []) as ExecutionEventRow[]).map((row) => ({
+    id: row.id,
+    mealId: row.meal_id,
+    taskId: row.task_id ?? undefined,
+    stepKey: row.step_key ?? undefined,
+    taskTitle: row.task_title ?? undefined,
+    type: row.type,
+    occurredAt: row.occurred_at,
+    data: row.data ?? {},
+  }));
+}
+
+/**
+ * Timer events implied by merging new timers into the stored ones
+ *
+ * Timers are saved as lists by whichever device changed them, so starts,
+ * finishes and dismissals are found by comparing against what was
+ * stored. A timer restarted after it finished counts as started again;
+ * pausing and resuming a timer isn't logged.
+ */
+export function getTimerEvents(previous: SharedTimer[], next: SharedTimer[]): NewExecutionEvent[] {
+  const before = new Map(previous.map((t) => [t.id, t]));
+  const events: NewExecutionEvent[] = [];
+
+  for (const timer of next) {
+    const old = before.get(timer.id);
+    const data: ExecutionEventData = {
+      timerId: timer.id,
+      timerTaskId: timer.taskId,
+      label: timer.label,
+      durationSeconds: timer.durationSeconds,
+    };
+    const wasActive = old?.status === "running" || old?.status === "paused";
+    const isActive = timer.status === "running" || timer.status === "paused";
+
+    if (isActive && !wasActive) {
+      events.push({ type: "timer_started", occurredAt: timer.updatedAt, data });
+    } else if (timer.status === "completed" && old?.status !== "completed") {
+      events.push({ type: "timer_finished", occurredAt: timer.updatedAt, data });
+    } else if (timer.status === "dismissed" && old?.status !== "dismissed") {
+      events.push({ type: "timer_dismissed", occurredAt: timer.updatedAt, data });
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Step key and title of each task, by task ID
+ *
+ * A failed lookup is logged and gives no labels, like a failed write.
+ */
+async function getTaskLabels(
+  supabase: SupabaseClient,
+  taskIds: Array<string | undefined>
+): Promise<Map<string, { stepKey: string; title: string }>> {
+  const ids = Array.from(new Set(taskIds.filter((id): id is string => !!id)));
+  const labels = new Map<string, { stepKey: string; title: string }>();
+  if (ids.length === 0) return labels;
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("id, step_key, recipe_id, instruction_id, title")
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error reading tasks for execution events:", error);
+    return labels;
+  }
+
+  for (const row of data ?? []) {
+    labels.set(row.id as string, {
+      stepKey:
+        (row.step_key as string | null) ??
+        getStepKey({
+          recipeId: row.recipe_id as string,
+          instructionId: (row.instruction_id as string | null) ?? undefined,
+          title: row.title as string,
+        }),
+      title: row.title as string,
+    });
+  }
+  return labels;
+}
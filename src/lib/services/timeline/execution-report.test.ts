@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { ExecutionEvent } from "@/types";
+import { getTaskActuals, relinkExecutionEvents } from "./execution-report";
+
+const MEAL_ID = "11111111-1111-4111-8111-111111111111";
+
+// The timeline was regenerated after cooking: same steps, new task rows
+const tasks = [
+  { id: "new-turkey", title: "Roast turkey", stepKey: "r1:i1" },
+  { id: "new-gravy", title: "Make gravy", stepKey: "r1:i2" },
+];
+
+const events: ExecutionEvent[] = [
+  {
+    mealId: MEAL_ID,
+    type: "session_started",
+    occurredAt: "2025-11-27T15:00:00Z",
+    data: {
+      plannedTasks: [
+        { taskId: "old-turkey", stepKey: "r1:i1", startTimeMinutes: -240, endTimeMinutes: -30 },
+        { taskId: "old-gravy", stepKey: "r1:i2", startTimeMinutes: -20, endTimeMinutes: 0 },
+      ],
+    },
+  },
+  // task_id cleared when the old rows were deleted
+  {
+    mealId: MEAL_ID,
+    type: "task_started",
+    stepKey: "r1:i1",
+    taskTitle: "Roast turkey",
+    occurredAt: "2025-11-27T15:00:00Z",
+    data: {},
+  },
+  {
+    mealId: MEAL_ID,
+    type: "task_completed",
+    stepKey: "r1:i1",
+    taskTitle: "Roast turkey",
+    occurredAt: "2025-11-27T18:40:00Z",
+    data: {},
+  },
+  // Recorded before events had step keys; found by title
+  {
+    mealId: MEAL_ID,
+    type: "task_started",
+    taskTitle: "Make gravy",
+    occurredAt: "2025-11-27T18:45:00Z",
+    data: {},
+  },
+  { mealId: MEAL_ID, type: "session_ended", occurredAt: "2025-11-27T19:10:00Z", data: {} },
+];
+
+describe("relinkExecutionEvents", () => {
+  it("matches events and planned times to the current tasks", () => {
+    const relinked = relinkExecutionEvents(events, tasks);
+
+    expect(relinked[0]?.data.plannedTasks?.map((t) => t.taskId)).toEqual([
+      "new-turkey",
+      "new-gravy",
+    ]);
+    expect(getTaskActuals(relinked).get("new-turkey")).toEqual({
+      start: "2025-11-27T15:00:00Z",
+      end: "2025-11-27T18:40:00Z",
+    });
+    expect(getTaskActuals(relinked).get("new-gravy")).toEqual({
+      start: "2025-11-27T18:45:00Z",
+    });
+  });
+
+  it("leaves session events and tasks that still exist alone", () => {
+    const current = [{ ...events[2]!, taskId: "new-turkey", stepKey: "r9:other" }];
+
+    expect(relinkExecutionEvents(current, tasks)[0]?.taskId).toBe("new-turkey");
+    expect(relinkExecutionEvents(events, tasks)[4]?.taskId).toBeUndefined();
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Post-Meal Report
+ *
+ * Compares what was planned with what the execution log says happened:
+ * when each task actually started and finished, how far each recipe
+ * slipped, which chain of tasks decided when dinner was ready, and how
+ * late that was against the serve time.
+ *
+ * The plan is the snapshot taken when cooking started, since live shifts
+ * overwrite task times. All minutes are relative to the planned serve time.
+ */
+
+import type {
+  CriticalPathStep,
+  ExecutionEvent,
+  ExecutionReport,
+  ExecutionTaskTimes,
+  RecipeSlippage,
+  Task,
+  TaskExecution,
+} from "@/types";
+import { getMinutesFromServe } from "./local-recalculation";
+
+export interface ExecutionReportInput {
+  mealId: string;
+  /** The meal's serve time now (may have moved during cooking) */
+  serveTime: string;
+  /** The timeline's tasks as they ended up */
+  tasks: Task[];
+  recipes: Array<{ id: string; name: string }>;
+  /** The meal's execution log, oldest first */
+  events: ExecutionEvent[];
+}
+
+/**
+ * What the log says happened to one task (ISO datetimes)
+ */
+export interface TaskActuals {
+  start?: string;
+  end?: string;
+}
+
+/**
+ * Build the post-meal report from a meal's execution log
+ */
+export function buildExecutionReport(input: ExecutionReportInput): ExecutionReport {
+  const { mealId, serveTime, tasks, recipes } = input;
+  const events = relinkExecutionEvents(input.events, tasks);
+
+  const session = events.filter((e) => e.type === "session_started").pop();
+  const plannedServeTime = session?.data.serveTime ?? serveTime;
+  const snapshot = new Map(
+    (session?.data.plannedTasks ?? []).map((planned) => [planned.taskId, planned])
+  );
+  const minutes = (time: string) => getMinutesFromServe(time, plannedServeTime);
+
+  const actuals = getTaskActuals(events);
+  const executions = tasks
+    .filter((task): task is Task & { id: string } => !!task.id)
+    .map((task) => {
+      const actual = actuals.get(task.id) ?? {};
+      // Checkoffs from before the log existed only have completedAt
+      const end = task.status === "completed" ? (actual.end ?? task.completedAt) : undefined;
+      return getTaskExecution(
+        task,
+        snapshot.get(task.id) ?? task,
+        { start: actual.start, end },
+        minutes
+      );
+    })
+    .sort((a, b) => a.plannedStartMinutes - b.plannedStartMinutes);
+
+  const endedAt = events.filter((e) => e.type === "session_ended").pop()?.occurredAt;
+  const lastCheckoff = executions.reduce<number | undefined>(
+    (latest, t) =>
+      t.actualEndMinutes === undefined ? latest : Math.max(latest ?? -Infinity, t.actualEndMinutes),
+    undefined
+  );
+  const servedAt =
+    lastCheckoff !== undefined
+      ? new Date(new Date(plannedServeTime).getTime() + lastCheckoff * 60000).toISOString()
+      : endedAt;
+
+  const criticalPath = getCriticalPath(executions, tasks);
+  const worstStep = criticalPath.reduce<CriticalPathStep | undefined>(
+    (worst, step) =>
+      step.addedSlipMinutes > (worst?.addedSlipMinutes ?? 0) ? step : worst,
+    undefined
+  );
+
+  return {
+    mealId,
+    plannedServeTime,
+    finalServeTime:
+      new Date(serveTime).getTime() !== new Date(plannedServeTime).getTime()
+        ? serveTime
+        : undefined,
+    startedAt: session?.occurredAt,
+    endedAt,
+    servedAt,
+    servedLateMinutes: servedAt ? minutes(servedAt) : null,
+    tasks: executions,
+    recipes: getRecipeSlippage(executions, recipes),
+    criticalPath,
+    worstStepTaskId: worstStep?.taskId,
+    recalculations: events.filter(
+      (e) => e.type === "tasks_rescheduled" && e.data.reason !== "undo"
+    ).length,
+    pauses: events.filter((e) => e.type === "session_paused").length,
+    pausedMinutes: events
+      .filter((e) => e.type === "session_resumed")
+      .reduce((total, e) => total + (e.data.pausedMinutes ?? 0), 0),
+    timersStarted: events.filter((e) => e.type === "timer_started").length,
+    timersFinished: events.filter((e) => e.type === "timer_finished").length,
+    hasPlanSnapshot: snapshot.size > 0,
+  };
+}
+
+/**
+ * Replay the log into each task's actual start and finish
+ *
+ * The first start counts; un-checking a task forgets its finish, so only
+ * the checkoff that stuck is used.
+ */
+export function getTaskActuals(events: ExecutionEvent[]): Map<string, TaskActuals> {
+  const actuals = new Map<string, TaskActuals>();
+
+  for (const event of events) {
+    if (!event.taskId) continue;
+    const actual = actuals.get(event.taskId) ?? {};
+    actuals.set(event.taskId, actual);
+
+    switch (event.type) {
+      case "task_started":
+        actual.start ??= event.occurredAt;
+        break;
+      case "task_completed":
+        actual.end = event.occurredAt;
+        break;
+      case "task_skipped":
+      case "task_reopened":
+        actual.end = undefined;
+        break;
+    }
+  }
+
+  return actuals;
+}
+
+/**
+ * Point a log back at the timeline's current tasks
+ *
+ * Saving, regenerating or restoring a timeline replaces its task rows,
+ * which clears the events' task IDs (and regenerating gives tasks new
+ * IDs). Events and planned times whose task is gone are matched to the
+ * current task with the same step key, or failing that the same title;
+ * ones that match nothing are left as they are.
+ *
+ * @param events - A meal's execution log
+ * @param tasks - That meal's tasks now
+ */
+export function relinkExecutionEvents(
+  events: ExecutionEvent[],
+  tasks: Array<Pick<Task, "id" | "title" | "stepKey">>
+): ExecutionEvent[] {
+  const current = new Set(tasks.map((task) => task.id));
+  const byStepKey = new Map<string, string>();
+  const byTitle = new Map<string, string>();
+  for (const task of tasks) {
+    if (!task.id) continue;
+    if (task.stepKey) byStepKey.set(task.stepKey, task.id);
+    if (!byTitle.has(task.title)) byTitle.set(task.title, task.id);
+  }
+
+  // Step keys of tasks that are gone, from the plan taken at the start
+  const oldStepKeys = new Map<string, string>();
+  for (const event of events) {
+    for (const planned of event.data.plannedTasks ?? []) {
+      if (planned.stepKey) oldStepKeys.set(planned.taskId, planned.stepKey);
+    }
+    if (event.taskId && event.stepKey) oldStepKeys.set(event.taskId, event.stepKey);
+  }
+
+  const findTaskId = (taskId: string | undefined, stepKey?: string, title?: string) => {
+    if (taskId && current.has(taskId)) return taskId;
+    const key = stepKey ?? (taskId ? oldStepKeys.get(taskId) : undefined);
+    return (key && byStepKey.get(key)) || (title && byTitle.get(title)) || taskId;
+  };
+  const relinkTimes = (times: ExecutionTaskTimes[]) =>
+    times.map((t) => ({ ...t, taskId: findTaskId(t.taskId, t.stepKey) ?? t.taskId }));
+
+  return events.map((event) => ({
+    ...event,
+    taskId: findTaskId(event.taskId, event.stepKey, event.taskTitle),
+    data: {
+      ...event.data,
+      ...(event.data.plannedTasks && { plannedTasks: relinkTimes(event.data.plannedTasks) }),
+      ...(event.data.tasks && { tasks: relinkTimes(event.data.tasks) }),
+    },
+  }));
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * One task's planned and actual times side by side
+ */
+function getTaskExecution(
+  task: Task,
+  planned: { startTimeMinutes: number; endTimeMinutes: number },
+  actual: TaskActuals,
+  minutes: (time: string) => number
+): TaskExecution {
+  const actualStart = actual.start ? minutes(actual.start) : undefined;
+  const actualEnd = actual.end ? minutes(actual.end) : undefined;
+
+  return {
+    taskId: task.id!,
+    title: task.title,
+    recipeId: task.recipeId,
+    status:
+      task.status === "completed" ? "completed" : task.status === "skipped" ? "skipped" : "not_done",
+    plannedStartMinutes: planned.startTimeMinutes,
+    plannedEndMinutes: planned.endTimeMinutes,
+    actualStartMinutes: actualStart,
+    actualEndMinutes: actualEnd,
+    startSlipMinutes: actualStart !== undefined ? actualStart - planned.startTimeMinutes : undefined,
+    endSlipMinutes: actualEnd !== undefined ? actualEnd - planned.endTimeMinutes : undefined,
+    overrunMinutes:
+      actualStart !== undefined && actualEnd !== undefined
+        ? actualEnd - actualStart - (planned.endTimeMinutes - planned.startTimeMinutes)
+        : undefined,
+  };
+}
+
+/**
+ * Per-recipe finish against plan, latest first
+ *
+ * A recipe's finish is its last task that wasn't skipped.
+ */
+function getRecipeSlippage(
+  executions: TaskExecution[],
+  recipes: Array<{ id: string; name: string }>
+): RecipeSlippage[] {
+  return recipes
+    .map((recipe) => {
+      const own = executions.filter((t) => t.recipeId === recipe.id);
+      const kept = own.filter((t) => t.status !== "skipped");
+      const plannedEnd = Math.max(...kept.map((t) => t.plannedEndMinutes), -Infinity);
+      const ends = kept
+        .map((t) => t.actualEndMinutes)
+        .filter((end): end is number => end !== undefined);
+      const actualEnd = ends.length > 0 ? Math.max(...ends) : undefined;
+
+      return {
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        plannedEndMinutes: Number.isFinite(plannedEnd) ? plannedEnd : 0,
+        actualEndMinutes: actualEnd,
+        slipMinutes: actualEnd !== undefined && Number.isFinite(plannedEnd) ? actualEnd - plannedEnd : 0,
+        worstOverrunMinutes: Math.max(0, ...own.map((t) => t.overrunMinutes ?? 0)),
+        taskCount: own.length,
+        skippedCount: own.length - kept.length,
+      };
+    })
+    .filter((recipe) => recipe.taskCount > 0)
+    .sort((a, b) => b.slipMinutes - a.slipMinutes);
+}
+
+/**
+ * The chain of finished tasks that ended with the last checkoff
+ *
+ * Walks back from the last task to finish, each time to the latest
+ * finisher it was waiting on: a dependency, or the hands-on task planned
+ * before it in the same person's lane.
+ */
+function getCriticalPath(executions: TaskExecution[], tasks: Task[]): CriticalPathStep[] {
+  const byId = new Map(tasks.filter((t) => t.id).map((t) => [t.id!, t]));
+  const done = executions.filter(
+    (t): t is TaskExecution & { actualEndMinutes: number } => t.actualEndMinutes !== undefined
+  );
+
+  const waitsFor = (task: TaskExecution, before: TaskExecution) => {
+    const a = byId.get(task.taskId);
+    const b = byId.get(before.taskId);
+    if (!a || !b) return false;
+    if (a.dependsOn?.includes(before.taskId)) return true;
+    return (
+      a.attention !== "passive" &&
+      b.attention !== "passive" &&
+      (a.assigneeId ?? null) === (b.assigneeId ?? null) &&
+      before.plannedEndMinutes <= task.plannedStartMinutes
+    );
+  };
+
+  const chain: Array<TaskExecution & { actualEndMinutes: number }> = [];
+  let current = done.reduce<(typeof done)[number] | undefined>(
+    (latest, t) => (!latest || t.actualEndMinutes > latest.actualEndMinutes ? t : latest),
+    undefined
+  );
+
+  while (current) {
+    chain.unshift(current);
+    const step = current;
+    current = done
+      .filter(
+        (t) =>
+          !chain.includes(t) && t.actualEndMinutes <= step.actualEndMinutes && waitsFor(step, t)
+      )
+      .reduce<(typeof done)[number] | undefined>(
+        (latest, t) => (!latest || t.actualEndMinutes > latest.actualEndMinutes ? t : latest),
+        undefined
+      );
+  }
+
+  let previousSlip = 0;
+  return chain.map((t) => {
+    const slip = t.actualEndMinutes - t.plannedEndMinutes;
+    const added = slip - previousSlip;
+    previousSlip = slip;
+    return {
+      taskId: t.taskId,
+      title: t.title,
+      recipeId: t.recipeId,
+      plannedEndMinutes: t.plannedEndMinutes,
+      actualEndMinutes: t.actualEndMinutes,
+      slipMinutes: slip,
+      addedSlipMinutes: added,
+    };
+  });
+}
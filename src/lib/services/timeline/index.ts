@@ -1,11 +1,88 @@
 /**
  * Timeline Service
  *
- * Generates cooking timelines via Claude AI and validates them
- * deterministically to prevent impossible schedules.
+ * Generates cooking timelines via Claude AI (or a deterministic local
+ * scheduler) and validates them deterministically to prevent impossible
+ * schedules.
  */
 
 export {
   SupabaseTimelineService,
   createTimelineService,
 } from "./supabase-timeline-service";
+export { generateLocalTimeline } from "./local-scheduler";
+export {
+  updateTaskStatus,
+  getTaskStatusErrorCode,
+  type TaskStatusUpdate,
+  type TaskStatusUpdateResult,
+  type TaskStatusGuard,
+} from "./task-status";
+export { getPausedMinutes, getPauseShifts, type PauseShift } from "./pause";
+export {
+  suggestLocalRecalculation,
+  suggestForDelay,
+  rippleDelay,
+  getBehindMinutes,
+  getMinutesFromServe,
+  getMinutesPastServe,
+  roundUpMinutes,
+  DEFAULT_BEHIND_MINUTES,
+  type DelayInput,
+  type RippleOverrides,
+  type LocalRecalculationInput,
+} from "./local-recalculation";
+export {
+  getRecalculationOptions,
+  applyRecalculationSuggestion,
+  MAX_RECALCULATION_OPTIONS,
+  type RecalculationInput,
+  type RecalculationRecipe,
+} from "./recalculation";
+export {
+  recordExecutionEvents,
+  getExecutionEvents,
+  getTimerEvents,
+  type NewExecutionEvent,
+} from "./execution-log";
+export {
+  buildExecutionReport,
+  getTaskActuals,
+  relinkExecutionEvents,
+  type ExecutionReportInput,
+  type TaskActuals,
+} from "./execution-report";
+export {
+  loadDurationCorrections,
+  buildDurationCorrections,
+  getDurationSamples,
+  getCorrectedDuration,
+  annotateTypicalDurations,
+  getStepKey,
+  isSignificant,
+  NO_DURATION_CORRECTIONS,
+  type DurationSample,
+  type HistoryTask,
+} from "./duration-corrections";
+export {
+  buildTimelineCalendar,
+  type TimelineCalendarInput,
+} from "./calendar-export";
+export {
+  assignStepKeys,
+  getOverrideChanges,
+  applyTaskOverrides,
+  diffTimelineTasks,
+  loadTaskOverrides,
+  recordTaskOverrides,
+  replaceTaskOverrides,
+} from "./task-overrides";
+export {
+  summarizeTimelineVersion,
+  recordTimelineVersion,
+  listTimelineVersions,
+  getTimelineVersion,
+  listTimelineVersionTasks,
+  keepTaskProgress,
+  MAX_TIMELINE_VERSIONS,
+} from "./timeline-versions";
@@ -0,0 +1,315 @@
+/**
+ * Local Recalculation Engine
+ *
+ * Works out the "I'm behind" adjustment without Claude: in airplane mode,
+ * and as the baseline Claude's suggestion is judged against. Returns the
+ * same RecalculationSuggestion shape as the AI path, with the exact new
+ * start of every task it moves. Same input always gives the same output.
+ *
+ * The delay model: finished tasks count from when they were actually
+ * checked off, tasks in progress run late by the delay, pending tasks
+ * can't start before now, and a pending task only moves when something it
+ * waits on moved - a dependency, the hands-on task before it in the same
+ * person's lane, or the task before it on a shared resource such as the
+ * oven. Slack in the plan absorbs the rest, so the fewest tasks move by
+ * the least amount.
+ *
+ * Times are minutes relative to serve time.
+ */
+
+import type {
+  Helper,
+  KitchenProfile,
+  RecalculationSuggestion,
+  Task,
+  Timeline,
+} from "@/types";
+import { DEFAULT_KITCHEN_PROFILE } from "@/types";
+import { validateTimeline, getTaskResourceClaims } from "@/lib/validator";
+
+/** Delay assumed when the schedule doesn't show one (the cook knows better) */
+export const DEFAULT_BEHIND_MINUTES = 15;
+
+/** Delays are rounded up to this many minutes */
+const ROUND_TO_MINUTES = 5;
+
+/**
+ * Where the plan stands when the cook says they're behind
+ */
+export interface DelayInput {
+  /** Current live tasks */
+  tasks: Task[];
+  /** Now, in minutes relative to serve */
+  nowMinutes: number;
+  /** How far behind the cook is (see getBehindMinutes) */
+  behindMinutes: number;
+  /** Serve time, to place finished tasks at their actual completion times */
+  serveTime?: string | Date;
+}
+
+/**
+ * Changes to the plan on top of the delay
+ */
+export interface RippleOverrides {
+  /** New lengths for hurried tasks */
+  durations?: Map<string, number>;
+  /** Tasks pinned to a start time (started in parallel) */
+  starts?: Map<string, number>;
+  /** Tasks dropped from the plan */
+  skipped?: Set<string>;
+}
+
+export interface LocalRecalculationInput {
+  timeline: Timeline;
+  /** Now (ISO datetime or Date) */
+  currentTime: string | Date;
+  /** The meal's serve time */
+  serveTime: string | Date;
+  /** How far behind the cook is (default: measured, see getBehindMinutes) */
+  behindMinutes?: number;
+  profile?: KitchenProfile;
+  helpers?: Helper[];
+}
+
+/**
+ * Minutes from serve time to a moment (negative before serve)
+ */
+export function getMinutesFromServe(time: string | Date, serveTime: string | Date): number {
+  return Math.floor((new Date(time).getTime() - new Date(serveTime).getTime()) / 60000);
+}
+
+/**
+ * How far behind the schedule is, rounded up to 5 minutes
+ *
+ * Measured from tasks in progress past their end and pending tasks past
+ * their start. When the schedule looks on time the cook still tapped
+ * "I'm behind", so DEFAULT_BEHIND_MINUTES is assumed.
+ */
+export function getBehindMinutes(tasks: Task[], nowMinutes: number): number {
+  let behind = 0;
+  for (const task of tasks) {
+    if (task.status === "in_progress") {
+      behind = Math.max(behind, nowMinutes - task.endTimeMinutes);
+    } else if (task.status === "pending") {
+      behind = Math.max(behind, nowMinutes - task.startTimeMinutes);
+    }
+  }
+  return behind > 0 ? roundUpMinutes(behind) : DEFAULT_BEHIND_MINUTES;
+}
+
+/**
+ * Round minutes up to the next 5
+ */
+export function roundUpMinutes(minutes: number): number {
+  return Math.ceil(minutes / ROUND_TO_MINUTES) * ROUND_TO_MINUTES;
+}
+
+/**
+ * Minutes the last pending task runs past serve time (0 when it fits)
+ */
+export function getMinutesPastServe(tasks: Task[]): number {
+  return tasks
+    .filter((t) => t.status === "pending")
+    .reduce((latest, t) => Math.max(latest, t.endTimeMinutes), 0);
+}
+
+/**
+ * Push the delay through the plan (see the module comment)
+ *
+ * Pending tasks are placed in start order. A task waits for a placed task
+ * when it depends on it, or when the two share hands or equipment and
+ * originally ran one after the other.
+ *
+ * @returns Tasks in input order; skipped tasks get status "skipped"
+ */
+export function rippleDelay(input: DelayInput, overrides: RippleOverrides = {}): Task[] {
+  const { tasks, nowMinutes, behindMinutes, serveTime } = input;
+  const { durations, starts, skipped } = overrides;
+  const placed: Array<{ original: Task; end: number }> = [];
+  const result = new Map<Task, Task>();
+
+  const waitsFor = (task: Task, original: Task) =>
+    (!!original.id && !!task.dependsOn?.includes(original.id)) ||
+    (original.endTimeMinutes <= task.startTimeMinutes && sharesCapacity(original, task));
+
+  for (const task of tasks) {
+    if (task.status !== "completed") continue;
+    const end =
+      task.completedAt && serveTime
+        ? getMinutesFromServe(task.completedAt, serveTime)
+        : task.endTimeMinutes;
+    placed.push({ original: task, end });
+  }
+
+  // A task in progress that could only start late also ends late
+  const finished = [...placed];
+  for (const task of tasks) {
+    if (task.status !== "in_progress") continue;
+    const start = finished
+      .filter(({ original }) => waitsFor(task, original))
+      .reduce((latest, { end }) => Math.max(latest, end), task.startTimeMinutes);
+    placed.push({
+      original: task,
+      end: Math.max(task.endTimeMinutes + behindMinutes, start + task.durationMinutes),
+    });
+  }
+
+  const pending = tasks
+    .map((task, index) => ({ task, index }))
+    .filter(({ task }) => task.status === "pending")
+    .sort((a, b) => a.task.startTimeMinutes - b.task.startTimeMinutes || a.index - b.index);
+
+  for (const { task } of pending) {
+    if (task.id && skipped?.has(task.id)) {
+      result.set(task, { ...task, status: "skipped" });
+      continue;
+    }
+
+    const duration = (task.id && durations?.get(task.id)) || task.durationMinutes;
+    let start = task.id ? starts?.get(task.id) : undefined;
+
+    if (start === undefined) {
+      start = Math.max(task.startTimeMinutes, nowMinutes);
+      for (const { original, end } of placed) {
+        if (waitsFor(task, original)) start = Math.max(start, end);
+      }
+    }
+
+    const moved = {
+      ...task,
+      startTimeMinutes: start,
+      endTimeMinutes: start + duration,
+      durationMinutes: duration,
+    };
+    result.set(task, moved);
+    placed.push({ original: task, end: moved.endTimeMinutes });
+  }
+
+  return tasks.map((task) => result.get(task) ?? task);
+}
+
+/**
+ * Suggest the smallest set of shifts that absorbs the delay
+ *
+ * Moves only the tasks the delay reaches. If that still runs past serve
+ * time, hands-off tasks that are ready (all dependencies done) are
+ * started now, one at a time, wherever that brings the end earlier
+ * without adding conflicts.
+ *
+ * @returns A suggestion with exact new start times (shifts), or null when
+ *   nothing needs to move
+ */
+export function suggestLocalRecalculation(
+  input: LocalRecalculationInput
+): RecalculationSuggestion | null {
+  const { tasks } = input.timeline;
+  const nowMinutes = getMinutesFromServe(input.currentTime, input.serveTime);
+
+  return suggestForDelay(
+    {
+      tasks,
+      nowMinutes,
+      behindMinutes: input.behindMinutes ?? getBehindMinutes(tasks, nowMinutes),
+      serveTime: input.serveTime,
+    },
+    input.profile,
+    input.helpers
+  );
+}
+
+/**
+ * suggestLocalRecalculation for a delay that's already been measured
+ */
+export function suggestForDelay(
+  delay: DelayInput,
+  profile: KitchenProfile = DEFAULT_KITCHEN_PROFILE,
+  helpers: Helper[] = []
+): RecalculationSuggestion | null {
+  const { tasks, nowMinutes } = delay;
+  const errorCount = (planned: Task[]) =>
+    validateTimeline(planned, profile, helpers).conflicts.filter((c) => c.severity === "error")
+      .length;
+
+  let plan = rippleDelay(delay);
+
+  // Protect serve time: start ready hands-off tasks alongside current work
+  if (getMinutesPastServe(plan) > 0) {
+    const done = new Set(
+      tasks
+        .filter((t) => t.id && (t.status === "completed" || t.status === "skipped"))
+        .map((t) => t.id!)
+    );
+    const starts = new Map<string, number>();
+    let errors = errorCount(plan);
+
+    for (const task of tasks) {
+      if (
+        !task.id ||
+        task.status !== "pending" ||
+        task.attention !== "passive" ||
+        task.startTimeMinutes <= nowMinutes ||
+        !(task.dependsOn ?? []).every((id) => done.has(id))
+      ) {
+        continue;
+      }
+
+      const tried = rippleDelay(delay, { starts: new Map(starts).set(task.id, nowMinutes) });
+      const triedErrors = errorCount(tried);
+      if (getMinutesPastServe(tried) < getMinutesPastServe(plan) && triedErrors <= errors) {
+        starts.set(task.id, nowMinutes);
+        plan = tried;
+        errors = triedErrors;
+      }
+    }
+  }
+
+  const shifts = plan
+    .map((task, index) => ({ task, before: tasks[index]! }))
+    .filter(({ task, before }) => task.id && task.startTimeMinutes !== before.startTimeMinutes);
+
+  // Lead with the earliest task that moves
+  const lead = [...shifts].sort(
+    (a, b) => a.before.startTimeMinutes - b.before.startTimeMinutes
+  )[0];
+  if (!lead) return null;
+
+  const moved = lead.task.startTimeMinutes - lead.before.startTimeMinutes;
+  const others = shifts.length - 1;
+  const late = getMinutesPastServe(plan);
+
+  let description = `${moved > 0 ? "Push" : "Start"} "${lead.task.title}" ${Math.abs(moved)} min ${moved > 0 ? "later" : "earlier"}?`;
+  if (others > 0) {
+    description += ` This shifts ${others} other task${others > 1 ? "s" : ""}.`;
+  }
+  if (late > 0) {
+    description += ` Dinner would be ${late} min late.`;
+  }
+
+  return {
+    taskId: lead.task.id!,
+    newStartTimeMinutes: lead.task.startTimeMinutes,
+    description,
+    affectedTaskIds: shifts.filter((s) => s !== lead).map((s) => s.task.id!),
+    tasksShifted: others,
+    shifts: shifts.map(({ task }) => ({
+      taskId: task.id!,
+      newStartTimeMinutes: task.startTimeMinutes,
+    })),
+  };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Whether two tasks compete for the same hands or equipment
+ */
+function sharesCapacity(a: Task, b: Task): boolean {
+  const handsOn = (t: Task) => t.attention !== "passive";
+  if (handsOn(a) && handsOn(b) && (a.assigneeId ?? null) === (b.assigneeId ?? null)) {
+    return true;
+  }
+  const claimed = new Set(getTaskResourceClaims(a).map((c) => c.resourceId));
+  return getTaskResourceClaims(b).some((c) => claimed.has(c.resourceId));
+}
@@ -0,0 +1,294 @@
+/**
+ * Local Timeline Scheduler
+ *
+ * Deterministic, AI-free alternative to AIService.generateTimeline.
+ * Builds tasks straight from recipe instructions so a timeline can
+ * still be produced when Claude is unavailable.
+ *
+ * Rules:
+ * - Each recipe's steps run in order, chained via dependsOn
+ * - Scheduling works backwards from serve time
+ * - Oven steps never overlap (a preheat task is added before each oven block)
+ * - Every task ends before serve time
+ * - Oven steps and waiting steps (rest, chill, rise...) are passive;
+ *   everything else is hands-on
+ *
+ * Only the oven is treated as a shared resource; hands-on overlap
+ * between recipes is left for the host to adjust. Step durations are
+ * corrected by what past meals recorded (see duration-corrections).
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type { TimelineGenerationInput } from "@/contracts/ai-service";
+import type { DurationCorrections, Instruction, Recipe, Task } from "@/types";
+import { getCorrectedDuration } from "./duration-corrections";
+
+/** Minutes assumed for a step with no duration */
+const DEFAULT_STEP_MINUTES = 10;
+
+/** Minutes allowed for preheating before an oven block */
+const PREHEAT_MINUTES = 15;
+
+/** Gap between the last step of each recipe and serve time */
+const SERVE_BUFFER_MINUTES = 5;
+
+/** Maximum task title length before truncation */
+const MAX_TITLE_LENGTH = 60;
+
+/** Step wording that means the food looks after itself */
+const PASSIVE_STEP_PATTERN =
+  /\b(bake|roast|rest|chill|refrigerate|cool|marinate|brine|rise|proof|soak|set aside|let (it )?sit|simmer|braise|slow cook)\b/i;
+
+/**
+ * A half-open time range [start, end) in minutes relative to serve time
+ */
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Consecutive steps of a recipe scheduled as one unit
+ *
+ * Oven blocks are runs of oven steps at the same temperature and are
+ * reserved on the oven together with their preheat.
+ */
+interface StepBlock {
+  steps: Instruction[];
+  requiresOven: boolean;
+  ovenTemp?: number;
+}
+
+/**
+ * Generate timeline tasks for a meal without calling Claude
+ *
+ * @param mealId - Meal the tasks belong to
+ * @param input - Same input the AI service receives
+ * @returns Tasks with IDs, sorted by start time
+ */
+export function generateLocalTimeline(mealId: string, input: TimelineGenerationInput): Task[] {
+  const ovenReservations: TimeRange[] = [];
+  const tasks: Task[] = [];
+
+  // Shortest recipes first so quick sides claim the oven slots closest to
+  // serve time, while long roasts move earlier and rest
+  const corrections = input.durationCorrections;
+  const recipes = [...input.recipes].sort(
+    (a, b) => totalRecipeMinutes(a, corrections) - totalRecipeMinutes(b, corrections)
+  );
+
+  for (const recipe of recipes) {
+    tasks.push(...scheduleRecipe(recipe, mealId, ovenReservations, corrections));
+  }
+
+  return tasks.sort((a, b) => a.startTimeMinutes - b.startTimeMinutes);
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * Schedule one recipe backwards from serve time
+ *
+ * Mutates ovenReservations with the oven time this recipe claims.
+ */
+function scheduleRecipe(
+  recipe: Recipe,
+  mealId: string,
+  ovenReservations: TimeRange[],
+  corrections?: DurationCorrections
+): Task[] {
+  const blocks = buildBlocks(recipe);
+  const scheduledBlocks: Task[][] = [];
+  let latestEnd = -SERVE_BUFFER_MINUTES;
+
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i]!;
+    const blockTasks = block.steps.map((step) =>
+      createStepTask(recipe, step, mealId, block, corrections)
+    );
+    if (block.requiresOven) {
+      blockTasks.unshift(createPreheatTask(recipe, mealId, block.ovenTemp));
+    }
+
+    const blockMinutes = blockTasks.reduce((sum, t) => sum + t.durationMinutes, 0);
+    let blockEnd = latestEnd;
+    if (block.requiresOven) {
+      blockEnd = findLatestFreeEnd(blockEnd, blockMinutes, ovenReservations);
+      ovenReservations.push({ start: blockEnd - blockMinutes, end: blockEnd });
+    }
+
+    // Lay tasks out back-to-back ending at blockEnd
+    let cursor = blockEnd - blockMinutes;
+    for (const task of blockTasks) {
+      task.startTimeMinutes = cursor;
+      task.endTimeMinutes = cursor + task.durationMinutes;
+      cursor = task.endTimeMinutes;
+    }
+
+    scheduledBlocks.unshift(blockTasks);
+    latestEnd = blockEnd - blockMinutes;
+  }
+
+  // Chain every task to the one before it
+  const ordered = scheduledBlocks.flat();
+  for (let i = 1; i < ordered.length; i++) {
+    ordered[i]!.dependsOn = [ordered[i - 1]!.id!];
+  }
+
+  return ordered;
+}
+
+/**
+ * Group a recipe's steps into oven and non-oven blocks
+ */
+function buildBlocks(recipe: Recipe): StepBlock[] {
+  const steps = [...recipe.instructions].sort((a, b) => a.stepNumber - b.stepNumber);
+  const blocks: StepBlock[] = [];
+
+  for (const step of steps) {
+    const requiresOven = step.ovenRequired === true;
+    const ovenTemp = requiresOven ? (step.ovenTemp ?? undefined) : undefined;
+    const last = blocks[blocks.length - 1];
+
+    if (last && last.requiresOven === requiresOven && last.ovenTemp === ovenTemp) {
+      last.steps.push(step);
+    } else {
+      blocks.push({ steps: [step], requiresOven, ovenTemp });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the latest end time <= latestEnd where a block of the given
+ * length fits without overlapping any reserved range
+ */
+function findLatestFreeEnd(latestEnd: number, minutes: number, reserved: TimeRange[]): number {
+  let end = latestEnd;
+
+  for (;;) {
+    const start = end - minutes;
+    const overlapping = reserved.filter((r) => start < r.end && r.start < end);
+    if (overlapping.length === 0) {
+      return end;
+    }
+    // Move before the earliest overlapping reservation and try again
+    end = Math.min(...overlapping.map((r) => r.start));
+  }
+}
+
+/**
+ * Duration for a step, corrected by past meals when they say otherwise
+ */
+function stepDuration(
+  recipe: Recipe,
+  step: Instruction,
+  corrections?: DurationCorrections
+): number {
+  const estimate = estimateStepDuration(recipe, step);
+  return (
+    getCorrectedDuration(
+      {
+        recipeId: recipe.id!,
+        instructionId: step.id,
+        title: toTitle(step.description),
+        durationMinutes: estimate,
+      },
+      corrections
+    ) ?? estimate
+  );
+}
+
+/**
+ * Estimated duration for a step, falling back to recipe cook time for oven steps
+ */
+function estimateStepDuration(recipe: Recipe, step: Instruction): number {
+  if (step.durationMinutes && step.durationMinutes > 0) {
+    return Math.round(step.durationMinutes);
+  }
+  if (step.ovenRequired && recipe.cookTimeMinutes && recipe.cookTimeMinutes > 0) {
+    return recipe.cookTimeMinutes;
+  }
+  return DEFAULT_STEP_MINUTES;
+}
+
+/**
+ * Total scheduled minutes for a recipe, including preheats
+ */
+function totalRecipeMinutes(recipe: Recipe, corrections?: DurationCorrections): number {
+  return buildBlocks(recipe).reduce(
+    (sum, block) =>
+      sum +
+      (block.requiresOven ? PREHEAT_MINUTES : 0) +
+      block.steps.reduce((s, step) => s + stepDuration(recipe, step, corrections), 0),
+    0
+  );
+}
+
+/**
+ * Create an unscheduled task for an instruction step
+ */
+function createStepTask(
+  recipe: Recipe,
+  step: Instruction,
+  mealId: string,
+  block: StepBlock,
+  corrections?: DurationCorrections
+): Task {
+  const durationMinutes = stepDuration(recipe, step, corrections);
+  const learned = durationMinutes !== estimateStepDuration(recipe, step);
+  const description = step.notes ? `${step.description}\n\n${step.notes}` : step.description;
+
+  return {
+    id: uuidv4(),
+    mealId,
+    recipeId: recipe.id!,
+    instructionId: step.id,
+    title: toTitle(step.description),
+    description,
+    startTimeMinutes: 0,
+    durationMinutes,
+    typicalDurationMinutes: learned ? durationMinutes : undefined,
+    endTimeMinutes: durationMinutes,
+    requiresOven: block.requiresOven,
+    ovenTemp: block.ovenTemp,
+    attention:
+      block.requiresOven || PASSIVE_STEP_PATTERN.test(step.description) ? "passive" : "active",
+    status: "pending",
+  };
+}
+
+/**
+ * Create an unscheduled preheat task for an oven block
+ */
+function createPreheatTask(recipe: Recipe, mealId: string, ovenTemp?: number): Task {
+  return {
+    id: uuidv4(),
+    mealId,
+    recipeId: recipe.id!,
+    title: ovenTemp ? `Preheat oven to ${ovenTemp}°F` : "Preheat oven",
+    description: `For ${recipe.name}`,
+    startTimeMinutes: 0,
+    durationMinutes: PREHEAT_MINUTES,
+    endTimeMinutes: PREHEAT_MINUTES,
+    requiresOven: true,
+    ovenTemp,
+    attention: "passive",
+    status: "pending",
+  };
+}
+
+/**
+ * Shorten an instruction to a task title (first sentence, truncated)
+ */
+function toTitle(description: string): string {
+  const firstSentence = description.split(/(?<=[.!?])\s/)[0]?.trim() ?? description;
+  const title = firstSentence.replace(/[.!?]$/, "");
+  if (title.length <= MAX_TITLE_LENGTH) {
+    return title;
+  }
+  return `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
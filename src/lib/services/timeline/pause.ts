@@ -0,0 +1,46 @@
+import type { Task } from "@/types";
+
+/**
+ * New times for one task after resuming
+ */
+export interface PauseShift {
+  id: string;
+  startTimeMinutes: number;
+  endTimeMinutes: number;
+}
+
+/**
+ * Whole minutes spent paused, rounded up
+ *
+ * Rounding up means resumed tasks never start before the cook is back.
+ * A resume stamped before its pause (clock skew between devices) counts
+ * as no time.
+ */
+export function getPausedMinutes(pausedAt: string | Date, resumedAt: string | Date): number {
+  const elapsed = new Date(resumedAt).getTime() - new Date(pausedAt).getTime();
+  return elapsed > 0 ? Math.ceil(elapsed / 60000) : 0;
+}
+
+/**
+ * Push pending tasks later by the paused time
+ *
+ * Shared by the resume route and the live page's optimistic update, so
+ * both move the same tasks by the same amount. Tasks in progress, done or
+ * skipped keep their times.
+ *
+ * @returns New times for the tasks that moved (empty when minutes is 0)
+ */
+export function getPauseShifts(
+  tasks: Pick<Task, "id" | "status" | "startTimeMinutes" | "endTimeMinutes">[],
+  minutes: number
+): PauseShift[] {
+  if (minutes <= 0) return [];
+
+  return tasks
+    .filter((t): t is typeof t & { id: string } => !!t.id && t.status === "pending")
+    .map((t) => ({
+      id: t.id,
+      startTimeMinutes: t.startTimeMinutes + minutes,
+      endTimeMinutes: t.endTimeMinutes + minutes,
+    }));
+}
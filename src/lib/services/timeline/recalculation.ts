@@ -0,0 +1,438 @@
+/**
+ * Recalculation Options
+ *
+ * Deterministic plans for catching up when the cook is running behind.
+ * Every option is built on the local engine's model of the delay (see
+ * local-recalculation.ts) and checked by the timeline validator, so the
+ * cook compares real previews instead of asking again for a different
+ * suggestion. Same input always gives the same options in the same order.
+ *
+ * Times are minutes relative to serve time.
+ */
+
+import type {
+  Helper,
+  KitchenProfile,
+  RecalculationOption,
+  RecalculationStrategy,
+  RecalculationSuggestion,
+  RecalculationTaskChange,
+  RecipeCategory,
+  Task,
+} from "@/types";
+import { DEFAULT_KITCHEN_PROFILE, OVEN_RESOURCE_ID } from "@/types";
+import { validateTimeline, getTaskResourceClaims } from "@/lib/validator";
+import {
+  getMinutesPastServe,
+  rippleDelay,
+  roundUpMinutes,
+  suggestForDelay,
+  type DelayInput,
+} from "./local-recalculation";
+
+/** Most options offered at once */
+export const MAX_RECALCULATION_OPTIONS = 3;
+
+/** Share of a hands-on task's time that hurrying can save */
+const MAX_COMPRESSION_RATIO = 0.25;
+
+/** Recipe categories the meal still works without */
+const OPTIONAL_CATEGORIES: RecipeCategory[] = ["side-dish", "salad", "bread", "appetizer"];
+
+/** Tie-break among equally valid options: least disruptive first */
+const STRATEGY_ORDER: RecalculationStrategy[] = [
+  "shift_tasks",
+  "start_in_parallel",
+  "compress_task",
+  "ai_suggestion",
+  "push_serve_time",
+  "drop_side",
+];
+
+/**
+ * A recipe in the meal, for finding optional sides
+ */
+export interface RecalculationRecipe {
+  id: string;
+  name: string;
+  category?: RecipeCategory;
+}
+
+export interface RecalculationInput extends DelayInput {
+  /** Recipes in the meal; sides can only be dropped when given */
+  recipes?: RecalculationRecipe[];
+  profile?: KitchenProfile;
+  helpers?: Helper[];
+  /** Claude's suggestion, ranked with the rest when available */
+  aiSuggestion?: RecalculationSuggestion;
+}
+
+/**
+ * Build, validate and rank the ways to catch up
+ *
+ * Shifting only the affected tasks is offered when that still makes serve
+ * time. Otherwise the options are starting a hands-off task now,
+ * hurrying a hands-on task and dropping the rest of an optional side -
+ * each only when it helps - plus serving later, which always fits.
+ * Claude's suggestion is dropped when it does worse than the local
+ * engine's.
+ *
+ * @returns Up to MAX_RECALCULATION_OPTIONS options, best first: valid
+ *   before invalid, then fewer errors, then least disruptive
+ */
+export function getRecalculationOptions(input: RecalculationInput): RecalculationOption[] {
+  const late = getMinutesPastServe(rippleDelay(input));
+  const baseline = getShiftOption(input);
+  const options: RecalculationOption[] = [];
+
+  if (late === 0 && baseline) {
+    options.push(baseline);
+  } else {
+    for (const build of [getParallelOption, getCompressOption, getDropSideOption]) {
+      const option = build(input, late);
+      if (option) options.push(option);
+    }
+  }
+
+  options.push(getPushServeOption(input));
+
+  // Claude's suggestion only makes the list if it does at least as well as the local engine
+  if (input.aiSuggestion) {
+    const option = getAiOption(input, input.aiSuggestion);
+    if (option && (!baseline || !isWorse(option, baseline))) options.push(option);
+  }
+
+  // Always give the cook a choice, even if it runs late
+  if (options.length < 2 && late > 0 && baseline) {
+    options.push(baseline);
+  }
+
+  return rankOptions(options).slice(0, MAX_RECALCULATION_OPTIONS);
+}
+
+/**
+ * Apply a single suggestion
+ *
+ * Uses the suggestion's exact shifts when it has them; otherwise moves
+ * the lead task and moves affected tasks by the same amount.
+ *
+ * @returns Tasks with new times, or null if the suggested task is unknown
+ */
+export function applyRecalculationSuggestion(
+  tasks: Task[],
+  suggestion: RecalculationSuggestion
+): Task[] | null {
+  const taskToMove = tasks.find((t) => t.id === suggestion.taskId);
+  if (!taskToMove) return null;
+
+  if (suggestion.shifts) {
+    const starts = new Map(suggestion.shifts.map((s) => [s.taskId, s.newStartTimeMinutes]));
+    return tasks.map((task) => {
+      const start = task.id ? starts.get(task.id) : undefined;
+      return start === undefined
+        ? task
+        : { ...task, startTimeMinutes: start, endTimeMinutes: start + task.durationMinutes };
+    });
+  }
+
+  const delta = suggestion.newStartTimeMinutes - taskToMove.startTimeMinutes;
+  const affectedIds = new Set(suggestion.affectedTaskIds ?? []);
+
+  return tasks.map((task) => {
+    if (task.id === suggestion.taskId) {
+      return {
+        ...task,
+        startTimeMinutes: suggestion.newStartTimeMinutes,
+        endTimeMinutes: suggestion.newStartTimeMinutes + task.durationMinutes,
+      };
+    }
+    if (task.id && affectedIds.has(task.id)) {
+      return {
+        ...task,
+        startTimeMinutes: task.startTimeMinutes + delta,
+        endTimeMinutes: task.endTimeMinutes + delta,
+      };
+    }
+    return task;
+  });
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * The local engine's suggestion: move only what the delay reaches
+ */
+function getShiftOption(input: RecalculationInput): RecalculationOption | null {
+  const suggestion = suggestForDelay(input, input.profile, input.helpers);
+  const tasks = suggestion && applyRecalculationSuggestion(input.tasks, suggestion);
+  if (!suggestion || !tasks) return null;
+
+  return buildOption(input, {
+    id: "shift_tasks",
+    strategy: "shift_tasks",
+    title: "Shift what's affected",
+    description: suggestion.description,
+    tasks,
+  });
+}
+
+/**
+ * Start a hands-off task now, alongside current work
+ *
+ * Only tasks whose dependencies are all done can start early.
+ */
+function getParallelOption(input: RecalculationInput, late: number): RecalculationOption | null {
+  const done = new Set(
+    input.tasks
+      .filter((t) => t.id && (t.status === "completed" || t.status === "skipped"))
+      .map((t) => t.id!)
+  );
+  const candidates = input.tasks.filter(
+    (t) =>
+      t.id &&
+      t.status === "pending" &&
+      t.attention === "passive" &&
+      t.startTimeMinutes > input.nowMinutes &&
+      (t.dependsOn ?? []).every((id) => done.has(id))
+  );
+
+  // Starting early mustn't double-book the oven or anything else
+  const errors = (tasks: Task[]) =>
+    validateTimeline(tasks, input.profile ?? DEFAULT_KITCHEN_PROFILE, input.helpers ?? [])
+      .conflicts.filter((c) => c.severity === "error").length;
+  const baselineErrors = errors(rippleDelay(input));
+  const plans = candidates
+    .map((task) => ({
+      task,
+      tasks: rippleDelay(input, { starts: new Map([[task.id!, input.nowMinutes]]) }),
+    }))
+    .filter((plan) => errors(plan.tasks) <= baselineErrors);
+
+  const best = pickBest(plans, (plan) => plan.tasks);
+  if (!best || best.late >= late) return null;
+  const candidate = best.candidate.task;
+
+  return buildOption(input, {
+    id: `start_in_parallel-${candidate.id}`,
+    strategy: "start_in_parallel",
+    title: `Start "${candidate.title}" now`,
+    description: "It runs on its own, so get it going alongside what you're doing instead of waiting.",
+    tasks: best.tasks,
+  });
+}
+
+/**
+ * Hurry one hands-on task that doesn't cook in the oven
+ */
+function getCompressOption(input: RecalculationInput, late: number): RecalculationOption | null {
+  const cuts = new Map<string, number>();
+  for (const task of input.tasks) {
+    if (!task.id || task.status !== "pending" || task.attention === "passive") continue;
+    if (getTaskResourceClaims(task).some((c) => c.resourceId === OVEN_RESOURCE_ID)) continue;
+
+    const cut = Math.min(late, Math.floor(task.durationMinutes * MAX_COMPRESSION_RATIO));
+    if (cut >= 1) cuts.set(task.id, cut);
+  }
+
+  const candidates = input.tasks.filter((t) => t.id && cuts.has(t.id));
+  const best = pickBest(candidates, (task) =>
+    rippleDelay(input, {
+      durations: new Map([[task.id!, task.durationMinutes - cuts.get(task.id!)!]]),
+    })
+  );
+  if (!best || best.late >= late) return null;
+
+  const { candidate } = best;
+  const shortened = candidate.durationMinutes - cuts.get(candidate.id!)!;
+  return buildOption(input, {
+    id: `compress_task-${candidate.id}`,
+    strategy: "compress_task",
+    title: `Hurry "${candidate.title}"`,
+    description: `Get it done in ${shortened} min instead of ${candidate.durationMinutes}.`,
+    tasks: best.tasks,
+  });
+}
+
+/**
+ * Skip the rest of an optional side that hasn't been started
+ */
+function getDropSideOption(input: RecalculationInput, late: number): RecalculationOption | null {
+  const sides = (input.recipes ?? []).filter(
+    (recipe) =>
+      recipe.category &&
+      OPTIONAL_CATEGORIES.includes(recipe.category) &&
+      input.tasks.some((t) => t.recipeId === recipe.id && t.status === "pending") &&
+      !input.tasks.some((t) => t.recipeId === recipe.id && t.status === "in_progress")
+  );
+
+  const pendingOf = (recipe: RecalculationRecipe) =>
+    new Set(
+      input.tasks
+        .filter((t) => t.id && t.recipeId === recipe.id && t.status === "pending")
+        .map((t) => t.id!)
+    );
+
+  const best = pickBest(sides, (recipe) => rippleDelay(input, { skipped: pendingOf(recipe) }));
+  if (!best || best.late >= late) return null;
+
+  const skippedCount = pendingOf(best.candidate).size;
+  return buildOption(input, {
+    id: `drop_side-${best.candidate.id}`,
+    strategy: "drop_side",
+    title: `Skip ${best.candidate.name}`,
+    description: `Drop its remaining ${skippedCount} task${skippedCount > 1 ? "s" : ""} and spend the time on the rest.`,
+    tasks: best.tasks,
+  });
+}
+
+/**
+ * Serve later and keep every remaining task's spacing
+ *
+ * Pending tasks keep their times relative to the new serve time; tasks
+ * in progress or done keep their clock times. Always valid when the plan
+ * was.
+ */
+function getPushServeOption(input: RecalculationInput): RecalculationOption {
+  const shift = roundUpMinutes(input.behindMinutes);
+  const tasks = input.tasks.map((task) =>
+    task.status === "pending"
+      ? task
+      : {
+          ...task,
+          startTimeMinutes: task.startTimeMinutes - shift,
+          endTimeMinutes: task.endTimeMinutes - shift,
+        }
+  );
+
+  return buildOption(input, {
+    id: "push_serve_time",
+    strategy: "push_serve_time",
+    title: `Serve ${shift} min later`,
+    description: "Everything left keeps its timing; dinner moves back.",
+    tasks,
+    serveTimeShiftMinutes: shift,
+  });
+}
+
+function getAiOption(
+  input: RecalculationInput,
+  suggestion: RecalculationSuggestion
+): RecalculationOption | null {
+  const tasks = applyRecalculationSuggestion(input.tasks, suggestion);
+  if (!tasks) return null;
+
+  return buildOption(input, {
+    id: `ai_suggestion-${suggestion.taskId}`,
+    strategy: "ai_suggestion",
+    title: "Suggested adjustment",
+    description: suggestion.description,
+    tasks,
+  });
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * The candidate whose plan runs least past serve (first wins a tie)
+ */
+function pickBest<T>(
+  candidates: T[],
+  plan: (candidate: T) => Task[]
+): { candidate: T; tasks: Task[]; late: number } | null {
+  let best: { candidate: T; tasks: Task[]; late: number } | null = null;
+  for (const candidate of candidates) {
+    const tasks = plan(candidate);
+    const late = getMinutesPastServe(tasks);
+    if (!best || late < best.late) best = { candidate, tasks, late };
+  }
+  return best;
+}
+
+/**
+ * Fill in an option's preview and validation
+ */
+function buildOption(
+  input: RecalculationInput,
+  option: Pick<RecalculationOption, "id" | "strategy" | "title" | "description" | "tasks"> & {
+    serveTimeShiftMinutes?: number;
+  }
+): RecalculationOption {
+  const shift = option.serveTimeShiftMinutes ?? 0;
+  const changes: RecalculationTaskChange[] = [];
+
+  option.tasks.forEach((task, index) => {
+    const before = input.tasks[index];
+    if (!task.id || !before) return;
+
+    if (task.status === "skipped" && before.status !== "skipped") {
+      changes.push({
+        taskId: task.id,
+        title: task.title,
+        beforeStartMinutes: before.startTimeMinutes,
+        afterStartMinutes: before.startTimeMinutes,
+        skipped: true,
+      });
+    } else if (
+      task.startTimeMinutes + shift !== before.startTimeMinutes ||
+      task.durationMinutes !== before.durationMinutes
+    ) {
+      changes.push({
+        taskId: task.id,
+        title: task.title,
+        beforeStartMinutes: before.startTimeMinutes,
+        afterStartMinutes: task.startTimeMinutes + shift,
+        ...(task.durationMinutes !== before.durationMinutes && {
+          durationMinutes: task.durationMinutes,
+        }),
+      });
+    }
+  });
+
+  const validation = validateTimeline(
+    option.tasks,
+    input.profile ?? DEFAULT_KITCHEN_PROFILE,
+    input.helpers ?? []
+  );
+
+  return {
+    ...option,
+    changes,
+    minutesPastServe: getMinutesPastServe(option.tasks),
+    isValid: validation.isValid,
+    conflicts: validation.conflicts,
+  };
+}
+
+/**
+ * Error-level conflicts in an option's preview
+ */
+function errorCount(option: RecalculationOption): number {
+  return option.conflicts.filter((c) => c.severity === "error").length;
+}
+
+/**
+ * Whether an option has more errors than another, or runs later past serve
+ */
+function isWorse(option: RecalculationOption, than: RecalculationOption): boolean {
+  return (
+    errorCount(option) > errorCount(than) ||
+    (errorCount(option) === errorCount(than) && option.minutesPastServe > than.minutesPastServe)
+  );
+}
+
+/**
+ * Valid before invalid, then fewer errors, then least disruptive
+ */
+function rankOptions(options: RecalculationOption[]): RecalculationOption[] {
+  return [...options].sort(
+    (a, b) =>
+      Number(b.isValid) - Number(a.isValid) ||
+      errorCount(a) - errorCount(b) ||
+      STRATEGY_ORDER.indexOf(a.strategy) - STRATEGY_ORDER.indexOf(b.strategy) ||
+      a.changes.length - b.changes.length
+  );
+}
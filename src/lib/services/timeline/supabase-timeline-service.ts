@@ -1,6 +1,10 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { AIService, TimelineGenerationInput } from "@/contracts/ai-service";
-import type { TimelineService, ValidationResult } from "@/contracts/timeline-service";
+import type {
+  TimelineService,
+  ValidationResult,
+  GenerateTimelineOptions,
+} from "@/contracts/timeline-service";
 import type {
   Timeline,
   Task,
@@ -8,8 +12,36 @@ import type {
   Meal,
   RecalculationSuggestion,
   TimelineConflict,
+  TimelineGenerationStrategy,
+  KitchenProfile,
+  ResourceClaim,
+  TaskAttention,
+  Helper,
+  DurationCorrections,
+  TaskOverride,
+  TimelineDiff,
+  TimelineVersion,
+  TimelineVersionSource,
 } from "@/types";
 import { validateTimeline } from "@/lib/validator";
+import { generateLocalTimeline } from "./local-scheduler";
+import { annotateTypicalDurations, loadDurationCorrections } from "./duration-corrections";
+import {
+  applyTaskOverrides,
+  assignStepKeys,
+  diffTimelineTasks,
+  getOverrideChanges,
+  loadTaskOverrides,
+  recordTaskOverrides,
+  replaceTaskOverrides,
+} from "./task-overrides";
+import {
+  getTimelineVersion,
+  keepTaskProgress,
+  listTimelineVersions,
+  PROGRESS_FIELDS,
+  recordTimelineVersion,
+} from "./timeline-versions";
 
 /**
  * Row shape from Supabase timelines table
@@ -19,9 +51,12 @@ interface TimelineRow {
   meal_id: string;
   has_conflicts: boolean;
   conflicts: TimelineConflict[];
+  generated_by: TimelineGenerationStrategy | null;
   is_running: boolean;
   started_at: string | null;
   current_task_id: string | null;
+  previous_tasks: Task[] | null;
+  version: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,14 +70,20 @@ interface TaskRow {
   meal_id: string;
   recipe_id: string;
   instruction_id: string | null;
+  step_key: string | null;
   title: string;
   description: string | null;
   start_time_minutes: number;
   duration_minutes: number;
+  typical_duration_minutes: number | null;
   end_time_minutes: number;
   requires_oven: boolean;
   oven_temp: number | null;
+  resources: ResourceClaim[] | null;
+  attention: TaskAttention | null;
+  assignee_id: string | null;
   depends_on: string[];
+  prep_days_before: number;
   status: TaskStatus;
   completed_at: string | null;
   notes: string | null;
@@ -77,17 +118,24 @@ export class SupabaseTimelineService implements TimelineService {
   /**
    * Generate a timeline from a meal's recipes
    *
-   * 1. Calls Claude AI to generate tasks
-   * 2. Runs deterministic validation
-   * 3. Returns timeline with any conflicts flagged
+   * 1. Learns duration corrections from past meals with these recipes
+   * 2. Calls Claude AI to generate tasks (or the local scheduler)
+   * 3. Re-applies the host's manual edits from earlier versions
+   * 4. Runs deterministic validation
+   * 5. Returns timeline with any conflicts flagged
+   *
+   * If the Claude call fails, falls back to the local scheduler so the
+   * host still gets a timeline; generatedBy reports which one ran.
    *
    * Performance characteristics (for 4+ recipes):
    * - AI generation: ~5-15 seconds (primary bottleneck, I/O bound)
+   * - Local scheduling: O(n²) over oven blocks, effectively instant
    * - Task ID assignment: O(n) where n = tasks
    * - Validation: O(n²) for oven conflicts, negligible for typical sizes
    */
-  async generate(meal: Meal): Promise<Timeline> {
+  async generate(meal: Meal, options: GenerateTimelineOptions = {}): Promise<Timeline> {
     const startTime = Date.now();
+    const strategy = options.strategy ?? "ai";
 
     if (!meal.id) {
       throw new Error("Meal must have an ID to generate timeline");
@@ -103,18 +151,47 @@ export class SupabaseTimelineService implements TimelineService {
       scaling: meal.recipes.map((r) => r.scaling),
       serveTime: meal.serveTime,
       guestCount: meal.guestCount.total,
+      kitchenProfile: meal.kitchenProfile,
+      durationCorrections: await this.fetchDurationCorrections(meal),
     };
 
-    // Generate tasks via Claude (primary bottleneck)
-    const aiStartTime = Date.now();
-    const generatedTasks = await this.aiService.generateTimeline(input);
-    const aiDuration = Date.now() - aiStartTime;
+    let tasksWithIds: Task[];
+    let generatedBy: TimelineGenerationStrategy = strategy;
+    let aiDuration = 0;
+
+    if (strategy === "local") {
+      tasksWithIds = generateLocalTimeline(meal.id, input);
+    } else {
+      try {
+        // Generate tasks via Claude (primary bottleneck)
+        const aiStartTime = Date.now();
+        const generatedTasks = await this.aiService.generateTimeline(input);
+        aiDuration = Date.now() - aiStartTime;
+
+        // Assign meal and recipe IDs to tasks
+        tasksWithIds = annotateTypicalDurations(
+          this.assignTaskIds(generatedTasks, meal),
+          input.durationCorrections
+        );
+      } catch (error) {
+        console.warn(
+          "[Timeline] AI generation failed, using local scheduler:",
+          error instanceof Error ? error.message : error
+        );
+        tasksWithIds = generateLocalTimeline(meal.id, input);
+        generatedBy = "local";
+      }
+    }
 
-    // Assign meal and recipe IDs to tasks
-    const tasksWithIds = this.assignTaskIds(generatedTasks, meal);
+    // Keep manual edits made to earlier versions
+    const { tasks: editedTasks, applied: editsApplied } = applyTaskOverrides(
+      assignStepKeys(tasksWithIds),
+      await this.fetchTaskOverrides(meal.id)
+    );
+    tasksWithIds = editedTasks;
 
     // Validate the timeline
-    const validationResult = validateTimeline(tasksWithIds);
+    const validationResult = validateTimeline(tasksWithIds, meal.kitchenProfile, meal.helpers);
 
     // Create timeline object
     const timeline: Timeline = {
@@ -122,13 +199,16 @@ export class SupabaseTimelineService implements TimelineService {
       tasks: tasksWithIds,
       hasConflicts: !validationResult.isValid,
       conflicts: validationResult.conflicts,
+      generatedBy,
     };
 
     // Log performance metrics in development
     if (process.env.NODE_ENV === "development") {
       const totalDuration = Date.now() - startTime;
+      // Without a step, edits to a task are only matched again by its title
+      const untracked = tasksWithIds.filter((task) => !task.instructionId).length;
       console.log(
-        `[Timeline] Generated ${tasksWithIds.length} tasks from ${meal.recipes.length} recipes in ${totalDuration}ms (AI: ${aiDuration}ms)`
+        `[Timeline] Generated ${tasksWithIds.length} tasks from ${meal.recipes.length} recipes in ${totalDuration}ms (${generatedBy === "ai" ? `AI: ${aiDuration}ms` : "local scheduler"}, ${editsApplied} manual edits kept, ${untracked} tasks without a recipe step)`
       );
     }
 
@@ -188,14 +268,18 @@ export class SupabaseTimelineService implements TimelineService {
   /**
    * Save a timeline to the database
    *
-   * Creates both the timeline record and all tasks.
+   * Creates both the timeline record and all tasks, and a version in
+   * the timeline's history.
    */
-  async save(timeline: Timeline): Promise<Timeline> {
+  async save(timeline: Timeline, source: TimelineVersionSource = "generated"): Promise<Timeline> {
     // Check if timeline already exists
     const existing = await this.getByMealId(timeline.mealId);
     if (existing) {
-      // Update existing timeline
-      return this.updateExisting(existing.id!, timeline);
+      // Update existing timeline; only a regeneration feeds the changes view
+      return this.snapshot(
+        await this.updateExisting(existing.id!, timeline, source === "generated"),
+        source
+      );
     }
 
     // Insert new timeline
@@ -205,6 +289,7 @@ export class SupabaseTimelineService implements TimelineService {
         meal_id: timeline.mealId,
         has_conflicts: timeline.hasConflicts,
         conflicts: timeline.conflicts,
+        generated_by: timeline.generatedBy ?? "ai",
         is_running: timeline.isRunning ?? false,
         started_at: timeline.startedAt ?? null,
         current_task_id: null, // Set after tasks are created
@@ -217,26 +302,9 @@ export class SupabaseTimelineService implements TimelineService {
     }
 
     // Insert tasks
-    const tasksToInsert = timeline.tasks.map((task, index) => ({
-      timeline_id: timelineData.id,
-      meal_id: timeline.mealId,
-      recipe_id: task.recipeId,
-      instruction_id: task.instructionId ?? null,
-      title: task.title,
-      description: task.description ?? null,
-      start_time_minutes: task.startTimeMinutes,
-      duration_minutes: task.durationMinutes,
-      end_time_minutes: task.endTimeMinutes,
-      requires_oven: task.requiresOven ?? false,
-      oven_temp: task.ovenTemp ?? null,
-      depends_on: task.dependsOn ?? [],
-      status: task.status,
-      completed_at: task.completedAt ?? null,
-      notes: task.notes ?? null,
-      is_valid: task.isValid ?? true,
-      validation_errors: task.validationErrors ?? [],
-      sort_order: index,
-    }));
+    const tasksToInsert = timeline.tasks.map((task, index) =>
+      this.toTaskInsertRow(task, timelineData.id, timeline.mealId, index)
+    );
 
     const { error: tasksError } = await this.supabase
       .from("tasks")
@@ -253,7 +321,7 @@ export class SupabaseTimelineService implements TimelineService {
     if (!saved) {
       throw new Error("Failed to retrieve saved timeline");
     }
-    return saved;
+    return this.snapshot(saved, source);
   }
 
   /**
@@ -273,25 +341,39 @@ export class SupabaseTimelineService implements TimelineService {
   /**
    * Validate a timeline deterministically
    */
-  validate(timeline: Timeline): ValidationResult {
-    return validateTimeline(timeline.tasks);
+  validate(
+    timeline: Timeline,
+    kitchenProfile?: KitchenProfile,
+    helpers?: Helper[]
+  ): ValidationResult {
+    return validateTimeline(timeline.tasks, kitchenProfile, helpers);
   }
 
   /**
    * Update a single task
+   *
+   * Saves a version, unless only the status changed (checking a task off).
    */
   async updateTask(
     timelineId: string,
     taskId: string,
     updates: Partial<Task>
   ): Promise<Timeline> {
+    // Read the task as it was when a planning field may change
+    const before =
+      Object.keys(getOverrideChanges(updates)).length > 0 ? await this.get(timelineId) : null;
+
     const updateData: Record<string, unknown> = {};
 
     if (updates.title !== undefined) updateData.title = updates.title;
     if (updates.description !== undefined) updateData.description = updates.description;
     if (updates.requiresOven !== undefined) updateData.requires_oven = updates.requiresOven;
     if (updates.ovenTemp !== undefined) updateData.oven_temp = updates.ovenTemp;
+    if (updates.resources !== undefined) updateData.resources = updates.resources;
+    if (updates.attention !== undefined) updateData.attention = updates.attention;
+    if (updates.assigneeId !== undefined) updateData.assignee_id = updates.assigneeId || null;
     if (updates.dependsOn !== undefined) updateData.depends_on = updates.dependsOn;
+    if (updates.prepDaysBefore !== undefined) updateData.prep_days_before = updates.prepDaysBefore;
     if (updates.status !== undefined) updateData.status = updates.status;
     if (updates.notes !== undefined) updateData.notes = updates.notes;
 
@@ -338,13 +420,27 @@ export class SupabaseTimelineService implements TimelineService {
       throw new Error("Timeline not found after update");
     }
 
-    return this.revalidateAndSave(timeline);
+    const current = before?.tasks.find((t) => t.id === taskId);
+    const changes = current ? getOverrideChanges(updates, current) : {};
+    if (before && Object.keys(changes).length > 0) {
+      await this.keepEdits(before, { [taskId]: { changes } });
+    }
+
+    // Checking a task off changes progress, not the plan: no new version
+    const saved = await this.revalidateAndSave(timeline);
+    const progressOnly = Object.keys(updates).every((field) =>
+      PROGRESS_FIELDS.has(field as keyof Task)
+    );
+    return progressOnly ? saved : this.snapshot(saved, "edited");
   }
 
   /**
    * Delete a task from timeline
    */
   async deleteTask(timelineId: string, taskId: string): Promise<Timeline> {
+    // Read the task's step key before it's gone
+    const before = await this.get(timelineId);
+
     // Remove this task from any depends_on arrays
     const { data: dependentTasks } = await this.supabase
       .from("tasks")
@@ -380,7 +476,11 @@ export class SupabaseTimelineService implements TimelineService {
       throw new Error("Timeline not found after delete");
     }
 
-    return this.revalidateAndSave(timeline);
+    if (before) {
+      await this.keepEdits(before, { [taskId]: { changes: {}, deleted: true } });
+    }
+
+    return this.snapshot(await this.revalidateAndSave(timeline), "deleted");
   }
 
   /**
@@ -400,14 +500,21 @@ export class SupabaseTimelineService implements TimelineService {
     if (!timeline) {
       throw new Error("Timeline not found after reorder");
     }
-    return timeline;
+
+    await this.keepEdits(
+      timeline,
+      Object.fromEntries(taskOrder.map((id, index) => [id, { changes: {}, sortOrder: index }]))
+    );
+
+    return this.snapshot(timeline, "reordered");
   }
 
   /**
    * Regenerate timeline when recipes change
    *
    * Fetches the meal from the database and regenerates the timeline.
-   * The old timeline is replaced with the new one.
+   * The new tasks replace the old ones in the same timeline, with manual
+   * edits re-applied and the old tasks kept for getChanges.
    */
   async regenerate(mealId: string): Promise<Timeline> {
     // Fetch the meal with recipes
@@ -492,14 +599,87 @@ export class SupabaseTimelineService implements TimelineService {
         .filter((r): r is NonNullable<typeof r> => r !== null),
     };
 
-    // Delete existing timeline
-    const existing = await this.getByMealId(mealId);
-    if (existing?.id) {
-      await this.delete(existing.id);
+    // Generate and save over the existing timeline
+    return this.save(await this.generate(meal as Meal));
+  }
+
+  /**
+   * What the last regeneration changed
+   */
+  async getChanges(timelineId: string): Promise<TimelineDiff | null> {
+    const { data, error } = await this.supabase
+      .from("timelines")
+      .select("previous_tasks")
+      .eq("id", timelineId)
+      .single<Pick<TimelineRow, "previous_tasks">>();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch timeline: ${error.message}`);
+    }
+
+    if (!data?.previous_tasks) {
+      return null;
+    }
+
+    return diffTimelineTasks(data.previous_tasks, await this.fetchTasks(timelineId));
+  }
+
+  /**
+   * List a timeline's saved versions, newest first
+   */
+  async listVersions(timelineId: string): Promise<TimelineVersion[]> {
+    return listTimelineVersions(this.supabase, timelineId);
+  }
+
+  /**
+   * Restore an earlier version of a timeline
+   *
+   * Task IDs come back with the tasks, so dependsOn stays valid. Only
+   * the schedule and edits are restored; each task keeps its current
+   * status. The meal's kitchen and helpers may have changed since, so
+   * the snapshot is validated again rather than trusting its stored
+   * conflicts.
+   */
+  async restoreVersion(timelineId: string, version: number): Promise<Timeline | null> {
+    const current = await this.get(timelineId);
+    if (!current) {
+      throw new Error("Timeline not found");
+    }
+    if (current.isRunning) {
+      throw new Error("Can't restore a version while cooking");
+    }
+
+    const snapshot = await getTimelineVersion(this.supabase, timelineId, version);
+    if (!snapshot?.tasks) {
+      return null;
+    }
+
+    const tasks = keepTaskProgress(snapshot.tasks, current.tasks);
+    const { kitchenProfile, helpers } = await this.fetchValidationSettings(current.mealId);
+    const validationResult = validateTimeline(tasks, kitchenProfile, helpers);
+
+    const restored = await this.updateExisting(timelineId, {
+      ...current,
+      tasks,
+      generatedBy: snapshot.generatedBy ?? current.generatedBy,
+      hasConflicts: !validationResult.isValid,
+      conflicts: validationResult.conflicts,
+    });
+
+    // Regenerating should keep the edits as they were in that version
+    try {
+      await replaceTaskOverrides(this.supabase, current.mealId, snapshot.overrides ?? []);
+    } catch (error) {
+      console.warn(
+        "[Timeline] Manual edits not restored:",
+        error instanceof Error ? error.message : error
+      );
     }
 
-    // Generate new timeline
-    return this.generate(meal as Meal);
+    return this.snapshot(restored, "restored", version);
   }
 
   // =========================================================================
@@ -679,12 +859,17 @@ export class SupabaseTimelineService implements TimelineService {
 
   /**
    * Assign proper IDs to generated tasks
+   *
+   * Instruction IDs that aren't a step of the task's recipe are dropped.
    */
   private assignTaskIds(tasks: Task[], meal: Meal): Task[] {
     // Map recipe names to IDs for matching
     const recipeMap = new Map(
       meal.recipes.map((r) => [r.recipe.name.toLowerCase(), r.recipe.id!])
     );
+    const instructionIds = new Map(
+      meal.recipes.map((r) => [r.recipe.id!, new Set(r.recipe.instructions.map((i) => i.id))])
+    );
 
     // Default to first recipe if no match
     const defaultRecipeId = meal.recipes[0]?.recipe.id ?? "";
@@ -698,10 +883,16 @@ export class SupabaseTimelineService implements TimelineService {
         recipeId = matchedId ?? defaultRecipeId;
       }
 
+      const instructionId =
+        task.instructionId && instructionIds.get(recipeId)?.has(task.instructionId)
+          ? task.instructionId
+          : undefined;
+
       return {
         ...task,
         mealId: meal.id!,
         recipeId,
+        instructionId,
         // Ensure endTimeMinutes is calculated
         endTimeMinutes: task.startTimeMinutes + task.durationMinutes,
         status: task.status ?? "pending",
@@ -728,11 +919,18 @@ export class SupabaseTimelineService implements TimelineService {
 
   /**
    * Update an existing timeline
+   *
+   * With recordPrevious, the tasks being replaced are kept for the
+   * changes view. Only regeneration sets it, so "what changed" keeps
+   * describing the last regeneration across restores and edits.
    */
   private async updateExisting(
     timelineId: string,
-    timeline: Timeline
+    timeline: Timeline,
+    recordPrevious = false
   ): Promise<Timeline> {
+    const previousTasks = recordPrevious ? await this.fetchTasks(timelineId) : null;
+
     // Delete existing tasks
     await this.supabase.from("tasks").delete().eq("timeline_id", timelineId);
 
@@ -742,45 +940,199 @@ export class SupabaseTimelineService implements TimelineService {
       .update({
         has_conflicts: timeline.hasConflicts,
         conflicts: timeline.conflicts,
+        generated_by: timeline.generatedBy ?? "ai",
+        ...(previousTasks && { previous_tasks: assignStepKeys(previousTasks) }),
       })
       .eq("id", timelineId);
 
     // Insert new tasks
-    const tasksToInsert = timeline.tasks.map((task, index) => ({
+    const tasksToInsert = timeline.tasks.map((task, index) =>
+      this.toTaskInsertRow(task, timelineId, timeline.mealId, index)
+    );
+
+    const { error } = await this.supabase.from("tasks").insert(tasksToInsert);
+
+    if (error) {
+      throw new Error(`Failed to update tasks: ${error.message}`);
+    }
+
+    return (await this.get(timelineId))!;
+  }
+
+  /**
+   * Fetch the meal settings validation depends on
+   *
+   * An unset kitchen profile means the default kitchen.
+   */
+  private async fetchValidationSettings(
+    mealId: string
+  ): Promise<{ kitchenProfile?: KitchenProfile; helpers: Helper[] }> {
+    const { data } = await this.supabase
+      .from("meals")
+      .select("kitchen_profile, helpers")
+      .eq("id", mealId)
+      .single<{ kitchen_profile: KitchenProfile | null; helpers: Helper[] | null }>();
+
+    return {
+      kitchenProfile: data?.kitchen_profile ?? undefined,
+      helpers: data?.helpers ?? [],
+    };
+  }
+
+  /**
+   * Learn how long this cook's steps take from past meals
+   *
+   * History only refines the plan, so failing to read it just means
+   * planning without it.
+   */
+  private async fetchDurationCorrections(meal: Meal): Promise<DurationCorrections | undefined> {
+    try {
+      return await loadDurationCorrections(
+        this.supabase,
+        meal.recipes.map((r) => r.recipe.id).filter((id): id is string => !!id),
+        meal.id
+      );
+    } catch (error) {
+      console.warn(
+        "[Timeline] Duration history unavailable:",
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * The host's manual edits to re-apply
+   *
+   * Without them the host gets a fresh timeline, so a failed read is
+   * logged rather than failing generation.
+   */
+  private async fetchTaskOverrides(mealId: string): Promise<TaskOverride[]> {
+    try {
+      return await loadTaskOverrides(this.supabase, mealId);
+    } catch (error) {
+      console.warn(
+        "[Timeline] Manual edits unavailable:",
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Record manual edits so regeneration keeps them
+   *
+   * Edits are keyed by step key. Tasks saved before step keys existed
+   * get theirs now, so later title edits don't change it. The edit itself
+   * is already saved, so a failure here is only logged.
+   *
+   * @param timeline - Timeline the tasks belong to (as read around the edit)
+   * @param edits - Override fields by task ID
+   */
+  private async keepEdits(
+    timeline: Timeline,
+    edits: Record<string, Omit<TaskOverride, "stepKey">>
+  ): Promise<void> {
+    try {
+      const keyed = assignStepKeys(timeline.tasks);
+      const unkeyed = keyed.filter((task, i) => task.id && !timeline.tasks[i]!.stepKey);
+      for (const task of unkeyed) {
+        await this.supabase.from("tasks").update({ step_key: task.stepKey }).eq("id", task.id);
+      }
+
+      await recordTaskOverrides(
+        this.supabase,
+        timeline.mealId,
+        keyed
+          .filter((task) => task.id && edits[task.id])
+          .map((task) => ({ ...edits[task.id!]!, stepKey: task.stepKey! }))
+      );
+    } catch (error) {
+      console.warn(
+        "[Timeline] Manual edit not kept for regeneration:",
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Add a saved timeline to its version history
+   *
+   * The save itself already happened, so a failure here is only logged
+   * and the timeline keeps its previous version number.
+   *
+   * @param timeline - The timeline as saved
+   * @param source - What caused the save
+   * @param restoredVersion - Version copied back, for restores
+   * @returns The timeline with its new version number
+   */
+  private async snapshot(
+    timeline: Timeline,
+    source: TimelineVersionSource,
+    restoredVersion?: number
+  ): Promise<Timeline> {
+    try {
+      const version = await recordTimelineVersion(this.supabase, timeline, source, {
+        overrides: await loadTaskOverrides(this.supabase, timeline.mealId),
+        restoredVersion,
+      });
+      return { ...timeline, version };
+    } catch (error) {
+      console.warn(
+        "[Timeline] Version not recorded:",
+        error instanceof Error ? error.message : error
+      );
+      return timeline;
+    }
+  }
+
+  /**
+   * Map a task to a tasks table insert row
+   *
+   * Task IDs are kept when present so dependsOn references made before
+   * saving (e.g. by the local scheduler) stay valid.
+   */
+  private toTaskInsertRow(
+    task: Task,
+    timelineId: string,
+    mealId: string,
+    sortOrder: number
+  ): Record<string, unknown> {
+    return {
+      ...(task.id ? { id: task.id } : {}),
       timeline_id: timelineId,
-      meal_id: timeline.mealId,
+      meal_id: mealId,
       recipe_id: task.recipeId,
       instruction_id: task.instructionId ?? null,
+      step_key: task.stepKey ?? null,
       title: task.title,
       description: task.description ?? null,
       start_time_minutes: task.startTimeMinutes,
       duration_minutes: task.durationMinutes,
+      typical_duration_minutes: task.typicalDurationMinutes ?? null,
       end_time_minutes: task.endTimeMinutes,
       requires_oven: task.requiresOven ?? false,
       oven_temp: task.ovenTemp ?? null,
+      resources: task.resources ?? [],
+      attention: task.attention ?? null,
+      assignee_id: task.assigneeId ?? null,
       depends_on: task.dependsOn ?? [],
+      prep_days_before: task.prepDaysBefore ?? 0,
       status: task.status,
       completed_at: task.completedAt ?? null,
       notes: task.notes ?? null,
       is_valid: task.isValid ?? true,
       validation_errors: task.validationErrors ?? [],
-      sort_order: index,
-    }));
-
-    const { error } = await this.supabase.from("tasks").insert(tasksToInsert);
-
-    if (error) {
-      throw new Error(`Failed to update tasks: ${error.message}`);
-    }
-
-    return (await this.get(timelineId))!;
+      sort_order: sortOrder,
+    };
   }
 
   /**
    * Revalidate a timeline and save conflicts
    */
   private async revalidateAndSave(timeline: Timeline): Promise<Timeline> {
-    const validationResult = validateTimeline(timeline.tasks);
+    const { kitchenProfile, helpers } = await this.fetchValidationSettings(timeline.mealId);
+    const validationResult = validateTimeline(timeline.tasks, kitchenProfile, helpers);
 
     await this.supabase
       .from("timelines")
@@ -803,9 +1155,11 @@ export class SupabaseTimelineService implements TimelineService {
       tasks,
       hasConflicts: row.has_conflicts,
       conflicts: row.conflicts,
+      generatedBy: row.generated_by ?? "ai",
       isRunning: row.is_running,
       startedAt: row.started_at ?? undefined,
       currentTaskId: row.current_task_id ?? undefined,
+      version: row.version ?? 0,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -820,19 +1174,26 @@ export class SupabaseTimelineService implements TimelineService {
       mealId: row.meal_id,
       recipeId: row.recipe_id,
       instructionId: row.instruction_id ?? undefined,
+      stepKey: row.step_key ?? undefined,
       title: row.title,
       description: row.description ?? undefined,
       startTimeMinutes: row.start_time_minutes,
       durationMinutes: row.duration_minutes,
+      typicalDurationMinutes: row.typical_duration_minutes ?? undefined,
       endTimeMinutes: row.end_time_minutes,
       requiresOven: row.requires_oven,
       ovenTemp: row.oven_temp ?? undefined,
+      resources: row.resources?.length ? row.resources : undefined,
+      attention: row.attention ?? undefined,
+      assigneeId: row.assignee_id ?? undefined,
       dependsOn: row.depends_on,
+      prepDaysBefore: row.prep_days_before || undefined,
       status: row.status,
       completedAt: row.completed_at ?? undefined,
       notes: row.notes ?? undefined,
       isValid: row.is_valid,
       validationErrors: row.validation_errors,
+      updatedAt: row.updated_at,
     };
   }
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Task, TaskOverride } from "@/types";
+import { applyTaskOverrides, assignStepKeys, getOverrideChanges } from "./task-overrides";
+
+const RECIPE_ID = "recipe-1";
+
+function task(instructionId: string | undefined, title: string, durationMinutes: number): Task {
+  return {
+    mealId: "meal-1",
+    recipeId: RECIPE_ID,
+    instructionId,
+    title,
+    startTimeMinutes: -120,
+    durationMinutes,
+    endTimeMinutes: -120 + durationMinutes,
+    status: "pending",
+  };
+}
+
+describe("applyTaskOverrides", () => {
+  it("keeps an edit when regeneration rewords the step", () => {
+    // The host lengthens the roast on the first timeline
+    const [roast] = assignStepKeys([task("step-3", "Roast the turkey", 180)]);
+    const override: TaskOverride = {
+      stepKey: roast!.stepKey!,
+      changes: getOverrideChanges({ durationMinutes: 210 }, roast),
+    };
+
+    // Claude words the same step differently the next time
+    const regenerated = assignStepKeys([
+      task("step-3", "Roast turkey until golden", 180),
+      task("step-4", "Rest the turkey", 30),
+    ]);
+    const { tasks, applied } = applyTaskOverrides(regenerated, [override]);
+
+    expect(applied).toBe(1);
+    expect(tasks[0]).toMatchObject({
+      title: "Roast turkey until golden",
+      durationMinutes: 210,
+      endTimeMinutes: 90,
+    });
+    expect(tasks[1]?.durationMinutes).toBe(30);
+  });
+
+  it("only matches a task without a step by its title", () => {
+    const [preheat] = assignStepKeys([task(undefined, "Preheat oven", 15)]);
+    const override: TaskOverride = { stepKey: preheat!.stepKey!, changes: { durationMinutes: 20 } };
+
+    const reworded = assignStepKeys([task(undefined, "Preheat the oven to 350°F", 15)]);
+
+    expect(applyTaskOverrides(reworded, [override]).applied).toBe(0);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Manual Task Edits
+ *
+ * Regenerating a timeline replaces every task, so edits made by hand are
+ * stored per meal as overrides keyed by each task's step key (recipe plus
+ * instruction, or the normalized title) and laid back over the fresh
+ * tasks: a longer rest stays longer, a deleted step stays deleted, a hand
+ * order stays in order. Overrides for steps that no longer exist (the
+ * recipe was removed) are kept but match nothing.
+ *
+ * The same keys match the tasks of two versions, which is how the
+ * changes view finds what a regeneration added, removed or changed.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  TASK_OVERRIDE_FIELDS,
+  type Task,
+  type TaskDiffChange,
+  type TaskOverride,
+  type TaskOverrideField,
+  type TimelineDiff,
+} from "@/types";
+import { getStepKey } from "./duration-corrections";
+
+/**
+ * Database row shape for task_overrides
+ */
+interface TaskOverrideRow {
+  step_key: string;
+  changes: TaskOverride["changes"] | null;
+  deleted: boolean;
+  sort_order: number | null;
+  updated_at: string;
+}
+
+/**
+ * Give every task a step key
+ *
+ * Keys already set are kept. The rest come from getStepKey, numbered in
+ * start-time order when a step repeats ("...:roll batch", "...:roll
+ * batch#2"), so regenerating the same recipes yields the same keys.
+ */
+export function assignStepKeys(tasks: Task[]): Task[] {
+  const used = new Set(tasks.map((t) => t.stepKey).filter((key): key is string => !!key));
+  const keys = new Map<Task, string>();
+
+  for (const task of [...tasks].sort((a, b) => a.startTimeMinutes - b.startTimeMinutes)) {
+    if (task.stepKey) continue;
+    const base = getStepKey(task);
+    let key = base;
+    for (let n = 2; used.has(key); n++) {
+      key = `${base}#${n}`;
+    }
+    used.add(key);
+    keys.set(task, key);
+  }
+
+  return tasks.map((task) => (task.stepKey ? task : { ...task, stepKey: keys.get(task) }));
+}
+
+/**
+ * The part of a task update that regeneration should keep
+ *
+ * Edit forms send every field, so with the task as it was, only fields
+ * that actually change count.
+ */
+export function getOverrideChanges(
+  updates: Partial<Task>,
+  current?: Task
+): TaskOverride["changes"] {
+  const changes: Record<string, unknown> = {};
+  for (const field of TASK_OVERRIDE_FIELDS) {
+    if (
+      updates[field] !== undefined &&
+      (!current || !isSameValue(field, current[field], updates[field]))
+    ) {
+      changes[field] = updates[field];
+    }
+  }
+  return changes as TaskOverride["changes"];
+}
+
+/**
+ * Lay manual edits over freshly generated tasks
+ *
+ * Tasks need step keys (see assignStepKeys). Deleted tasks are dropped
+ * (and dropped from dependsOn), edited fields replace generated ones,
+ * and reordered tasks take back their hand order within the positions
+ * they occupy.
+ *
+ * @returns The tasks with edits applied, and how many tasks were affected
+ */
+export function applyTaskOverrides(
+  tasks: Task[],
+  overrides: TaskOverride[]
+): { tasks: Task[]; applied: number } {
+  if (overrides.length === 0) return { tasks, applied: 0 };
+
+  const byKey = new Map(overrides.map((o) => [o.stepKey, o]));
+  const overrideFor = (task: Task) => (task.stepKey ? byKey.get(task.stepKey) : undefined);
+  let applied = 0;
+
+  const deletedIds = new Set(
+    tasks.filter((t) => overrideFor(t)?.deleted && t.id).map((t) => t.id!)
+  );
+  const kept = tasks
+    .filter((task) => !overrideFor(task)?.deleted)
+    .map((task) => {
+      const override = overrideFor(task);
+      const dependsOn = task.dependsOn?.filter((id) => !deletedIds.has(id));
+      if (!override || Object.keys(override.changes).length === 0) {
+        return { ...task, dependsOn };
+      }
+
+      applied++;
+      const edited: Task = { ...task, ...override.changes, dependsOn };
+      // An empty assignee means the task was handed back to the host
+      if (!edited.assigneeId) delete edited.assigneeId;
+      return { ...edited, endTimeMinutes: edited.startTimeMinutes + edited.durationMinutes };
+    });
+  applied += tasks.length - kept.length;
+
+  // Reordered tasks swap among their own slots; the rest stay put
+  const slots = kept
+    .map((task, index) => ({ task, index, order: overrideFor(task)?.sortOrder }))
+    .filter((slot): slot is typeof slot & { order: number } => slot.order !== undefined);
+  const ordered = [...slots].sort((a, b) => a.order - b.order);
+  slots.forEach((slot, i) => {
+    kept[slot.index] = ordered[i]!.task;
+  });
+
+  return { tasks: kept, applied };
+}
+
+/**
+ * What changed between two versions of a timeline, matched by step key
+ */
+export function diffTimelineTasks(previous: Task[], next: Task[]): TimelineDiff {
+  const before = new Map(assignStepKeys(previous).map((t) => [t.stepKey!, t]));
+  const after = new Map(assignStepKeys(next).map((t) => [t.stepKey!, t]));
+  const changed: TaskDiffChange[] = [];
+
+  for (const [stepKey, task] of Array.from(after.entries())) {
+    const old = before.get(stepKey);
+    if (!old) continue;
+    const fields = TASK_OVERRIDE_FIELDS.filter(
+      (field) => !isSameValue(field, old[field], task[field])
+    );
+    if (fields.length > 0) {
+      changed.push({ stepKey, before: old, after: task, fields });
+    }
+  }
+
+  const byStart = (a: Task, b: Task) => a.startTimeMinutes - b.startTimeMinutes;
+  return {
+    added: Array.from(after.entries())
+      .filter(([key]) => !before.has(key))
+      .map(([, task]) => task)
+      .sort(byStart),
+    removed: Array.from(before.entries())
+      .filter(([key]) => !after.has(key))
+      .map(([, task]) => task)
+      .sort(byStart),
+    changed: changed.sort((a, b) => byStart(a.after, b.after)),
+  };
+}
+
+/**
+ * Get a meal's manual task edits
+ *
+ * @throws Error if the overrides can't be read
+ */
+export async function loadTaskOverrides(
+  supabase: SupabaseClient,
+  mealId: string
+): Promise<TaskOverride[]> {
+  const { data, error } = await supabase
+    .from("task_overrides")
+    .select("step_key, changes, deleted, sort_order, updated_at")
+    .eq("meal_id", mealId);
+
+  if (error) {
+    throw new Error(`Failed to fetch task overrides: ${error.message}`);
+  }
+
+  return ((data ?? []) as TaskOverrideRow[]).map((row) => ({
+    stepKey: row.step_key,
+    changes: row.changes ?? {},
+    deleted: row.deleted || undefined,
+    sortOrder: row.sort_order ?? undefined,
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Record manual edits, merged into any already stored for the same tasks
+ *
+ * @param supabase - Supabase client
+ * @param mealId - Meal the tasks belong to
+ * @param overrides - New edits; changed fields replace stored ones
+ * @throws Error if the overrides can't be saved
+ */
+export async function recordTaskOverrides(
+  supabase: SupabaseClient,
+  mealId: string,
+  overrides: TaskOverride[]
+): Promise<void> {
+  if (overrides.length === 0) return;
+
+  const existing = new Map(
+    (await loadTaskOverrides(supabase, mealId)).map((o) => [o.stepKey, o])
+  );
+
+  const { error } = await supabase.from("task_overrides").upsert(
+    overrides.map((override) => {
+      const stored = existing.get(override.stepKey);
+      return {
+        meal_id: mealId,
+        step_key: override.stepKey,
+        changes: { ...stored?.changes, ...override.changes },
+        deleted: override.deleted ?? stored?.deleted ?? false,
+        sort_order: override.sortOrder ?? stored?.sortOrder ?? null,
+      };
+    }),
+    { onConflict: "meal_id,step_key" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save task overrides: ${error.message}`);
+  }
+}
+
+/**
+ * Replace all of a meal's manual edits, e.g., with those of a restored version
+ *
+ * @throws Error if the overrides can't be saved
+ */
+export async function replaceTaskOverrides(
+  supabase: SupabaseClient,
+  mealId: string,
+  overrides: TaskOverride[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from("task_overrides")
+    .delete()
+    .eq("meal_id", mealId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear task overrides: ${deleteError.message}`);
+  }
+
+  if (overrides.length === 0) return;
+
+  const { error } = await supabase.from("task_overrides").insert(
+    overrides.map((override) => ({
+      meal_id: mealId,
+      step_key: override.stepKey,
+      changes: override.changes,
+      deleted: override.deleted ?? false,
+      sort_order: override.sortOrder ?? null,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to save task overrides: ${error.message}`);
+  }
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Whether two values of a task field mean the same thing
+ *
+ * Unset and the field's "nothing" value (no oven, serve day, no
+ * resources) count as equal.
+ */
+function isSameValue(field: TaskOverrideField, a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => {
+    if (value === undefined || value === null || value === "" || value === false) return null;
+    if (field === "prepDaysBefore" && value === 0) return null;
+    if (Array.isArray(value) && value.length === 0) return null;
+    return JSON.stringify(value);
+  };
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,277 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TaskConflictSnapshot, TaskStatus } from "@/types";
+import { recordExecutionEvents, type NewExecutionEvent } from "./execution-log";
+
+/**
+ * Status change requested for a task during live cooking
+ */
+export interface TaskStatusUpdate {
+  status?: TaskStatus;
+  /**
+   * When the task was checked off (ISO datetime), so a checkoff queued
+   * offline keeps the moment it happened; never later than now
+   */
+  completedAt?: string;
+  notes?: string;
+  /** New schedule (absolute, so resending is harmless) */
+  startTimeMinutes?: number;
+  endTimeMinutes?: number;
+  /**
+   * Task.updatedAt the change was based on (offline replay)
+   *
+   * When set and the task has changed since, nothing is written and the
+   * result is a "conflict" carrying the current server copy.
+   */
+  baseUpdatedAt?: string;
+}
+
+/**
+ * Outcome of a task status update
+ */
+export interface TaskStatusUpdateResult {
+  /** Whether the task was updated */
+  success: boolean;
+  /** The updated task fields if successful */
+  task?: {
+    id: string;
+    status: TaskStatus;
+    completedAt: string | null;
+    notes: string | null;
+    startTimeMinutes: number;
+    endTimeMinutes: number;
+    updatedAt: string;
+  };
+  /** Error type if unsuccessful */
+  error?: "not_found" | "forbidden" | "conflict" | "failed";
+  /** Human-readable message */
+  message?: string;
+  /** Current server copy when error is "conflict" */
+  current?: TaskConflictSnapshot;
+}
+
+/** Execution log event for a task moving into each status */
+const STATUS_EVENTS: Record<TaskStatus, NewExecutionEvent["type"]> = {
+  pending: "task_reopened",
+  in_progress: "task_started",
+  completed: "task_completed",
+  skipped: "task_skipped",
+};
+
+/**
+ * Optional guard run before a task is changed
+ *
+ * Receives the task's assignee (null for the host). Return false to reject
+ * the update as forbidden.
+ */
+export type TaskStatusGuard = (task: { assigneeId: string | null }) => boolean;
+
+/**
+ * Update a task during live cooking (checkoff, undo, skip, notes, times)
+ *
+ * Shared by the host's live route and token-authenticated helper checkoff.
+ * Completing or skipping a task advances the timeline's current task to
+ * the next pending one. Status changes go to the meal's execution log.
+ * Every field is absolute, so replaying the same
+ * update is harmless: a repeated checkoff keeps its original completion
+ * time and doesn't advance the timeline again. Writes based on a stale
+ * version are rejected as conflicts.
+ *
+ * @param supabase - Supabase client
+ * @param mealId - Meal the task must belong to
+ * @param taskId - Task to update
+ * @param update - New status, notes and/or times
+ * @param guard - Optional per-task permission check
+ */
+export async function updateTaskStatus(
+  supabase: SupabaseClient,
+  mealId: string,
+  taskId: string,
+  update: TaskStatusUpdate,
+  guard?: TaskStatusGuard
+): Promise<TaskStatusUpdateResult> {
+  const { status, completedAt, notes, startTimeMinutes, endTimeMinutes, baseUpdatedAt } = update;
+
+  // Verify task belongs to a timeline for this meal
+  const { data: task, error: taskError } = await supabase
+    .from("tasks")
+    .select(
+      "id, timeline_id, status, notes, completed_at, start_time_minutes, end_time_minutes, updated_at, assignee_id, timelines!inner(meal_id)"
+    )
+    .eq("id", taskId)
+    .single();
+
+  if (taskError || !task) {
+    return { success: false, error: "not_found", message: "Task not found" };
+  }
+
+  // Check meal ownership - timelines can be object or array depending on join
+  const timelines = task.timelines as unknown as { meal_id: string } | { meal_id: string }[];
+  const timeline = Array.isArray(timelines) ? timelines[0] : timelines;
+  if (!timeline || timeline.meal_id !== mealId) {
+    return {
+      success: false,
+      error: "forbidden",
+      message: "Task does not belong to this meal",
+    };
+  }
+
+  if (guard && !guard({ assigneeId: task.assignee_id })) {
+    return {
+      success: false,
+      error: "forbidden",
+      message: "You can only update your own tasks",
+    };
+  }
+
+  // Reject writes based on a version another device has since changed
+  const current: TaskConflictSnapshot = {
+    id: task.id,
+    status: task.status,
+    completedAt: task.completed_at ?? undefined,
+    notes: task.notes ?? undefined,
+    startTimeMinutes: task.start_time_minutes,
+    endTimeMinutes: task.end_time_minutes,
+    updatedAt: task.updated_at,
+  };
+  if (baseUpdatedAt && !isSameVersion(baseUpdatedAt, task.updated_at)) {
+    return conflictResult(current);
+  }
+
+  // Build update object
+  const updateData: Record<string, unknown> = {};
+  const statusChanged = status !== undefined && status !== task.status;
+  const now = Date.now();
+  const changedAt = new Date(
+    completedAt ? Math.min(new Date(completedAt).getTime(), now) : now
+  ).toISOString();
+
+  if (status !== undefined) {
+    updateData.status = status;
+
+    // Set or clear completed_at based on status (a repeat keeps the original)
+    if (status === "completed" && statusChanged) {
+      updateData.completed_at = changedAt;
+    } else if (status === "pending") {
+      updateData.completed_at = null;
+    }
+  }
+
+  if (notes !== undefined) {
+    updateData.notes = notes;
+  }
+
+  if (startTimeMinutes !== undefined) {
+    updateData.start_time_minutes = startTimeMinutes;
+  }
+
+  if (endTimeMinutes !== undefined) {
+    updateData.end_time_minutes = endTimeMinutes;
+  }
+
+  // Update task (only if unchanged since it was read, for versioned writes)
+  let query = supabase.from("tasks").update(updateData).eq("id", taskId);
+  if (baseUpdatedAt) {
+    query = query.eq("updated_at", task.updated_at);
+  }
+  const { data: updatedTask, error: updateError } = await query.select().maybeSingle();
+
+  if (updateError) {
+    console.error("Error updating task:", updateError);
+    return { success: false, error: "failed", message: "Failed to update task" };
+  }
+
+  // Another write landed between the read and the update
+  if (!updatedTask) {
+    return conflictResult(current);
+  }
+
+  if (statusChanged && status) {
+    await recordExecutionEvents(supabase, mealId, [
+      { type: STATUS_EVENTS[status], taskId, occurredAt: changedAt },
+    ]);
+  }
+
+  // If finished just now, advance current_task_id to next pending task
+  if (statusChanged && (status === "completed" || status === "skipped")) {
+    await advanceCurrentTask(supabase, mealId, task.timeline_id);
+  }
+
+  return {
+    success: true,
+    task: {
+      id: updatedTask.id,
+      status: updatedTask.status,
+      completedAt: updatedTask.completed_at,
+      notes: updatedTask.notes,
+      startTimeMinutes: updatedTask.start_time_minutes,
+      endTimeMinutes: updatedTask.end_time_minutes,
+      updatedAt: updatedTask.updated_at,
+    },
+  };
+}
+
+/**
+ * HTTP status for a failed task status update
+ */
+export function getTaskStatusErrorCode(error: TaskStatusUpdateResult["error"]): number {
+  switch (error) {
+    case "not_found":
+      return 404;
+    case "forbidden":
+      return 403;
+    case "conflict":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Whether two updated_at timestamps name the same version
+ *
+ * Compared as instants so "+00:00" and "Z" spellings match.
+ */
+function isSameVersion(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Result for a write based on a stale version
+ */
+function conflictResult(current: TaskConflictSnapshot): TaskStatusUpdateResult {
+  return {
+    success: false,
+    error: "conflict",
+    message: "Task was changed on another device",
+    current,
+  };
+}
+
+/**
+ * Point the timeline at its next pending task and start it
+ */
+async function advanceCurrentTask(
+  supabase: SupabaseClient,
+  mealId: string,
+  timelineId: string
+): Promise<void> {
+  const { data: nextTask } = await supabase
+    .from("tasks")
+    .select("id")
+    .eq("timeline_id", timelineId)
+    .eq("status", "pending")
+    .order("start_time_minutes", { ascending: true })
+    .limit(1)
+    .single();
+
+  if (nextTask) {
+    await supabase.from("timelines").update({ current_task_id: nextTask.id }).eq("id", timelineId);
+
+    // Set next task to in_progress
+    await supabase.from("tasks").update({ status: "in_progress" }).eq("id", nextTask.id);
+    await recordExecutionEvents(supabase, mealId, [{ type: "task_started", taskId: nextTask.id }]);
+  } else {
+    // No more pending tasks - cooking complete!
+    await supabase.from("timelines").update({ current_task_id: null }).eq("id", timelineId);
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { Task } from "@/types";
+import { keepTaskProgress } from "./timeline-versions";
+
+function task(id: string, title: string, startTimeMinutes: number, status: Task["status"]): Task {
+  return {
+    id,
+    mealId: "meal-1",
+    recipeId: "recipe-1",
+    instructionId: `step-${id}`,
+    title,
+    startTimeMinutes,
+    durationMinutes: 30,
+    endTimeMinutes: startTimeMinutes + 30,
+    status,
+    completedAt: status === "completed" ? "2026-11-26T15:00:00.000Z" : undefined,
+  };
+}
+
+describe("keepTaskProgress", () => {
+  it("restores the schedule without undoing work done since", () => {
+    // The version was saved before anything was checked off
+    const snapshot = [
+      task("brine", "Brine turkey", -600, "pending"),
+      task("peel", "Peel potatoes", -90, "pending"),
+    ];
+    // Since then the brine is done and the potatoes moved
+    const current = [
+      task("brine", "Brine turkey", -600, "completed"),
+      task("peel", "Peel potatoes", -60, "pending"),
+    ];
+
+    const tasks = keepTaskProgress(snapshot, current);
+
+    expect(tasks[0]).toMatchObject({
+      status: "completed",
+      completedAt: "2026-11-26T15:00:00.000Z",
+    });
+    expect(tasks[1]).toMatchObject({ status: "pending", startTimeMinutes: -90 });
+  });
+
+  it("matches regenerated tasks by step and leaves removed ones pending", () => {
+    const snapshot = [
+      task("gravy", "Make gravy", -20, "completed"),
+      task("rolls", "Warm rolls", -10, "skipped"),
+    ];
+    // The gravy task was regenerated under a new ID; the rolls are gone
+    const current = [task("gravy-2", "Make gravy", -20, "in_progress")];
+    current[0]!.instructionId = "step-gravy";
+
+    const tasks = keepTaskProgress(snapshot, current);
+
+    expect(tasks.map((t) => [t.id, t.status, t.completedAt])).toEqual([
+      ["gravy", "in_progress", undefined],
+      ["rolls", "pending", undefined],
+    ]);
+  });
+});
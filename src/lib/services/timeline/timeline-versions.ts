@@ -0,0 +1,331 @@
+/**
+ * Timeline Version History
+ *
+ * Every save of a timeline stores a snapshot of its tasks (and the manual
+ * edits kept for regeneration at the time) with a one-line summary of
+ * what changed since the version before. Restoring copies a snapshot back
+ * as a new version, so history only ever grows and a restore can itself
+ * be undone. The editor's undo and redo are restores too.
+ *
+ * Only the latest MAX_TIMELINE_VERSIONS snapshots of a timeline are kept.
+ * Versions track the plan, not cooking progress: checking a task off
+ * saves no version, and a restore keeps each task's current progress.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Task,
+  TaskOverride,
+  TaskOverrideField,
+  Timeline,
+  TimelineDiff,
+  TimelineGenerationStrategy,
+  TimelineVersion,
+  TimelineVersionSource,
+} from "@/types";
+import { assignStepKeys, diffTimelineTasks } from "./task-overrides";
+
+/** Task fields that record cooking progress; updating only these saves no version */
+export const PROGRESS_FIELDS = new Set<keyof Task>(["status", "completedAt"]);
+
+/** How many snapshots of one timeline are kept */
+export const MAX_TIMELINE_VERSIONS = 50;
+
+/** How many task names a summary lists before "and N more" */
+const SUMMARY_TASK_LIMIT = 3;
+
+/**
+ * Database row shape for timeline_versions
+ */
+interface TimelineVersionRow {
+  id: string;
+  timeline_id: string;
+  version: number;
+  source: TimelineVersionSource;
+  summary: string;
+  task_count: number;
+  tasks?: Task[];
+  overrides?: TaskOverride[];
+  generated_by?: TimelineGenerationStrategy | null;
+  created_at: string;
+}
+
+/** Columns listed in the history (everything but the snapshot itself) */
+const SUMMARY_COLUMNS = "id, timeline_id, version, source, summary, task_count, created_at";
+
+/**
+ * Tasks of a version being restored, with the progress they have now
+ *
+ * Restoring brings back the schedule and edits of a version but not
+ * whether a task was done then. Tasks are matched by ID, then by step
+ * key; a task that isn't in the current timeline is pending.
+ *
+ * @param tasks - Tasks from the snapshot
+ * @param current - Tasks of the timeline as it is now
+ */
+export function keepTaskProgress(tasks: Task[], current: Task[]): Task[] {
+  const keyedCurrent = assignStepKeys(current);
+  const byId = new Map(keyedCurrent.filter((t) => t.id).map((t) => [t.id!, t]));
+  const byStep = new Map(keyedCurrent.map((t) => [t.stepKey!, t]));
+  const keyed = assignStepKeys(tasks);
+
+  return tasks.map((task, i) => {
+    const now = (task.id ? byId.get(task.id) : undefined) ?? byStep.get(keyed[i]!.stepKey!);
+    const progress = Object.fromEntries(
+      Array.from(PROGRESS_FIELDS, (field) => [field, now?.[field]])
+    ) as Partial<Task>;
+    return { ...task, ...progress, status: now?.status ?? "pending" };
+  });
+}
+
+/**
+ * One-line description of a save, e.g., "Changed Make gravy (length),
+ * removed Roll batch"
+ *
+ * @param source - What caused the save
+ * @param diff - Changes since the version before (null for the first version)
+ * @param taskCount - Tasks in the new version
+ * @param restoredVersion - Version copied back, for restores
+ */
+export function summarizeTimelineVersion(
+  source: TimelineVersionSource,
+  diff: TimelineDiff | null,
+  taskCount: number,
+  restoredVersion?: number
+): string {
+  const changes = diff ? describeDiff(diff) : undefined;
+
+  switch (source) {
+    case "generated":
+      if (!diff) return `Generated ${taskCount} task${taskCount !== 1 ? "s" : ""}`;
+      return `Regenerated: ${changes ?? "no task changes"}`;
+    case "reordered":
+      return "Reordered tasks";
+    case "restored":
+      return `Restored version ${restoredVersion ?? "?"}${changes ? `: ${changes}` : ""}`;
+    case "resolved":
+      return `Fixed conflicts${changes ? `: ${changes}` : ""}`;
+    case "deleted":
+      return changes ? capitalize(changes) : "Deleted a task";
+    case "edited":
+      return changes ? capitalize(changes) : "Updated a task";
+  }
+}
+
+/**
+ * Store a snapshot of a timeline as its next version
+ *
+ * The summary compares against the latest stored version. Snapshots
+ * beyond MAX_TIMELINE_VERSIONS are pruned oldest first.
+ *
+ * @param supabase - Supabase client
+ * @param timeline - The timeline as saved (needs an ID)
+ * @param source - What caused the save
+ * @param options.overrides - Manual edits kept for regeneration at the time
+ * @param options.restoredVersion - Version copied back, for restores
+ * @returns The new version's number
+ * @throws Error if the snapshot can't be saved
+ */
+export async function recordTimelineVersion(
+  supabase: SupabaseClient,
+  timeline: Timeline,
+  source: TimelineVersionSource,
+  options: { overrides?: TaskOverride[]; restoredVersion?: number } = {}
+): Promise<number> {
+  const latest = await getLatestTimelineVersion(supabase, timeline.id!);
+  const version = Math.max(latest?.version ?? 0, timeline.version ?? 0) + 1;
+  const diff = latest?.tasks ? diffTimelineTasks(latest.tasks, timeline.tasks) : null;
+
+  const { error } = await supabase.from("timeline_versions").insert({
+    timeline_id: timeline.id,
+    version,
+    source,
+    summary: summarizeTimelineVersion(
+      source,
+      diff,
+      timeline.tasks.length,
+      options.restoredVersion
+    ),
+    tasks: timeline.tasks,
+    overrides: options.overrides ?? [],
+    generated_by: timeline.generatedBy ?? null,
+    task_count: timeline.tasks.length,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save timeline version: ${error.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from("timelines")
+    .update({ version })
+    .eq("id", timeline.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update timeline version: ${updateError.message}`);
+  }
+
+  if (version > MAX_TIMELINE_VERSIONS) {
+    await supabase
+      .from("timeline_versions")
+      .delete()
+      .eq("timeline_id", timeline.id)
+      .lte("version", version - MAX_TIMELINE_VERSIONS);
+  }
+
+  return version;
+}
+
+/**
+ * List a timeline's versions, newest first, without their snapshots
+ *
+ * @throws Error if the history can't be read
+ */
+export async function listTimelineVersions(
+  supabase: SupabaseClient,
+  timelineId: string
+): Promise<TimelineVersion[]> {
+  const { data, error } = await supabase
+    .from("timeline_versions")
+    .select(SUMMARY_COLUMNS)
+    .eq("timeline_id", timelineId)
+    .order("version", { ascending: false })
+    .limit(MAX_TIMELINE_VERSIONS);
+
+  if (error) {
+    throw new Error(`Failed to fetch timeline versions: ${error.message}`);
+  }
+
+  return ((data ?? []) as TimelineVersionRow[]).map(transformVersionRow);
+}
+
+/**
+ * Get one version of a timeline, with its snapshot
+ *
+ * @returns The version, or null if it doesn't exist (or was pruned)
+ * @throws Error if the version can't be read
+ */
+export async function getTimelineVersion(
+  supabase: SupabaseClient,
+  timelineId: string,
+  version: number
+): Promise<TimelineVersion | null> {
+  const { data, error } = await supabase
+    .from("timeline_versions")
+    .select("*")
+    .eq("timeline_id", timelineId)
+    .eq("version", version)
+    .maybeSingle<TimelineVersionRow>();
+
+  if (error) {
+    throw new Error(`Failed to fetch timeline version: ${error.message}`);
+  }
+
+  return data ? transformVersionRow(data) : null;
+}
+
+/**
+ * Task lists of a timeline's stored versions, newest first
+ *
+ * @throws Error if the history can't be read
+ */
+export async function listTimelineVersionTasks(
+  supabase: SupabaseClient,
+  timelineId: string
+): Promise<Task[][]> {
+  const { data, error } = await supabase
+    .from("timeline_versions")
+    .select("tasks")
+    .eq("timeline_id", timelineId)
+    .order("version", { ascending: false })
+    .limit(MAX_TIMELINE_VERSIONS);
+
+  if (error) {
+    throw new Error(`Failed to fetch timeline versions: ${error.message}`);
+  }
+
+  return ((data ?? []) as Pick<TimelineVersionRow, "tasks">[]).map((row) => row.tasks ?? []);
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+async function getLatestTimelineVersion(
+  supabase: SupabaseClient,
+  timelineId: string
+): Promise<TimelineVersion | null> {
+  const { data, error } = await supabase
+    .from("timeline_versions")
+    .select("*")
+    .eq("timeline_id", timelineId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle<TimelineVersionRow>();
+
+  if (error) {
+    throw new Error(`Failed to fetch timeline versions: ${error.message}`);
+  }
+
+  return data ? transformVersionRow(data) : null;
+}
+
+/**
+ * Changed, removed and added tasks by name, in lowercase, or undefined if none
+ */
+function describeDiff(diff: TimelineDiff): string | undefined {
+  const parts = [
+    ...diff.changed.map(
+      (change) => `changed ${change.after.title} (${change.fields.map(describeField).join(", ")})`
+    ),
+    ...diff.removed.map((task) => `removed ${task.title}`),
+    ...diff.added.map((task) => `added ${task.title}`),
+  ];
+  if (parts.length === 0) return undefined;
+
+  const listed = parts.slice(0, SUMMARY_TASK_LIMIT);
+  if (parts.length > SUMMARY_TASK_LIMIT) {
+    listed.push(`and ${parts.length - SUMMARY_TASK_LIMIT} more`);
+  }
+  return listed.join(", ");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function describeField(field: TaskOverrideField): string {
+  switch (field) {
+    case "startTimeMinutes":
+      return "start";
+    case "durationMinutes":
+      return "length";
+    case "requiresOven":
+      return "oven";
+    case "ovenTemp":
+      return "oven temp";
+    case "resources":
+      return "equipment";
+    case "assigneeId":
+      return "cook";
+    case "prepDaysBefore":
+      return "day";
+    default:
+      return field;
+  }
+}
+
+function transformVersionRow(row: TimelineVersionRow): TimelineVersion {
+  return {
+    id: row.id,
+    timelineId: row.timeline_id,
+    version: row.version,
+    source: row.source,
+    summary: row.summary,
+    taskCount: row.task_count,
+    createdAt: row.created_at,
+    tasks: row.tasks,
+    generatedBy: row.generated_by ?? undefined,
+    overrides: row.overrides,
+  };
+}
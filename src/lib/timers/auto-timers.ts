@@ -0,0 +1,104 @@
+import type { AutoTimerMode, Task } from "@/types";
+
+export type { AutoTimerMode };
+
+export const AUTO_TIMER_MODES: { value: AutoTimerMode; label: string }[] = [
+  { value: "off", label: "No auto timers" },
+  { value: "offer", label: "Offer timers" },
+  { value: "auto", label: "Start timers automatically" },
+];
+
+export const DEFAULT_AUTO_TIMER_MODE: AutoTimerMode = "offer";
+
+/**
+ * A timer suggested for a task
+ */
+export interface TimerSuggestion {
+  taskId: string;
+  label: string;
+  durationMinutes: number;
+  /** Where the duration came from */
+  source: "description" | "duration";
+}
+
+/** Titles of tasks that run on their own when attention isn't recorded */
+const HANDS_OFF_PATTERN =
+  /\b(roast|bake|rest|simmer|braise|chill|marinate|proof|prove|rise|steep|soak|slow[- ]cook)/i;
+
+/** "45 minutes", "1 hr", "1-2 hours", "20 to 25 mins" */
+const DURATION_PATTERN =
+  /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(hours?|hrs?|minutes?|mins?)\b/gi;
+
+/**
+ * Whether a task runs without the cook (roasting, resting, chilling)
+ *
+ * Uses the task's attention when the timeline recorded it, otherwise the
+ * title.
+ */
+export function isHandsOffTask(task: Pick<Task, "title" | "attention">): boolean {
+  if (task.attention) {
+    return task.attention === "passive";
+  }
+  return HANDS_OFF_PATTERN.test(task.title);
+}
+
+/**
+ * Find durations written in text, in minutes
+ *
+ * Ranges give their lower bound, so the timer goes off when it's worth
+ * checking rather than when it's too late.
+ */
+export function parseDurationsFromText(text: string): number[] {
+  const minutes: number[] = [];
+  for (const match of Array.from(text.matchAll(DURATION_PATTERN))) {
+    const value = Number(match[1]);
+    const unit = (match[2] ?? "").toLowerCase();
+    const total = unit.startsWith("h") ? value * 60 : value;
+    if (total > 0) minutes.push(Math.round(total));
+  }
+  return minutes;
+}
+
+/**
+ * Suggest a timer for a task that just started
+ *
+ * A time written in the description beats the scheduled duration, since
+ * the schedule may pad it.
+ *
+ * @returns The suggestion, or null for hands-on tasks and tasks without a
+ *   usable duration
+ */
+export function getTimerSuggestion(task: Task): TimerSuggestion | null {
+  if (!task.id || !isHandsOffTask(task)) return null;
+
+  const fromDescription = task.description ? parseDurationsFromText(task.description)[0] : undefined;
+  if (fromDescription) {
+    return {
+      taskId: task.id,
+      label: task.title,
+      durationMinutes: fromDescription,
+      source: "description",
+    };
+  }
+
+  if (task.durationMinutes > 0) {
+    return {
+      taskId: task.id,
+      label: task.title,
+      durationMinutes: task.durationMinutes,
+      source: "duration",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Timer ID for a task's automatic timer
+ *
+ * The same on every device, so two devices starting it merge into one
+ * shared timer instead of two.
+ */
+export function getAutoTimerId(taskId: string): string {
+  return `auto-${taskId}`;
+}
@@ -5,4 +5,27 @@ export {
   type Timer,
   type TimerStatus,
   type TimerEventListener,
+  type TimerChangeListener,
+  type StartTimerOptions,
 } from "./timer-service";
+
+export {
+  AUTO_TIMER_MODES,
+  DEFAULT_AUTO_TIMER_MODE,
+  isHandsOffTask,
+  parseDurationsFromText,
+  getTimerSuggestion,
+  getAutoTimerId,
+  type AutoTimerMode,
+  type TimerSuggestion,
+} from "./auto-timers";
+
+export {
+  useAutoTimers,
+  useAutoTimerMode,
+  type UseAutoTimersOptions,
+  type UseAutoTimersResult,
+} from "./use-auto-timers";
+
+export { useTimerSync, type UseTimerSyncOptions } from "./use-timer-sync";
+export { mergeSharedTimers, TIMER_TOMBSTONE_TTL_MS } from "./shared-timers";
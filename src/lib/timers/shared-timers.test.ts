@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { SharedTimer } from "@/types";
+import { TIMER_TOMBSTONE_TTL_MS, mergeSharedTimers } from "./shared-timers";
+
+const NOW = Date.parse("2025-11-27T17:00:00Z");
+
+function timer(id: string, updatedAt: string, overrides: Partial<SharedTimer> = {}): SharedTimer {
+  return {
+    id,
+    taskId: `task-${id}`,
+    label: `Timer ${id}`,
+    durationSeconds: 600,
+    status: "running",
+    remainingSeconds: 600,
+    updatedAt,
+    ...overrides,
+  };
+}
+
+describe("mergeSharedTimers", () => {
+  it("keeps timers the sending device hasn't heard about", () => {
+    const stored = [timer("a", "2025-11-27T16:59:00Z")];
+    const incoming = [timer("b", "2025-11-27T16:59:30Z")];
+
+    expect(mergeSharedTimers(stored, incoming, NOW).map((t) => t.id)).toEqual(["a", "b"]);
+  });
+
+  it("takes the newer copy of the same timer", () => {
+    const stored = [timer("a", "2025-11-27T16:59:00Z", { status: "paused" })];
+
+    expect(mergeSharedTimers(stored, [timer("a", "2025-11-27T16:58:00Z")], NOW)[0]?.status).toBe(
+      "paused"
+    );
+    expect(mergeSharedTimers(stored, [timer("a", "2025-11-27T16:59:30Z")], NOW)[0]?.status).toBe(
+      "running"
+    );
+  });
+
+  it("keeps a dismissal until it expires", () => {
+    const recent = new Date(NOW - 60_000).toISOString();
+    const expired = new Date(NOW - TIMER_TOMBSTONE_TTL_MS - 1).toISOString();
+    const stored = [
+      timer("a", recent, { status: "dismissed" }),
+      timer("b", expired, { status: "dismissed" }),
+    ];
+
+    // A device that missed the dismissal sends its older running copy
+    const merged = mergeSharedTimers(
+      stored,
+      [timer("a", new Date(NOW - 120_000).toISOString())],
+      NOW
+    );
+
+    expect(merged.map((t) => [t.id, t.status])).toEqual([["a", "dismissed"]]);
+  });
+});
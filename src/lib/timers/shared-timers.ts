@@ -0,0 +1,40 @@
+import type { SharedTimer } from "@/types";
+
+/**
+ * How long a dismissal is shared before it's forgotten
+ */
+export const TIMER_TOMBSTONE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Merge a device's timers into the stored list
+ *
+ * Per timer id the newer updatedAt wins (the stored one on a tie), and
+ * timers the device doesn't know about are kept, so two devices starting
+ * timers at the same moment both keep theirs. Dismissals stay as
+ * tombstones until TIMER_TOMBSTONE_TTL_MS has passed, so a device that
+ * missed one can't bring the timer back.
+ *
+ * @param stored - Timers saved on the timeline
+ * @param incoming - Timers sent by one device
+ * @param now - Current time in ms (default: now)
+ * @returns The merged list, stored order first
+ */
+export function mergeSharedTimers(
+  stored: SharedTimer[],
+  incoming: SharedTimer[],
+  now = Date.now()
+): SharedTimer[] {
+  const merged = new Map(stored.map((timer) => [timer.id, timer]));
+
+  for (const timer of incoming) {
+    const current = merged.get(timer.id);
+    if (!current || Date.parse(timer.updatedAt) > Date.parse(current.updatedAt)) {
+      merged.set(timer.id, timer);
+    }
+  }
+
+  return Array.from(merged.values()).filter(
+    (timer) =>
+      timer.status !== "dismissed" || now - Date.parse(timer.updatedAt) <= TIMER_TOMBSTONE_TTL_MS
+  );
+}
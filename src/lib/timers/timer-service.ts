@@ -1,5 +1,15 @@
 "use client";
 
+import type { SharedTimer } from "@/types";
+import {
+  putStoredTimer,
+  getStoredTimers,
+  deleteStoredTimer,
+  isIndexedDBAvailable,
+  type StoredTimer,
+} from "@/lib/offline";
+import { TIMER_TOMBSTONE_TTL_MS } from "./shared-timers";
+
 /**
  * Timer status
  */
@@ -17,6 +27,14 @@ export interface Timer {
   status: TimerStatus;
   createdAt: number;
   pausedAt?: number;
+  /** Meal the timer was started for; shared with its other devices */
+  mealId?: string;
+  /** When a running timer goes off (epoch ms) */
+  endsAt?: number;
+  /** Last start, pause, reset, added time or dismissal (epoch ms) */
+  updatedAt: number;
+  /** Paused along with the timeline; resumes when it does */
+  heldByPause?: boolean;
 }
 
 /**
@@ -24,6 +42,21 @@ export interface Timer {
  */
 export type TimerEventListener = (timers: Timer[]) => void;
 
+/**
+ * Options for starting a timer
+ */
+export interface StartTimerOptions {
+  /** Meal to share the timer with */
+  mealId?: string;
+  /** Fixed ID, so the same timer started on two devices merges into one */
+  id?: string;
+}
+
+/**
+ * Called after a change made on this device to a meal's timers
+ */
+export type TimerChangeListener = (mealId: string) => void;
+
 /**
  * Generate unique ID
  */
@@ -36,11 +69,21 @@ function generateId(): string {
  *
  * Manages multiple countdown timers with persistence and audio alerts.
  * Runs entirely client-side - no network needed.
+ *
+ * Running timers count down to an absolute end time, so the remaining time
+ * stays right across reloads, sleeping tabs and other devices. Every timer
+ * is saved to IndexedDB; call restore() on load to bring them back.
+ * Timers started for a meal can also be shared: getSharedTimers() gives the
+ * meal's state to send, applySharedTimers() merges state from elsewhere.
  */
 class TimerServiceImpl {
   private timers: Map<string, Timer> = new Map();
   private intervals: Map<string, number> = new Map();
   private listeners: Set<TimerEventListener> = new Set();
+  private changeListeners: Set<TimerChangeListener> = new Set();
+  /** Recently dismissed timers, so dismissals reach other devices */
+  private tombstones: Map<string, { mealId: string; updatedAt: number }> = new Map();
+  private restorePromise: Promise<void> | null = null;
   private audioContext: AudioContext | null = null;
 
   /**
@@ -54,12 +97,51 @@ class TimerServiceImpl {
     return () => this.listeners.delete(listener);
   }
 
+  /**
+   * Subscribe to changes made on this device (not ones applied from others)
+   */
+  subscribeChanges(listener: TimerChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Bring back timers saved before a reload
+   *
+   * Running timers resume with the time actually left. Any that ran out
+   * while the page was closed are marked completed and the alert fires.
+   * Safe to call more than once.
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadStoredTimers().catch((error) => {
+        console.warn("Failed to restore timers:", error);
+      });
+    }
+    return this.restorePromise;
+  }
+
   /**
    * Start a new timer
+   *
+   * With a fixed ID that is already running, paused or completed, leaves it
+   * alone and returns the ID.
    */
-  startTimer(taskId: string, label: string, durationMinutes: number): string {
-    const id = generateId();
+  startTimer(
+    taskId: string,
+    label: string,
+    durationMinutes: number,
+    options: StartTimerOptions = {}
+  ): string {
+    const { mealId } = options;
+    const existing = options.id ? this.timers.get(options.id) : undefined;
+    if (existing && existing.status !== "dismissed") {
+      return existing.id;
+    }
+
+    const id = options.id ?? generateId();
     const durationSeconds = Math.round(durationMinutes * 60);
+    const now = Date.now();
 
     const timer: Timer = {
       id,
@@ -68,12 +150,16 @@ class TimerServiceImpl {
       durationSeconds,
       remainingSeconds: durationSeconds,
       status: "running",
-      createdAt: Date.now(),
+      createdAt: now,
+      mealId,
+      endsAt: now + durationSeconds * 1000,
+      updatedAt: now,
     };
 
     this.timers.set(id, timer);
+    this.tombstones.delete(id);
     this.startInterval(id);
-    this.notifyListeners();
+    this.commit(timer);
 
     return id;
   }
@@ -89,10 +175,12 @@ class TimerServiceImpl {
     this.stopInterval(timerId);
 
     // Update timer state
+    timer.remainingSeconds = secondsUntil(timer.endsAt);
     timer.status = "paused";
     timer.pausedAt = Date.now();
+    timer.endsAt = undefined;
 
-    this.notifyListeners();
+    this.commit(timer);
   }
 
   /**
@@ -104,9 +192,35 @@ class TimerServiceImpl {
 
     timer.status = "running";
     timer.pausedAt = undefined;
+    timer.heldByPause = undefined;
+    timer.endsAt = Date.now() + timer.remainingSeconds * 1000;
 
     this.startInterval(timerId);
-    this.notifyListeners();
+    this.commit(timer);
+  }
+
+  /**
+   * Pause a meal's running timers along with its timeline
+   *
+   * Timers the cook had already paused stay as they are, so
+   * releaseMealTimers() won't start them.
+   */
+  holdMealTimers(mealId: string): void {
+    for (const timer of Array.from(this.timers.values())) {
+      if (timer.mealId !== mealId || timer.status !== "running") continue;
+      timer.heldByPause = true;
+      this.pauseTimer(timer.id);
+    }
+  }
+
+  /**
+   * Resume the timers holdMealTimers() paused
+   */
+  releaseMealTimers(mealId: string): void {
+    for (const timer of Array.from(this.timers.values())) {
+      if (timer.mealId !== mealId || timer.status !== "paused" || !timer.heldByPause) continue;
+      this.resumeTimer(timer.id);
+    }
   }
 
   /**
@@ -121,9 +235,11 @@ class TimerServiceImpl {
     timer.remainingSeconds = timer.durationSeconds;
     timer.status = "running";
     timer.pausedAt = undefined;
+    timer.heldByPause = undefined;
+    timer.endsAt = Date.now() + timer.durationSeconds * 1000;
 
     this.startInterval(timerId);
-    this.notifyListeners();
+    this.commit(timer);
   }
 
   /**
@@ -135,14 +251,23 @@ class TimerServiceImpl {
 
     this.stopInterval(timerId);
     timer.status = "dismissed";
+    timer.updatedAt = Date.now();
+    if (timer.mealId) {
+      this.tombstones.set(timerId, { mealId: timer.mealId, updatedAt: timer.updatedAt });
+    }
 
     // Remove after brief delay (for animation)
     setTimeout(() => {
-      this.timers.delete(timerId);
+      // Unless restarted under the same ID in the meantime
+      if (this.timers.get(timerId)?.status === "dismissed") {
+        this.timers.delete(timerId);
+      }
       this.notifyListeners();
     }, 200);
 
+    this.forget(timerId);
     this.notifyListeners();
+    this.notifyChange(timer);
   }
 
   /**
@@ -168,7 +293,9 @@ class TimerServiceImpl {
     const timer = this.timers.get(timerId);
     if (!timer || timer.status === "dismissed") return;
 
-    timer.remainingSeconds = Math.max(0, timer.remainingSeconds + secondsToAdd);
+    const remaining =
+      timer.status === "running" ? secondsUntil(timer.endsAt) : timer.remainingSeconds;
+    timer.remainingSeconds = Math.max(0, remaining + secondsToAdd);
     timer.durationSeconds = timer.durationSeconds + secondsToAdd;
 
     // If timer was completed but we added time, restart it
@@ -176,8 +303,88 @@ class TimerServiceImpl {
       timer.status = "running";
       this.startInterval(timerId);
     }
+    if (timer.status === "running") {
+      timer.endsAt = Date.now() + timer.remainingSeconds * 1000;
+    }
 
-    this.notifyListeners();
+    this.commit(timer);
+  }
+
+  /**
+   * A meal's timers as shared with its other devices, dismissals included
+   */
+  getSharedTimers(mealId: string): SharedTimer[] {
+    const now = Date.now();
+    const shared = Array.from(this.timers.values())
+      .filter((t) => t.mealId === mealId && t.status !== "dismissed")
+      .map(toSharedTimer);
+
+    for (const [id, tombstone] of Array.from(this.tombstones.entries())) {
+      if (now - tombstone.updatedAt > TIMER_TOMBSTONE_TTL_MS) {
+        this.tombstones.delete(id);
+      } else if (tombstone.mealId === mealId) {
+        shared.push({
+          id,
+          taskId: "",
+          label: "",
+          durationSeconds: 0,
+          status: "dismissed",
+          remainingSeconds: 0,
+          updatedAt: new Date(tombstone.updatedAt).toISOString(),
+        });
+      }
+    }
+
+    return shared;
+  }
+
+  /**
+   * Merge a meal's timers from the server or another device
+   *
+   * Per timer, the newer change wins. Timers only this device knows about
+   * are kept (they may not have been sent yet). Doesn't notify change
+   * listeners, so applying shared state never echoes it back.
+   */
+  applySharedTimers(mealId: string, shared: SharedTimer[]): void {
+    let changed = false;
+
+    for (const remote of shared) {
+      const updatedAt = new Date(remote.updatedAt).getTime();
+      const local = this.timers.get(remote.id);
+      const localUpdatedAt = local?.updatedAt ?? this.tombstones.get(remote.id)?.updatedAt;
+      if (localUpdatedAt !== undefined && localUpdatedAt >= updatedAt) continue;
+
+      if (remote.status === "dismissed") {
+        if (Date.now() - updatedAt <= TIMER_TOMBSTONE_TTL_MS) {
+          this.tombstones.set(remote.id, { mealId, updatedAt });
+        }
+        if (local) {
+          this.stopInterval(remote.id);
+          this.timers.delete(remote.id);
+          this.forget(remote.id);
+          changed = true;
+        }
+        continue;
+      }
+
+      const timer = fromSharedTimer(remote, mealId, local?.createdAt ?? updatedAt);
+      this.timers.set(timer.id, timer);
+      if (timer.status === "running" && timer.remainingSeconds > 0) {
+        this.startInterval(timer.id);
+        this.persist(timer);
+      } else if (timer.status === "running") {
+        // Went off before this device heard about it; the others already alerted
+        this.complete(timer);
+      } else {
+        this.stopInterval(timer.id);
+        this.persist(timer);
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      this.notifyListeners();
+    }
   }
 
   /**
@@ -266,12 +473,10 @@ class TimerServiceImpl {
         return;
       }
 
-      timer.remainingSeconds--;
+      timer.remainingSeconds = secondsUntil(timer.endsAt);
 
       if (timer.remainingSeconds <= 0) {
-        timer.remainingSeconds = 0;
-        timer.status = "completed";
-        this.stopInterval(timerId);
+        this.complete(timer);
 
         // Alert user
         this.playAlertSound();
@@ -295,6 +500,99 @@ class TimerServiceImpl {
     }
   }
 
+  /**
+   * Mark a timer as run out
+   *
+   * Every device reaches this on its own at the same moment, so it's saved
+   * locally but not shared and doesn't count as a change.
+   */
+  private complete(timer: Timer): void {
+    timer.remainingSeconds = 0;
+    timer.status = "completed";
+    timer.endsAt = undefined;
+    this.stopInterval(timer.id);
+    this.persist(timer);
+  }
+
+  /**
+   * Load saved timers into memory (see restore())
+   */
+  private async loadStoredTimers(): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+
+    const stored = await getStoredTimers();
+    let firedWhileAway = false;
+
+    for (const record of stored) {
+      if (this.timers.has(record.id)) continue;
+
+      const timer = fromSharedTimer(
+        record,
+        record.mealId ?? undefined,
+        new Date(record.createdAt).getTime()
+      );
+      this.timers.set(timer.id, timer);
+
+      if (timer.status !== "running") continue;
+      if (timer.remainingSeconds <= 0) {
+        this.complete(timer);
+        firedWhileAway = true;
+      } else {
+        this.startInterval(timer.id);
+      }
+    }
+
+    if (firedWhileAway) {
+      this.playAlertSound();
+      this.vibrate();
+    }
+
+    this.notifyListeners();
+  }
+
+  /**
+   * Save, notify and share a change made on this device
+   */
+  private commit(timer: Timer): void {
+    timer.updatedAt = Date.now();
+    this.persist(timer);
+    this.notifyListeners();
+    this.notifyChange(timer);
+  }
+
+  /**
+   * Save a timer to IndexedDB (best effort)
+   */
+  private persist(timer: Timer): void {
+    if (!isIndexedDBAvailable()) return;
+
+    putStoredTimer(toStoredTimer(timer)).catch((error) => {
+      console.warn("Failed to save timer:", error);
+    });
+  }
+
+  /**
+   * Remove a timer from IndexedDB (best effort)
+   */
+  private forget(timerId: string): void {
+    if (!isIndexedDBAvailable()) return;
+
+    deleteStoredTimer(timerId).catch((error) => {
+      console.warn("Failed to remove timer:", error);
+    });
+  }
+
+  /**
+   * Tell change listeners about a meal timer changed on this device
+   */
+  private notifyChange(timer: Timer): void {
+    if (!timer.mealId) return;
+    const listenerArray = Array.from(this.changeListeners);
+    for (const listener of listenerArray) {
+      listener(timer.mealId);
+    }
+  }
+
   /**
    * Notify all listeners of state change
    */
@@ -315,7 +613,10 @@ class TimerServiceImpl {
       this.stopInterval(timerId);
     }
     this.timers.clear();
+    this.tombstones.clear();
     this.listeners.clear();
+    this.changeListeners.clear();
+    this.restorePromise = null;
 
     if (this.audioContext && this.audioContext.state !== "closed") {
       this.audioContext.close();
@@ -324,6 +625,66 @@ class TimerServiceImpl {
   }
 }
 
+/**
+ * Whole seconds until an end time (0 once passed or when there is none)
+ */
+function secondsUntil(endsAt: number | undefined, now: number = Date.now()): number {
+  if (endsAt === undefined) return 0;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+/**
+ * Convert a timer to its shared form
+ */
+function toSharedTimer(timer: Timer): SharedTimer {
+  return {
+    id: timer.id,
+    taskId: timer.taskId,
+    label: timer.label,
+    durationSeconds: timer.durationSeconds,
+    status: timer.status,
+    endsAt: timer.endsAt !== undefined ? new Date(timer.endsAt).toISOString() : undefined,
+    remainingSeconds:
+      timer.status === "running" ? secondsUntil(timer.endsAt) : timer.remainingSeconds,
+    heldByPause: timer.heldByPause,
+    updatedAt: new Date(timer.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Convert a timer to its saved form
+ */
+function toStoredTimer(timer: Timer): StoredTimer {
+  return {
+    ...toSharedTimer(timer),
+    mealId: timer.mealId ?? null,
+    createdAt: new Date(timer.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Build a timer from shared or saved state
+ */
+function fromSharedTimer(shared: SharedTimer, mealId: string | undefined, createdAt: number): Timer {
+  const endsAt =
+    shared.status === "running" && shared.endsAt ? new Date(shared.endsAt).getTime() : undefined;
+
+  return {
+    id: shared.id,
+    taskId: shared.taskId,
+    label: shared.label,
+    durationSeconds: shared.durationSeconds,
+    remainingSeconds: endsAt !== undefined ? secondsUntil(endsAt) : shared.remainingSeconds,
+    status: shared.status,
+    createdAt,
+    pausedAt: shared.status === "paused" ? new Date(shared.updatedAt).getTime() : undefined,
+    mealId,
+    endsAt,
+    updatedAt: new Date(shared.updatedAt).getTime(),
+    heldByPause: shared.heldByPause,
+  };
+}
+
 // Singleton instance
 let timerServiceInstance: TimerServiceImpl | null = null;
 
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { Task, TaskStatus } from "@/types";
+import { getTimerService } from "./timer-service";
+import {
+  DEFAULT_AUTO_TIMER_MODE,
+  getAutoTimerId,
+  getTimerSuggestion,
+  type AutoTimerMode,
+  type TimerSuggestion,
+} from "./auto-timers";
+
+/**
+ * A meal's auto timer mode, saved on the meal
+ *
+ * Every device cooking the meal uses the same mode. Changes show at once
+ * and are undone if the server rejects them; other devices pick them up
+ * with the next live state refresh.
+ *
+ * @param mealId - Meal the mode belongs to
+ * @param saved - Mode from the meal as last loaded (default until loaded)
+ * @returns The mode and a setter that resolves to whether it was saved
+ */
+export function useAutoTimerMode(
+  mealId: string,
+  saved: AutoTimerMode | undefined
+): [AutoTimerMode, (mode: AutoTimerMode) => Promise<boolean>] {
+  const [mode, setMode] = useState<AutoTimerMode>(saved ?? DEFAULT_AUTO_TIMER_MODE);
+
+  // Follow the meal when it is loaded or changed elsewhere
+  useEffect(() => {
+    if (saved) {
+      setMode(saved);
+    }
+  }, [saved]);
+
+  const update = useCallback(
+    async (value: AutoTimerMode) => {
+      const previous = mode;
+      setMode(value);
+      try {
+        const response = await fetch(`/api/meals/${mealId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ autoTimerMode: value }),
+        });
+        if (response.ok) return true;
+      } catch {
+        // Offline: fall through and keep the saved mode
+      }
+      setMode(previous);
+      return false;
+    },
+    [mealId, mode]
+  );
+
+  return [mode, update];
+}
+
+export interface UseAutoTimersOptions {
+  mealId: string;
+  /** Live tasks; watched for tasks moving from pending to in_progress */
+  tasks: Task[] | undefined;
+  mode: AutoTimerMode;
+  /** Only react while cooking (default: true) */
+  enabled?: boolean;
+}
+
+export interface UseAutoTimersResult {
+  /** Timers waiting for the cook to accept (mode "offer") */
+  offers: TimerSuggestion[];
+  /** Start an offered timer */
+  accept: (taskId: string) => void;
+  /** Drop an offer */
+  decline: (taskId: string) => void;
+  /**
+   * Undo auto timers and offers for tasks that started at or after a time
+   *
+   * Call when undoing the checkoff that moved those tasks along.
+   */
+  cancelSince: (since: number) => void;
+}
+
+/**
+ * Hook for timers that start themselves when a hands-off task starts
+ *
+ * Watches the live tasks. When one moves from pending to in_progress and is
+ * hands-off (see isHandsOffTask), either offers a timer or starts it,
+ * depending on the mode. Tasks already in progress when the page loads are
+ * left alone. Auto timers use a per-task ID, so devices sharing the meal
+ * end up with one timer, not one each.
+ */
+export function useAutoTimers({
+  mealId,
+  tasks,
+  mode,
+  enabled = true,
+}: UseAutoTimersOptions): UseAutoTimersResult {
+  const [offers, setOffers] = useState<TimerSuggestion[]>([]);
+  const previousStatuses = useRef<Map<string, TaskStatus> | null>(null);
+  /** When each task's auto timer or offer appeared, for cancelSince */
+  const startedAt = useRef<Map<string, number>>(new Map());
+
+  const start = useCallback(
+    (suggestion: TimerSuggestion) => {
+      getTimerService().startTimer(
+        suggestion.taskId,
+        suggestion.label,
+        suggestion.durationMinutes,
+        { mealId, id: getAutoTimerId(suggestion.taskId) }
+      );
+    },
+    [mealId]
+  );
+
+  // Detect tasks that just started
+  useEffect(() => {
+    if (!tasks) return;
+
+    const statuses = new Map(
+      tasks.filter((t) => t.id).map((t) => [t.id!, t.status] as const)
+    );
+    const previous = previousStatuses.current;
+    previousStatuses.current = statuses;
+
+    // First sighting only records what's already running
+    if (!previous || !enabled || mode === "off") return;
+
+    const suggestions = tasks
+      .filter((t) => t.id && t.status === "in_progress" && previous.get(t.id) === "pending")
+      .map(getTimerSuggestion)
+      .filter((s): s is TimerSuggestion => s !== null);
+
+    if (suggestions.length === 0) return;
+
+    const now = Date.now();
+    for (const suggestion of suggestions) {
+      startedAt.current.set(suggestion.taskId, now);
+    }
+
+    if (mode === "auto") {
+      suggestions.forEach(start);
+    } else {
+      setOffers((current) => [
+        ...current.filter((o) => !suggestions.some((s) => s.taskId === o.taskId)),
+        ...suggestions,
+      ]);
+    }
+  }, [tasks, mode, enabled, start]);
+
+  // Drop offers for tasks that finished or went back to pending
+  useEffect(() => {
+    if (!tasks) return;
+    setOffers((current) => {
+      const next = current.filter(
+        (o) => tasks.find((t) => t.id === o.taskId)?.status === "in_progress"
+      );
+      return next.length === current.length ? current : next;
+    });
+  }, [tasks]);
+
+  // Drop offers another device already accepted
+  useEffect(() => {
+    return getTimerService().subscribe((timers) => {
+      const running = new Set(timers.map((t) => t.id));
+      setOffers((current) => {
+        const next = current.filter((o) => !running.has(getAutoTimerId(o.taskId)));
+        return next.length === current.length ? current : next;
+      });
+    });
+  }, []);
+
+  const accept = useCallback(
+    (taskId: string) => {
+      const offer = offers.find((o) => o.taskId === taskId);
+      if (!offer) return;
+
+      // Tapping Start is a user gesture, which unlocks audio
+      getTimerService().initAudio();
+      start(offer);
+      setOffers((current) => current.filter((o) => o.taskId !== taskId));
+    },
+    [offers, start]
+  );
+
+  const decline = useCallback((taskId: string) => {
+    startedAt.current.delete(taskId);
+    setOffers((current) => current.filter((o) => o.taskId !== taskId));
+  }, []);
+
+  const cancelSince = useCallback((since: number) => {
+    const cancelled = Array.from(startedAt.current.entries())
+      .filter(([, at]) => at >= since)
+      .map(([taskId]) => taskId);
+    if (cancelled.length === 0) return;
+
+    const service = getTimerService();
+    for (const taskId of cancelled) {
+      startedAt.current.delete(taskId);
+      service.dismissTimer(getAutoTimerId(taskId));
+    }
+    setOffers((current) => current.filter((o) => !cancelled.includes(o.taskId)));
+  }, []);
+
+  return { offers, accept, decline, cancelSince };
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SharedTimer } from "@/types";
+import type { LiveSyncEvent } from "@/lib/realtime";
+import { getTimerService } from "./timer-service";
+
+/** Batch rapid changes (e.g., +1 min tapped three times) into one send */
+const SEND_DEBOUNCE_MS = 500;
+
+export interface UseTimerSyncOptions {
+  /** Meal whose timers to share */
+  mealId: string;
+  /** Timers last seen from the server or other devices (timeline.timers) */
+  sharedTimers: SharedTimer[] | undefined;
+  /** Live sync publish, for pushing changes to devices on the channel */
+  publish: (event: LiveSyncEvent) => Promise<void>;
+  /** Whether to share timers across devices (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Hook for restoring kitchen timers and sharing them across a meal's devices
+ *
+ * Restores saved timers on mount whether or not sharing is enabled. While
+ * enabled, merges timers arriving with the live state and sends this
+ * device's changes to the timeline (for polling devices) and the live sync
+ * channel. A failed send is logged; the timer keeps running here.
+ *
+ * @example
+ * ```tsx
+ * useTimerSync({ mealId, sharedTimers: liveState?.timeline.timers, publish });
+ * ```
+ */
+export function useTimerSync({
+  mealId,
+  sharedTimers,
+  publish,
+  enabled = true,
+}: UseTimerSyncOptions): void {
+  const publishRef = useRef(publish);
+
+  // Keep publish ref up to date
+  useEffect(() => {
+    publishRef.current = publish;
+  }, [publish]);
+
+  // Bring back timers from before a reload
+  useEffect(() => {
+    void getTimerService().restore();
+  }, []);
+
+  // Merge timers from the server or other devices
+  useEffect(() => {
+    if (!enabled || !sharedTimers) return;
+
+    void getTimerService()
+      .restore()
+      .then(() => getTimerService().applySharedTimers(mealId, sharedTimers));
+  }, [mealId, sharedTimers, enabled]);
+
+  // Send this device's changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const service = getTimerService();
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const send = async () => {
+      const timers = service.getSharedTimers(mealId);
+      void publishRef.current({ type: "timers_changed", timers });
+
+      try {
+        const response = await fetch(`/api/live/${mealId}/timers`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ timers }),
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        // Pick up timers other devices saved that this one hasn't heard about
+        const data: { timers: SharedTimer[] } = await response.json();
+        service.applySharedTimers(mealId, data.timers);
+      } catch (error) {
+        console.warn("Failed to share timers:", error);
+      }
+    };
+
+    const unsubscribe = service.subscribeChanges((changedMealId) => {
+      if (changedMealId !== mealId) return;
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        timeout = null;
+        void send();
+      }, SEND_DEBOUNCE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      // Don't lose a change made just before leaving
+      if (timeout) {
+        clearTimeout(timeout);
+        void send();
+      }
+    };
+  }, [mealId, enabled]);
+}
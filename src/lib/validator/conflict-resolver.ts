@@ -0,0 +1,293 @@
+/**
+ * Deterministic Conflict Resolver
+ *
+ * Repairs the blocking conflicts found by validateTimeline by moving
+ * tasks earlier. Same input always gives the same output.
+ *
+ * Fixes:
+ * - Serve time violations (task pulled back to end by serve time)
+ * - Dependency violations (dependency pulled back to end before its dependent)
+ * - Oven overlaps and over-subscribed resources (later task keeps its
+ *   slot, the other moves to the latest slot that fits)
+ * - Double-booked helpers (each helper's lane is packed like a
+ *   resource with capacity 1)
+ *
+ * Tasks only move earlier, so fixing one conflict never pushes anything
+ * past serve time. Durations are never changed. Tasks that are in
+ * progress, completed or skipped stay put.
+ *
+ * Splitting is out of scope: the resolver never breaks a task into
+ * parts, even an active one that could be interrupted, because the new
+ * tasks would need their own IDs, step keys and dependencies. A conflict
+ * that only a split would clear is left in remainingConflicts for the
+ * host to fix by hand.
+ */
+
+import type { Task, TimelineConflict, KitchenProfile, Helper } from "@/types";
+import { DEFAULT_KITCHEN_PROFILE, OVEN_RESOURCE_ID } from "@/types";
+import {
+  validateTimeline,
+  getTaskResourceClaims,
+  occupiesAssigneeLane,
+} from "./timeline-validator";
+
+/** Safety cap on repair passes (each pass only moves tasks earlier) */
+const MAX_PASSES = 50;
+
+/**
+ * One task moved by the resolver
+ */
+export interface TaskChange {
+  taskId: string;
+  title: string;
+  /** Start time before resolution (minutes relative to serve) */
+  beforeStartMinutes: number;
+  /** Start time after resolution (minutes relative to serve) */
+  afterStartMinutes: number;
+  /** Why the task moved */
+  reason: string;
+}
+
+/**
+ * Result of running the resolver
+ */
+export interface ConflictResolution {
+  /** Tasks with resolved times (same order as input) */
+  tasks: Task[];
+  /** Every task whose start time changed */
+  changes: TaskChange[];
+  /** Conflicts still present after resolution (errors and warnings) */
+  remainingConflicts: TimelineConflict[];
+  /** Number of error-level conflicts cleared */
+  resolvedCount: number;
+}
+
+/**
+ * Resolve timeline conflicts by shifting and reordering tasks
+ *
+ * @param tasks - Tasks to repair (not mutated)
+ * @param profile - Kitchen profile with resource capacities
+ * @param helpers - Meal helpers (names used in change reasons)
+ * @returns Repaired tasks, a change list for preview, and leftover conflicts
+ */
+export function resolveConflicts(
+  tasks: Task[],
+  profile: KitchenProfile = DEFAULT_KITCHEN_PROFILE,
+  helpers: Helper[] = []
+): ConflictResolution {
+  const before = validateTimeline(tasks, profile, helpers);
+  const working = tasks.map((t) => ({ ...t }));
+  const byId = new Map(working.filter((t) => t.id).map((t) => [t.id!, t]));
+  const reasons = new Map<string, string>();
+
+  const move = (task: Task, newEnd: number, reason: string) => {
+    if (!isMovable(task) || newEnd >= task.endTimeMinutes) return false;
+    task.startTimeMinutes = newEnd - task.durationMinutes;
+    task.endTimeMinutes = newEnd;
+    if (task.id && !reasons.has(task.id)) reasons.set(task.id, reason);
+    return true;
+  };
+
+  // Serve time: nothing may end after serve
+  for (const task of working) {
+    if (task.endTimeMinutes > 0) {
+      move(task, 0, "Ended after serve time");
+    }
+  }
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let changed = pullDependenciesEarlier(working, byId, move);
+
+    for (const resourceId of resourceIdsInUse(working)) {
+      const resource = profile.resources.find((r) => r.id === resourceId);
+      const capacity = resource?.capacity ?? (resourceId === OVEN_RESOURCE_ID ? 1 : undefined);
+      if (capacity === undefined) continue; // Unknown resource: warning only
+
+      const label = resourceId === OVEN_RESOURCE_ID ? "the oven" : (resource?.name ?? resourceId);
+      const claimOf = (task: Task) =>
+        getTaskResourceClaims(task).find((c) => c.resourceId === resourceId)?.quantity ?? 0;
+      changed = packResource(working, claimOf, capacity, label, move) || changed;
+    }
+
+    for (const helperId of assigneeIdsInUse(working)) {
+      const label = helpers.find((h) => h.id === helperId)?.name ?? "the helper";
+      const claimOf = (task: Task) =>
+        occupiesAssigneeLane(task) && task.assigneeId === helperId ? 1 : 0;
+      changed = packResource(working, claimOf, 1, label, move) || changed;
+    }
+
+    if (!changed) break;
+  }
+
+  const after = validateTimeline(working, profile, helpers);
+  const errorCount = (conflicts: TimelineConflict[]) =>
+    conflicts.filter((c) => c.severity === "error").length;
+
+  const changes: TaskChange[] = [];
+  tasks.forEach((original, index) => {
+    const updated = working[index]!;
+    if (original.id && updated.startTimeMinutes !== original.startTimeMinutes) {
+      changes.push({
+        taskId: original.id,
+        title: original.title,
+        beforeStartMinutes: original.startTimeMinutes,
+        afterStartMinutes: updated.startTimeMinutes,
+        reason: reasons.get(original.id) ?? "Moved to make room",
+      });
+    }
+  });
+
+  return {
+    tasks: working,
+    changes,
+    remainingConflicts: after.conflicts,
+    resolvedCount: Math.max(0, errorCount(before.conflicts) - errorCount(after.conflicts)),
+  };
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+type MoveFn = (task: Task, newEnd: number, reason: string) => boolean;
+
+/**
+ * Only tasks that haven't started can be rescheduled
+ */
+function isMovable(task: Task): boolean {
+  return task.status === "pending";
+}
+
+/**
+ * Pull each dependency back so it ends before its dependent starts
+ *
+ * Walks tasks from latest to earliest so a chain settles in one sweep.
+ */
+function pullDependenciesEarlier(working: Task[], byId: Map<string, Task>, move: MoveFn): boolean {
+  let changed = false;
+  const ordered = [...working].sort((a, b) => b.startTimeMinutes - a.startTimeMinutes);
+
+  for (const task of ordered) {
+    for (const depId of task.dependsOn ?? []) {
+      const dependency = byId.get(depId);
+      if (!dependency || dependency.endTimeMinutes <= task.startTimeMinutes) continue;
+
+      changed =
+        move(dependency, task.startTimeMinutes, `Must finish before "${task.title}"`) || changed;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * IDs of every resource claimed by at least one task
+ */
+function resourceIdsInUse(working: Task[]): string[] {
+  const ids = new Set<string>();
+  for (const task of working) {
+    for (const claim of getTaskResourceClaims(task)) ids.add(claim.resourceId);
+  }
+  return Array.from(ids).sort();
+}
+
+/**
+ * IDs of every helper with at least one task in their lane
+ */
+function assigneeIdsInUse(working: Task[]): string[] {
+  const ids = new Set<string>();
+  for (const task of working) {
+    if (occupiesAssigneeLane(task)) ids.add(task.assigneeId!);
+  }
+  return Array.from(ids).sort();
+}
+
+/**
+ * Re-pack tasks on one resource so usage never exceeds capacity
+ *
+ * Fixed tasks are placed first. Movable tasks are placed latest-first;
+ * each keeps its slot if it fits, otherwise moves to the latest earlier
+ * slot that does. This is where reordering happens: the task that ends
+ * later keeps its place and the other goes before it. A helper's lane
+ * is packed the same way with capacity 1.
+ */
+function packResource(
+  working: Task[],
+  claimOf: (task: Task) => number,
+  capacity: number,
+  label: string,
+  move: MoveFn
+): boolean {
+  const claimants = working.filter((t) => claimOf(t) > 0);
+  const placed: Array<{ start: number; end: number; quantity: number }> = [];
+  let changed = false;
+
+  for (const task of claimants.filter((t) => !isMovable(t))) {
+    placed.push({ start: task.startTimeMinutes, end: task.endTimeMinutes, quantity: claimOf(task) });
+  }
+
+  const movable = claimants
+    .filter(isMovable)
+    .sort((a, b) => b.endTimeMinutes - a.endTimeMinutes || a.title.localeCompare(b.title));
+
+  for (const task of movable) {
+    const quantity = claimOf(task);
+    const end = findLatestFit(task.endTimeMinutes, task.durationMinutes, quantity, placed, capacity);
+
+    if (end < task.endTimeMinutes) {
+      changed = move(task, end, `Waiting for ${label}`) || changed;
+    }
+
+    placed.push({ start: task.startTimeMinutes, end: task.endTimeMinutes, quantity });
+  }
+
+  return changed;
+}
+
+/**
+ * Latest end <= latestEnd where a block fits under capacity
+ *
+ * The best end is either latestEnd itself or the start of some placed
+ * block, so only those candidates are tried.
+ */
+function findLatestFit(
+  latestEnd: number,
+  duration: number,
+  quantity: number,
+  placed: Array<{ start: number; end: number; quantity: number }>,
+  capacity: number
+): number {
+  const candidates = [latestEnd, ...placed.map((p) => p.start).filter((s) => s < latestEnd)].sort(
+    (a, b) => b - a
+  );
+
+  for (const end of candidates) {
+    if (fitsUnderCapacity(end - duration, end, quantity, placed, capacity)) {
+      return end;
+    }
+  }
+
+  // Before everything placed always fits
+  return Math.min(latestEnd, ...placed.map((p) => p.start));
+}
+
+/**
+ * Whether adding [start, end) keeps usage within capacity at every point
+ */
+function fitsUnderCapacity(
+  start: number,
+  end: number,
+  quantity: number,
+  placed: Array<{ start: number; end: number; quantity: number }>,
+  capacity: number
+): boolean {
+  const overlapping = placed.filter((p) => p.start < end && start < p.end);
+  const points = [start, ...overlapping.map((p) => p.start).filter((s) => s > start)];
+
+  return points.every((point) => {
+    const used = overlapping
+      .filter((p) => p.start <= point && point < p.end)
+      .reduce((sum, p) => sum + p.quantity, 0);
+    return used + quantity <= capacity;
+  });
+}
@@ -2,16 +2,29 @@
  * Timeline Validator
  *
  * Pure functions for validating cooking timelines.
- * Detects conflicts like oven overlap, dependency violations, etc.
+ * Detects conflicts like oven overlap, over-subscribed kitchen
+ * resources, dependency violations, etc., and resolves them
+ * deterministically by moving tasks earlier.
  */
 
 export {
   validateTimeline,
   validateOvenConflicts,
+  validateResourceConflicts,
+  getTaskResourceClaims,
   validateDependencies,
   validateDurations,
   validateServeTime,
+  validateAttentionOverlaps,
+  validateHelperLanes,
+  occupiesAssigneeLane,
   hasBlockingConflicts,
   getBlockingConflicts,
   getWarningConflicts,
 } from "./timeline-validator";
+
+export {
+  resolveConflicts,
+  type ConflictResolution,
+  type TaskChange,
+} from "./conflict-resolver";
@@ -10,9 +10,21 @@
  * - Invalid durations (zero or negative)
  * - Serve time violations (tasks ending after serve time)
  * - Missing dependencies (task depends on non-existent task)
+ * - Over-subscribed kitchen resources (burners, mixer, hands...)
+ * - Claims on resources the kitchen profile doesn't have
+ * - Hands-on tasks overlapping for a single cook
+ * - Helpers double-booked in their own task lane
  */
 
-import type { Task, TimelineConflict, ConflictType, ConflictSeverity } from "@/types";
+import type {
+  Task,
+  TimelineConflict,
+  ConflictType,
+  ConflictSeverity,
+  KitchenProfile,
+  Helper,
+} from "@/types";
+import { DEFAULT_KITCHEN_PROFILE, HANDS_RESOURCE_ID, OVEN_RESOURCE_ID } from "@/types";
 import type { ValidationResult } from "@/contracts/timeline-service";
 
 /**
@@ -56,19 +68,139 @@ function formatRelativeTime(minutes: number): string {
   return `${hours}h ${mins}m before`;
 }
 
+/**
+ * A task's usage of one resource over time
+ */
+interface ResourceUsage {
+  taskId: string;
+  start: number;
+  end: number;
+  quantity: number;
+}
+
+/**
+ * A window where a resource is used beyond its capacity
+ */
+interface OverbookedWindow {
+  start: number;
+  end: number;
+  peak: number;
+  taskIds: string[];
+}
+
+/**
+ * Find windows where total usage exceeds capacity
+ *
+ * Sweeps the elementary segments between usage boundaries and merges
+ * adjacent over-capacity segments into a single window.
+ */
+function findOverbookedWindows(usages: ResourceUsage[], capacity: number): OverbookedWindow[] {
+  const points = Array.from(new Set(usages.flatMap((u) => [u.start, u.end]))).sort(
+    (a, b) => a - b
+  );
+  const windows: OverbookedWindow[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const segStart = points[i]!;
+    const segEnd = points[i + 1]!;
+    const active = usages.filter((u) => u.start < segEnd && segStart < u.end);
+    const used = active.reduce((sum, u) => sum + u.quantity, 0);
+
+    if (used <= capacity) continue;
+
+    const last = windows[windows.length - 1];
+    if (last && last.end === segStart) {
+      last.end = segEnd;
+      last.peak = Math.max(last.peak, used);
+      for (const u of active) {
+        if (!last.taskIds.includes(u.taskId)) last.taskIds.push(u.taskId);
+      }
+    } else {
+      windows.push({
+        start: segStart,
+        end: segEnd,
+        peak: used,
+        taskIds: active.map((u) => u.taskId),
+      });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Get every resource a task claims, with requiresOven folded in as one oven
+ *
+ * @param task - Task to inspect
+ * @returns Claims with quantities resolved (default 1)
+ */
+export function getTaskResourceClaims(
+  task: Task
+): Array<{ resourceId: string; quantity: number }> {
+  const claims = (task.resources ?? []).map((c) => ({
+    resourceId: c.resourceId,
+    quantity: c.quantity ?? 1,
+  }));
+
+  if (task.requiresOven && !claims.some((c) => c.resourceId === OVEN_RESOURCE_ID)) {
+    claims.push({ resourceId: OVEN_RESOURCE_ID, quantity: 1 });
+  }
+
+  return claims;
+}
+
+/**
+ * Capacity of a resource in a kitchen profile (undefined if not present)
+ */
+function getResourceCapacity(profile: KitchenProfile, resourceId: string): number | undefined {
+  return profile.resources.find((r) => r.id === resourceId)?.capacity;
+}
+
 // ============================================================================
 // Individual Validators
 // ============================================================================
 
 /**
- * Validate that no two oven tasks overlap in time
+ * Validate that oven tasks never exceed the number of ovens
+ *
+ * With a single oven, any two overlapping oven tasks conflict.
+ * With more ovens, a conflict is reported for each window where more
+ * oven tasks run than there are ovens, and for each pair of overlapping
+ * tasks set to different temperatures: the ovens are shared, so
+ * overlapping dishes are planned at one temperature whatever the count.
  *
  * @param tasks - Array of tasks to validate
+ * @param ovenCapacity - Number of ovens in the kitchen (default 1)
  * @returns Array of oven overlap conflicts
  */
-export function validateOvenConflicts(tasks: Task[]): TimelineConflict[] {
+export function validateOvenConflicts(tasks: Task[], ovenCapacity = 1): TimelineConflict[] {
   const conflicts: TimelineConflict[] = [];
-  const ovenTasks = tasks.filter((t) => t.requiresOven && t.id);
+  const ovenTasks = tasks.filter(
+    (t) => t.id && getTaskResourceClaims(t).some((c) => c.resourceId === OVEN_RESOURCE_ID)
+  );
+
+  if (ovenCapacity > 1) {
+    const usages = ovenTasks.map((t) => ({
+      taskId: t.id!,
+      start: t.startTimeMinutes,
+      end: t.endTimeMinutes,
+      quantity:
+        getTaskResourceClaims(t).find((c) => c.resourceId === OVEN_RESOURCE_ID)?.quantity ?? 1,
+    }));
+    const titles = new Map(ovenTasks.map((t) => [t.id!, t.title]));
+
+    for (const window of findOverbookedWindows(usages, ovenCapacity)) {
+      const names = window.taskIds.map((id) => `"${titles.get(id)}"`).join(", ");
+      conflicts.push(
+        createConflict(
+          "oven_overlap",
+          window.taskIds,
+          `${window.peak} oven tasks overlap from ${formatRelativeTime(window.start)} to ${formatRelativeTime(window.end)} but there are only ${ovenCapacity} ovens: ${names}`,
+          "error"
+        )
+      );
+    }
+  }
 
   // Compare each pair of oven tasks
   for (let i = 0; i < ovenTasks.length; i++) {
@@ -88,9 +220,15 @@ export function validateOvenConflicts(tasks: Task[]): TimelineConflict[] {
         const tempMismatch =
           taskA.ovenTemp && taskB.ovenTemp && taskA.ovenTemp !== taskB.ovenTemp;
 
-        const description = tempMismatch
-          ? `"${taskA.title}" (${taskA.ovenTemp}°F) and "${taskB.title}" (${taskB.ovenTemp}°F) both need the oven from ${formatRelativeTime(Math.max(taskA.startTimeMinutes, taskB.startTimeMinutes))} to ${formatRelativeTime(Math.min(taskA.endTimeMinutes, taskB.endTimeMinutes))}`
-          : `"${taskA.title}" and "${taskB.title}" both need the oven at the same time`;
+        // Spare ovens cover the overlap itself, but not a temperature clash
+        if (ovenCapacity > 1 && !tempMismatch) continue;
+
+        const overlap = `from ${formatRelativeTime(Math.max(taskA.startTimeMinutes, taskB.startTimeMinutes))} to ${formatRelativeTime(Math.min(taskA.endTimeMinutes, taskB.endTimeMinutes))}`;
+        const description = !tempMismatch
+          ? `"${taskA.title}" and "${taskB.title}" both need the oven at the same time`
+          : ovenCapacity > 1
+            ? `"${taskA.title}" (${taskA.ovenTemp}°F) and "${taskB.title}" (${taskB.ovenTemp}°F) overlap at different oven temperatures ${overlap}`
+            : `"${taskA.title}" (${taskA.ovenTemp}°F) and "${taskB.title}" (${taskB.ovenTemp}°F) both need the oven ${overlap}`;
 
         conflicts.push(
           createConflict(
@@ -198,6 +336,168 @@ export function validateDurations(tasks: Task[]): TimelineConflict[] {
   return conflicts;
 }
 
+/**
+ * Validate that kitchen resources other than the oven are not over-subscribed
+ *
+ * Ovens are handled by validateOvenConflicts. Claims on resources the
+ * profile doesn't list produce a warning rather than being ignored; that
+ * includes the oven, which validateOvenConflicts then checks as one oven.
+ *
+ * @param tasks - Array of tasks to validate
+ * @param profile - Kitchen profile with resource capacities
+ * @returns Array of resource conflicts
+ */
+export function validateResourceConflicts(
+  tasks: Task[],
+  profile: KitchenProfile = DEFAULT_KITCHEN_PROFILE
+): TimelineConflict[] {
+  const conflicts: TimelineConflict[] = [];
+  const usagesByResource = new Map<string, ResourceUsage[]>();
+  const titles = new Map<string, string>();
+  const hasOven = getResourceCapacity(profile, OVEN_RESOURCE_ID) !== undefined;
+
+  for (const task of tasks) {
+    if (!task.id) continue;
+    titles.set(task.id, task.title);
+
+    for (const claim of getTaskResourceClaims(task)) {
+      if (claim.resourceId === OVEN_RESOURCE_ID && hasOven) continue;
+
+      if (getResourceCapacity(profile, claim.resourceId) === undefined) {
+        conflicts.push(
+          createConflict(
+            "unknown_resource",
+            [task.id],
+            claim.resourceId === OVEN_RESOURCE_ID
+              ? `"${task.title}" needs the oven, but this kitchen has none listed (checked as one oven)`
+              : `"${task.title}" needs "${claim.resourceId}", which isn't in this kitchen`,
+            "warning"
+          )
+        );
+        continue;
+      }
+
+      const usages = usagesByResource.get(claim.resourceId) ?? [];
+      usages.push({
+        taskId: task.id,
+        start: task.startTimeMinutes,
+        end: task.endTimeMinutes,
+        quantity: claim.quantity,
+      });
+      usagesByResource.set(claim.resourceId, usages);
+    }
+  }
+
+  for (const [resourceId, usages] of Array.from(usagesByResource.entries())) {
+    const resource = profile.resources.find((r) => r.id === resourceId)!;
+
+    for (const window of findOverbookedWindows(usages, resource.capacity)) {
+      const names = window.taskIds.map((id) => `"${titles.get(id)}"`).join(", ");
+      conflicts.push(
+        createConflict(
+          "resource_overbooked",
+          window.taskIds,
+          `${resource.name}: ${window.peak} needed from ${formatRelativeTime(window.start)} to ${formatRelativeTime(window.end)} but only ${resource.capacity} available (${names})`,
+          "error"
+        )
+      );
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Warn when more hands-on tasks overlap than there are cooks
+ *
+ * Passive tasks (roasting, resting) and tasks with unknown attention
+ * don't count. This is a warning: a cook can juggle two active tasks
+ * for a few minutes, but it marks where the real crunch is.
+ *
+ * @param tasks - Array of tasks to validate
+ * @param cookCount - People cooking (the "hands" capacity, default 1)
+ * @returns Array of attention overlap warnings
+ */
+export function validateAttentionOverlaps(tasks: Task[], cookCount = 1): TimelineConflict[] {
+  const activeTasks = tasks.filter((t) => t.id && t.attention === "active");
+  const titles = new Map(activeTasks.map((t) => [t.id!, t.title]));
+  const usages = activeTasks.map((t) => ({
+    taskId: t.id!,
+    start: t.startTimeMinutes,
+    end: t.endTimeMinutes,
+    quantity: 1,
+  }));
+
+  return findOverbookedWindows(usages, cookCount).map((window) => {
+    const names = window.taskIds.map((id) => `"${titles.get(id)}"`).join(", ");
+    const cooks = cookCount === 1 ? "one cook" : `${cookCount} cooks`;
+    return createConflict(
+      "attention_overlap",
+      window.taskIds,
+      `${window.peak} hands-on tasks from ${formatRelativeTime(window.start)} to ${formatRelativeTime(window.end)} for ${cooks}: ${names}`,
+      "warning"
+    );
+  });
+}
+
+/**
+ * Whether a task occupies its assignee's lane
+ *
+ * Passive tasks (roasting, resting) don't tie anyone up.
+ */
+export function occupiesAssigneeLane(task: Task): boolean {
+  return !!task.assigneeId && task.attention !== "passive";
+}
+
+/**
+ * Validate that no helper is assigned overlapping tasks
+ *
+ * Each helper has one lane; hands-off tasks don't count against it.
+ * Unassigned tasks belong to the host and are covered by
+ * validateAttentionOverlaps and the "hands" resource instead.
+ *
+ * @param tasks - Array of tasks to validate
+ * @param helpers - Meal helpers, used for names in descriptions
+ * @returns Array of double-booking conflicts
+ */
+export function validateHelperLanes(tasks: Task[], helpers: Helper[] = []): TimelineConflict[] {
+  const conflicts: TimelineConflict[] = [];
+  const titles = new Map<string, string>();
+  const usagesByHelper = new Map<string, ResourceUsage[]>();
+
+  for (const task of tasks) {
+    if (!task.id || !occupiesAssigneeLane(task)) continue;
+    titles.set(task.id, task.title);
+
+    const usages = usagesByHelper.get(task.assigneeId!) ?? [];
+    usages.push({
+      taskId: task.id,
+      start: task.startTimeMinutes,
+      end: task.endTimeMinutes,
+      quantity: 1,
+    });
+    usagesByHelper.set(task.assigneeId!, usages);
+  }
+
+  for (const [helperId, usages] of Array.from(usagesByHelper.entries())) {
+    const name = helpers.find((h) => h.id === helperId)?.name ?? "A helper";
+
+    for (const window of findOverbookedWindows(usages, 1)) {
+      const names = window.taskIds.map((id) => `"${titles.get(id)}"`).join(", ");
+      conflicts.push(
+        createConflict(
+          "helper_double_booked",
+          window.taskIds,
+          `${name} has ${window.peak} tasks at once from ${formatRelativeTime(window.start)} to ${formatRelativeTime(window.end)}: ${names}`,
+          "error"
+        )
+      );
+    }
+  }
+
+  return conflicts;
+}
+
 /**
  * Validate that no tasks end after serve time
  *
@@ -245,15 +545,25 @@ export function validateServeTime(tasks: Task[]): TimelineConflict[] {
  * Run all validations on a timeline
  *
  * @param tasks - Array of tasks to validate
+ * @param profile - Kitchen profile (defaults to one oven, four burners, one cook)
+ * @param helpers - Meal helpers that tasks may be assigned to
  * @returns Complete validation result with all conflicts
  */
-export function validateTimeline(tasks: Task[]): ValidationResult {
-  // Run all validators
+export function validateTimeline(
+  tasks: Task[],
+  profile: KitchenProfile = DEFAULT_KITCHEN_PROFILE,
+  helpers: Helper[] = []
+): ValidationResult {
+  // Run all validators (a kitchen without an oven is flagged by
+  // validateResourceConflicts and checked as one oven)
   const allConflicts: TimelineConflict[] = [
-    ...validateOvenConflicts(tasks),
+    ...validateOvenConflicts(tasks, getResourceCapacity(profile, OVEN_RESOURCE_ID) ?? 1),
+    ...validateResourceConflicts(tasks, profile),
     ...validateDependencies(tasks),
     ...validateDurations(tasks),
     ...validateServeTime(tasks),
+    ...validateAttentionOverlaps(tasks, getResourceCapacity(profile, HANDS_RESOURCE_ID) ?? 1),
+    ...validateHelperLanes(tasks, helpers),
   ];
 
   // Group conflicts by task for the invalidTasks array
@@ -286,23 +596,23 @@ export function validateTimeline(tasks: Task[]): ValidationResult {
 /**
  * Check if a timeline has any blocking conflicts (errors)
  */
-export function hasBlockingConflicts(tasks: Task[]): boolean {
-  const result = validateTimeline(tasks);
+export function hasBlockingConflicts(tasks: Task[], profile?: KitchenProfile): boolean {
+  const result = validateTimeline(tasks, profile);
   return !result.isValid;
 }
 
 /**
  * Get only error-level conflicts (warnings are informational)
  */
-export function getBlockingConflicts(tasks: Task[]): TimelineConflict[] {
-  const result = validateTimeline(tasks);
+export function getBlockingConflicts(tasks: Task[], profile?: KitchenProfile): TimelineConflict[] {
+  const result = validateTimeline(tasks, profile);
   return result.conflicts.filter((c) => c.severity === "error");
 }
 
 /**
  * Get only warning-level conflicts
  */
-export function getWarningConflicts(tasks: Task[]): TimelineConflict[] {
-  const result = validateTimeline(tasks);
+export function getWarningConflicts(tasks: Task[], profile?: KitchenProfile): TimelineConflict[] {
+  const result = validateTimeline(tasks, profile);
   return result.conflicts.filter((c) => c.severity === "warning");
 }
@@ -0,0 +1,259 @@
+import { z } from "zod";
+
+/**
+ * What happened during a live cooking session
+ *
+ * - session_*: the host started, paused, resumed or ended cooking
+ * - task_*: a task started, was checked off, skipped, or un-checked
+ * - tasks_rescheduled: task times changed ("I'm behind", a suggestion, undo)
+ * - timer_*: a kitchen timer was started, went off, or was dismissed
+ */
+export type ExecutionEventType =
+  | "session_started"
+  | "session_paused"
+  | "session_resumed"
+  | "session_ended"
+  | "task_started"
+  | "task_completed"
+  | "task_skipped"
+  | "task_reopened"
+  | "tasks_rescheduled"
+  | "timer_started"
+  | "timer_finished"
+  | "timer_dismissed";
+
+/**
+ * Why task times changed during cooking
+ *
+ * - recalculation: an accepted "I'm behind" option
+ * - shift: a plain push later (offline "I'm behind")
+ * - undo: one of those reverted
+ */
+export type RescheduleReason = "recalculation" | "shift" | "undo";
+
+/**
+ * A task's times at one point (minutes relative to serve)
+ */
+export interface ExecutionTaskTimes {
+  taskId: string;
+  /** The task's step key, so the entry outlives the task row (session_started) */
+  stepKey?: string;
+  startTimeMinutes: number;
+  endTimeMinutes: number;
+}
+
+/**
+ * Details stored with an execution event (which fields are set depends on
+ * the type)
+ */
+export interface ExecutionEventData {
+  /** session_started: every task's planned times */
+  plannedTasks?: ExecutionTaskTimes[];
+  /** session_started: the serve time the plan was built for (ISO datetime) */
+  serveTime?: string;
+  /** session_resumed: how long the session was paused */
+  pausedMinutes?: number;
+  /** tasks_rescheduled: why */
+  reason?: RescheduleReason;
+  /** tasks_rescheduled, session_resumed: the new task times */
+  tasks?: ExecutionTaskTimes[];
+  /** timer_*: which timer */
+  timerId?: string;
+  /** timer_*: task the timer was started from */
+  timerTaskId?: string;
+  /** timer_*: timer label */
+  label?: string;
+  /** timer_*: full timer length */
+  durationSeconds?: number;
+}
+
+/**
+ * One entry in a meal's execution log
+ */
+export interface ExecutionEvent {
+  id?: string;
+  mealId: string;
+  /** Task the event is about (task_* events) */
+  taskId?: string;
+  /**
+   * The task's step key when the event was recorded
+   *
+   * Saving, regenerating or restoring a timeline replaces its task rows,
+   * which clears taskId on stored events; the step key finds the task again.
+   */
+  stepKey?: string;
+  /** The task's title when the event was recorded */
+  taskTitle?: string;
+  type: ExecutionEventType;
+  /** When it happened (ISO datetime) */
+  occurredAt: string;
+  data: ExecutionEventData;
+}
+
+/**
+ * How one task went against the plan
+ *
+ * Times are minutes relative to the planned serve time. Slip is actual
+ * minus planned, so positive means late.
+ */
+export interface TaskExecution {
+  taskId: string;
+  title: string;
+  recipeId: string;
+  status: "completed" | "skipped" | "not_done";
+  plannedStartMinutes: number;
+  plannedEndMinutes: number;
+  actualStartMinutes?: number;
+  actualEndMinutes?: number;
+  startSlipMinutes?: number;
+  endSlipMinutes?: number;
+  /** Minutes the task took beyond its planned length (negative if quicker) */
+  overrunMinutes?: number;
+}
+
+/**
+ * How one recipe went against the plan
+ */
+export interface RecipeSlippage {
+  recipeId: string;
+  recipeName: string;
+  /** When the recipe's last task was planned to finish */
+  plannedEndMinutes: number;
+  /** When its last task actually finished (unset if none were done) */
+  actualEndMinutes?: number;
+  /** Actual minus planned finish */
+  slipMinutes: number;
+  /** Most any one of its tasks overran */
+  worstOverrunMinutes: number;
+  taskCount: number;
+  skippedCount: number;
+}
+
+/**
+ * A task on the chain that decided when cooking finished
+ */
+export interface CriticalPathStep {
+  taskId: string;
+  title: string;
+  recipeId: string;
+  plannedEndMinutes: number;
+  actualEndMinutes: number;
+  /** How late the task finished */
+  slipMinutes: number;
+  /** Lateness this task added on top of the one before it */
+  addedSlipMinutes: number;
+}
+
+/**
+ * Post-meal report: the plan against what happened
+ */
+export interface ExecutionReport {
+  mealId: string;
+  /** Serve time the plan was built for (ISO datetime) */
+  plannedServeTime: string;
+  /** Serve time at the end, if it was moved during cooking */
+  finalServeTime?: string;
+  /** When cooking started and ended (ISO datetime) */
+  startedAt?: string;
+  endedAt?: string;
+  /**
+   * When the food was ready: the last checkoff, or the end of cooking if
+   * nothing was checked off (ISO datetime)
+   */
+  servedAt?: string;
+  /**
+   * Minutes servedAt was past the planned serve time (negative when
+   * early); null if cooking never got that far
+   */
+  servedLateMinutes: number | null;
+  tasks: TaskExecution[];
+  recipes: RecipeSlippage[];
+  /** Earliest first; empty when nothing was completed */
+  criticalPath: CriticalPathStep[];
+  /** Critical path task that added the most lateness, if any added some */
+  worstStepTaskId?: string;
+  /** Schedule changes made while cooking ("I'm behind", suggestions) */
+  recalculations: number;
+  pauses: number;
+  pausedMinutes: number;
+  timersStarted: number;
+  timersFinished: number;
+  /** Whether the planned times came from the log (older sessions lack them) */
+  hasPlanSnapshot: boolean;
+}
+
+/**
+ * How much longer (or shorter) than planned something takes this cook
+ */
+export interface DurationCorrection {
+  /** Typical actual minutes divided by planned minutes */
+  factor: number;
+  /** Past tasks the factor is based on */
+  samples: number;
+  /** Typical actual minutes (steps only) */
+  typicalMinutes?: number;
+}
+
+/**
+ * Duration corrections learned from past meals' execution logs
+ */
+export interface DurationCorrections {
+  /** By recipe ID: every step of the recipe */
+  recipes: Record<string, DurationCorrection>;
+  /** By step key (recipe plus instruction, or title): one step */
+  steps: Record<string, DurationCorrection>;
+}
+
+// ============================================================================
+// Zod Schemas for Runtime Validation
+// ============================================================================
+
+export const ExecutionEventTypeSchema = z.enum([
+  "session_started",
+  "session_paused",
+  "session_resumed",
+  "session_ended",
+  "task_started",
+  "task_completed",
+  "task_skipped",
+  "task_reopened",
+  "tasks_rescheduled",
+  "timer_started",
+  "timer_finished",
+  "timer_dismissed",
+]);
+
+export const RescheduleReasonSchema = z.enum(["recalculation", "shift", "undo"]);
+
+const ExecutionTaskTimesSchema = z.object({
+  taskId: z.string(),
+  stepKey: z.string().optional(),
+  startTimeMinutes: z.number(),
+  endTimeMinutes: z.number(),
+});
+
+export const ExecutionEventDataSchema = z.object({
+  plannedTasks: z.array(ExecutionTaskTimesSchema).optional(),
+  serveTime: z.string().optional(),
+  pausedMinutes: z.number().optional(),
+  reason: RescheduleReasonSchema.optional(),
+  tasks: z.array(ExecutionTaskTimesSchema).optional(),
+  timerId: z.string().optional(),
+  timerTaskId: z.string().optional(),
+  label: z.string().optional(),
+  durationSeconds: z.number().optional(),
+});
+
+export const ExecutionEventSchema = z.object({
+  id: z.string().uuid().optional(),
+  mealId: z.string().uuid(),
+  taskId: z.string().uuid().optional(),
+  stepKey: z.string().optional(),
+  taskTitle: z.string().optional(),
+  type: ExecutionEventTypeSchema,
+  occurredAt: z.string().datetime({ offset: true }),
+  data: ExecutionEventDataSchema,
+});
+
+// Type inference from schemas
+export type ExecutionEventInput = z.infer<typeof ExecutionEventSchema>;
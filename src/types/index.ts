@@ -3,9 +3,11 @@
  *
  * Core data models for the application:
  * - Recipe: Ingredient, Instruction, Recipe, ExtractionResult
- * - Meal: GuestCount, ScalingFactor, Meal, RecipeWithScaling
- * - Timeline: Task, Timeline, TimelineConflict, RecalculationSuggestion
+ * - Meal: GuestCount, ScalingFactor, Meal, RecipeWithScaling, Helper
+ * - Timeline: Task, Timeline, TimelineConflict, RecalculationSuggestion, RecalculationOption
  * - Shopping: ShoppingItem, ShoppingList, UnreconcilableItem
+ * - Kitchen: KitchenResource, KitchenProfile, ResourceClaim
+ * - Execution: ExecutionEvent, ExecutionReport
  */
 
 // Recipe types
@@ -36,11 +38,14 @@ export type {
   GuestCount,
   ScalingFactor,
   RecipeWithScaling,
+  Helper,
+  AutoTimerMode,
   MealStatus,
   Meal,
   MealSummary,
   GuestCountInput,
   ScalingFactorInput,
+  HelperInput,
   MealInput,
   MealSummaryInput,
 } from "./meal";
@@ -48,6 +53,9 @@ export type {
 export {
   GuestCountSchema,
   ScalingFactorSchema,
+  HelperSchema,
+  HelpersSchema,
+  AutoTimerModeSchema,
   MealStatusSchema,
   MealSchema,
   MealSummarySchema,
@@ -58,10 +66,24 @@ export type {
   TaskStatus,
   ConflictType,
   ConflictSeverity,
+  TaskAttention,
+  TimelineGenerationStrategy,
   Task,
+  TaskConflictSnapshot,
+  SharedTimer,
   TimelineConflict,
   Timeline,
   RecalculationSuggestion,
+  RecalculationStrategy,
+  RecalculationTaskChange,
+  RecalculationOption,
+  RecalculationPlan,
+  TaskOverrideField,
+  TaskOverride,
+  TaskDiffChange,
+  TimelineDiff,
+  TimelineVersionSource,
+  TimelineVersion,
   TaskInput,
   TimelineConflictInput,
   TimelineInput,
@@ -72,10 +94,18 @@ export {
   TaskStatusSchema,
   ConflictTypeSchema,
   ConflictSeveritySchema,
+  TaskAttentionSchema,
+  TimelineGenerationStrategySchema,
   TaskSchema,
+  GeneratedTaskSchema,
+  TaskConflictSnapshotSchema,
+  SharedTimerSchema,
   TimelineConflictSchema,
   TimelineSchema,
   RecalculationSuggestionSchema,
+  MAX_PREP_DAYS_BEFORE,
+  MINUTES_PER_DAY,
+  TASK_OVERRIDE_FIELDS,
 } from "./timeline";
 
 // Shopping types
@@ -102,19 +132,66 @@ export {
 
 // Share types
 export type {
+  ShareRole,
   ShareToken,
+  ShareLinkOptions,
   ShareLinkResult,
   ShareMealData,
   TokenValidationResult,
   ShareTokenInput,
+  ShareLinkOptionsInput,
   ShareLinkResultInput,
   ShareMealDataInput,
   TokenValidationResultInput,
 } from "./share";
 
 export {
+  ShareRoleSchema,
   ShareTokenSchema,
+  ShareLinkOptionsSchema,
   ShareLinkResultSchema,
   ShareMealDataSchema,
   TokenValidationResultSchema,
 } from "./share";
+
+// Kitchen types
+export type {
+  KitchenResource,
+  KitchenProfile,
+  ResourceClaim,
+  KitchenResourceInput,
+  KitchenProfileInput,
+  ResourceClaimInput,
+} from "./kitchen";
+
+export {
+  KitchenResourceSchema,
+  KitchenProfileSchema,
+  ResourceClaimSchema,
+  OVEN_RESOURCE_ID,
+  HANDS_RESOURCE_ID,
+  DEFAULT_KITCHEN_PROFILE,
+} from "./kitchen";
+
+// Execution log types
+export type {
+  ExecutionEventType,
+  RescheduleReason,
+  ExecutionTaskTimes,
+  ExecutionEventData,
+  ExecutionEvent,
+  TaskExecution,
+  RecipeSlippage,
+  CriticalPathStep,
+  ExecutionReport,
+  DurationCorrection,
+  DurationCorrections,
+  ExecutionEventInput,
+} from "./execution";
+
+export {
+  ExecutionEventTypeSchema,
+  RescheduleReasonSchema,
+  ExecutionEventDataSchema,
+  ExecutionEventSchema,
+} from "./execution";
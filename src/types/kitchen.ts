@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+/**
+ * A shared piece of kitchen equipment (or the cook's hands)
+ *
+ * Capacity is how many tasks can use the resource at once:
+ * two ovens = capacity 2, four burners = capacity 4.
+ */
+export interface KitchenResource {
+  /** Stable slug used in task claims, e.g., "oven", "burner" */
+  id: string;
+  /** Display name, e.g., "Stovetop burners" */
+  name: string;
+  /** How many tasks can use this resource at the same time */
+  capacity: number;
+}
+
+/**
+ * The kitchen a meal is cooked in
+ *
+ * Stored per meal so a holiday at someone else's house can use
+ * their equipment. Meals without a profile use DEFAULT_KITCHEN_PROFILE.
+ */
+export interface KitchenProfile {
+  resources: KitchenResource[];
+}
+
+/**
+ * A task's claim on a kitchen resource for its whole duration
+ */
+export interface ResourceClaim {
+  /** KitchenResource.id being claimed */
+  resourceId: string;
+  /** Units claimed (default 1), e.g., 2 burners */
+  quantity?: number;
+}
+
+/**
+ * Resource ID for ovens
+ *
+ * Tasks with requiresOven implicitly claim one unit of this resource.
+ */
+export const OVEN_RESOURCE_ID = "oven";
+
+/**
+ * Resource ID for the cook's hands (hands-on attention)
+ */
+export const HANDS_RESOURCE_ID = "hands";
+
+/**
+ * Typical home kitchen: one oven, four burners, one cook
+ */
+export const DEFAULT_KITCHEN_PROFILE: KitchenProfile = {
+  resources: [
+    { id: OVEN_RESOURCE_ID, name: "Oven", capacity: 1 },
+    { id: "burner", name: "Stovetop burners", capacity: 4 },
+    { id: HANDS_RESOURCE_ID, name: "Pair of hands", capacity: 1 },
+  ],
+};
+
+// ============================================================================
+// Zod Schemas for Runtime Validation
+// ============================================================================
+
+export const KitchenResourceSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .regex(/^[a-z0-9-]+$/, "Resource ID must be lowercase letters, numbers, and dashes"),
+  name: z.string().min(1),
+  capacity: z.number().int().positive().max(20),
+});
+
+export const KitchenProfileSchema = z.object({
+  resources: z
+    .array(KitchenResourceSchema)
+    .refine(
+      (resources) => new Set(resources.map((r) => r.id)).size === resources.length,
+      "Resource IDs must be unique"
+    ),
+});
+
+export const ResourceClaimSchema = z.object({
+  resourceId: z.string().min(1),
+  quantity: z.number().int().positive().optional(),
+});
+
+// Type inference from schemas
+export type KitchenResourceInput = z.infer<typeof KitchenResourceSchema>;
+export type KitchenProfileInput = z.infer<typeof KitchenProfileSchema>;
+export type ResourceClaimInput = z.infer<typeof ResourceClaimSchema>;
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import type { Recipe } from "./recipe";
+import { KitchenProfileSchema, type KitchenProfile } from "./kitchen";
 
 /**
  * Guest count for a meal
@@ -45,6 +46,27 @@ export interface RecipeWithScaling {
   scaling: ScalingFactor;
 }
 
+/**
+ * Someone cooking alongside the host (Aunt Sue, cousin Dan)
+ *
+ * Tasks are assigned to helpers by ID; unassigned tasks belong to the host.
+ */
+export interface Helper {
+  /** Stable ID referenced by Task.assigneeId */
+  id: string;
+  /** Display name */
+  name: string;
+}
+
+/**
+ * What live mode does when a hands-off task starts
+ *
+ * - off: nothing
+ * - offer: ask before starting a timer
+ * - auto: start the timer straight away
+ */
+export type AutoTimerMode = "off" | "offer" | "auto";
+
 /**
  * Meal planning status
  */
@@ -78,6 +100,13 @@ export interface Meal {
   /** Current planning/execution status */
   status: MealStatus;
 
+  /** Equipment available for this meal (DEFAULT_KITCHEN_PROFILE if unset) */
+  kitchenProfile?: KitchenProfile;
+  /** People helping cook (the host is implied and not listed) */
+  helpers?: Helper[];
+  /** Timers for hands-off tasks in live mode (DEFAULT_AUTO_TIMER_MODE if unset) */
+  autoTimerMode?: AutoTimerMode;
+
   /** Database timestamps */
   createdAt?: string;
   updatedAt?: string;
@@ -113,6 +142,21 @@ export const ScalingFactorSchema = z.object({
   reviewedAt: z.string().datetime().optional(),
 });
 
+export const HelperSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(50),
+});
+
+export const HelpersSchema = z
+  .array(HelperSchema)
+  .max(20)
+  .refine(
+    (helpers) => new Set(helpers.map((h) => h.id)).size === helpers.length,
+    "Helper IDs must be unique"
+  );
+
+export const AutoTimerModeSchema = z.enum(["off", "offer", "auto"]);
+
 export const MealStatusSchema = z.enum([
   "planning",
   "timeline_generated",
@@ -133,6 +177,9 @@ export const MealSchema = z.object({
     })
   ),
   status: MealStatusSchema,
+  kitchenProfile: KitchenProfileSchema.optional(),
+  helpers: HelpersSchema.optional(),
+  autoTimerMode: AutoTimerModeSchema.optional(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
@@ -149,5 +196,6 @@ export const MealSummarySchema = z.object({
 // Type inference from schemas
 export type GuestCountInput = z.infer<typeof GuestCountSchema>;
 export type ScalingFactorInput = z.infer<typeof ScalingFactorSchema>;
+export type HelperInput = z.infer<typeof HelperSchema>;
 export type MealInput = z.infer<typeof MealSchema>;
 export type MealSummaryInput = z.infer<typeof MealSummarySchema>;
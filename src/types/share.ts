@@ -1,10 +1,19 @@
 import { z } from "zod";
 import type { Timeline, Task } from "./timeline";
+import { HelpersSchema, type Helper } from "./meal";
+
+/**
+ * What a share link lets its holder do
+ *
+ * - viewer: read-only timeline
+ * - helper: can also check off tasks (only their own if the token names a helper)
+ */
+export type ShareRole = "viewer" | "helper";
 
 /**
  * Share token stored in database
  *
- * Allows read-only access to a meal's timeline for family viewers.
+ * Allows access to a meal's timeline for family viewers and helpers.
  * Tokens expire 24 hours after the meal's serve time.
  */
 export interface ShareToken {
@@ -12,12 +21,26 @@ export interface ShareToken {
   token: string;
   /** Reference to the shared meal */
   mealId: string;
+  /** What the token allows */
+  role: ShareRole;
+  /** Helper the token belongs to (helper role only; Helper.id) */
+  helperId?: string;
   /** When the token was created */
   createdAt: string;
   /** Pre-calculated expiration (serve_time + 24 hours) */
   expiresAt: string;
 }
 
+/**
+ * Options for generating a share link
+ */
+export interface ShareLinkOptions {
+  /** Defaults to "viewer" */
+  role?: ShareRole;
+  /** Helper identity for a helper link (Helper.id) */
+  helperId?: string;
+}
+
 /**
  * Result of generating a share link
  */
@@ -28,6 +51,10 @@ export interface ShareLinkResult {
   url: string;
   /** When the link will expire */
   expiresAt: string;
+  /** What the link allows */
+  role: ShareRole;
+  /** Helper the link belongs to, if any */
+  helperId?: string;
 }
 
 /**
@@ -43,6 +70,8 @@ export interface ShareMealData {
     serveTime: string;
     guestCount: number;
     status: string;
+    /** Helpers tasks can be assigned to (for the "my tasks" filter) */
+    helpers?: Helper[];
   };
   /** The cooking timeline */
   timeline: Timeline | null;
@@ -50,6 +79,11 @@ export interface ShareMealData {
   tasks: Task[];
   /** Recipe names mapped by ID for display */
   recipeNames: Record<string, string>;
+  /** What this link's holder may do */
+  access: {
+    role: ShareRole;
+    helperId?: string;
+  };
 }
 
 /**
@@ -60,6 +94,10 @@ export interface TokenValidationResult {
   valid: boolean;
   /** The meal ID if valid */
   mealId?: string;
+  /** Token role if valid */
+  role?: ShareRole;
+  /** Token's helper identity, if any */
+  helperId?: string;
   /** Error type if invalid */
   error?: "not_found" | "expired";
   /** Human-readable message */
@@ -70,17 +108,33 @@ export interface TokenValidationResult {
 // Zod Schemas for Runtime Validation
 // ============================================================================
 
+export const ShareRoleSchema = z.enum(["viewer", "helper"]);
+
 export const ShareTokenSchema = z.object({
   token: z.string().uuid(),
   mealId: z.string().uuid(),
+  role: ShareRoleSchema,
+  helperId: z.string().min(1).optional(),
   createdAt: z.string().datetime(),
   expiresAt: z.string().datetime(),
 });
 
+export const ShareLinkOptionsSchema = z
+  .object({
+    role: ShareRoleSchema.optional(),
+    helperId: z.string().min(1).optional(),
+  })
+  .refine((options) => !options.helperId || options.role === "helper", {
+    message: "Only helper links can name a helper",
+    path: ["helperId"],
+  });
+
 export const ShareLinkResultSchema = z.object({
   token: z.string().uuid(),
   url: z.string().url(),
   expiresAt: z.string().datetime(),
+  role: ShareRoleSchema,
+  helperId: z.string().min(1).optional(),
 });
 
 export const ShareMealDataSchema = z.object({
@@ -90,21 +144,29 @@ export const ShareMealDataSchema = z.object({
     serveTime: z.string().datetime(),
     guestCount: z.number().int().positive(),
     status: z.string(),
+    helpers: HelpersSchema.optional(),
   }),
   timeline: z.any().nullable(), // Full TimelineSchema validation happens elsewhere
   tasks: z.array(z.any()), // Full TaskSchema validation happens elsewhere
   recipeNames: z.record(z.string(), z.string()),
+  access: z.object({
+    role: ShareRoleSchema,
+    helperId: z.string().min(1).optional(),
+  }),
 });
 
 export const TokenValidationResultSchema = z.object({
   valid: z.boolean(),
   mealId: z.string().uuid().optional(),
+  role: ShareRoleSchema.optional(),
+  helperId: z.string().min(1).optional(),
   error: z.enum(["not_found", "expired"]).optional(),
   message: z.string().optional(),
 });
 
 // Type inference from schemas
 export type ShareTokenInput = z.infer<typeof ShareTokenSchema>;
+export type ShareLinkOptionsInput = z.infer<typeof ShareLinkOptionsSchema>;
 export type ShareLinkResultInput = z.infer<typeof ShareLinkResultSchema>;
 export type ShareMealDataInput = z.infer<typeof ShareMealDataSchema>;
 export type TokenValidationResultInput = z.infer<
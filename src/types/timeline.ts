@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ResourceClaimSchema, type ResourceClaim } from "./kitchen";
 
 /**
  * Task execution status during live cooking
@@ -13,7 +14,33 @@ export type ConflictType =
   | "task_order" // Dependency violation (A depends on B but starts before B ends)
   | "negative_duration" // Task has negative or zero duration
   | "serve_time" // Task ends after serve time
-  | "missing_dependency"; // Task depends on non-existent task
+  | "missing_dependency" // Task depends on non-existent task
+  | "resource_overbooked" // More tasks claim a kitchen resource than it has capacity for
+  | "unknown_resource" // Task claims a resource the kitchen profile doesn't have
+  | "attention_overlap" // More hands-on tasks at once than there are cooks
+  | "helper_double_booked"; // One helper assigned overlapping hands-on tasks
+
+/**
+ * How much of the cook's attention a task needs
+ * - active: Hands-on the whole time (whisking gravy, carving)
+ * - passive: Runs on its own (roasting, resting, chilling)
+ */
+export type TaskAttention = "active" | "passive";
+
+/**
+ * How a timeline's tasks were produced
+ * - ai: Claude generated the task sequence
+ * - local: Deterministic scheduler built tasks from recipe instructions
+ */
+export type TimelineGenerationStrategy = "ai" | "local";
+
+/**
+ * Furthest a make-ahead task can be scheduled before serve day
+ */
+export const MAX_PREP_DAYS_BEFORE = 7;
+
+/** Minutes in one prep day, for converting day offsets to task times */
+export const MINUTES_PER_DAY = 1440;
 
 /**
  * Conflict severity level
@@ -37,6 +64,12 @@ export interface Task {
   recipeId: string;
   /** Reference to instruction step (if applicable) */
   instructionId?: string;
+  /**
+   * Stable identity across regenerations: recipe + instruction (or
+   * normalized title), numbered when a step repeats. Manual edits are
+   * stored against it.
+   */
+  stepKey?: string;
 
   /** Task title, e.g., "Preheat oven to 350°F" */
   title: string;
@@ -50,6 +83,11 @@ export interface Task {
   startTimeMinutes: number;
   /** Duration in minutes */
   durationMinutes: number;
+  /**
+   * How long this step usually takes this cook, learned from past meals
+   * (unset = no history); generation already planned with it
+   */
+  typicalDurationMinutes?: number;
   /** Computed end time: startTimeMinutes + durationMinutes */
   endTimeMinutes: number;
 
@@ -57,9 +95,27 @@ export interface Task {
   requiresOven?: boolean;
   /** Oven temperature if required (for conflict detection) */
   ovenTemp?: number;
+  /**
+   * Kitchen resources held for the task's duration (burners, mixer, hands...)
+   * requiresOven already implies one oven; it doesn't need listing here.
+   */
+  resources?: ResourceClaim[];
+  /** Whether the cook is tied up for the whole task (unset = not known) */
+  attention?: TaskAttention;
+  /** Helper.id of the person doing this task (unset = the host) */
+  assigneeId?: string;
   /** Task IDs that must complete before this task can start */
   dependsOn?: string[];
 
+  /**
+   * Make-ahead prep day: whole days before serve day (0 or unset = serve day)
+   *
+   * Groups the task into a prep session (e.g., 1 = "the day before").
+   * startTimeMinutes is still relative to serve time, so a task at
+   * 10am the day before a 5pm dinner starts at -1860.
+   */
+  prepDaysBefore?: number;
+
   /** Current execution status */
   status: TaskStatus;
   /** When user marked task as completed */
@@ -71,6 +127,46 @@ export interface Task {
   isValid?: boolean;
   /** Validation error messages */
   validationErrors?: string[];
+
+  /** Last server write; offline edits record the version they were based on */
+  updatedAt?: string;
+}
+
+/**
+ * Server copy of a task, returned when a write was based on a stale version
+ */
+export interface TaskConflictSnapshot {
+  id: string;
+  status: TaskStatus;
+  completedAt?: string;
+  notes?: string;
+  startTimeMinutes: number;
+  endTimeMinutes: number;
+  updatedAt: string;
+}
+
+/**
+ * Kitchen timer state, as shared between devices cooking the same meal
+ *
+ * Running timers carry an absolute end time so every device counts down to
+ * the same moment. Dismissed timers are kept briefly as tombstones so the
+ * dismissal reaches devices that still have them.
+ */
+export interface SharedTimer {
+  id: string;
+  /** Task the timer was started from */
+  taskId: string;
+  label: string;
+  durationSeconds: number;
+  status: "running" | "paused" | "completed" | "dismissed";
+  /** When a running timer goes off (ISO datetime) */
+  endsAt?: string;
+  /** Seconds left when paused (0 once completed) */
+  remainingSeconds: number;
+  /** Paused because the whole timeline was paused; resumes with it */
+  heldByPause?: boolean;
+  /** Last change on any device (ISO datetime); the newest change wins */
+  updatedAt: string;
 }
 
 /**
@@ -107,12 +203,22 @@ export interface Timeline {
   /** List of detected conflicts */
   conflicts: TimelineConflict[];
 
+  /** How the tasks were generated (defaults to "ai" for older timelines) */
+  generatedBy?: TimelineGenerationStrategy;
+
   /** Live execution state */
   isRunning?: boolean;
   /** When "Start Cooking" was pressed (ISO datetime) */
   startedAt?: string;
   /** Currently active task ID (the "Now" task) */
   currentTaskId?: string;
+  /** When the running session was paused (ISO datetime); unset while not paused */
+  pausedAt?: string;
+  /** Kitchen timers shared by every device on the meal */
+  timers?: SharedTimer[];
+
+  /** Latest snapshot in the version history (0 or unset = none yet) */
+  version?: number;
 
   /** Database timestamps */
   createdAt?: string;
@@ -123,7 +229,9 @@ export interface Timeline {
  * Recalculation suggestion from Claude
  *
  * Returned when user taps "I'm behind" during cooking.
- * Always returns exactly ONE suggestion with clear description.
+ * Always returns exactly ONE suggestion with clear description; the
+ * recalculate route ranks it alongside deterministic options (see
+ * RecalculationOption).
  */
 export interface RecalculationSuggestion {
   /** Which task to move */
@@ -136,6 +244,177 @@ export interface RecalculationSuggestion {
   affectedTaskIds?: string[];
   /** Total number of tasks shifted */
   tasksShifted: number;
+  /**
+   * Exact new start of every task that moves, lead task included
+   *
+   * Set by the local engine, whose tasks move by different amounts. When
+   * absent, affected tasks move by the same amount as the lead task.
+   */
+  shifts?: Array<{ taskId: string; newStartTimeMinutes: number }>;
+}
+
+/**
+ * How a recalculation option catches up
+ *
+ * - shift_tasks: move only the tasks the delay actually reaches
+ * - start_in_parallel: start a hands-off task now, alongside current work
+ * - compress_task: do one hands-on task faster
+ * - push_serve_time: serve later and keep the remaining plan as is
+ * - drop_side: skip the rest of an optional side dish
+ * - ai_suggestion: Claude's suggested adjustment
+ */
+export type RecalculationStrategy =
+  | "shift_tasks"
+  | "start_in_parallel"
+  | "compress_task"
+  | "push_serve_time"
+  | "drop_side"
+  | "ai_suggestion";
+
+/**
+ * One task moved or dropped by a recalculation option, for the preview
+ *
+ * Times are relative to the current serve time, so the preview reads in
+ * clock times even when the option moves serve time.
+ */
+export interface RecalculationTaskChange {
+  taskId: string;
+  title: string;
+  /** Start before the change (minutes relative to serve) */
+  beforeStartMinutes: number;
+  /** Start after the change (minutes relative to serve) */
+  afterStartMinutes: number;
+  /** New length, when the task is hurried */
+  durationMinutes?: number;
+  /** Task is skipped instead of moved */
+  skipped?: boolean;
+}
+
+/**
+ * A candidate plan for getting back on schedule
+ *
+ * Returned in a ranked list when the user taps "I'm behind", so they
+ * can compare plans instead of asking again. Each option carries its
+ * full preview and the deterministic validator's verdict on it.
+ */
+export interface RecalculationOption {
+  /** Stable within one list (strategy plus the task or recipe involved) */
+  id: string;
+  strategy: RecalculationStrategy;
+  /** Short label, e.g., "Serve 15 min later" */
+  title: string;
+  /** One sentence on what the cook does differently */
+  description: string;
+  /** Every task with its new times and status (relative to the new serve time) */
+  tasks: Task[];
+  /** Tasks that move or are skipped */
+  changes: RecalculationTaskChange[];
+  /** Minutes the serve time moves later (push_serve_time only) */
+  serveTimeShiftMinutes?: number;
+  /** Minutes the last task still runs past serve time (0 when it fits) */
+  minutesPastServe: number;
+  /** Whether the validator found no error-level conflicts */
+  isValid: boolean;
+  /** Conflicts the validator found in the preview */
+  conflicts: TimelineConflict[];
+}
+
+/**
+ * Ranked recalculation options, best first
+ */
+export interface RecalculationPlan {
+  /** How far behind the cook is, in minutes (measured or assumed) */
+  behindMinutes: number;
+  /** Two or three options, best first */
+  options: RecalculationOption[];
+}
+
+/**
+ * Task fields a manual edit can change and regeneration keeps
+ *
+ * Status and notes belong to cooking, and dependsOn holds task IDs that
+ * don't survive regeneration, so none of them are kept.
+ */
+export const TASK_OVERRIDE_FIELDS = [
+  "title",
+  "description",
+  "startTimeMinutes",
+  "durationMinutes",
+  "requiresOven",
+  "ovenTemp",
+  "resources",
+  "attention",
+  "assigneeId",
+  "prepDaysBefore",
+] as const;
+
+export type TaskOverrideField = (typeof TASK_OVERRIDE_FIELDS)[number];
+
+/**
+ * A manual edit to one task, re-applied when the timeline is regenerated
+ */
+export interface TaskOverride {
+  /** Task.stepKey of the edited task */
+  stepKey: string;
+  /** Edited fields, replacing the generated values */
+  changes: Partial<Pick<Task, TaskOverrideField>>;
+  /** Task was deleted by hand and stays deleted */
+  deleted?: boolean;
+  /** Position in the task list after reordering by hand */
+  sortOrder?: number;
+  updatedAt?: string;
+}
+
+/**
+ * One task that exists in both versions but differs
+ */
+export interface TaskDiffChange {
+  stepKey: string;
+  before: Task;
+  after: Task;
+  /** Which fields differ */
+  fields: TaskOverrideField[];
+}
+
+/**
+ * What a regeneration changed, matched by step key
+ */
+export interface TimelineDiff {
+  added: Task[];
+  removed: Task[];
+  changed: TaskDiffChange[];
+}
+
+/**
+ * What caused a timeline save, as shown in the version history
+ */
+export type TimelineVersionSource =
+  | "generated" // Generated or regenerated from recipes
+  | "edited" // A task was edited
+  | "deleted" // A task was deleted
+  | "reordered" // Tasks were put in a new order
+  | "resolved" // Conflict fixes were applied
+  | "restored"; // An earlier version was restored (including undo/redo)
+
+/**
+ * A snapshot of a timeline, taken on every save
+ */
+export interface TimelineVersion {
+  id: string;
+  timelineId: string;
+  /** Increasing number within the timeline (1 = first snapshot) */
+  version: number;
+  source: TimelineVersionSource;
+  /** What changed since the version before, e.g., "Changed Make gravy (length)" */
+  summary: string;
+  taskCount: number;
+  createdAt: string;
+  /** The tasks as saved (only when a single version is read) */
+  tasks?: Task[];
+  /** How the tasks were generated at the time */
+  generatedBy?: TimelineGenerationStrategy;
+  /** Manual edits kept for regeneration at the time */
+  overrides?: TaskOverride[];
 }
 
 // ============================================================================
@@ -150,28 +429,76 @@ export const ConflictTypeSchema = z.enum([
   "negative_duration",
   "serve_time",
   "missing_dependency",
+  "resource_overbooked",
+  "unknown_resource",
+  "attention_overlap",
+  "helper_double_booked",
 ]);
 
+export const TaskAttentionSchema = z.enum(["active", "passive"]);
+
 export const ConflictSeveritySchema = z.enum(["error", "warning"]);
 
+export const TimelineGenerationStrategySchema = z.enum(["ai", "local"]);
+
 export const TaskSchema = z.object({
   id: z.string().uuid().optional(),
   mealId: z.string().uuid(),
   recipeId: z.string().uuid(),
   instructionId: z.string().uuid().optional(),
+  stepKey: z.string().min(1).optional(),
   title: z.string().min(1),
   description: z.string().optional(),
   startTimeMinutes: z.number().int(), // Can be negative (before serve time)
   durationMinutes: z.number().int().positive(),
+  typicalDurationMinutes: z.number().int().positive().optional(),
   endTimeMinutes: z.number().int(),
   requiresOven: z.boolean().optional(),
   ovenTemp: z.number().int().positive().optional(),
+  resources: z.array(ResourceClaimSchema).optional(),
+  attention: TaskAttentionSchema.optional(),
+  assigneeId: z.string().min(1).optional(),
   dependsOn: z.array(z.string().uuid()).optional(),
+  prepDaysBefore: z.number().int().nonnegative().max(MAX_PREP_DAYS_BEFORE).optional(),
   status: TaskStatusSchema,
   completedAt: z.string().datetime().optional(),
   notes: z.string().optional(),
   isValid: z.boolean().optional(),
   validationErrors: z.array(z.string()).optional(),
+  updatedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * A task as Claude generates it
+ *
+ * instructionId is required, so every task says which recipe step it
+ * carries out (null only for tasks that are no one step, like preheating).
+ * It keys manual edits, so they survive a regeneration that rewords titles.
+ */
+export const GeneratedTaskSchema = TaskSchema.extend({
+  instructionId: z.string().uuid().nullable(),
+});
+
+export const TaskConflictSnapshotSchema = z.object({
+  id: z.string().uuid(),
+  status: TaskStatusSchema,
+  completedAt: z.string().datetime({ offset: true }).optional(),
+  notes: z.string().optional(),
+  startTimeMinutes: z.number().int(),
+  endTimeMinutes: z.number().int(),
+  updatedAt: z.string().datetime({ offset: true }),
+});
+
+export const SharedTimerSchema = z.object({
+  id: z.string().min(1),
+  taskId: z.string().min(1),
+  label: z.string(),
+  durationSeconds: z.number().int().nonnegative(),
+  status: z.enum(["running", "paused", "completed", "dismissed"]),
+  endsAt: z.string().datetime({ offset: true }).optional(),
+  remainingSeconds: z.number().int().nonnegative(),
+  heldByPause: z.boolean().optional(),
+  updatedAt: z.string().datetime({ offset: true }),
 });
 
 export const TimelineConflictSchema = z.object({
@@ -187,9 +514,13 @@ export const TimelineSchema = z.object({
   tasks: z.array(TaskSchema),
   hasConflicts: z.boolean(),
   conflicts: z.array(TimelineConflictSchema),
+  generatedBy: TimelineGenerationStrategySchema.optional(),
   isRunning: z.boolean().optional(),
   startedAt: z.string().datetime().optional(),
   currentTaskId: z.string().uuid().optional(),
+  pausedAt: z.string().datetime({ offset: true }).optional(),
+  timers: z.array(SharedTimerSchema).optional(),
+  version: z.number().int().nonnegative().optional(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
@@ -200,6 +531,9 @@ export const RecalculationSuggestionSchema = z.object({
   description: z.string(),
   affectedTaskIds: z.array(z.string().uuid()).optional(),
   tasksShifted: z.number().int().nonnegative(),
+  shifts: z
+    .array(z.object({ taskId: z.string().uuid(), newStartTimeMinutes: z.number().int() }))
+    .optional(),
 });
 
 // Type inference from schemas
@@ -0,0 +1,9 @@
+-- Migration: Track how each timeline was generated
+-- Timelines can come from Claude or from the deterministic local scheduler
+-- (chosen explicitly, or used automatically when the AI call fails)
+
+alter table timelines
+  add column generated_by text not null default 'ai'
+    check (generated_by in ('ai', 'local'));
+
+comment on column timelines.generated_by is 'Generator that produced the tasks: ai (Claude) or local (deterministic scheduler)';
@@ -0,0 +1,18 @@
+-- Migration: Multi-resource kitchen model
+-- Meals carry a kitchen profile (named resources with capacities) and
+-- tasks carry the resources they hold, so the validator can detect
+-- over-subscribed burners, mixers, ovens, hands, etc.
+
+-- Kitchen profile per meal: { "resources": [{ "id", "name", "capacity" }] }
+-- Null means the default kitchen (1 oven, 4 burners, 1 cook)
+alter table meals
+  add column kitchen_profile jsonb;
+
+comment on column meals.kitchen_profile is 'Kitchen resources available for this meal; null = default profile';
+
+-- Resource claims per task: [{ "resourceId", "quantity" }]
+-- requires_oven still implies one oven and is not repeated here
+alter table tasks
+  add column resources jsonb not null default '[]'::jsonb;
+
+comment on column tasks.resources is 'Kitchen resources held for the task duration (excluding the implicit oven claim)';
@@ -0,0 +1,10 @@
+-- Migration: Make-ahead prep days
+-- Tasks can be scheduled on days before serve day (brine Saturday,
+-- pie Friday). Each non-zero day forms its own prep session.
+
+-- Whole days before serve day; 0 = cooked on serve day
+alter table tasks
+  add column prep_days_before integer not null default 0
+    check (prep_days_before >= 0 and prep_days_before <= 7);
+
+comment on column tasks.prep_days_before is 'Make-ahead prep session: days before serve day (0 = serve day)';
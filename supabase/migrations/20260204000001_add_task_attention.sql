@@ -0,0 +1,10 @@
+-- Migration: Active vs passive task attention
+-- Records whether a task ties up the cook (whisking gravy) or runs on
+-- its own (roasting, resting), so overlapping hands-on work can be flagged.
+
+-- Null = not known (older timelines); not counted by the overlap check
+alter table tasks
+  add column attention text
+    check (attention in ('active', 'passive'));
+
+comment on column tasks.attention is 'active = hands-on for the whole task, passive = unattended (roasting, resting, chilling)';
@@ -0,0 +1,17 @@
+-- Migration: Helpers and task assignees
+-- Big dinners split work between family members. Meals list their
+-- helpers and each task can be assigned to one of them.
+
+-- Helpers per meal: [{ "id", "name" }]; the host is implied
+alter table meals
+  add column helpers jsonb not null default '[]'::jsonb;
+
+comment on column meals.helpers is 'People cooking with the host; tasks reference them by id';
+
+-- Helper id from meals.helpers; null = the host
+alter table tasks
+  add column assignee_id text;
+
+comment on column tasks.assignee_id is 'Helper assigned to the task (meals.helpers id); null = the host';
+
+create index idx_tasks_assignee on tasks(meal_id, assignee_id);
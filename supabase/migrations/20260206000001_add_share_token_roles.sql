@@ -0,0 +1,22 @@
+-- Migration: Add roles to share tokens
+-- Sunday Dinner - Helper share links that can check off tasks
+--
+-- Viewer tokens stay read-only. Helper tokens may check off tasks through
+-- /api/share/{token}/tasks/{taskId}; a helper token that names a helper
+-- may only check off that helper's tasks.
+
+alter table meal_share_tokens
+  add column if not exists role text not null default 'viewer',
+  add column if not exists helper_id text;
+
+alter table meal_share_tokens
+  add constraint share_tokens_role_check
+  check (role in ('viewer', 'helper'));
+
+-- Only helper tokens carry a helper identity
+alter table meal_share_tokens
+  add constraint share_tokens_helper_id_check
+  check (helper_id is null or role = 'helper');
+
+comment on column meal_share_tokens.role is 'viewer (read-only) or helper (may check off tasks)';
+comment on column meal_share_tokens.helper_id is 'Helper.id from meals.helpers; limits a helper token to that helper''s tasks';
@@ -0,0 +1,11 @@
+-- Migration: Add shared kitchen timers to timelines
+-- Sunday Dinner - Timers that survive reloads and follow the meal across devices
+--
+-- Each entry is a SharedTimer: running timers store an absolute endsAt so
+-- every device counts down to the same moment. Devices merge entries by id,
+-- newest updatedAt wins; dismissed timers stay briefly as tombstones.
+
+alter table timelines
+  add column if not exists timers jsonb not null default '[]'::jsonb;
+
+comment on column timelines.timers is 'Shared kitchen timers (SharedTimer[]), replaced whole by PUT /api/live/{mealId}/timers';
@@ -0,0 +1,11 @@
+-- Migration: Pause the live timeline
+-- Sunday Dinner - Freeze the clock when the doorbell rings
+--
+-- While paused_at is set the live view holds its clock at that moment and
+-- nothing turns overdue. Resuming shifts every pending task later by the
+-- time spent paused, then clears paused_at.
+
+alter table timelines
+  add column if not exists paused_at timestamptz;
+
+comment on column timelines.paused_at is 'When the running session was paused; null while not paused';
@@ -0,0 +1,53 @@
+-- Migration: Create execution_events table
+-- Sunday Dinner - Record how the cooking day actually went
+--
+-- Live mode appends one row per thing that happened: the session starting,
+-- pausing and ending, tasks starting, finishing or being skipped, schedule
+-- changes and kitchen timers. The session_started row keeps the planned
+-- task times, so the post-meal report can compare plan against reality
+-- after the live shifts have overwritten them.
+
+create table if not exists execution_events (
+  id uuid primary key default gen_random_uuid(),
+
+  -- Meal the event belongs to
+  meal_id uuid not null references meals(id) on delete cascade,
+
+  -- Task the event is about (null for session and timer-only events)
+  task_id uuid references tasks(id) on delete set null,
+
+  -- What happened (see ExecutionEventType)
+  type text not null,
+
+  -- When it happened
+  occurred_at timestamptz not null default now(),
+
+  -- Event details (planned times, shifted tasks, timer info)
+  data jsonb not null default '{}',
+
+  created_at timestamptz not null default now()
+);
+
+-- Index for reading a meal's log in order
+create index if not exists idx_execution_events_meal_id
+  on execution_events(meal_id, occurred_at);
+
+-- Enable RLS
+alter table execution_events enable row level security;
+
+-- =============================================================================
+-- RLS Policies
+-- =============================================================================
+
+-- Public access for v1 (no auth), matching the other meal tables
+create policy "execution_events_select_all"
+  on execution_events for select
+  using (true);
+
+create policy "execution_events_insert_all"
+  on execution_events for insert
+  with check (true);
+
+comment on table execution_events is 'Append-only log of a live cooking session, for the post-meal report';
+comment on column execution_events.type is 'session_started, session_paused, session_resumed, session_ended, task_started, task_completed, task_skipped, task_reopened, tasks_rescheduled, timer_started, timer_finished, timer_dismissed';
+comment on column execution_events.data is 'Event details; session_started holds the planned task times and serve time';
@@ -0,0 +1,12 @@
+-- Migration: Learned task durations
+-- Sunday Dinner - Plan with how long steps really take this cook
+--
+-- Timeline generation corrects estimated durations using actual start and
+-- finish times from past meals' execution logs. The corrected length is
+-- kept on the task so the timeline can say "usually takes 35 min for you".
+
+alter table tasks
+  add column if not exists typical_duration_minutes integer
+    check (typical_duration_minutes is null or typical_duration_minutes > 0);
+
+comment on column tasks.typical_duration_minutes is 'How long this step usually takes, learned from past meals; null = no history';
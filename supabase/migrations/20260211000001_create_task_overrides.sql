@@ -0,0 +1,75 @@
+-- Migration: Create task_overrides table
+-- Sunday Dinner - Keep manual task edits when a timeline is regenerated
+--
+-- Regenerating replaces every task, so edits made by hand (a longer rest,
+-- a task moved to Saturday, a step deleted, a new order) are recorded per
+-- meal against the task's step key, a stable recipe + step identifier,
+-- and re-applied to the fresh tasks. The replaced tasks are kept on the
+-- timeline so the host can see what a regeneration changed.
+
+create table if not exists task_overrides (
+  id uuid primary key default gen_random_uuid(),
+
+  -- Meal the edit belongs to (outlives any one timeline)
+  meal_id uuid not null references meals(id) on delete cascade,
+
+  -- Task the edit applies to (see tasks.step_key)
+  step_key text not null,
+
+  -- Edited fields, in Task field names
+  changes jsonb not null default '{}',
+
+  -- Task was deleted by hand and stays deleted
+  deleted boolean not null default false,
+
+  -- Position in the list after reordering by hand
+  sort_order integer,
+
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  unique (meal_id, step_key)
+);
+
+create trigger task_overrides_updated_at
+  before update on task_overrides
+  for each row
+  execute function update_updated_at_column();
+
+-- Stable identity for matching tasks across regenerations
+alter table tasks
+  add column if not exists step_key text;
+
+-- Tasks as they were before the last regeneration, for the changes view
+alter table timelines
+  add column if not exists previous_tasks jsonb;
+
+-- Enable RLS
+alter table task_overrides enable row level security;
+
+-- =============================================================================
+-- RLS Policies
+-- =============================================================================
+
+-- Public access for v1 (no auth), matching the other meal tables
+create policy "task_overrides_select_all"
+  on task_overrides for select
+  using (true);
+
+create policy "task_overrides_insert_all"
+  on task_overrides for insert
+  with check (true);
+
+create policy "task_overrides_update_all"
+  on task_overrides for update
+  using (true)
+  with check (true);
+
+create policy "task_overrides_delete_all"
+  on task_overrides for delete
+  using (true);
+
+comment on table task_overrides is 'Manual task edits per meal, re-applied when the timeline is regenerated';
+comment on column task_overrides.changes is 'Edited Task fields (title, startTimeMinutes, durationMinutes, ...)';
+comment on column tasks.step_key is 'Recipe + instruction (or normalized title) with a repeat number; stable across regenerations';
+comment on column timelines.previous_tasks is 'Tasks before the last regeneration; null until the timeline has been regenerated';
@@ -0,0 +1,62 @@
+-- Migration: Create timeline_versions table
+-- Sunday Dinner - Version history, undo and restore for timelines
+--
+-- Every save of a timeline (generating, editing, deleting or reordering
+-- tasks, applying conflict fixes, restoring) stores a snapshot of its
+-- tasks with a one-line summary of what changed. Restoring copies a
+-- snapshot back and re-runs the validator; the editor's undo and redo
+-- are restores of the versions either side of the current one.
+
+create table if not exists timeline_versions (
+  id uuid primary key default gen_random_uuid(),
+
+  -- Timeline the snapshot belongs to
+  timeline_id uuid not null references timelines(id) on delete cascade,
+
+  -- Increasing number within the timeline (1 = first snapshot)
+  version integer not null check (version > 0),
+
+  -- What caused the save (see TimelineVersionSource)
+  source text not null,
+
+  -- What changed since the version before
+  summary text not null default '',
+
+  -- The tasks as saved, and the manual edits kept for regeneration
+  tasks jsonb not null default '[]',
+  overrides jsonb not null default '[]',
+  generated_by text,
+  task_count integer not null default 0,
+
+  created_at timestamptz not null default now(),
+
+  unique (timeline_id, version)
+);
+
+-- Latest version number on the timeline itself
+alter table timelines
+  add column if not exists version integer not null default 0;
+
+-- Enable RLS
+alter table timeline_versions enable row level security;
+
+-- =============================================================================
+-- RLS Policies
+-- =============================================================================
+
+-- Public access for v1 (no auth), matching the other meal tables
+create policy "timeline_versions_select_all"
+  on timeline_versions for select
+  using (true);
+
+create policy "timeline_versions_insert_all"
+  on timeline_versions for insert
+  with check (true);
+
+create policy "timeline_versions_delete_all"
+  on timeline_versions for delete
+  using (true);
+
+comment on table timeline_versions is 'Snapshot of a timeline''s tasks on every save, for history, undo and restore';
+comment on column timeline_versions.source is 'generated, edited, deleted, reordered, resolved, restored';
+comment on column timelines.version is 'Latest timeline_versions.version; 0 = no snapshot yet';
@@ -0,0 +1,14 @@
+-- Migration: Keep execution events tied to their step
+-- Sunday Dinner - Reports survive saving, regenerating or restoring a timeline
+--
+-- Saving a timeline deletes and reinserts its tasks, which sets
+-- execution_events.task_id to null. Each task event now also stores the
+-- task's step key and title when it's recorded, so the report and
+-- duration learning can find the task again.
+
+alter table execution_events
+  add column if not exists step_key text,
+  add column if not exists task_title text;
+
+comment on column execution_events.step_key is 'Step key of the task when the event was recorded (see tasks.step_key); null for session and timer events';
+comment on column execution_events.task_title is 'Title of the task when the event was recorded';
@@ -0,0 +1,9 @@
+-- Migration: Auto timer mode per meal
+-- Live mode can offer or start a timer when a hands-off task begins. The
+-- choice belongs to the meal, so every device cooking it behaves the same.
+
+alter table meals
+  add column auto_timer_mode text not null default 'offer'
+    check (auto_timer_mode in ('off', 'offer', 'auto'));
+
+comment on column meals.auto_timer_mode is 'What live mode does when a hands-off task starts: off, offer (ask first) or auto';